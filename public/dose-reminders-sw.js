@@ -0,0 +1,66 @@
+/**
+ * Dose reminders service worker
+ *
+ * Shows a notification for each scheduled dose. Where the browser supports
+ * notification triggers, the page hands over the next day's reminders and
+ * they fire even with the portal closed; otherwise the open page times them
+ * and asks this worker to show each one. "Mark as taken" goes back to the
+ * page, which owns the dose log.
+ */
+
+const TAG_PREFIX = 'dose:';
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', event => event.waitUntil(self.clients.claim()));
+
+const notificationOptions = reminder => ({
+  body: reminder.body,
+  tag: `${TAG_PREFIX}${reminder.id}`,
+  timestamp: reminder.at,
+  requireInteraction: true,
+  data: { doseId: reminder.id },
+  actions: [{ action: 'taken', title: 'Mark as taken' }],
+});
+
+async function schedule(reminders) {
+  if (!('showTrigger' in Notification.prototype)) return;
+  // The whole schedule is replaced - doses were taken or prescriptions changed
+  const pending = await self.registration.getNotifications({ includeTriggered: true });
+  pending
+    .filter(notification => notification.tag.startsWith(TAG_PREFIX) && notification.timestamp > Date.now())
+    .forEach(notification => notification.close());
+  await Promise.all(reminders.map(reminder =>
+    self.registration.showNotification(reminder.title, {
+      ...notificationOptions(reminder),
+      showTrigger: new TimestampTrigger(reminder.at),
+    })
+  ));
+}
+
+self.addEventListener('message', event => {
+  const message = event.data || {};
+  if (message.type === 'schedule') {
+    event.waitUntil(schedule(message.reminders || []));
+  } else if (message.type === 'show') {
+    event.waitUntil(self.registration.showNotification(message.reminder.title, notificationOptions(message.reminder)));
+  }
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const { doseId } = event.notification.data || {};
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (event.action === 'taken' && windows.length > 0) {
+      windows.forEach(client => client.postMessage({ type: 'dose-taken', doseId }));
+      return;
+    }
+    if (windows.length > 0) {
+      await windows[0].focus();
+      return;
+    }
+    // No portal open - the page logs the dose from the URL once it loads
+    await self.clients.openWindow(event.action === 'taken' ? `/?doseTaken=${encodeURIComponent(doseId)}` : '/');
+  })());
+});
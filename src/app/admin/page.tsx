@@ -0,0 +1,7 @@
+'use client';
+
+import EMRConfigAdmin from '@/components/admin/EMRConfigAdmin';
+
+export default function AdminPage() {
+  return <EMRConfigAdmin />;
+}
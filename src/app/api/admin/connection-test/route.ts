@@ -0,0 +1,70 @@
+/**
+ * POST /api/admin/connection-test
+ *
+ * "Test connection" for the admin screen: fetches the server's
+ * CapabilityStatement and SMART configuration. Runs server-side so EMRs
+ * that don't send CORS headers can still be checked.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+const TIMEOUT_MS = 10000;
+
+interface EndpointCheck {
+  url: string;
+  ok: boolean;
+  status?: number;
+  error?: string;
+  summary?: Record<string, unknown>;
+}
+
+async function checkEndpoint(
+  url: string,
+  summarize: (body: any) => Record<string, unknown>
+): Promise<EndpointCheck> {
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: 'application/fhir+json, application/json' },
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+      cache: 'no-store',
+    });
+    if (!response.ok) {
+      return { url, ok: false, status: response.status, error: `${response.status} ${response.statusText}` };
+    }
+    return { url, ok: true, status: response.status, summary: summarize(await response.json()) };
+  } catch (error) {
+    return { url, ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const { fhirBaseUrl } = await request.json().catch(() => ({}));
+  if (typeof fhirBaseUrl !== 'string' || !/^https?:\/\//.test(fhirBaseUrl)) {
+    return NextResponse.json({ error: 'fhirBaseUrl must be an http(s) URL' }, { status: 400 });
+  }
+
+  const baseUrl = fhirBaseUrl.replace(/\/+$/, '');
+
+  const [capabilityStatement, smartConfiguration] = await Promise.all([
+    checkEndpoint(`${baseUrl}/metadata`, body => ({
+      resourceType: body.resourceType,
+      fhirVersion: body.fhirVersion,
+      software: [body.software?.name, body.software?.version].filter(Boolean).join(' ') || undefined,
+      resources: body.rest?.[0]?.resource?.map((r: any) => r.type) || [],
+    })),
+    checkEndpoint(`${baseUrl}/.well-known/smart-configuration`, body => ({
+      authorizationEndpoint: body.authorization_endpoint,
+      tokenEndpoint: body.token_endpoint,
+      codeChallengeMethods: body.code_challenge_methods_supported || [],
+      capabilities: body.capabilities || [],
+    })),
+  ]);
+
+  return NextResponse.json({ capabilityStatement, smartConfiguration });
+}
@@ -0,0 +1,30 @@
+/**
+ * DELETE /api/admin/emr-configs/:id
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { getEMRConfigStore } from '@/lib/emr-config-store';
+
+export const dynamic = 'force-dynamic';
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const store = getEMRConfigStore();
+  if (store.readOnly) {
+    return NextResponse.json({ error: 'The EMR config store is read-only' }, { status: 409 });
+  }
+
+  try {
+    const removed = await store.remove(params.id);
+    if (!removed) {
+      return NextResponse.json({ error: `EMR config "${params.id}" not found` }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Failed to delete EMR config:', error);
+    return NextResponse.json({ error: 'Failed to delete EMR configuration' }, { status: 500 });
+  }
+}
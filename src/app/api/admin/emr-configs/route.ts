@@ -0,0 +1,72 @@
+/**
+ * /api/admin/emr-configs
+ *
+ * GET  - every stored config, across tenants, including invalid ones so they can be fixed
+ * POST - validate and create/replace a config
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { getEMRConfigStore } from '@/lib/emr-config-store';
+import { storedEMRConfigSchema } from '@/schemas/emrConfigSchema';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const store = getEMRConfigStore();
+    const entries = await store.list();
+
+    const configs = entries.map(entry => {
+      const result = storedEMRConfigSchema.safeParse(entry);
+      return {
+        config: entry,
+        issues: result.success ? [] : result.error.issues.map(issue => ({
+          path: issue.path.join('.'),
+          message: issue.message,
+        })),
+      };
+    });
+
+    return NextResponse.json({ configs, readOnly: store.readOnly });
+  } catch (error) {
+    console.error('Failed to list EMR configs:', error);
+    return NextResponse.json({ error: 'Failed to load EMR configurations' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const store = getEMRConfigStore();
+  if (store.readOnly) {
+    return NextResponse.json({ error: 'The EMR config store is read-only' }, { status: 409 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const result = storedEMRConfigSchema.safeParse(body);
+  if (!result.success) {
+    return NextResponse.json({
+      error: 'Invalid EMR config',
+      issues: result.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message })),
+    }, { status: 422 });
+  }
+
+  try {
+    await store.save(result.data);
+    return NextResponse.json(result.data);
+  } catch (error) {
+    console.error('Failed to save EMR config:', error);
+    return NextResponse.json({ error: 'Failed to save EMR configuration' }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * POST /api/auth/logout
+ * Body (optional): { providerId }
+ *
+ * Drops one provider's backend session cookie (disconnecting a linked
+ * account), or all of them when no provider is given.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { clearSession, sessionProviderIds } from '@/lib/session-cookie';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const { providerId } = await request.json().catch(() => ({}));
+  const providerIds = typeof providerId === 'string' ? [providerId] : sessionProviderIds(request);
+
+  const response = new NextResponse(null, { status: 204 });
+  providerIds.forEach(id => clearSession(response, id));
+  return response;
+}
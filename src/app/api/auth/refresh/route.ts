@@ -0,0 +1,49 @@
+/**
+ * POST /api/auth/refresh
+ * Body: { providerId }
+ *
+ * Refreshes a backend session's tokens now (e.g. "Stay signed in") and
+ * restarts the cookie's lifetime. Returns the new session expiry.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { findTenantConfig } from '@/lib/emr-config-store';
+import { clearSession, readSession, sessionMaxAge, writeSession } from '@/lib/session-cookie';
+import { isConfidentialClient, refreshSession, resolveServerConfig, TokenExchangeError } from '@/lib/token-exchange';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const { providerId } = await request.json().catch(() => ({}));
+  if (typeof providerId !== 'string') {
+    return NextResponse.json({ error: 'providerId is required' }, { status: 400 });
+  }
+
+  const session = readSession(request, providerId);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const stored = await findTenantConfig(request, session.providerId);
+  if (!stored || !isConfidentialClient(stored)) {
+    return NextResponse.json({ error: `Unknown confidential client: ${session.providerId}` }, { status: 404 });
+  }
+
+  try {
+    const refreshed = await refreshSession(await resolveServerConfig(stored), session);
+    const response = NextResponse.json(
+      { expiresAt: Date.now() + sessionMaxAge(refreshed) * 1000 },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+    writeSession(response, refreshed);
+    return response;
+  } catch (error) {
+    if (error instanceof TokenExchangeError) {
+      const response = NextResponse.json({ error: error.message }, { status: error.status });
+      if (error.status === 401) clearSession(response, providerId);
+      return response;
+    }
+    console.error('Session refresh failed:', error);
+    return NextResponse.json({ error: 'Session refresh failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * POST /api/auth/token
+ *
+ * Backend-for-frontend code exchange for confidential-client EMRs.
+ * Body: { providerId, code, codeVerifier? }
+ *
+ * Tokens go into the encrypted httpOnly session cookie; the browser only
+ * gets back the patient id and when the session ends.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { findTenantConfig } from '@/lib/emr-config-store';
+import { fhirUserFromIdToken } from '@/lib/session-store';
+import { sessionMaxAge, writeSession } from '@/lib/session-cookie';
+import { exchangeCode, isConfidentialClient, resolveServerConfig, TokenExchangeError } from '@/lib/token-exchange';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  let body: { providerId?: unknown; code?: unknown; codeVerifier?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const { providerId, code, codeVerifier } = body;
+  if (typeof providerId !== 'string' || typeof code !== 'string') {
+    return NextResponse.json({ error: 'providerId and code are required' }, { status: 400 });
+  }
+
+  const stored = await findTenantConfig(request, providerId);
+  if (!stored || !isConfidentialClient(stored)) {
+    return NextResponse.json({ error: `Unknown confidential client: ${providerId}` }, { status: 404 });
+  }
+
+  try {
+    const config = await resolveServerConfig(stored);
+    const session = await exchangeCode(config, code, typeof codeVerifier === 'string' ? codeVerifier : undefined);
+
+    const response = NextResponse.json({
+      providerId: session.providerId,
+      patientId: session.patientId ?? null,
+      // When the cookie goes, not the access token - the proxy refreshes those
+      expiresAt: Date.now() + sessionMaxAge(session) * 1000,
+      scope: session.scope ?? null,
+      fhirUser: fhirUserFromIdToken(session.idToken),
+    }, { headers: { 'Cache-Control': 'no-store' } });
+    writeSession(response, session);
+    return response;
+  } catch (error) {
+    if (error instanceof TokenExchangeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Token exchange failed:', error);
+    return NextResponse.json({ error: 'Token exchange failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * GET /api/emr-configs
+ *
+ * EMR provider configs for the requesting tenant (by hostname).
+ * Replaces the NEXT_PUBLIC_* configs that used to ship in the bundle.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { filterByTenant, loadEMRConfigs, requestHostname } from '@/lib/emr-config-store';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const configs = filterByTenant(await loadEMRConfigs(), requestHostname(request));
+
+    // Tenant lists are server-side routing info, not part of EMRProviderConfig
+    const providers = configs.map(({ tenants, ...config }) => config);
+
+    return NextResponse.json(providers, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('Failed to load EMR configs:', error);
+    return NextResponse.json(
+      { error: 'Failed to load EMR configurations' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest } from 'next/server';
+import type { StoredEMRConfig } from '@/schemas/emrConfigSchema';
+import { decryptSession, encryptSession, sessionCookieName, type BackendSession } from '@/lib/session-cookie';
+import { GET } from './route';
+
+jest.mock('@nirmiteeio/fhir-sdk', () => ({ parseJWT: jest.fn() }));
+// Endpoints are written out in the config, so there's nothing to discover
+jest.mock('@/app/smart-discovery', () => ({ discoverEMRConfigs: async (configs: unknown[]) => configs }));
+jest.mock('@/lib/emr-config-store', () => ({ findTenantConfig: async () => mockConfig }));
+
+const TOKEN_URL = 'https://auth.acme.example/token';
+const FHIR_BASE_URL = 'https://fhir.acme.example/r4';
+
+const mockConfig: StoredEMRConfig = {
+  id: 'acme',
+  name: 'Acme EMR',
+  authUrl: 'https://auth.acme.example/authorize',
+  tokenUrl: TOKEN_URL,
+  fhirBaseUrl: FHIR_BASE_URL,
+  clientId: 'portal',
+  redirectUri: 'https://portal.example/callback',
+  scopes: ['patient/*.rs', 'offline_access'],
+  oauth: { flow: 'authorization_code', pkce: true },
+  tokenEndpointAuthMethod: 'client_secret_post',
+};
+
+/**
+ * A token endpoint that rotates refresh tokens - each one works once
+ */
+function rotatingEMR(validRefreshToken: string) {
+  let current = validRefreshToken;
+  let issued = 0;
+  const tokenRequests: string[] = [];
+
+  const fetchMock = jest.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = String(input);
+    if (url === TOKEN_URL) {
+      const refreshToken = new URLSearchParams(String(init?.body)).get('refresh_token') ?? '';
+      tokenRequests.push(refreshToken);
+      // Let parallel requests pile up before the first one is answered
+      await new Promise(resolve => setTimeout(resolve, 10));
+      if (refreshToken !== current) {
+        return Response.json({ error: 'invalid_grant' }, { status: 400 });
+      }
+      issued += 1;
+      current = `refresh-${issued}`;
+      return Response.json({ access_token: `access-${issued}`, refresh_token: current, expires_in: 3600 });
+    }
+    const authorization = new Headers(init?.headers).get('authorization');
+    return Response.json({ resourceType: 'Patient', id: 'p1', meta: { source: authorization } });
+  });
+
+  return { fetchMock, tokenRequests };
+}
+
+const proxyRequest = (session: BackendSession) =>
+  new NextRequest(`http://localhost/api/fhir/acme/Patient/p1`, {
+    headers: { cookie: `${sessionCookieName('acme')}=${encryptSession(session)}` },
+  });
+
+const proxy = (session: BackendSession) =>
+  GET(proxyRequest(session), { params: { providerId: 'acme', path: ['Patient', 'p1'] } });
+
+const sessionCookie = (response: Response) => response.headers.get('set-cookie') ?? '';
+
+const expiringSession = (refreshToken: string): BackendSession => ({
+  providerId: 'acme',
+  accessToken: 'access-0',
+  refreshToken,
+  // Inside the one-minute refresh margin, but not expired yet
+  expiresAt: Date.now() + 30 * 1000,
+  patientId: 'p1',
+});
+
+describe('GET /api/fhir/:providerId/:path*', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    process.env.SESSION_SECRET = 'test-secret-that-is-at-least-32-characters';
+    process.env.EMR_ACME_CLIENT_SECRET = 'client-secret';
+    // Rejected refreshes are logged
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+    delete process.env.SESSION_SECRET;
+    delete process.env.EMR_ACME_CLIENT_SECRET;
+  });
+
+  it('refreshes once for concurrent requests near expiry', async () => {
+    const { fetchMock, tokenRequests } = rotatingEMR('refresh-0');
+    global.fetch = fetchMock;
+    const session = expiringSession('refresh-0');
+
+    const responses = await Promise.all([proxy(session), proxy(session), proxy(session)]);
+
+    expect(tokenRequests).toEqual(['refresh-0']);
+    for (const response of responses) {
+      expect(response.status).toBe(200);
+      expect((await response.json()).meta.source).toBe('Bearer access-1');
+      const cookieValue = sessionCookie(response).match(/fhir_session_acme=([^;]*)/)?.[1] ?? '';
+      expect(decryptSession(cookieValue)).toMatchObject({ accessToken: 'access-1', refreshToken: 'refresh-1' });
+    }
+  });
+
+  it('hands the refreshed tokens to a request sent with the old cookie', async () => {
+    const { fetchMock, tokenRequests } = rotatingEMR('refresh-a');
+    global.fetch = fetchMock;
+    const session = expiringSession('refresh-a');
+
+    await proxy(session);
+    const late = await proxy(session);
+
+    expect(tokenRequests).toEqual(['refresh-a']);
+    expect(late.status).toBe(200);
+    expect((await late.json()).meta.source).toBe('Bearer access-1');
+  });
+
+  it('keeps the cookie when the refresh token was already rotated elsewhere', async () => {
+    const { fetchMock } = rotatingEMR('refresh-rotated');
+    global.fetch = fetchMock;
+
+    const response = await proxy(expiringSession('refresh-stale'));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).meta.source).toBe('Bearer access-0');
+    expect(sessionCookie(response)).toBe('');
+  });
+
+  it('signs out when the refresh fails after the access token expired', async () => {
+    const { fetchMock } = rotatingEMR('refresh-rotated');
+    global.fetch = fetchMock;
+
+    const response = await proxy({ ...expiringSession('refresh-gone'), expiresAt: Date.now() - 1000 });
+
+    expect(response.status).toBe(401);
+    expect(sessionCookie(response)).toMatch(/fhir_session_acme=;/);
+  });
+});
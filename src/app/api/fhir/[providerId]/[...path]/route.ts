@@ -0,0 +1,85 @@
+/**
+ * GET /api/fhir/:providerId/:path*
+ *
+ * FHIR proxy for confidential-client EMRs. Adds the access token from the
+ * session cookie, refreshing it first when it's about to expire, so the
+ * browser never holds EMR tokens.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { findTenantConfig } from '@/lib/emr-config-store';
+import { clearSession, readSession, writeSession } from '@/lib/session-cookie';
+import { isConfidentialClient, refreshSession, resolveServerConfig, TokenExchangeError } from '@/lib/token-exchange';
+
+export const dynamic = 'force-dynamic';
+
+// Refresh a minute early, same margin as SMARTAuthClient.isTokenExpired
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+interface RouteParams {
+  params: { providerId: string; path: string[] };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { providerId, path } = params;
+
+  const session = readSession(request, providerId);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in to this EMR' }, { status: 401 });
+  }
+  if (path.some(segment => segment === '..' || segment === '.')) {
+    return NextResponse.json({ error: 'Invalid FHIR path' }, { status: 400 });
+  }
+
+  const stored = await findTenantConfig(request, providerId);
+  if (!stored || !isConfidentialClient(stored)) {
+    return NextResponse.json({ error: `Unknown confidential client: ${providerId}` }, { status: 404 });
+  }
+
+  try {
+    const config = await resolveServerConfig(stored);
+
+    let current = session;
+    if (Date.now() >= session.expiresAt - EXPIRY_MARGIN_MS) {
+      try {
+        current = await refreshSession(config, session);
+      } catch (error) {
+        // Another server may have rotated this refresh token already - while the
+        // access token still works, use it and leave the newer cookie alone
+        if (!(error instanceof TokenExchangeError) || Date.now() >= session.expiresAt) throw error;
+      }
+    }
+
+    const upstreamUrl = new URL(`${config.fhirBaseUrl.replace(/\/+$/, '')}/${path.map(encodeURIComponent).join('/')}`);
+    upstreamUrl.search = request.nextUrl.search;
+
+    const upstream = await fetch(upstreamUrl, {
+      headers: {
+        ...config.quirks?.customHeaders,
+        Accept: request.headers.get('accept') || config.quirks?.acceptHeader || 'application/fhir+json',
+        Authorization: `Bearer ${current.accessToken}`,
+      },
+      cache: 'no-store',
+    });
+
+    // Streamed as-is so Binary attachments (PDFs, images) arrive byte-for-byte
+    const response = new NextResponse(upstream.body, {
+      status: upstream.status,
+      headers: {
+        'Content-Type': upstream.headers.get('content-type') || 'application/fhir+json',
+        'Cache-Control': 'no-store',
+      },
+    });
+    if (current !== session) writeSession(response, current);
+    return response;
+  } catch (error) {
+    if (error instanceof TokenExchangeError) {
+      const response = NextResponse.json({ error: error.message }, { status: error.status });
+      // A refresh the EMR rejected won't work next time either
+      if (error.status === 401) clearSession(response, providerId);
+      return response;
+    }
+    console.error('FHIR proxy request failed:', error);
+    return NextResponse.json({ error: 'FHIR request failed' }, { status: 502 });
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Backend Sessions (confidential clients)
+ *
+ * For EMRs with a tokenEndpointAuthMethod, the browser never exchanges the
+ * code itself: it hands it to /api/auth/token, which keeps the tokens in an
+ * httpOnly cookie, and FHIR calls go through /api/fhir/<providerId>.
+ *
+ * The SDK still expects a token in LocalStorageTokenStorage to consider the
+ * user logged in, so we store a marker in its place.
+ */
+
+import { emrRegistry, LocalStorageTokenStorage, SessionStorageAuthState } from '@nirmiteeio/fhir-sdk';
+import type { FHIRClient, TokenStorage } from '@nirmiteeio/fhir-sdk';
+import type { EMRConfig } from './emr-configs';
+
+// Stands in for the access token - never sent anywhere (see useBackendProxy)
+export const BACKEND_TOKEN_MARKER = 'backend-session';
+
+export function isBackendProvider(providerId: string | null | undefined): boolean {
+  if (!providerId || !emrRegistry.hasProvider(providerId)) return false;
+  const config = emrRegistry.getProvider(providerId) as EMRConfig;
+  return Boolean(config.tokenEndpointAuthMethod && config.tokenEndpointAuthMethod !== 'none');
+}
+
+/**
+ * Proxy URL prefix for a backend provider's FHIR requests
+ */
+export function backendFhirBaseUrl(providerId: string): string {
+  return `/api/fhir/${encodeURIComponent(providerId)}`;
+}
+
+// FHIRClient has no way to remove interceptors - only ever add one per client
+const proxiedClients = new WeakSet<FHIRClient>();
+
+/**
+ * Route `fhirClient`'s requests through the proxy if `providerId` is a backend
+ * provider. Safe to call repeatedly; returns whether the provider is one.
+ */
+export function installBackendProxy(providerId: string, fhirClient: FHIRClient | null | undefined): boolean {
+  const isBackend = isBackendProvider(providerId);
+  if (!isBackend || !fhirClient || proxiedClients.has(fhirClient)) return isBackend;
+  proxiedClients.add(fhirClient);
+
+  const fhirBaseUrl = emrRegistry.getProvider(providerId).fhirBaseUrl.replace(/\/+$/, '');
+  const proxyBaseUrl = backendFhirBaseUrl(providerId);
+
+  fhirClient.addRequestInterceptor(async (url, options) => {
+    const { Authorization, ...headers } = (options.headers || {}) as Record<string, string>;
+    return {
+      url: url.startsWith(fhirBaseUrl) ? proxyBaseUrl + url.slice(fhirBaseUrl.length) : url,
+      options: { ...options, headers },
+    };
+  });
+  return isBackend;
+}
+
+export interface BackendCallbackResult {
+  patientId: string | null;
+  expiresAt: number;
+  scope: string | null;
+  fhirUser: string | null;
+}
+
+/**
+ * Finish the OAuth callback through the server instead of SMARTAuthClient.handleCallback.
+ * `storage` is where the marker goes - the SDK default, or a linked account's.
+ */
+export async function completeBackendCallback(
+  providerId: string,
+  callbackUrl: string,
+  storage: TokenStorage = new LocalStorageTokenStorage()
+): Promise<BackendCallbackResult> {
+  const url = new URL(callbackUrl);
+  const code = url.searchParams.get('code');
+  const state = url.searchParams.get('state');
+  const error = url.searchParams.get('error');
+
+  if (error) {
+    throw new Error(`Authorization failed: ${error}`);
+  }
+  if (!code || !state) {
+    throw new Error('Authorization code or state missing from callback URL');
+  }
+
+  const authState = new SessionStorageAuthState();
+  if (state !== authState.getState()) {
+    throw new Error('State mismatch - possible CSRF attack');
+  }
+
+  const response = await fetch('/api/auth/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      providerId,
+      code,
+      codeVerifier: authState.getCodeVerifier() || undefined,
+    }),
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || `Token exchange failed (${response.status})`);
+  }
+
+  const result: BackendCallbackResult = await response.json();
+  await storage.setAccessToken(BACKEND_TOKEN_MARKER);
+  await storage.setTokenExpiry(result.expiresAt);
+  if (result.patientId) {
+    await storage.setPatientId(result.patientId);
+  }
+  authState.clear();
+  return result;
+}
+
+/**
+ * Refresh the server-held tokens now; returns the new session expiry (ms)
+ */
+export async function refreshBackendSession(
+  providerId: string,
+  storage: TokenStorage = new LocalStorageTokenStorage()
+): Promise<number> {
+  const response = await fetch('/api/auth/refresh', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ providerId }),
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || `Session refresh failed (${response.status})`);
+  }
+
+  const { expiresAt } = await response.json();
+  await storage.setTokenExpiry(expiresAt);
+  return expiresAt;
+}
+
+/**
+ * Drop the server-side session for one provider, or all of them; the SDK's
+ * own logout clears local storage
+ */
+export async function endBackendSession(providerId?: string): Promise<void> {
+  try {
+    await fetch('/api/auth/logout', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(providerId ? { providerId } : {}),
+    });
+  } catch (error) {
+    console.error('Failed to end backend session:', error);
+  }
+}
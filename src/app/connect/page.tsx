@@ -0,0 +1,8 @@
+'use client';
+
+import Login from '@/components/Login';
+
+// Signed in, the login screen connects further EMR accounts to the session
+export default function ConnectPage() {
+  return <Login />;
+}
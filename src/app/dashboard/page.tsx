@@ -1,7 +1,13 @@
 'use client';
 
+import { Suspense } from 'react';
 import Dashboard from '@/components/Dashboard';
 
+// The dashboard reads its date range from the query string
 export default function DashboardPage() {
-  return <Dashboard />;
-}
\ No newline at end of file
+  return (
+    <Suspense>
+      <Dashboard />
+    </Suspense>
+  );
+}
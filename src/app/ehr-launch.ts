@@ -0,0 +1,150 @@
+/**
+ * EHR Launch - SMART "launch + iss" support
+ *
+ * When the portal is embedded in an EHR (Epic, Cerner, ...), the EHR opens
+ * /launch?iss=...&launch=... instead of the user picking an EMR.
+ * This maps `iss` to one of our EMR configs and keeps the launch-specific
+ * provider alive across the OAuth redirect.
+ */
+
+import type { EMRProviderConfig } from '@nirmiteeio/fhir-sdk';
+import { emrRegistry } from '@nirmiteeio/fhir-sdk';
+import { applyDiscovery, discoverSmartConfiguration } from './smart-discovery';
+
+const LAUNCH_PROVIDER_KEY = 'ehr_launch_provider';
+const ADHOC_PROVIDER_ID = 'ehr-launch';
+
+interface SavedLaunchProvider {
+  provider: EMRProviderConfig;
+  original?: EMRProviderConfig;
+}
+
+/**
+ * Thrown when the EHR sends an `iss` we have no config for
+ */
+export class UnknownIssuerError extends Error {
+  constructor(public iss: string) {
+    super(`No EMR is configured for FHIR server "${iss}"`);
+    this.name = 'UnknownIssuerError';
+  }
+}
+
+/**
+ * Compare FHIR base URLs regardless of case and trailing slashes
+ */
+function normalizeUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '').toLowerCase();
+}
+
+/**
+ * Find the registered provider whose fhirBaseUrl matches `iss`
+ */
+export function findProviderByIssuer(iss: string): EMRProviderConfig | undefined {
+  const target = normalizeUrl(iss);
+  return emrRegistry.listProviders().find(
+    provider => provider.fhirBaseUrl && normalizeUrl(provider.fhirBaseUrl) === target
+  );
+}
+
+/**
+ * Swap standalone launch scopes (launch/patient) for the EHR `launch` scope
+ */
+function withLaunchScope(config: EMRProviderConfig): EMRProviderConfig {
+  const scopes = config.scopes.filter(scope => !scope.startsWith('launch'));
+  return { ...config, scopes: [...scopes, 'launch'] };
+}
+
+/**
+ * Build a provider for an `iss` we don't know, using the server's
+ * SMART configuration and the shared EHR launch client ID
+ */
+async function buildAdhocProvider(iss: string): Promise<EMRProviderConfig | null> {
+  const clientId = process.env.NEXT_PUBLIC_EHR_LAUNCH_CLIENT_ID;
+  if (!clientId) return null;
+
+  const discovery = await discoverSmartConfiguration(iss);
+  if (!discovery) return null;
+
+  const baseUrl = iss.replace(/\/+$/, '');
+  const config = applyDiscovery({
+    id: ADHOC_PROVIDER_ID,
+    name: new URL(baseUrl).hostname,
+    fhirBaseUrl: baseUrl,
+    clientId,
+    redirectUri: process.env.NEXT_PUBLIC_REDIRECT_URI!,
+    scopes: ['openid', 'fhirUser', 'patient/*.read'],
+    oauth: {
+      flow: 'authorization_code',
+      pkce: true,
+      responseType: 'code',
+    },
+    quirks: {
+      acceptHeader: 'application/fhir+json',
+      patientIdLocation: 'token.patient',
+      tokenParsingStrategy: 'standard',
+    },
+  }, discovery);
+
+  return config as EMRProviderConfig;
+}
+
+/**
+ * Resolve `iss` to a provider, register it with the `launch` scope and
+ * remember it for the callback. Throws UnknownIssuerError if nothing matches.
+ */
+export async function prepareLaunchProvider(iss: string): Promise<EMRProviderConfig> {
+  const base = findProviderByIssuer(iss) || await buildAdhocProvider(iss);
+  if (!base) {
+    throw new UnknownIssuerError(iss);
+  }
+
+  // Keep the standalone config so clearLaunchProvider() can put it back
+  const original = emrRegistry.hasProvider(base.id) ? emrRegistry.getProvider(base.id) : undefined;
+  const saved: SavedLaunchProvider = JSON.parse(sessionStorage.getItem(LAUNCH_PROVIDER_KEY) || 'null');
+
+  const launchProvider = withLaunchScope(base);
+  emrRegistry.registerProvider(launchProvider);
+  sessionStorage.setItem(LAUNCH_PROVIDER_KEY, JSON.stringify({
+    provider: launchProvider,
+    // A relaunch must not mistake the previous launch copy for the original
+    original: saved?.provider.id === base.id ? saved.original : original,
+  }));
+
+  return launchProvider;
+}
+
+/**
+ * Re-register the launch provider after the OAuth redirect reloads the app
+ */
+export function restoreLaunchProvider(): void {
+  if (typeof window === 'undefined') return;
+
+  const saved = sessionStorage.getItem(LAUNCH_PROVIDER_KEY);
+  if (!saved) return;
+
+  try {
+    const { provider }: SavedLaunchProvider = JSON.parse(saved);
+    emrRegistry.registerProvider(provider);
+  } catch (error) {
+    console.error('Failed to restore EHR launch provider:', error);
+    sessionStorage.removeItem(LAUNCH_PROVIDER_KEY);
+  }
+}
+
+/**
+ * Forget the EHR launch provider (e.g. user starts a standalone login instead)
+ */
+export function clearLaunchProvider(): void {
+  const saved = sessionStorage.getItem(LAUNCH_PROVIDER_KEY);
+  if (!saved) return;
+
+  sessionStorage.removeItem(LAUNCH_PROVIDER_KEY);
+
+  // Put the standalone config back in place of the launch-scoped copy
+  const { provider, original }: SavedLaunchProvider = JSON.parse(saved);
+  if (original) {
+    emrRegistry.registerProvider(original);
+  } else {
+    emrRegistry.removeProvider(provider.id);
+  }
+}
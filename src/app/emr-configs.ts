@@ -4,23 +4,50 @@
  * Define ALL EMR settings here. SDK will just use what you pass.
  * SDK has ZERO hardcoded configs - it's a pure engine.
  *
+ * authUrl/tokenUrl are optional - anything left out is discovered from the
+ * server's SMART configuration (see smart-discovery.ts).
+ *
  * PRODUCTION: Replace this with API call to fetch from database
  */
 
 import type { EMRProviderConfig } from '@nirmiteeio/fhir-sdk';
 import { HTTP_STATUS } from '@nirmiteeio/fhir-sdk';
 
+/**
+ * How the client authenticates at the token endpoint.
+ * 'none' (default) is a public client - the browser exchanges the code.
+ * The others are confidential clients: the code goes to /api/auth/token and
+ * the secret/key is read server-side from EMR_<ID>_CLIENT_SECRET,
+ * EMR_<ID>_PRIVATE_KEY and EMR_<ID>_KEY_ID.
+ */
+export type TokenEndpointAuthMethod = 'none' | 'client_secret_basic' | 'client_secret_post' | 'private_key_jwt';
+
+/**
+ * The registered config, plus the app-level settings the SDK doesn't know about
+ */
+export type EMRConfig = EMRProviderConfig & {
+  tokenEndpointAuthMethod?: TokenEndpointAuthMethod;
+};
+
+/**
+ * EMR config before discovery - endpoints may be left out
+ */
+export type EMRConfigInput = Omit<EMRConfig, 'authUrl' | 'tokenUrl'> & {
+  authUrl?: string;
+  tokenUrl?: string;
+};
+
 /**
  * Your EMR Configurations
  * Modify these or fetch from API/database
  */
-export const EMR_CONFIGS: EMRProviderConfig[] = [
+export const EMR_CONFIGS: EMRConfigInput[] = [
   // Epic
   {
     id: 'epic',
     name: 'Epic Systems',
-    authUrl: process.env.NEXT_PUBLIC_SMART_AUTH_URL!,
-    tokenUrl: process.env.NEXT_PUBLIC_SMART_TOKEN_URL!,
+    authUrl: process.env.NEXT_PUBLIC_SMART_AUTH_URL,
+    tokenUrl: process.env.NEXT_PUBLIC_SMART_TOKEN_URL,
     fhirBaseUrl: process.env.NEXT_PUBLIC_FHIR_BASE_URL!,
     clientId: process.env.NEXT_PUBLIC_CLIENT_ID!,
     redirectUri: process.env.NEXT_PUBLIC_REDIRECT_URI!,
@@ -86,8 +113,8 @@ export const EMR_CONFIGS: EMRProviderConfig[] = [
   {
     id: 'athena',
     name: 'Athena Health',
-    authUrl: process.env.NEXT_PUBLIC_ATHENA_AUTH_URL!,
-    tokenUrl: process.env.NEXT_PUBLIC_ATHENA_TOKEN_URL!,
+    authUrl: process.env.NEXT_PUBLIC_ATHENA_AUTH_URL,
+    tokenUrl: process.env.NEXT_PUBLIC_ATHENA_TOKEN_URL,
     fhirBaseUrl: process.env.NEXT_PUBLIC_ATHENA_FHIR_BASE_URL!,
     clientId: process.env.NEXT_PUBLIC_ATHENA_CLIENT_ID!,
     redirectUri: process.env.NEXT_PUBLIC_ATHENA_REDIRECT_URI || process.env.NEXT_PUBLIC_REDIRECT_URI!,
@@ -135,8 +162,8 @@ export const EMR_CONFIGS: EMRProviderConfig[] = [
   {
     id: 'allscripts',
     name: 'Allscripts',
-    authUrl: process.env.NEXT_PUBLIC_ALLSCRIPTS_AUTH_URL!,
-    tokenUrl: process.env.NEXT_PUBLIC_ALLSCRIPTS_TOKEN_URL!,
+    authUrl: process.env.NEXT_PUBLIC_ALLSCRIPTS_AUTH_URL,
+    tokenUrl: process.env.NEXT_PUBLIC_ALLSCRIPTS_TOKEN_URL,
     fhirBaseUrl: process.env.NEXT_PUBLIC_ALLSCRIPTS_FHIR_BASE_URL!,
     clientId: process.env.NEXT_PUBLIC_ALLSCRIPTS_CLIENT_ID!,
     redirectUri: process.env.NEXT_PUBLIC_REDIRECT_URI!,
@@ -172,8 +199,8 @@ export const EMR_CONFIGS: EMRProviderConfig[] = [
   {
     id: 'nextgen',
     name: 'NextGen Healthcare',
-    authUrl: process.env.NEXT_PUBLIC_NEXTGEN_AUTH_URL!,
-    tokenUrl: process.env.NEXT_PUBLIC_NEXTGEN_TOKEN_URL!,
+    authUrl: process.env.NEXT_PUBLIC_NEXTGEN_AUTH_URL,
+    tokenUrl: process.env.NEXT_PUBLIC_NEXTGEN_TOKEN_URL,
     fhirBaseUrl: process.env.NEXT_PUBLIC_NEXTGEN_FHIR_BASE_URL!,
     clientId: process.env.NEXT_PUBLIC_NEXTGEN_CLIENT_ID!,
     redirectUri: process.env.NEXT_PUBLIC_REDIRECT_URI!,
@@ -213,12 +240,11 @@ export const EMR_CONFIGS: EMRProviderConfig[] = [
 
 /**
  * Filter to only configured EMRs (with valid credentials)
+ * Endpoints are checked after discovery, in discoverEMRConfigs()
  */
-export function getConfiguredEMRs(): EMRProviderConfig[] {
+export function getConfiguredEMRs(): EMRConfigInput[] {
   return EMR_CONFIGS.filter(config =>
     config.clientId &&
-    config.authUrl &&
-    config.tokenUrl &&
     config.fhirBaseUrl
   );
 }
@@ -0,0 +1,7 @@
+'use client';
+
+import EHRLaunch from '@/components/EHRLaunch';
+
+export default function LaunchPage() {
+  return <EHRLaunch />;
+}
@@ -1,51 +1,106 @@
 'use client'
 
 import { Inter } from 'next/font/google'
+import { usePathname } from 'next/navigation'
 import Sidebar from '@/components/Sidebar'
 import TopBar from '@/components/TopBar'
 import Login from '@/components/Login'
 import './globals.css'
-import useAuth from '@/hooks/useAuth'
 import useLayoutManager from '@/hooks/useLayoutManager'
+import useSdkReady from '@/hooks/useSdkReady'
 import { ThemeProvider } from '@/contexts/ThemeContext'
-import './sdk-init' // Initialize FHIR SDK
+import { UnitPreferenceProvider } from '@/contexts/UnitPreferenceContext'
+import { SessionProvider, useSession } from '@/contexts/SessionContext'
+import { emrRegistry } from './sdk-init' // Initialize FHIR SDK
 
 const inter = Inter({ subsets: ['latin'] })
 
-export default function RootLayout({
-  children,
-}: {
-  children: React.ReactNode
-}) {
-  const { isLoggedIn } = useAuth()
+function PortalShell({ children }: { children: React.ReactNode }) {
+  const { isLoggedIn, isLoading: sessionLoading } = useSession()
+  const pathname = usePathname()
+  const { isReady: sdkReady, error: sdkError } = useSdkReady()
   const { showSidebar, showTopBar, toggleSidebar, toggleTopBar } = useLayoutManager(isLoggedIn)
 
-  if (!isLoggedIn) {
+  // Providers aren't registered until the configs are loaded and discovered,
+  // and logged-in state isn't known until the session store has loaded
+  if (!sdkReady || sessionLoading) {
+    return <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100" />
+  }
+
+  // EHR launch starts a fresh session and admin isn't a patient page,
+  // so both render whether or not a patient is logged in
+  if (pathname === '/launch' || pathname?.startsWith('/admin')) {
+    return (
+      <ThemeProvider>
+        {children}
+      </ThemeProvider>
+    )
+  }
+
+  // Login needs at least one provider to build an auth client for
+  if (!isLoggedIn && (sdkError || emrRegistry.listProviders().length === 0)) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-8">
+        <div className="bg-white rounded-lg shadow-md p-8 max-w-md text-center space-y-2">
+          <h1 className="text-xl font-semibold text-gray-800">Health portal unavailable</h1>
+          <p className="text-gray-600">
+            {sdkError ? `We couldn't load the EMR configuration: ${sdkError}` : 'No EMR systems are configured for this site yet.'}
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  // Connecting another EMR goes through Login too, which signs in first if needed
+  if (pathname === '/connect') {
     return (
-      <html lang="en">
-        <body className={inter.className}>
-          <ThemeProvider>
-            <Login />
-          </ThemeProvider>
-        </body>
-      </html>
+      <ThemeProvider>
+        {children}
+      </ThemeProvider>
+    )
+  }
+
+  // An OAuth callback always goes through Login, even mid-session
+  // (re-authorizing for more scopes comes back here while still signed in)
+  const params = new URLSearchParams(window.location.search)
+  const isOAuthCallback = params.has('code') && params.has('state')
+
+  if (!isLoggedIn || isOAuthCallback) {
+    return (
+      <ThemeProvider>
+        <Login />
+      </ThemeProvider>
     )
   }
 
+  return (
+    <ThemeProvider>
+      <UnitPreferenceProvider>
+        <div className="flex h-screen bg-gray-100 dark:bg-gray-900">
+          {/* {showSidebar && <Sidebar />} */}
+          <div className="flex-1 flex flex-col overflow-hidden">
+            {/* {showTopBar && <TopBar toggleSidebar={toggleSidebar} />} */}
+            <main className="flex-1 overflow-x-hidden overflow-y-auto">
+              {children}
+            </main>
+          </div>
+        </div>
+      </UnitPreferenceProvider>
+    </ThemeProvider>
+  )
+}
+
+export default function RootLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
   return (
     <html lang="en">
       <body className={inter.className}>
-        <ThemeProvider>
-          <div className="flex h-screen bg-gray-100 dark:bg-gray-900">
-            {/* {showSidebar && <Sidebar />} */}
-            <div className="flex-1 flex flex-col overflow-hidden">
-              {/* {showTopBar && <TopBar toggleSidebar={toggleSidebar} />} */}
-              <main className="flex-1 overflow-x-hidden overflow-y-auto">
-                {children}
-              </main>
-            </div>
-          </div>
-        </ThemeProvider>
+        <SessionProvider>
+          <PortalShell>{children}</PortalShell>
+        </SessionProvider>
       </body>
     </html>
   )
@@ -0,0 +1,89 @@
+/**
+ * Linked EMR Accounts
+ *
+ * A patient signed in with one EMR can connect accounts at others. Each
+ * linked account authorizes like a normal login but keeps its tokens under
+ * its own LocalStorageTokenStorage prefix, so they never overwrite the
+ * primary account's. The prefix still starts with the SDK's `fhir_sdk_`, so
+ * logging out of the primary account clears linked tokens too.
+ */
+
+import { FHIRClient, LocalStorageTokenStorage, SMARTAuthClient } from '@nirmiteeio/fhir-sdk';
+import { completeBackendCallback, endBackendSession, installBackendProxy, isBackendProvider } from './backend-session';
+import { parseScopes, sessionFromSdkStorage, type SessionAccount } from '@/lib/session-store';
+
+// Survives the redirect to the EMR and back, like the SDK's own auth state
+const LINK_PROVIDER_KEY = 'link_account_provider';
+
+export function linkedTokenStorage(providerId: string): LocalStorageTokenStorage {
+  // Trailing separator so "epic" never matches "epic_sandbox" keys on clear()
+  return new LocalStorageTokenStorage(`fhir_sdk_linked:${providerId}:`);
+}
+
+export function linkedAuthClient(providerId: string): SMARTAuthClient {
+  return new SMARTAuthClient(providerId, { storage: linkedTokenStorage(providerId) });
+}
+
+/**
+ * FHIR client for a linked account - its own tokens, proxied if it's a backend provider
+ */
+export function linkedFhirClient(providerId: string): FHIRClient {
+  const fhirClient = new FHIRClient({ providerId, authClient: linkedAuthClient(providerId) });
+  installBackendProxy(providerId, fhirClient);
+  return fhirClient;
+}
+
+/**
+ * Send the user to `providerId`'s login to add it alongside the current session
+ */
+export async function startLinkAccount(providerId: string): Promise<void> {
+  sessionStorage.setItem(LINK_PROVIDER_KEY, providerId);
+  window.location.href = await linkedAuthClient(providerId).authorize();
+}
+
+/**
+ * Provider a link is in progress for, if the current callback belongs to one
+ */
+export function pendingLinkProvider(): string | null {
+  return typeof window !== 'undefined' ? sessionStorage.getItem(LINK_PROVIDER_KEY) : null;
+}
+
+export function clearPendingLink(): void {
+  sessionStorage.removeItem(LINK_PROVIDER_KEY);
+}
+
+/**
+ * Finish a link callback into the account's own storage (or backend cookie)
+ */
+export async function completeLinkCallback(providerId: string, callbackUrl: string): Promise<SessionAccount> {
+  clearPendingLink();
+  const storage = linkedTokenStorage(providerId);
+
+  if (isBackendProvider(providerId)) {
+    const result = await completeBackendCallback(providerId, callbackUrl, storage);
+    return {
+      providerId,
+      patientId: result.patientId,
+      expiresAt: result.expiresAt,
+      scopes: parseScopes(result.scope),
+      fhirUser: result.fhirUser,
+    };
+  }
+
+  const tokenResponse = await linkedAuthClient(providerId).handleCallback(callbackUrl);
+  const account = await sessionFromSdkStorage(providerId, tokenResponse.scope, storage);
+  if (!account) {
+    throw new Error('No access token received');
+  }
+  return account;
+}
+
+/**
+ * Forget a linked account's tokens; the caller drops it from the session
+ */
+export async function disconnectAccount(providerId: string): Promise<void> {
+  if (isBackendProvider(providerId)) {
+    await endBackendSession(providerId);
+  }
+  await linkedTokenStorage(providerId).clear();
+}
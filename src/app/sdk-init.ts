@@ -3,19 +3,63 @@
  *
  * Pass your EMR configs to SDK.
  * SDK has NO hardcoded configs - it just uses what you give it.
+ *
+ * Configs come from the server (/api/emr-configs), so client IDs aren't baked
+ * into the bundle, and missing endpoints are discovered before registering.
+ * Registration is async - wait on `sdkReady` before creating auth clients.
  */
 
+import type { EMRProviderConfig } from '@nirmiteeio/fhir-sdk';
 import { emrRegistry } from '@nirmiteeio/fhir-sdk';
-import { getConfiguredEMRs } from './emr-configs';
+import type { EMRConfigInput } from './emr-configs';
+import { discoverEMRConfigs } from './smart-discovery';
+import { restoreLaunchProvider } from './ehr-launch';
+
+/**
+ * Fetch this tenant's EMR configs from the server
+ */
+async function fetchEMRConfigs(): Promise<EMRConfigInput[]> {
+  const response = await fetch('/api/emr-configs', { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Failed to load EMR configs (${response.status})`);
+  }
+  return response.json();
+}
+
+async function initializeSDK(): Promise<EMRProviderConfig[]> {
+  // Nothing to register during server rendering - the layout waits for the client
+  if (typeof window === 'undefined') return [];
+
+  // Get EMR configs from the API, filled in by discovery
+  const emrConfigs = await discoverEMRConfigs(await fetchEMRConfigs());
+
+  // Pass to SDK - SDK just registers and uses them
+  emrRegistry.registerProviders(emrConfigs);
 
-// Get EMR configs from your app (from env vars or API)
-const emrConfigs = getConfiguredEMRs();
+  // Bring back the launch-scoped provider if we're mid EHR launch
+  restoreLaunchProvider();
+
+  console.log(`✅ SDK initialized with ${emrConfigs.length} EMR(s):`,
+    emrConfigs.map(c => c.name).join(', ')
+  );
+
+  return emrConfigs;
+}
+
+export const sdkReady = initializeSDK();
+
+/**
+ * Re-fetch configs and replace everything in the registry
+ * (e.g. after the admin screen saves a provider) - no page reload needed
+ */
+export async function reloadProviders(): Promise<EMRProviderConfig[]> {
+  const emrConfigs = await discoverEMRConfigs(await fetchEMRConfigs());
 
-// Pass to SDK - SDK just registers and uses them
-emrRegistry.registerProviders(emrConfigs);
+  emrRegistry.clear();
+  emrRegistry.registerProviders(emrConfigs);
+  restoreLaunchProvider();
 
-console.log(`✅ SDK initialized with ${emrConfigs.length} EMR(s):`,
-  emrConfigs.map(c => c.name).join(', ')
-);
+  return emrConfigs;
+}
 
 export { emrRegistry };
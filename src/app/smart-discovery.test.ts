@@ -0,0 +1,183 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { EMRConfigInput } from './emr-configs';
+import { applyDiscovery, clearDiscoveryCache, discoverSmartConfiguration } from './smart-discovery';
+import capabilityStatement from './__fixtures__/smart-discovery/metadata.json';
+import smartConfiguration from './__fixtures__/smart-discovery/smart-configuration.json';
+
+// Three FHIR servers: one SMART v2, one that only has a CapabilityStatement,
+// and one that has neither
+const FIXTURES: Record<string, unknown> = {
+  '/smart/.well-known/smart-configuration': smartConfiguration,
+  '/legacy/metadata': capabilityStatement,
+};
+
+let server: Server;
+let origin: string;
+const requested: string[] = [];
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const path = request.url || '';
+    requested.push(path);
+    const fixture = FIXTURES[path];
+    response.writeHead(fixture ? 200 : 404, { 'Content-Type': 'application/json' });
+    response.end(fixture ? JSON.stringify(fixture) : '{}');
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+/**
+ * Enough of localStorage for the discovery cache - keys are own properties,
+ * so Object.keys lists them like the browser's
+ */
+class MemoryStorage implements Storage {
+  [key: string]: unknown;
+
+  get length() {
+    return Object.keys(this).length;
+  }
+
+  clear() {
+    Object.keys(this).forEach(key => this.removeItem(key));
+  }
+
+  getItem(key: string) {
+    const value = Object.prototype.hasOwnProperty.call(this, key) ? this[key] : null;
+    return typeof value === 'string' ? value : null;
+  }
+
+  key(index: number) {
+    return Object.keys(this)[index] ?? null;
+  }
+
+  removeItem(key: string) {
+    delete this[key];
+  }
+
+  setItem(key: string, value: string) {
+    this[key] = String(value);
+  }
+}
+
+const config = (pkce: boolean): EMRConfigInput => ({
+  id: 'example',
+  name: 'Example EMR',
+  fhirBaseUrl: 'https://fhir.example.org/r4',
+  clientId: 'client',
+  redirectUri: 'https://portal.example.org/callback',
+  scopes: ['openid', 'patient/*.rs'],
+  oauth: { flow: 'authorization_code', pkce },
+});
+
+describe('discoverSmartConfiguration', () => {
+  beforeEach(() => {
+    clearDiscoveryCache();
+    requested.length = 0;
+  });
+  afterEach(() => jest.useRealTimers());
+
+  it('reads .well-known/smart-configuration', async () => {
+    expect(await discoverSmartConfiguration(`${origin}/smart/`)).toEqual({
+      authorizationEndpoint: 'https://auth.example.org/authorize',
+      tokenEndpoint: 'https://auth.example.org/token',
+      codeChallengeMethods: ['S256'],
+      capabilities: ['launch-standalone', 'permission-offline'],
+      scopesSupported: ['openid', 'patient/*.rs'],
+      source: 'smart-configuration',
+    });
+    expect(requested).toEqual(['/smart/.well-known/smart-configuration']);
+  });
+
+  it('falls back to the CapabilityStatement security extension', async () => {
+    expect(await discoverSmartConfiguration(`${origin}/legacy`)).toMatchObject({
+      authorizationEndpoint: 'https://legacy.example.org/oauth2/authorize',
+      tokenEndpoint: 'https://legacy.example.org/oauth2/token',
+      codeChallengeMethods: [],
+      supportedResources: ['Patient', 'Observation'],
+      source: 'metadata',
+    });
+    expect(requested).toEqual(['/legacy/.well-known/smart-configuration', '/legacy/metadata']);
+  });
+
+  it('returns null and caches nothing when both lookups fail', async () => {
+    expect(await discoverSmartConfiguration(`${origin}/down`)).toBeNull();
+    await discoverSmartConfiguration(`${origin}/down`);
+    expect(requested).toHaveLength(4);
+  });
+
+  it('serves from the cache for an hour, then looks again', async () => {
+    jest.useFakeTimers({ now: new Date('2024-05-01T09:00:00Z'), doNotFake: ['nextTick', 'setImmediate', 'setTimeout'] });
+
+    await discoverSmartConfiguration(`${origin}/smart`);
+    jest.setSystemTime(new Date('2024-05-01T09:59:00Z'));
+    await discoverSmartConfiguration(`${origin}/SMART`);
+    expect(requested).toHaveLength(1);
+
+    jest.setSystemTime(new Date('2024-05-01T10:01:00Z'));
+    await discoverSmartConfiguration(`${origin}/smart`);
+    expect(requested).toHaveLength(2);
+  });
+
+  it('takes an injected fetch', async () => {
+    const fetch = jest.fn<ReturnType<typeof globalThis.fetch>, Parameters<typeof globalThis.fetch>>(
+      async () => Response.json(smartConfiguration)
+    );
+    await discoverSmartConfiguration('https://fhir.example.org/r4', { fetch });
+    expect(fetch).toHaveBeenCalledWith('https://fhir.example.org/r4/.well-known/smart-configuration', expect.anything());
+    expect(requested).toEqual([]);
+  });
+
+  describe('in the browser', () => {
+    beforeEach(() => {
+      Object.assign(globalThis, { window: globalThis, localStorage: new MemoryStorage() });
+    });
+    afterEach(() => {
+      Reflect.deleteProperty(globalThis, 'window');
+      Reflect.deleteProperty(globalThis, 'localStorage');
+    });
+
+    it('keeps results across page loads in localStorage', async () => {
+      await discoverSmartConfiguration(`${origin}/smart`);
+      expect(Object.keys(localStorage)).toEqual([`smart_discovery_${origin}/smart`]);
+
+      clearDiscoveryCache();
+      expect(localStorage.length).toBe(0);
+    });
+  });
+});
+
+describe('applyDiscovery', () => {
+  const discovery = (codeChallengeMethods: string[]) => ({
+    authorizationEndpoint: 'https://auth.example.org/authorize',
+    tokenEndpoint: 'https://auth.example.org/token',
+    codeChallengeMethods,
+    capabilities: [],
+    scopesSupported: [],
+    source: 'smart-configuration' as const,
+  });
+
+  it('turns PKCE on when the server supports S256', () => {
+    expect(applyDiscovery(config(false), discovery(['S256'])).oauth.pkce).toBe(true);
+  });
+
+  it('turns PKCE off when the server only offers plain', () => {
+    expect(applyDiscovery(config(true), discovery(['plain'])).oauth.pkce).toBe(false);
+  });
+
+  it('keeps the configured PKCE flag when the server does not say', () => {
+    expect(applyDiscovery(config(true), discovery([])).oauth.pkce).toBe(true);
+    expect(applyDiscovery(config(false), discovery([])).oauth.pkce).toBe(false);
+  });
+
+  it('keeps hand-written endpoints', () => {
+    const configured = { ...config(true), authUrl: 'https://custom.example.org/authorize' };
+    expect(applyDiscovery(configured, discovery(['S256']))).toMatchObject({
+      authUrl: 'https://custom.example.org/authorize',
+      tokenUrl: 'https://auth.example.org/token',
+    });
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * SMART Configuration Discovery
+ *
+ * Looks up a FHIR server's OAuth endpoints instead of hand-writing them:
+ * 1. {fhirBaseUrl}/.well-known/smart-configuration
+ * 2. {fhirBaseUrl}/metadata (CapabilityStatement security extensions)
+ *
+ * Results are cached for an hour in memory and in localStorage, so the OAuth
+ * redirect doesn't trigger a second round of lookups.
+ */
+
+import type { CapabilityStatement, Extension } from 'fhir/r4';
+import type { EMRConfig, EMRConfigInput } from './emr-configs';
+
+const OAUTH_URIS_EXTENSION = 'http://fhir-registry.smarthealthit.org/StructureDefinition/oauth-uris';
+const CACHE_PREFIX = 'smart_discovery_';
+const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+export interface SmartDiscovery {
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  codeChallengeMethods: string[];
+  capabilities: string[];
+  scopesSupported: string[];
+  supportedResources?: string[];
+  source: 'smart-configuration' | 'metadata';
+}
+
+// The parts of /.well-known/smart-configuration we read
+interface SmartConfiguration {
+  authorization_endpoint?: string;
+  token_endpoint?: string;
+  code_challenge_methods_supported?: string[];
+  capabilities?: string[];
+  scopes_supported?: string[];
+}
+
+export interface DiscoveryOptions {
+  /** Defaults to the global fetch - pass one in for tests or a server-side agent */
+  fetch?: typeof fetch;
+}
+
+// Entries expire with the stored copy, so long-running servers pick up changes too
+const memoryCache = new Map<string, { fetchedAt: number; discovery: Promise<SmartDiscovery | null> }>();
+
+function cacheKey(fhirBaseUrl: string): string {
+  return fhirBaseUrl.trim().replace(/\/+$/, '').toLowerCase();
+}
+
+interface CachedDiscovery {
+  fetchedAt: number;
+  discovery: SmartDiscovery;
+}
+
+function readStoredDiscovery(key: string): CachedDiscovery | null {
+  if (typeof window === 'undefined') return null;
+
+  const stored = localStorage.getItem(CACHE_PREFIX + key);
+  if (!stored) return null;
+
+  try {
+    const entry: CachedDiscovery = JSON.parse(stored);
+    if (Date.now() - entry.fetchedAt < CACHE_TTL_MS) {
+      return entry;
+    }
+  } catch {
+    // Corrupt entry - fall through and refetch
+  }
+  localStorage.removeItem(CACHE_PREFIX + key);
+  return null;
+}
+
+function storeDiscovery(key: string, discovery: SmartDiscovery): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(CACHE_PREFIX + key, JSON.stringify({ fetchedAt: Date.now(), discovery }));
+}
+
+async function fetchJson<T>(url: string, fetchImpl: typeof fetch): Promise<T | null> {
+  try {
+    const response = await fetchImpl(url, { headers: { Accept: 'application/json' } });
+    if (!response.ok) return null;
+    return await response.json();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read endpoints from /.well-known/smart-configuration
+ */
+async function fromSmartConfiguration(baseUrl: string, fetchImpl: typeof fetch): Promise<SmartDiscovery | null> {
+  const smartConfig = await fetchJson<SmartConfiguration>(`${baseUrl}/.well-known/smart-configuration`, fetchImpl);
+  if (!smartConfig?.authorization_endpoint || !smartConfig?.token_endpoint) return null;
+
+  return {
+    authorizationEndpoint: smartConfig.authorization_endpoint,
+    tokenEndpoint: smartConfig.token_endpoint,
+    codeChallengeMethods: smartConfig.code_challenge_methods_supported || [],
+    capabilities: smartConfig.capabilities || [],
+    scopesSupported: smartConfig.scopes_supported || [],
+    source: 'smart-configuration',
+  };
+}
+
+/**
+ * Read endpoints from the CapabilityStatement's oauth-uris security extension
+ */
+async function fromCapabilityStatement(baseUrl: string, fetchImpl: typeof fetch): Promise<SmartDiscovery | null> {
+  const metadata = await fetchJson<CapabilityStatement>(`${baseUrl}/metadata`, fetchImpl);
+  const rest = metadata?.rest?.find(r => r.mode === 'server') || metadata?.rest?.[0];
+  const oauthUris: Extension | undefined = rest?.security?.extension?.find(e => e.url === OAUTH_URIS_EXTENSION);
+  const uri = (name: string) => oauthUris?.extension?.find(e => e.url === name)?.valueUri;
+
+  const authorizationEndpoint = uri('authorize');
+  const tokenEndpoint = uri('token');
+  if (!authorizationEndpoint || !tokenEndpoint) return null;
+
+  return {
+    authorizationEndpoint,
+    tokenEndpoint,
+    // Pre-SMART-v2 servers don't advertise PKCE support here
+    codeChallengeMethods: [],
+    capabilities: [],
+    scopesSupported: [],
+    supportedResources: rest?.resource?.map(r => r.type).filter(Boolean),
+    source: 'metadata',
+  };
+}
+
+/**
+ * Discover a FHIR server's SMART configuration (cached)
+ */
+export function discoverSmartConfiguration(
+  fhirBaseUrl: string,
+  { fetch: fetchImpl = fetch }: DiscoveryOptions = {}
+): Promise<SmartDiscovery | null> {
+  const key = cacheKey(fhirBaseUrl);
+
+  const cached = memoryCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) return cached.discovery;
+
+  const stored = readStoredDiscovery(key);
+  if (stored) {
+    const resolved = Promise.resolve(stored.discovery);
+    memoryCache.set(key, { fetchedAt: stored.fetchedAt, discovery: resolved });
+    return resolved;
+  }
+
+  const baseUrl = fhirBaseUrl.trim().replace(/\/+$/, '');
+  const pending = (async () => {
+    const discovery = await fromSmartConfiguration(baseUrl, fetchImpl) || await fromCapabilityStatement(baseUrl, fetchImpl);
+    if (discovery) {
+      storeDiscovery(key, discovery);
+    } else {
+      // Don't cache misses - the server may just be down right now
+      memoryCache.delete(key);
+    }
+    return discovery;
+  })();
+
+  memoryCache.set(key, { fetchedAt: Date.now(), discovery: pending });
+  return pending;
+}
+
+/**
+ * Clear cached discovery results (all servers, or just one)
+ */
+export function clearDiscoveryCache(fhirBaseUrl?: string): void {
+  const keys = fhirBaseUrl ? [cacheKey(fhirBaseUrl)] : Array.from(memoryCache.keys());
+  keys.forEach(key => memoryCache.delete(key));
+
+  if (typeof window === 'undefined') return;
+  Object.keys(localStorage)
+    .filter(key => fhirBaseUrl ? key === CACHE_PREFIX + cacheKey(fhirBaseUrl) : key.startsWith(CACHE_PREFIX))
+    .forEach(key => localStorage.removeItem(key));
+}
+
+/**
+ * Fill in a config's endpoints, PKCE flag and capabilities from discovery.
+ * Hand-written authUrl/tokenUrl still win, so existing configs keep working.
+ */
+export function applyDiscovery(config: EMRConfigInput, discovery: SmartDiscovery | null): EMRConfigInput {
+  if (!discovery) return config;
+
+  const pkce = discovery.codeChallengeMethods.length > 0
+    ? discovery.codeChallengeMethods.includes('S256')
+    : config.oauth.pkce;
+
+  const supportsRefreshToken = discovery.capabilities.length > 0
+    ? discovery.capabilities.includes('permission-offline')
+    : config.capabilities?.supportsRefreshToken;
+
+  return {
+    ...config,
+    authUrl: config.authUrl || discovery.authorizationEndpoint,
+    tokenUrl: config.tokenUrl || discovery.tokenEndpoint,
+    oauth: { ...config.oauth, pkce },
+    capabilities: {
+      ...config.capabilities,
+      supportedResources: config.capabilities?.supportedResources || discovery.supportedResources,
+      supportsRefreshToken,
+    },
+  };
+}
+
+function isComplete(config: EMRConfigInput): config is EMRConfig {
+  return Boolean(config.authUrl && config.tokenUrl);
+}
+
+/**
+ * Run discovery for every config and return the ones that ended up usable.
+ * Providers we still can't reach are reported instead of silently dropped.
+ */
+export async function discoverEMRConfigs(configs: EMRConfigInput[], options?: DiscoveryOptions): Promise<EMRConfig[]> {
+  const discovered = await Promise.all(
+    configs.map(async config => applyDiscovery(config, await discoverSmartConfiguration(config.fhirBaseUrl, options)))
+  );
+
+  const incomplete = discovered.filter(config => !isComplete(config));
+  if (incomplete.length > 0) {
+    console.warn(
+      '⚠️  Skipping EMR(s) with no authUrl/tokenUrl (not configured and discovery failed):',
+      incomplete.map(c => c.name).join(', ')
+    );
+  }
+
+  return discovered.filter(isComplete);
+}
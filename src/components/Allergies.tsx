@@ -0,0 +1,169 @@
+import React, { useMemo } from 'react';
+import { AlertOctagon, AlertTriangle, CheckCircle, HelpCircle, ShieldAlert } from 'lucide-react';
+import { AllergyIntolerance } from 'fhir/r4';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import ProvenanceBadge from './ProvenanceBadge';
+import { reconcile } from '@/lib/reconcile';
+import {
+  allergyListStatus,
+  compareAllergies,
+  isCurrentAllergy,
+  isHighCriticality,
+  isRecordedAllergy,
+  manifestations,
+  substanceName,
+  worstSeverity,
+} from '@/lib/allergies';
+
+const getSeverityColor = (severity?: string) => {
+  switch (severity) {
+    case 'severe': return 'bg-red-100 text-red-800';
+    case 'moderate': return 'bg-yellow-100 text-yellow-800';
+    case 'mild': return 'bg-green-100 text-green-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+interface AllergyCardProps {
+  allergy: AllergyIntolerance;
+  sources: AllergyIntolerance[];
+}
+
+const AllergyCard: React.FC<AllergyCardProps> = ({ allergy, sources }) => {
+  const severity = worstSeverity(allergy);
+  const reactions = manifestations(allergy);
+  const critical = isHighCriticality(allergy);
+  const status = allergy.clinicalStatus?.coding?.[0]?.code;
+
+  return (
+    <Card className={`mb-3 ${critical ? 'border-red-500 border-2 bg-red-50' : ''}`} role={critical ? 'alert' : undefined}>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex justify-between items-start gap-2">
+          <span className={`text-lg font-semibold flex items-center ${critical ? 'text-red-700' : 'text-gray-900'}`}>
+            {critical && <AlertOctagon className="h-5 w-5 mr-2" />}
+            {substanceName(allergy)}
+          </span>
+          <div className="flex items-center gap-2 flex-wrap justify-end">
+            <ProvenanceBadge sources={sources} />
+            {allergy.criticality && (
+              <Badge variant={critical ? 'destructive' : 'outline'} className="capitalize">
+                {allergy.criticality === 'unable-to-assess' ? 'Criticality unknown' : `${allergy.criticality} criticality`}
+              </Badge>
+            )}
+            {status && status !== 'active' && (
+              <Badge variant="outline" className="capitalize">{status}</Badge>
+            )}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm text-gray-600">
+        <div className="flex flex-wrap gap-2">
+          {allergy.category?.map(category => (
+            <Badge key={category} variant="secondary" className="capitalize">{category}</Badge>
+          ))}
+          {allergy.type && <Badge variant="secondary" className="capitalize">{allergy.type}</Badge>}
+          {severity && (
+            <Badge variant="outline" className={`capitalize ${getSeverityColor(severity)}`}>{severity} reaction</Badge>
+          )}
+        </div>
+        <p>
+          <span className="font-medium text-gray-900">Reactions: </span>
+          {reactions.length > 0 ? reactions.join(', ') : 'Not recorded'}
+        </p>
+        {allergy.note?.[0]?.text && (
+          <p className="text-xs text-gray-500 italic">{allergy.note[0].text}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+interface AllergiesProps {
+  allergies: AllergyIntolerance[];
+  /** The EMR couldn't be asked or returned an error */
+  unavailable?: boolean;
+}
+
+const Allergies: React.FC<AllergiesProps> = ({ allergies, unavailable = false }) => {
+  const status = allergyListStatus(allergies, unavailable);
+
+  const { current, past } = useMemo(() => {
+    const entries = reconcile(allergies.filter(isRecordedAllergy), 'AllergyIntolerance')
+      .sort((a, b) => compareAllergies(a.resource, b.resource));
+    return {
+      current: entries.filter(entry => isCurrentAllergy(entry.resource)),
+      past: entries.filter(entry => !isCurrentAllergy(entry.resource)),
+    };
+  }, [allergies]);
+
+  const criticalCount = current.filter(entry => isHighCriticality(entry.resource)).length;
+
+  return (
+    <div className="mt-8 bg-gradient-to-r from-red-50 to-orange-50 p-6 rounded-lg shadow-lg">
+      <h2 className="text-2xl font-bold text-red-800 mb-4 flex items-center">
+        <ShieldAlert className="mr-2" /> Allergies & Intolerances
+      </h2>
+
+      {criticalCount > 0 && (
+        <Alert variant="destructive" className="mb-4 bg-white">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>High-risk allergies</AlertTitle>
+          <AlertDescription>
+            {criticalCount} allerg{criticalCount > 1 ? 'ies' : 'y'} could cause a life-threatening reaction. Make sure every provider knows.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <ScrollArea className="h-[600px] pr-4">
+        {status === 'no-known-allergies' && (
+          <Card>
+            <CardContent className="flex items-center justify-center h-32 text-green-700">
+              <CheckCircle className="h-5 w-5 mr-2" /> No known allergies - your record says you have none
+            </CardContent>
+          </Card>
+        )}
+        {status === 'none-recorded' && past.length > 0 && (
+          <Card>
+            <CardContent className="flex items-center justify-center h-24 text-gray-600">
+              No current allergies - only resolved or inactive ones are on record
+            </CardContent>
+          </Card>
+        )}
+        {status === 'none-recorded' && past.length === 0 && (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center h-32 text-gray-600 text-center">
+              <HelpCircle className="h-5 w-5 mb-2" />
+              <p>No allergy information on record.</p>
+              <p className="text-xs">This doesn&apos;t mean you have no allergies - tell your provider about any you know of.</p>
+            </CardContent>
+          </Card>
+        )}
+        {status === 'unavailable' && (
+          <Card>
+            <CardContent className="flex items-center justify-center h-32 text-gray-600">
+              <HelpCircle className="h-5 w-5 mr-2" /> Allergy information couldn&apos;t be loaded
+            </CardContent>
+          </Card>
+        )}
+
+        {current.map(entry => (
+          <AllergyCard key={entry.key} allergy={entry.resource} sources={entry.sources} />
+        ))}
+
+        {past.length > 0 && (
+          <section className="mt-6 opacity-75">
+            <h3 className="text-lg font-semibold mb-3 text-gray-700">Resolved or inactive</h3>
+            {past.map(entry => (
+              <AllergyCard key={entry.key} allergy={entry.resource} sources={entry.sources} />
+            ))}
+          </section>
+        )}
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default Allergies;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { AlertOctagon, CheckCircle, HelpCircle, ShieldAlert } from 'lucide-react';
+import { AllergyIntolerance } from 'fhir/r4';
+import {
+  allergyListStatus,
+  compareAllergies,
+  isCurrentAllergy,
+  isHighCriticality,
+  substanceName,
+} from '@/lib/allergies';
+
+interface AllergyBannerProps {
+  allergies: AllergyIntolerance[];
+  isLoading?: boolean;
+  /** The EMR couldn't be asked or returned an error */
+  unavailable?: boolean;
+  onViewAll?: () => void;
+}
+
+// Always-visible allergy summary for the patient sidebar
+const AllergyBanner: React.FC<AllergyBannerProps> = ({ allergies, isLoading = false, unavailable = false, onViewAll }) => {
+  if (isLoading) {
+    return <div className="mb-4 h-10 rounded-md animate-pulse bg-gray-200" />;
+  }
+
+  const status = allergyListStatus(allergies, unavailable);
+  const current = allergies.filter(isCurrentAllergy).sort(compareAllergies);
+  const hasCritical = current.some(isHighCriticality);
+  // Duplicates across EMRs share a name - list each substance once, high risk first
+  const names = Array.from(new Set(current.map(substanceName)));
+  const criticalNames = new Set(current.filter(isHighCriticality).map(substanceName));
+
+  const styles = {
+    allergies: hasCritical ? 'bg-red-50 border-red-500 text-red-800' : 'bg-orange-50 border-orange-300 text-orange-800',
+    'no-known-allergies': 'bg-green-50 border-green-300 text-green-800',
+    'none-recorded': 'bg-gray-50 border-gray-300 text-gray-700',
+    unavailable: 'bg-gray-50 border-gray-300 text-gray-700',
+  }[status];
+
+  const Icon = status === 'allergies' ? (hasCritical ? AlertOctagon : ShieldAlert)
+    : status === 'no-known-allergies' ? CheckCircle : HelpCircle;
+
+  return (
+    <button
+      type="button"
+      onClick={onViewAll}
+      className={`mb-4 w-full rounded-md border-l-4 p-3 text-left text-sm ${styles}`}
+      aria-label={hasCritical ? 'High-risk allergies - view all allergies' : 'View allergies'}
+    >
+      <div className="flex items-start gap-2">
+        <Icon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+        <div className="min-w-0">
+          {status === 'allergies' && (
+            <>
+              <p className="font-semibold">Allergies{hasCritical && ' - high risk'}</p>
+              <p className="truncate">
+                {names.map((name, index) => (
+                  <span key={name} className={criticalNames.has(name) ? 'font-semibold' : undefined}>
+                    {index > 0 && ', '}{name}
+                  </span>
+                ))}
+              </p>
+            </>
+          )}
+          {status === 'no-known-allergies' && <p className="font-semibold">No known allergies</p>}
+          {status === 'none-recorded' && (
+            <p><span className="font-semibold">Allergies not recorded</span> - no data returned</p>
+          )}
+          {status === 'unavailable' && <p className="font-semibold">Allergy information unavailable</p>}
+        </div>
+      </div>
+    </button>
+  );
+};
+
+export default AllergyBanner;
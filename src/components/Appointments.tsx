@@ -1,6 +1,7 @@
 import React from 'react';
 import { Calendar, Clock, MapPin, User, AlertCircle, CheckCircle, XCircle } from 'lucide-react';
 import { Appointment } from 'fhir/r4';
+import SourceBadge from './SourceBadge';
 
 interface AppointmentsProps {
   appointments: Appointment[];
@@ -66,6 +67,7 @@ const Appointments: React.FC<AppointmentsProps> = ({ appointments }) => {
                       <span className={`ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(appointment.status || 'unknown')}`}>
                         {appointment.status}
                       </span>
+                      <SourceBadge resource={appointment} className="ml-2" />
                     </div>
                     <p className="text-sm font-semibold text-gray-900">{appointment.serviceType?.[0]?.text || 'General Appointment'}</p>
                     <p className="text-sm text-gray-500">{appointment.description}</p>
@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import { ClipboardList, Calendar, CheckCircle, CircleDot, PauseCircle, User } from 'lucide-react';
+import { Condition } from 'fhir/r4';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import ProvenanceBadge from './ProvenanceBadge';
+import { reconcile } from '@/lib/reconcile';
+import {
+  abatementText,
+  clinicalStatus,
+  conditionCodes,
+  conditionGroup,
+  conditionName,
+  isDisplayableCondition,
+  onsetDate,
+  onsetText,
+  verificationStatus,
+  type ConditionGroup,
+} from '@/lib/conditions';
+
+const GROUPS: { id: ConditionGroup; label: string; icon: typeof CircleDot; color: string }[] = [
+  { id: 'active', label: 'Active', icon: CircleDot, color: 'text-red-600' },
+  { id: 'inactive', label: 'Inactive', icon: PauseCircle, color: 'text-yellow-600' },
+  { id: 'resolved', label: 'Resolved', icon: CheckCircle, color: 'text-green-600' },
+];
+
+const getClinicalStatusColor = (status?: string) => {
+  switch (status) {
+    case 'active':
+    case 'recurrence':
+    case 'relapse':
+      return 'bg-red-100 text-red-800';
+    case 'inactive':
+    case 'remission':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'resolved':
+      return 'bg-green-100 text-green-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+interface ConditionCardProps {
+  condition: Condition;
+  sources: Condition[];
+}
+
+const ConditionCard: React.FC<ConditionCardProps> = ({ condition, sources }) => {
+  const status = clinicalStatus(condition);
+  const verification = verificationStatus(condition);
+  const onset = onsetText(condition);
+  const abatement = abatementText(condition);
+  const codes = conditionCodes(condition);
+
+  return (
+    <Card className="mb-3">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex justify-between items-start gap-2">
+          <span className="text-lg font-semibold text-indigo-700">{conditionName(condition)}</span>
+          <div className="flex items-center gap-2 flex-wrap justify-end">
+            <ProvenanceBadge sources={sources} />
+            {status && (
+              <Badge variant="outline" className={`capitalize ${getClinicalStatusColor(status)}`}>
+                {status}
+              </Badge>
+            )}
+            {verification && verification !== 'confirmed' && (
+              <Badge variant="outline" className="capitalize" title="Verification status">
+                {verification}
+              </Badge>
+            )}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm text-gray-600">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <div className="flex items-center">
+            <Calendar className="h-4 w-4 mr-2 text-gray-400" />
+            Onset: {onset || 'Unknown'}
+          </div>
+          {abatement && (
+            <div className="flex items-center">
+              <CheckCircle className="h-4 w-4 mr-2 text-gray-400" />
+              Resolved: {abatement}
+            </div>
+          )}
+          {condition.recorder?.display && (
+            <div className="flex items-center">
+              <User className="h-4 w-4 mr-2 text-gray-400" />
+              Recorded by {condition.recorder.display}
+            </div>
+          )}
+          {verification === 'confirmed' && (
+            <div className="flex items-center">
+              <CheckCircle className="h-4 w-4 mr-2 text-gray-400" />
+              Confirmed diagnosis
+            </div>
+          )}
+        </div>
+        {codes.length > 0 && (
+          <div className="flex flex-wrap gap-2 pt-1">
+            {codes.map(code => (
+              <Badge key={`${code.system}-${code.code}`} variant="secondary" className="font-mono text-xs" title={code.display}>
+                {code.system}: {code.code}
+              </Badge>
+            ))}
+          </div>
+        )}
+        {condition.note?.[0]?.text && (
+          <p className="text-xs text-gray-500 italic">{condition.note[0].text}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+interface ConditionsProps {
+  conditions: Condition[];
+}
+
+const Conditions: React.FC<ConditionsProps> = ({ conditions }) => {
+  const [visibleGroups, setVisibleGroups] = useState<ConditionGroup[]>(['active', 'inactive', 'resolved']);
+
+  const grouped = useMemo(() => {
+    const entries = reconcile(conditions.filter(isDisplayableCondition), 'Condition')
+      .sort((a, b) => new Date(onsetDate(b.resource) || 0).getTime() - new Date(onsetDate(a.resource) || 0).getTime());
+
+    const groups: Record<ConditionGroup, typeof entries> = { active: [], inactive: [], resolved: [] };
+    entries.forEach(entry => groups[conditionGroup(entry.resource)].push(entry));
+    return groups;
+  }, [conditions]);
+
+  const toggleGroup = (group: ConditionGroup) => {
+    setVisibleGroups(current => current.includes(group) ? current.filter(g => g !== group) : [...current, group]);
+  };
+
+  const total = grouped.active.length + grouped.inactive.length + grouped.resolved.length;
+
+  return (
+    <div className="mt-8 bg-gradient-to-r from-indigo-50 to-purple-50 p-6 rounded-lg shadow-lg">
+      <h2 className="text-2xl font-bold text-indigo-800 mb-4 flex items-center">
+        <ClipboardList className="mr-2" /> Your Health Conditions
+      </h2>
+      <div className="flex flex-wrap gap-2 mb-4">
+        {GROUPS.map(group => (
+          <Button
+            key={group.id}
+            size="sm"
+            variant={visibleGroups.includes(group.id) ? 'default' : 'outline'}
+            onClick={() => toggleGroup(group.id)}
+          >
+            {group.label} ({grouped[group.id].length})
+          </Button>
+        ))}
+      </div>
+      <ScrollArea className="h-[600px] pr-4">
+        {total === 0 ? (
+          <Card>
+            <CardContent className="flex items-center justify-center h-32">
+              <p className="text-gray-600">No conditions on record</p>
+            </CardContent>
+          </Card>
+        ) : (
+          GROUPS.filter(group => visibleGroups.includes(group.id) && grouped[group.id].length > 0).map(group => (
+            <section key={group.id} className="mb-6">
+              <h3 className={`text-lg font-semibold mb-3 flex items-center ${group.color}`}>
+                <group.icon className="h-5 w-5 mr-2" /> {group.label}
+              </h3>
+              {grouped[group.id].map(entry => (
+                <ConditionCard key={entry.key} condition={entry.resource} sources={entry.sources} />
+              ))}
+            </section>
+          ))
+        )}
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default Conditions;
@@ -0,0 +1,127 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Link2, Plus, Unlink } from 'lucide-react';
+import { emrRegistry } from '@nirmiteeio/fhir-sdk';
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useSession } from '@/contexts/SessionContext';
+import { disconnectAccount, startLinkAccount } from '@/app/linked-accounts';
+import { isSessionActive, type SessionAccount } from '@/lib/session-store';
+
+const providerName = (providerId: string) =>
+  emrRegistry.hasProvider(providerId) ? emrRegistry.getProvider(providerId).name : providerId;
+
+// Linked accounts with refresh tokens renew on their own when fetched
+const accountStatus = (account: SessionAccount) => {
+  const canRefresh = emrRegistry.hasProvider(account.providerId) &&
+    emrRegistry.getProvider(account.providerId).capabilities?.supportsRefreshToken;
+  return isSessionActive(account) || canRefresh ? 'Connected' : 'Expired';
+};
+
+const ConnectedAccountsPanel: React.FC = () => {
+  const { session, updateSession } = useSession();
+  const [selectedProviderId, setSelectedProviderId] = useState('');
+  const [pendingProviderId, setPendingProviderId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!session) return null;
+
+  const linkedAccounts = session.linkedAccounts || [];
+  const connectedIds = new Set([session.providerId, ...linkedAccounts.map(account => account.providerId)]);
+  const availableProviders = emrRegistry.listProviders().filter(provider => !connectedIds.has(provider.id));
+
+  const handleConnect = async () => {
+    if (!selectedProviderId) return;
+    setPendingProviderId(selectedProviderId);
+    setError(null);
+    try {
+      await startLinkAccount(selectedProviderId);
+    } catch (err) {
+      console.error('Failed to connect account:', err);
+      setError(err instanceof Error ? err.message : 'Failed to connect account');
+      setPendingProviderId(null);
+    }
+  };
+
+  const handleDisconnect = async (providerId: string) => {
+    setPendingProviderId(providerId);
+    setError(null);
+    try {
+      await disconnectAccount(providerId);
+      await updateSession({
+        linkedAccounts: linkedAccounts.filter(account => account.providerId !== providerId),
+      });
+    } catch (err) {
+      console.error('Failed to disconnect account:', err);
+      setError(err instanceof Error ? err.message : 'Failed to disconnect account');
+    } finally {
+      setPendingProviderId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <h3 className="font-semibold flex items-center">
+          <Link2 className="mr-2 h-4 w-4" /> Connected Accounts
+        </h3>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <ul className="space-y-2">
+          <li className="flex items-center justify-between gap-2 text-sm">
+            <div className="min-w-0">
+              <p className="font-medium truncate">{providerName(session.providerId)}</p>
+              <p className="text-xs text-muted-foreground">Signed in - log out to disconnect</p>
+            </div>
+            <Badge variant="secondary">Primary</Badge>
+          </li>
+          {linkedAccounts.map(account => {
+            const status = accountStatus(account);
+            return (
+              <li key={account.providerId} className="flex items-center justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{providerName(account.providerId)}</p>
+                  <p className={`text-xs ${status === 'Expired' ? 'text-red-600' : 'text-muted-foreground'}`}>{status}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDisconnect(account.providerId)}
+                  disabled={pendingProviderId === account.providerId}
+                  title={`Disconnect ${providerName(account.providerId)}`}
+                >
+                  <Unlink className="h-4 w-4" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+
+        {availableProviders.length > 0 && (
+          <div className="flex gap-2">
+            <Select value={selectedProviderId} onValueChange={setSelectedProviderId}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Add another EMR" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableProviders.map(provider => (
+                  <SelectItem key={provider.id} value={provider.id}>{provider.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={handleConnect} disabled={!selectedProviderId || !!pendingProviderId}>
+              <Plus className="mr-1 h-4 w-4" /> Connect
+            </Button>
+          </div>
+        )}
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ConnectedAccountsPanel;
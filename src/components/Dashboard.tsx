@@ -7,9 +7,9 @@
 
 'use client';
 
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
-import { User, Bell, Calendar, Pill, Activity, FileText, Stethoscope, ChevronRight, Plus } from 'lucide-react';
+import { User, Bell, Calendar, Pill, Activity, FileText, Stethoscope, ChevronRight, Plus, Lock } from 'lucide-react';
 import Appointments from './Appointments';
 import Medications from './Medications';
 import Vitals from './Vitals';
@@ -17,6 +17,12 @@ import VitalsWithToggle from './VitalsWithToggle';
 import LabReports from './LabReports';
 import Encounters from './Encounters';
 import Procedure from './Procedure';
+import Conditions from './Conditions';
+import Allergies from './Allergies';
+import AllergyBanner from './AllergyBanner';
+import Immunizations from './Immunizations';
+import Documents from './Documents';
+import MyCare from './MyCare';
 import HealthTrendsChart from './HealthTrendsChart';
 import MedicalTimeline from './MedicalTimeline';
 import HealthInsights from './HealthInsights';
@@ -31,7 +37,28 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { motion } from 'framer-motion';
-import { useFHIR } from '@nirmiteeio/fhir-sdk';
+import { emrRegistry, useFHIR } from '@nirmiteeio/fhir-sdk';
+import useBackendProxy from '@/hooks/useBackendProxy';
+import { endBackendSession } from '@/app/backend-session';
+import { linkedFhirClient } from '@/app/linked-accounts';
+import { useSessionTimer } from '@/hooks/useSessionTimer';
+import { useSession } from '@/contexts/SessionContext';
+import SessionExpiryDialog from './SessionExpiryDialog';
+import ScopeLockedNotice from './ScopeLockedNotice';
+import useGrantedAccess, { accountCanRead, DATA_RESOURCES } from '@/hooks/useGrantedAccess';
+import useLinkedRecords from '@/hooks/useLinkedRecords';
+import usePatientResources from '@/hooks/usePatientResources';
+import useDateRange from '@/hooks/useDateRange';
+import useDoseSchedule from '@/hooks/useDoseSchedule';
+import useDoseReminders from '@/hooks/useDoseReminders';
+import { filterBySource, filterResourcesBySource, getSource, mergePatientData, toPatientRecord } from '@/lib/merge-records';
+import { checkImmunizationSchedule } from '@/lib/immunizations';
+import { goalTargets, isActiveGoal } from '@/lib/care';
+import { reconcile } from '@/lib/reconcile';
+import { checkInteractions } from '@/lib/interactions';
+import { dateSearchParams, isInDateRange } from '@/lib/date-range';
+import type { AllergyIntolerance, CarePlan, CareTeam, Condition, DiagnosticReport, DocumentReference, Goal, Immunization, Observation } from 'fhir/r4';
+import ConnectedAccountsPanel from './ConnectedAccountsPanel';
 
 const Shimmer: React.FC<{ className?: string }> = ({ className }) => (
   <div className={`animate-pulse bg-gray-200 ${className}`} />
@@ -81,7 +108,7 @@ const HealthSummaryCard = ({ title, value, total, unit, icon: Icon }) => (
     </CardHeader>
     <CardContent>
       <div className="text-2xl font-bold">{value} <span className="text-sm font-normal text-muted-foreground">/ {total} {unit}</span></div>
-      <Progress value={(value / total) * 100} className="mt-2" />
+      <Progress value={total > 0 ? (value / total) * 100 : 0} className="mt-2" />
     </CardContent>
   </Card>
 );
@@ -103,13 +130,9 @@ const Dashboard = () => {
   const router = useRouter();
   const [activeTab, setActiveTab] = useState('overview');
 
-  // Get provider ID from storage
-  const [providerId, setProviderId] = useState<string>('');
-
-  useEffect(() => {
-    const savedProviderId = localStorage.getItem('selected_provider_id') || 'epic';
-    setProviderId(savedProviderId);
-  }, []);
+  // Get provider ID from the session
+  const { session, clearSession } = useSession();
+  const providerId = session?.providerId || '';
 
   // 🎉 ONE HOOK TO RULE THEM ALL! 🎉
   // This replaces: usePatientData, useFetchPatientData, useAuth, all API calls!
@@ -121,61 +144,241 @@ const Dashboard = () => {
 
     // All patient data - automatically fetched!
     patient,
-    medications,
-    vitals,
-    labReports,
-    appointments,
-    encounters,
-    procedures,
+    medications: primaryMedications,
+    vitals: primaryVitals,
+    labReports: primaryLabReports,
+    appointments: primaryAppointments,
+    encounters: primaryEncounters,
+    procedures: primaryProcedures,
 
     // Loading and errors
     isDataLoading,
     errors,
     refetch,
+    fhirClient,
   } = useFHIR(providerId || 'epic');
 
-  // Session timer - calculate from token expiry
-  const [expiryTime, setExpiryTime] = useState<number | null>(null);
-  const [timeLeft, setTimeLeft] = useState<string>('');
+  // Confidential-client EMRs are fetched through /api/fhir with server-held tokens
+  const isBackendSession = useBackendProxy(providerId || 'epic', fhirClient);
+
+  // Other EMR accounts the patient connected, merged in with source tags
+  const linkedAccounts = useMemo(() => session?.linkedAccounts || [], [session?.linkedAccounts]);
+  const { records: linkedRecords, refetch: refetchLinked } = useLinkedRecords(linkedAccounts);
+  const [sourceFilter, setSourceFilter] = useState<string | null>(null);
+
+  const sources = useMemo(() => [
+    { providerId, name: emrRegistry.hasProvider(providerId) ? emrRegistry.getProvider(providerId).name : providerId },
+    ...linkedRecords.map(({ providerId, name }) => ({ providerId, name })),
+  ], [providerId, linkedRecords]);
+  // A disconnected source can't stay selected
+  const activeSource = sources.some(source => source.providerId === sourceFilter) ? sourceFilter : null;
+
+  const mergedRecord = useMemo(() => mergePatientData([
+    {
+      ...sources[0],
+      record: toPatientRecord({
+        medications: primaryMedications,
+        vitals: primaryVitals,
+        labReports: primaryLabReports,
+        appointments: primaryAppointments,
+        encounters: primaryEncounters,
+        procedures: primaryProcedures,
+      }),
+    },
+    ...linkedRecords,
+  ]), [sources, primaryMedications, primaryVitals, primaryLabReports, primaryAppointments, primaryEncounters, primaryProcedures, linkedRecords]);
 
-  useEffect(() => {
-    const tokenExpiry = localStorage.getItem('fhir_sdk_token_expiry');
-    if (tokenExpiry) {
-      setExpiryTime(parseInt(tokenExpiry, 10));
-    }
-  }, [isAuthenticated]);
-
-  useEffect(() => {
-    if (!expiryTime) return;
+  const {
+    medications,
+    vitals: allTimeVitals,
+    labReports: allTimeLabReports,
+    appointments,
+    encounters,
+    procedures,
+  } = useMemo(() => filterBySource(mergedRecord, activeSource), [mergedRecord, activeSource]);
 
-    const interval = setInterval(() => {
-      const now = Date.now();
-      const diff = expiryTime - now;
+  // A date range is pushed down to the Observation search - the SDK's own
+  // fetch has no date option, and some EMRs cap it at two years anyway
+  const { dateRange } = useDateRange();
+  const rangeParams = useMemo(() => dateSearchParams(dateRange), [dateRange]);
+  const {
+    resources: rangedVitals,
+    errors: rangedVitalErrors,
+    refetch: refetchRangedVitals,
+  } = usePatientResources<Observation>('Observation', fhirClient, rangeParams ? { category: 'vital-signs', ...rangeParams } : null);
+  const {
+    resources: rangedLabReports,
+    errors: rangedLabErrors,
+    refetch: refetchRangedLabReports,
+  } = usePatientResources<Observation>('Observation', fhirClient, rangeParams ? { category: 'laboratory', ...rangeParams } : null);
+
+  // Filtered here too, for servers that ignore the date param
+  const inRange = useCallback(
+    (observation: Observation) => isInDateRange(observation.effectiveDateTime || observation.effectivePeriod?.start || observation.issued, dateRange),
+    [dateRange]
+  );
+  const vitals = useMemo(
+    () => (rangeParams ? filterResourcesBySource(rangedVitals, activeSource).filter(inRange) : allTimeVitals),
+    [rangeParams, rangedVitals, activeSource, inRange, allTimeVitals]
+  );
+  const labReports = useMemo(
+    () => (rangeParams ? filterResourcesBySource(rangedLabReports, activeSource).filter(inRange) : allTimeLabReports),
+    [rangeParams, rangedLabReports, activeSource, inRange, allTimeLabReports]
+  );
 
-      if (diff <= 0) {
-        setTimeLeft('Session expired');
-        handleLogout();
-      } else {
-        const minutes = Math.floor(diff / 60000);
-        const seconds = Math.floor((diff % 60000) / 1000);
-        setTimeLeft(`${minutes}:${seconds.toString().padStart(2, '0')}`);
-      }
-    }, 1000);
+  // Resource types getAllPatientData doesn't cover, fetched from every account
+  const {
+    resources: allConditions,
+    errors: conditionErrors,
+    refetch: refetchConditions,
+  } = usePatientResources<Condition>('Condition', fhirClient);
+  const conditions = useMemo(() => filterResourcesBySource(allConditions, activeSource), [allConditions, activeSource]);
+  const {
+    resources: allAllergies,
+    errors: allergyErrors,
+    isLoading: isAllergiesLoading,
+    refetch: refetchAllergies,
+  } = usePatientResources<AllergyIntolerance>('AllergyIntolerance', fhirClient);
+  const allergies = useMemo(() => filterResourcesBySource(allAllergies, activeSource), [allAllergies, activeSource]);
+  const {
+    resources: allImmunizations,
+    errors: immunizationErrors,
+    refetch: refetchImmunizations,
+  } = usePatientResources<Immunization>('Immunization', fhirClient);
+  const immunizations = useMemo(() => filterResourcesBySource(allImmunizations, activeSource), [allImmunizations, activeSource]);
+  const {
+    resources: allDiagnosticReports,
+    errors: diagnosticReportErrors,
+    refetch: refetchDiagnosticReports,
+  } = usePatientResources<DiagnosticReport>('DiagnosticReport', fhirClient, rangeParams);
+  const diagnosticReports = useMemo(
+    () => filterResourcesBySource(allDiagnosticReports, activeSource),
+    [allDiagnosticReports, activeSource]
+  );
+  const {
+    resources: allDocuments,
+    errors: documentErrors,
+    refetch: refetchDocuments,
+  } = usePatientResources<DocumentReference>('DocumentReference', fhirClient);
+  const documents = useMemo(() => filterResourcesBySource(allDocuments, activeSource), [allDocuments, activeSource]);
+
+  const { resources: allCarePlans, errors: carePlanErrors, refetch: refetchCarePlans } =
+    usePatientResources<CarePlan>('CarePlan', fhirClient);
+  const { resources: allGoals, errors: goalErrors, refetch: refetchGoals } =
+    usePatientResources<Goal>('Goal', fhirClient);
+  const { resources: allCareTeams, errors: careTeamErrors, refetch: refetchCareTeams } =
+    usePatientResources<CareTeam>('CareTeam', fhirClient);
+  const carePlans = useMemo(() => filterResourcesBySource(allCarePlans, activeSource), [allCarePlans, activeSource]);
+  const goals = useMemo(() => filterResourcesBySource(allGoals, activeSource), [allGoals, activeSource]);
+  const careTeams = useMemo(() => filterResourcesBySource(allCareTeams, activeSource), [allCareTeams, activeSource]);
+  // Active goals with a measurable target, drawn on the trends chart
+  const measurableGoals = useMemo(() => goals.filter(isActiveGoal).flatMap(goalTargets), [goals]);
+  // Goal progress always looks at the whole record, whatever range is shown
+  const careObservations = useMemo(
+    () => [...allTimeVitals, ...allTimeLabReports],
+    [allTimeVitals, allTimeLabReports]
+  );
 
-    return () => clearInterval(interval);
-  }, [expiryTime]);
+  // Attachments are fetched with the client of the EMR the document came from
+  const documentClient = useCallback((document: DocumentReference) => {
+    const sourceId = getSource(document)?.code;
+    return !sourceId || sourceId === providerId ? fhirClient : linkedFhirClient(sourceId);
+  }, [fhirClient, providerId]);
 
   const handleLogout = useCallback(async () => {
+    if (isBackendSession) {
+      await endBackendSession();
+    }
     await sdkLogout();
+    await clearSession();
     router.push('/');
-  }, [sdkLogout, router]);
+  }, [sdkLogout, clearSession, router, isBackendSession]);
+
+  // Session timer - refreshes silently or warns before logging out
+  const {
+    expiryTime,
+    formatTime,
+    canRefresh,
+    showWarning,
+    isRefreshing,
+    refreshError,
+    extendSession,
+    dismissWarning,
+  } = useSessionTimer({ providerId, onExpire: handleLogout });
+
+  // Tabs whose resources weren't granted are locked rather than erroring
+  const { canRead, missingResources, requestAccess } = useGrantedAccess();
+
+  // "No data" only means something if we could ask and the asking worked
+  const allergiesUnavailable = !canRead('AllergyIntolerance') ||
+    (allAllergies.length === 0 && Object.keys(allergyErrors).length > 0);
+  const immunizationsUnavailable = !canRead('Immunization') || Object.keys(immunizationErrors).length > 0;
+
+  // Checked against every source - hiding one EMR's doses shouldn't make them look missing
+  const immunizationGaps = useMemo(
+    () => (immunizationsUnavailable ? [] : checkImmunizationSchedule(patient?.birthDate, allImmunizations)),
+    [immunizationsUnavailable, patient?.birthDate, allImmunizations]
+  );
+
+  // Doses are scheduled from every source, once each - the same pills
+  // prescribed in two EMRs are still one dose
+  const scheduledMedications = useMemo(
+    () => reconcile(mergedRecord.medications, 'MedicationRequest').map(entry => entry.resource),
+    [mergedRecord.medications]
+  );
+  const doseSchedule = useDoseSchedule(scheduledMedications);
+  const doseReminders = useDoseReminders({
+    doses: doseSchedule.upcoming,
+    log: doseSchedule.log,
+    onTaken: doseSchedule.markTaken,
+    ready: doseSchedule.ready,
+  });
+  const dosesTakenToday = doseSchedule.doses.filter(dose => doseSchedule.log[dose.id]).length;
+
+  // Across every source too - interactions between EMRs' prescriptions are
+  // the ones no single prescriber sees
+  const interactions = useMemo(
+    () => checkInteractions(scheduledMedications, allergiesUnavailable ? [] : allAllergies),
+    [scheduledMedications, allergiesUnavailable, allAllergies]
+  );
+
+  // Errors for resources we knowingly weren't granted aren't worth reporting
+  const loadErrors = useMemo(() => {
+    const reportable = (account: typeof session, key: string) =>
+      !account || !DATA_RESOURCES[key] || accountCanRead(account, DATA_RESOURCES[key]);
+
+    // usePatientResources already skips accounts that can't read the type
+    const resourceErrors = (label: string, byProvider: Record<string, string>) =>
+      Object.entries(byProvider).map(([errorProviderId, msg]) => [
+        errorProviderId === providerId ? label : `${sources.find(source => source.providerId === errorProviderId)?.name || errorProviderId} ${label}`,
+        msg,
+      ]);
+
+    return [
+      ...Object.entries(errors).filter(([key]) => reportable(session, key)),
+      ...resourceErrors('conditions', conditionErrors),
+      ...resourceErrors('allergies', allergyErrors),
+      ...resourceErrors('immunizations', immunizationErrors),
+      ...resourceErrors('vitals', rangedVitalErrors),
+      ...resourceErrors('lab results', rangedLabErrors),
+      ...resourceErrors('lab reports', diagnosticReportErrors),
+      ...resourceErrors('documents', documentErrors),
+      ...resourceErrors('care plans', carePlanErrors),
+      ...resourceErrors('goals', goalErrors),
+      ...resourceErrors('care team', careTeamErrors),
+      ...linkedRecords.flatMap(({ providerId, name, errors: linkedErrors }) => {
+        const account = linkedAccounts.find(linked => linked.providerId === providerId) || null;
+        return Object.entries(linkedErrors)
+          .filter(([key]) => reportable(account, key))
+          .map(([key, msg]) => [`${name} ${key}`, msg]);
+      }),
+    ];
+  }, [errors, session, linkedRecords, linkedAccounts, conditionErrors, allergyErrors, immunizationErrors, rangedVitalErrors, rangedLabErrors, diagnosticReportErrors, documentErrors, carePlanErrors, goalErrors, careTeamErrors, providerId, sources]);
 
   const handleTabChange = useCallback((value: string) => {
     setActiveTab(value);
   }, []);
 
-  const formatTime = useCallback(() => timeLeft, [timeLeft]);
-
   const tabContent = useMemo(() => ({
     overview: (
       <div className="space-y-4 sm:space-y-6">
@@ -189,7 +392,7 @@ const Dashboard = () => {
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
           {[
             { title: "Steps Today", value: 6500, total: 10000, unit: "steps", icon: Activity },
-            { title: "Medications Taken", value: 3, total: 4, unit: "doses", icon: Pill },
+            { title: "Medications Taken", value: dosesTakenToday, total: doseSchedule.doses.length, unit: "doses today", icon: Pill },
             { title: "Appointments This Week", value: 2, total: 3, unit: "", icon: Calendar }
           ].map((card, index) => (
             <motion.div
@@ -210,10 +413,13 @@ const Dashboard = () => {
           transition={{ delay: 0.3 }}
         >
           <HealthInsights
-            vitals={vitals}
+            vitals={allTimeVitals}
             medications={medications}
-            labReports={labReports}
+            labReports={allTimeLabReports}
             encounters={encounters}
+            conditions={conditions}
+            immunizationGaps={immunizationGaps}
+            interactions={interactions}
           />
         </motion.div>
 
@@ -223,7 +429,7 @@ const Dashboard = () => {
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.4 }}
         >
-          <HealthTrendsChart vitals={vitals} />
+          <HealthTrendsChart vitals={vitals} goalTargets={measurableGoals} />
         </motion.div>
 
         <h3 className="text-lg sm:text-xl font-semibold mt-4 sm:mt-6">Quick Actions</h3>
@@ -251,12 +457,12 @@ const Dashboard = () => {
         </div>
 
         {/* Show errors if any */}
-        {Object.keys(errors).length > 0 && (
+        {loadErrors.length > 0 && (
           <Card className="bg-yellow-50 border-yellow-200">
             <CardContent className="p-4">
               <h3 className="font-semibold text-yellow-800 mb-2">Some data couldn't be loaded:</h3>
               <ul className="text-sm text-yellow-700">
-                {Object.entries(errors).map(([key, msg]) => (
+                {loadErrors.map(([key, msg]) => (
                   <li key={key}>• {key}: {msg}</li>
                 ))}
               </ul>
@@ -267,28 +473,49 @@ const Dashboard = () => {
     ),
     vitals: (
       <>
-        <HealthTrendsChart vitals={vitals} />
+        <HealthTrendsChart vitals={vitals} goalTargets={measurableGoals} />
         <div className="mt-6">
-          <VitalsWithToggle vitals={vitals} />
+          <VitalsWithToggle vitals={vitals} patient={patient ?? undefined} />
         </div>
       </>
     ),
-    medications: <Medications medications={medications} />,
-    labReports: <LabReports labReports={labReports} />,
+    conditions: <Conditions conditions={conditions} />,
+    allergies: <Allergies allergies={allergies} unavailable={allergiesUnavailable} />,
+    immunizations: (
+      <Immunizations
+        immunizations={immunizations}
+        gaps={immunizationGaps}
+        birthDate={patient?.birthDate}
+        unavailable={immunizationsUnavailable}
+      />
+    ),
+    medications: <Medications medications={medications} schedule={doseSchedule} reminders={doseReminders} interactions={interactions} />,
+    labReports: <LabReports labReports={labReports} diagnosticReports={diagnosticReports} patient={patient ?? undefined} />,
+    documents: <Documents documents={documents} clientFor={documentClient} />,
+    care: (
+      <MyCare
+        carePlans={carePlans}
+        goals={goals}
+        careTeams={careTeams}
+        observations={careObservations}
+        canRead={{ carePlans: canRead('CarePlan'), goals: canRead('Goal'), careTeams: canRead('CareTeam') }}
+      />
+    ),
     procedures: <Procedure procedures={procedures} />,
     appointments: <Appointments appointments={appointments} />,
     encounters: <Encounters encounters={encounters} />,
     timeline: (
       <MedicalTimeline
         medications={medications}
-        vitals={vitals}
-        labReports={labReports}
+        vitals={allTimeVitals}
+        labReports={allTimeLabReports}
         appointments={appointments}
         encounters={encounters}
         procedures={procedures}
+        conditions={conditions}
       />
     ),
-  }), [vitals, medications, labReports, procedures, appointments, encounters, patient, setActiveTab, errors]);
+  }), [vitals, allTimeVitals, medications, doseSchedule, doseReminders, dosesTakenToday, interactions, labReports, allTimeLabReports, diagnosticReports, procedures, appointments, encounters, conditions, allergies, allergiesUnavailable, immunizations, immunizationGaps, immunizationsUnavailable, documents, documentClient, carePlans, goals, careTeams, careObservations, measurableGoals, canRead, patient, setActiveTab, loadErrors]);
 
   // Show loading if auth is being checked
   if (isAuthLoading) {
@@ -315,6 +542,16 @@ const Dashboard = () => {
         expiryTime={expiryTime}
         handleLogout={handleLogout}
       />
+      <SessionExpiryDialog
+        open={showWarning}
+        secondsLeft={expiryTime}
+        canRefresh={canRefresh}
+        isRefreshing={isRefreshing}
+        error={refreshError}
+        onStaySignedIn={extendSession}
+        onLogout={handleLogout}
+        onDismiss={dismissWarning}
+      />
       <div className="flex flex-col lg:flex-row flex-1 overflow-hidden p-3 sm:p-6 gap-4 sm:gap-6">
         <aside className="w-full lg:w-1/4 space-y-4 sm:space-y-6">
           <Card>
@@ -333,11 +570,30 @@ const Dashboard = () => {
                       <p className="text-xs sm:text-sm text-muted-foreground truncate">Patient ID: {patient?.id}</p>
                     </div>
                   </div>
+                  <AllergyBanner
+                    allergies={allergies}
+                    isLoading={isAllergiesLoading}
+                    unavailable={allergiesUnavailable}
+                    onViewAll={() => setActiveTab('allergies')}
+                  />
                   <PatientInfoRenderer patient={patient} />
                   <Button
                     variant="outline"
                     className="w-full mt-4"
-                    onClick={() => refetch()}
+                    onClick={() => {
+                      refetch();
+                      refetchLinked();
+                      refetchConditions();
+                      refetchAllergies();
+                      refetchImmunizations();
+                      refetchRangedVitals();
+                      refetchRangedLabReports();
+                      refetchDiagnosticReports();
+                      refetchDocuments();
+                      refetchCarePlans();
+                      refetchGoals();
+                      refetchCareTeams();
+                    }}
                   >
                     Refresh Data
                   </Button>
@@ -345,6 +601,7 @@ const Dashboard = () => {
               )}
             </CardContent>
           </Card>
+          <ConnectedAccountsPanel />
           <Card className="hidden lg:block">
             <CardHeader>
               <h3 className="font-semibold">Recent Notifications</h3>
@@ -364,22 +621,57 @@ const Dashboard = () => {
         <main className="flex-1 overflow-hidden bg-white dark:bg-gray-800 rounded-lg shadow-lg w-full transition-colors duration-300">
           <Card className="h-full">
             <CardContent className="p-3 sm:p-6">
+              {sources.length > 1 && (
+                <div className="mb-3 flex flex-wrap items-center gap-2" role="group" aria-label="Filter by source EMR">
+                  <span className="text-sm text-muted-foreground">Source:</span>
+                  {[{ providerId: null, name: 'All' }, ...sources].map(source => (
+                    <Button
+                      key={source.providerId || 'all'}
+                      size="sm"
+                      variant={activeSource === source.providerId ? 'default' : 'outline'}
+                      className="h-7 rounded-full"
+                      onClick={() => setSourceFilter(source.providerId)}
+                    >
+                      {source.name}
+                    </Button>
+                  ))}
+                </div>
+              )}
               <Tabs value={activeTab} onValueChange={handleTabChange}>
                 <TabsList className="mb-4 w-full overflow-x-auto flex-nowrap justify-start">
-                  {tabConfig.map((tab) => (
-                    <TabsTrigger key={tab.id} value={tab.id} className="whitespace-nowrap flex-shrink-0">
-                      <tab.icon size={16} className="sm:mr-2" />
-                      <span className="hidden sm:inline">{tab.label}</span>
-                    </TabsTrigger>
-                  ))}
+                  {tabConfig.map((tab) => {
+                    const locked = missingResources(tab.resources).length > 0;
+                    const Icon = locked ? Lock : tab.icon;
+                    return (
+                      <TabsTrigger
+                        key={tab.id}
+                        value={tab.id}
+                        className={`whitespace-nowrap flex-shrink-0 ${locked ? 'opacity-60' : ''}`}
+                        title={locked ? `${tab.label}: access not granted` : undefined}
+                      >
+                        <Icon size={16} className="sm:mr-2" />
+                        <span className="hidden sm:inline">{tab.label}</span>
+                      </TabsTrigger>
+                    );
+                  })}
                 </TabsList>
-                {Object.entries(tabContent).map(([key, content]) => (
-                  <TabsContent key={key} value={key}>
-                    <ScrollArea className="h-[calc(100vh-16rem)] sm:h-[calc(100vh-12rem)]">
-                      {isDataLoading ? <TabContentShimmer /> : content}
-                    </ScrollArea>
-                  </TabsContent>
-                ))}
+                {Object.entries(tabContent).map(([key, content]) => {
+                  const tab = tabConfig.find(t => t.id === key);
+                  const missing = tab ? missingResources(tab.resources) : [];
+                  return (
+                    <TabsContent key={key} value={key}>
+                      <ScrollArea className="h-[calc(100vh-16rem)] sm:h-[calc(100vh-12rem)]">
+                        {missing.length > 0 ? (
+                          <ScopeLockedNotice
+                            label={tab!.label}
+                            missingResources={missing}
+                            onRequestAccess={() => requestAccess(missing)}
+                          />
+                        ) : isDataLoading ? <TabContentShimmer /> : content}
+                      </ScrollArea>
+                    </TabsContent>
+                  );
+                })}
               </Tabs>
             </CardContent>
           </Card>
@@ -3,6 +3,7 @@ import { Clock, LogOut } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import ThemeToggle from './ThemeToggle';
+import UnitToggle from './UnitToggle';
 
 const DashboardHeader = ({ formatTime, expiryTime, handleLogout }) => {
   return (
@@ -18,6 +19,7 @@ const DashboardHeader = ({ formatTime, expiryTime, handleLogout }) => {
                 {formatTime(expiryTime)}
               </span>
             </div>
+            <UnitToggle />
             <ThemeToggle />
             <Button onClick={handleLogout} variant="destructive" size="sm" className="flex-shrink-0">
               <LogOut size={14} className="sm:mr-2" />
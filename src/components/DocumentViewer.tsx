@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Download, Loader2 } from 'lucide-react';
+import { Attachment } from 'fhir/r4';
+import type { FHIRClient } from '@nirmiteeio/fhir-sdk';
+import { Button } from "@/components/ui/button";
+import { attachmentKind, fetchAttachment, type AttachmentKind } from '@/lib/documents';
+import { sanitizeHtml } from '@/lib/sanitize-html';
+import { renderCda } from '@/lib/cda';
+
+// Sanitized HTML still goes in a sandboxed frame - no scripts, no same-origin access
+const FRAME_STYLES = `
+  body { font-family: ui-sans-serif, system-ui, sans-serif; font-size: 14px; line-height: 1.5; color: #111827; margin: 16px; }
+  h1 { font-size: 20px; } h2 { font-size: 16px; margin-top: 24px; border-bottom: 1px solid #e5e7eb; }
+  table { border-collapse: collapse; margin: 8px 0; } th, td { border: 1px solid #d1d5db; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; } dt { font-weight: 600; float: left; clear: left; width: 80px; } dd { margin-left: 90px; }
+  img { max-width: 100%; }
+`;
+
+const frameDocument = (html: string) =>
+  `<!DOCTYPE html><html><head><meta charset="utf-8"><base target="_blank"><style>${FRAME_STYLES}</style></head><body>${html}</body></html>`;
+
+interface ViewerState {
+  kind: AttachmentKind;
+  /** Sanitized HTML for html/cda, raw text for text */
+  content?: string;
+  url: string;
+  filename: string;
+  contentType: string;
+}
+
+interface DocumentViewerProps {
+  client: FHIRClient | null;
+  attachment: Attachment;
+  title: string;
+}
+
+const DocumentViewer: React.FC<DocumentViewerProps> = ({ client, attachment, title }) => {
+  const [state, setState] = useState<ViewerState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    const load = async () => {
+      setState(null);
+      setError(null);
+      if (!client) {
+        setError('Not connected to the EMR this document came from');
+        return;
+      }
+      try {
+        const loaded = await fetchAttachment(client, attachment, title);
+        const text = /(text|xml|html)/i.test(loaded.contentType) ? await loaded.blob.text() : undefined;
+        const kind = attachmentKind(loaded.contentType, text);
+        const content = kind === 'html' ? sanitizeHtml(text || '') : kind === 'cda' ? renderCda(text || '') : text;
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(loaded.blob);
+        setState({ kind, content, url: objectUrl, filename: loaded.filename, contentType: loaded.contentType });
+      } catch (err) {
+        console.error('Failed to load document attachment:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'The document could not be loaded');
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [client, attachment, title]);
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-40 text-red-600 text-sm text-center">
+        <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" /> {error}
+      </div>
+    );
+  }
+
+  if (!state) {
+    return (
+      <div className="flex items-center justify-center h-40 text-gray-500">
+        <Loader2 className="h-5 w-5 mr-2 animate-spin" /> Loading document...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center gap-2">
+        <span className="text-xs text-gray-500 truncate">{state.filename} · {state.contentType}</span>
+        <Button asChild size="sm" variant="outline">
+          <a href={state.url} download={state.filename} type={state.contentType}>
+            <Download className="h-4 w-4 mr-1" /> Download
+          </a>
+        </Button>
+      </div>
+
+      {(state.kind === 'html' || state.kind === 'cda') && (
+        <iframe
+          title={title}
+          sandbox="allow-popups allow-popups-to-escape-sandbox"
+          srcDoc={frameDocument(state.content || '')}
+          className="w-full h-[60vh] rounded-md border bg-white"
+        />
+      )}
+      {state.kind === 'text' && (
+        <pre className="h-[60vh] overflow-auto whitespace-pre-wrap rounded-md border bg-white p-4 text-sm">{state.content}</pre>
+      )}
+      {state.kind === 'pdf' && (
+        <iframe title={title} src={state.url} className="w-full h-[60vh] rounded-md border bg-white" />
+      )}
+      {state.kind === 'other' && (
+        <p className="text-sm text-gray-600 text-center py-8">
+          This file type can&apos;t be shown here. Download it to open it.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DocumentViewer;
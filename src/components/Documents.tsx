@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react';
+import { Files, Calendar, Eye, FileText, User } from 'lucide-react';
+import { Attachment, DocumentReference } from 'fhir/r4';
+import type { FHIRClient } from '@nirmiteeio/fhir-sdk';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import SourceBadge from './SourceBadge';
+import DocumentViewer from './DocumentViewer';
+import { getSource } from '@/lib/merge-records';
+import {
+  documentAuthors,
+  documentDate,
+  documentTitle,
+  documentTypeName,
+  isDisplayableDocument,
+} from '@/lib/documents';
+
+const formatDate = (date?: string) =>
+  date ? new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }) : 'Date unknown';
+
+interface OpenAttachment {
+  document: DocumentReference;
+  attachment: Attachment;
+  // Resolved once on open - clientFor may build a new client per call
+  client: FHIRClient | null;
+}
+
+interface DocumentCardProps {
+  document: DocumentReference;
+  onOpen: (attachment: Attachment) => void;
+}
+
+const DocumentCard: React.FC<DocumentCardProps> = ({ document, onOpen }) => {
+  const authors = documentAuthors(document);
+
+  return (
+    <Card className="mb-3">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex justify-between items-start gap-2">
+          <span className="text-lg font-semibold text-slate-800">{documentTitle(document)}</span>
+          <div className="flex items-center gap-2 flex-wrap justify-end">
+            <SourceBadge resource={document} />
+            {document.docStatus && document.docStatus !== 'final' && (
+              <Badge variant="outline" className="capitalize">{document.docStatus}</Badge>
+            )}
+            {document.status === 'superseded' && <Badge variant="outline">Superseded</Badge>}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm text-gray-600">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <div className="flex items-center">
+            <Calendar className="h-4 w-4 mr-2 text-gray-400" />
+            {formatDate(documentDate(document))}
+          </div>
+          <div className="flex items-center">
+            <User className="h-4 w-4 mr-2 text-gray-400" />
+            {authors.length > 0 ? authors.join(', ') : 'Author not recorded'}
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {document.content.map(({ attachment }, index) => (
+            <Button key={index} size="sm" variant="outline" onClick={() => onOpen(attachment)}>
+              <Eye className="h-4 w-4 mr-1" />
+              {document.content.length > 1 ? attachment.title || `Attachment ${index + 1}` : 'View'}
+            </Button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+interface DocumentsProps {
+  documents: DocumentReference[];
+  /** The authenticated client for the EMR a document came from */
+  clientFor: (document: DocumentReference) => FHIRClient | null;
+}
+
+const Documents: React.FC<DocumentsProps> = ({ documents, clientFor }) => {
+  const [open, setOpen] = useState<OpenAttachment | null>(null);
+
+  // Grouped by document type, most recent first within each
+  const groups = useMemo(() => {
+    const sorted = documents.filter(isDisplayableDocument)
+      .sort((a, b) => new Date(documentDate(b) || 0).getTime() - new Date(documentDate(a) || 0).getTime());
+
+    const byType = new Map<string, DocumentReference[]>();
+    sorted.forEach(document => {
+      const type = documentTypeName(document);
+      byType.set(type, [...(byType.get(type) || []), document]);
+    });
+    return Array.from(byType.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [documents]);
+
+  return (
+    <div className="mt-8 bg-gradient-to-r from-slate-50 to-gray-100 p-6 rounded-lg shadow-lg">
+      <h2 className="text-2xl font-bold text-slate-800 mb-4 flex items-center">
+        <Files className="mr-2" /> Your Documents
+      </h2>
+      <ScrollArea className="h-[600px] pr-4">
+        {groups.length === 0 ? (
+          <Card>
+            <CardContent className="flex items-center justify-center h-32">
+              <p className="text-gray-600">No documents on record</p>
+            </CardContent>
+          </Card>
+        ) : (
+          groups.map(([type, typeDocuments]) => (
+            <section key={type} className="mb-6">
+              <h3 className="text-lg font-semibold mb-3 flex items-center text-slate-700">
+                <FileText className="h-5 w-5 mr-2" /> {type} ({typeDocuments.length})
+              </h3>
+              {typeDocuments.map((document, index) => (
+                <DocumentCard
+                  key={`${getSource(document)?.code ?? ''}/${document.id ?? index}`}
+                  document={document}
+                  onOpen={attachment => setOpen({ document, attachment, client: clientFor(document) })}
+                />
+              ))}
+            </section>
+          ))
+        )}
+      </ScrollArea>
+
+      <Dialog open={!!open} onOpenChange={isOpen => !isOpen && setOpen(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>{open ? documentTitle(open.document) : ''}</DialogTitle>
+          </DialogHeader>
+          {open && (
+            <DocumentViewer
+              client={open.client}
+              attachment={open.attachment}
+              title={documentTitle(open.document)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Documents;
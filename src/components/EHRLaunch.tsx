@@ -0,0 +1,132 @@
+/**
+ * EHR Launch Component
+ *
+ * Entry point when the portal is opened from inside an EHR with
+ * ?iss=...&launch=... (SMART EHR launch). Resolves the EMR from `iss`,
+ * then hands off to the same OAuth callback flow as the standalone login.
+ */
+
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Activity, AlertTriangle, ChevronRight } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { SMARTAuthClient } from '@nirmiteeio/fhir-sdk';
+import { prepareLaunchProvider, UnknownIssuerError } from '@/app/ehr-launch';
+import { useSession } from '@/contexts/SessionContext';
+
+interface LaunchError {
+  title: string;
+  message: string;
+  iss?: string;
+}
+
+const EHRLaunch = () => {
+  const router = useRouter();
+  const { clearSession, selectProvider } = useSession();
+  const [status, setStatus] = useState('Connecting to your EHR...');
+  const [error, setError] = useState<LaunchError | null>(null);
+  const launchStarted = useRef(false);
+
+  useEffect(() => {
+    if (launchStarted.current) return;
+    launchStarted.current = true;
+
+    const urlParams = new URLSearchParams(window.location.search);
+    const iss = urlParams.get('iss');
+    const launch = urlParams.get('launch');
+
+    if (!iss || !launch) {
+      setError({
+        title: 'Incomplete launch request',
+        message: 'The EHR did not send both the "iss" and "launch" parameters. Please relaunch the portal from your EHR.',
+      });
+      return;
+    }
+
+    const startLaunch = async () => {
+      try {
+        const provider = await prepareLaunchProvider(iss);
+        setStatus(`Launching from ${provider.name}...`);
+
+        const authClient = new SMARTAuthClient(provider.id);
+
+        // A new EHR launch replaces whatever session this tab had before
+        await authClient.logout();
+        await clearSession();
+        await selectProvider(provider.id);
+
+        const authUrl = new URL(await authClient.authorize());
+        authUrl.searchParams.set('launch', launch);
+        window.location.href = authUrl.toString();
+      } catch (err) {
+        console.error('EHR launch failed:', err);
+        if (err instanceof UnknownIssuerError) {
+          setError({
+            title: 'Unrecognized EHR',
+            message: 'This portal is not configured for the FHIR server your EHR launched from. Please contact your administrator to have it added.',
+            iss: err.iss,
+          });
+        } else {
+          setError({
+            title: 'Unable to launch from your EHR',
+            message: err instanceof Error ? err.message : 'Unknown error',
+            iss,
+          });
+        }
+      }
+    };
+
+    startLaunch();
+  }, [clearSession, selectProvider]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-8">
+      <Card className="w-full max-w-xl">
+        <CardContent className="p-8">
+          {error ? (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.5 }}
+              className="space-y-6"
+            >
+              <div className="flex justify-center">
+                <div className="p-4 bg-red-100 rounded-full">
+                  <AlertTriangle className="h-12 w-12 text-red-500" />
+                </div>
+              </div>
+              <h3 className="text-xl font-semibold text-center">{error.title}</h3>
+              <p className="text-gray-600">{error.message}</p>
+              {error.iss && (
+                <div className="text-sm bg-gray-50 border rounded p-3">
+                  <span className="font-medium">FHIR server: </span>
+                  <span className="break-all text-gray-600">{error.iss}</span>
+                </div>
+              )}
+              <Button variant="outline" className="w-full" onClick={() => router.push('/')}>
+                Sign in manually <ChevronRight className="ml-2 h-4 w-4" />
+              </Button>
+            </motion.div>
+          ) : (
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ duration: 0.5 }}
+              className="text-center space-y-4"
+            >
+              <Activity className="h-16 w-16 text-purple-500 mx-auto animate-pulse" />
+              <h3 className="text-xl font-semibold">Establishing Secure Connection</h3>
+              <p className="text-sm text-gray-500">{status}</p>
+            </motion.div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default EHRLaunch;
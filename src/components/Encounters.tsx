@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Calendar, Clock, User, MapPin, ChevronRight, Search } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -6,6 +6,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import ProvenanceBadge from './ProvenanceBadge';
+import { reconcile } from '@/lib/reconcile';
 
 interface Encounter {
   id: string;
@@ -73,7 +75,10 @@ const Encounters: React.FC<EncountersProps> = ({ encounters }) => {
     }
   };
 
-  const filteredEncounters = encounters?.filter(encounter =>
+  // One entry per visit, even when several systems (or result pages) report it
+  const entries = useMemo(() => reconcile(encounters || [], 'Encounter'), [encounters]);
+
+  const filteredEntries = entries.filter(({ resource: encounter }) =>
     encounter?.type?.[0]?.text?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     encounter?.status?.toLowerCase().includes(searchTerm.toLowerCase())
   );
@@ -98,17 +103,20 @@ const Encounters: React.FC<EncountersProps> = ({ encounters }) => {
           />
         </div>
         <ScrollArea className="h-[500px] pr-2">
-          {filteredEncounters?.map((encounter) => (
-            <Card key={encounter.id} className="mb-2 hover:shadow-lg transition-shadow duration-300">
+          {filteredEntries.map(({ key, resource: encounter, sources }) => (
+            <Card key={key} className="mb-2 hover:shadow-lg transition-shadow duration-300">
               <CardContent className="p-2">
                 <div className="flex justify-between items-center">
                   <div>
                     <h3 className="text-lg font-semibold text-indigo-700">{encounter?.type[0]?.text}</h3>
                     <p className="text-sm text-gray-600">{formatDate(encounter?.period?.start)}</p>
                   </div>
-                  <Badge variant="outline" className={getStatusColor(encounter?.status)}>
-                    {encounter?.status}
-                  </Badge>
+                  <div className="flex items-center gap-2">
+                    <ProvenanceBadge sources={sources} />
+                    <Badge variant="outline" className={getStatusColor(encounter?.status)}>
+                      {encounter?.status}
+                    </Badge>
+                  </div>
                 </div>
                 <div className="mt-2 grid grid-cols-2 gap-2 text-sm">
                   <div className="flex items-center">
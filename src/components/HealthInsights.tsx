@@ -6,8 +6,12 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
-import { Brain, AlertTriangle, CheckCircle, Info, TrendingUp, Heart, Activity, ChevronDown, ChevronUp } from 'lucide-react';
+import { Brain, AlertTriangle, CheckCircle, Info, TrendingUp, Heart, Activity, ChevronDown, ChevronUp, ClipboardList, Syringe } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { conditionGroup, conditionName, isDisplayableCondition, verificationStatus } from '@/lib/conditions';
+import type { ScheduleResult } from '@/lib/immunizations';
+import { SEVERITY_LABELS, type InteractionFinding } from '@/lib/interactions';
+import { classifyVital, findVitalComponent } from '@/lib/vital-signs';
 
 interface Insight {
   id: string;
@@ -23,9 +27,40 @@ interface HealthInsightsProps {
   medications: any[];
   labReports: any[];
   encounters: any[];
+  conditions?: any[];
+  /** Output of checkImmunizationSchedule */
+  immunizationGaps?: ScheduleResult[];
+  /** Output of checkInteractions */
+  interactions?: InteractionFinding[];
 }
 
-const HealthInsights: React.FC<HealthInsightsProps> = ({ vitals, medications, labReports, encounters }) => {
+// Matches a problem by SNOMED code, ICD-10 prefix or name
+interface ConditionMatcher {
+  snomed: string[];
+  icd10: string[];
+  text: string[];
+}
+
+const HYPERTENSION: ConditionMatcher = { snomed: ['38341003', '59621000'], icd10: ['I10', 'I11', 'I12', 'I13', 'I15'], text: ['hypertension'] };
+const DIABETES: ConditionMatcher = { snomed: ['44054006', '46635009', '73211009'], icd10: ['E10', 'E11', 'E13'], text: ['diabetes'] };
+
+const HBA1C_LOINC = ['4548-4', '17856-6'];
+const SIX_MONTHS_MS = 183 * 24 * 60 * 60 * 1000;
+
+// From a blood pressure panel, or a systolic reading sent on its own
+const systolicValue = (vital: any): number | undefined => {
+  const kind = classifyVital(vital.code);
+  if (kind === 'systolic') return vital.valueQuantity?.value;
+  return kind === 'bloodPressure' ? findVitalComponent(vital, 'systolic')?.valueQuantity?.value : undefined;
+};
+
+const matchesCondition = (condition: any, matcher: ConditionMatcher) =>
+  (condition.code?.coding || []).some((coding: any) =>
+    (coding.system === 'http://snomed.info/sct' && matcher.snomed.includes(coding.code)) ||
+    (coding.system?.startsWith('http://hl7.org/fhir/sid/icd-10') && matcher.icd10.some(prefix => coding.code?.startsWith(prefix)))
+  ) || matcher.text.some(text => conditionName(condition).toLowerCase().includes(text));
+
+const HealthInsights: React.FC<HealthInsightsProps> = ({ vitals, medications, labReports, encounters, conditions, immunizationGaps, interactions }) => {
   const insights = useMemo<Insight[]>(() => {
     const generatedInsights: Insight[] = [];
 
@@ -33,22 +68,18 @@ const HealthInsights: React.FC<HealthInsightsProps> = ({ vitals, medications, la
     if (vitals && vitals.length > 0) {
       vitals.forEach((vital) => {
         // Blood pressure analysis
-        if (vital.code?.coding?.[0]?.display?.toLowerCase().includes('blood pressure')) {
-          const systolic = vital.component?.find((c: any) =>
-            c.code?.coding?.[0]?.display?.toLowerCase().includes('systolic')
-          );
-          const systolicValue = systolic?.valueQuantity?.value;
-
-          if (systolicValue && systolicValue > 140) {
+        const systolic = systolicValue(vital);
+        if (systolic !== undefined) {
+          if (systolic > 140) {
             generatedInsights.push({
               id: `bp-high-${vital.id}`,
               type: 'warning',
               category: 'Vitals',
               title: 'Elevated Blood Pressure Detected',
-              description: `Your systolic blood pressure (${systolicValue} mmHg) is above the normal range. Consider discussing this with your healthcare provider.`,
+              description: `Your systolic blood pressure (${systolic} mmHg) is above the normal range. Consider discussing this with your healthcare provider.`,
               priority: 'high',
             });
-          } else if (systolicValue && systolicValue >= 120 && systolicValue <= 140) {
+          } else if (systolic >= 120) {
             generatedInsights.push({
               id: `bp-watch-${vital.id}`,
               type: 'info',
@@ -61,7 +92,7 @@ const HealthInsights: React.FC<HealthInsightsProps> = ({ vitals, medications, la
         }
 
         // Heart rate analysis
-        if (vital.code?.coding?.[0]?.display?.toLowerCase().includes('heart rate')) {
+        if (classifyVital(vital.code) === 'heartRate') {
           const heartRate = vital.valueQuantity?.value;
           if (heartRate && (heartRate > 100 || heartRate < 60)) {
             generatedInsights.push({
@@ -77,6 +108,116 @@ const HealthInsights: React.FC<HealthInsightsProps> = ({ vitals, medications, la
       });
     }
 
+    // Problem list insights
+    const activeConditions = (conditions || []).filter(condition =>
+      isDisplayableCondition(condition) && conditionGroup(condition) === 'active'
+    );
+    if (activeConditions.length > 0) {
+      generatedInsights.push({
+        id: 'conditions-active',
+        type: 'info',
+        category: 'Conditions',
+        title: 'Active Health Conditions',
+        description: `You have ${activeConditions.length} active condition${activeConditions.length > 1 ? 's' : ''} on your problem list: ${activeConditions.slice(0, 3).map(conditionName).join(', ')}${activeConditions.length > 3 ? ' and more' : ''}.`,
+        priority: 'low',
+      });
+
+      const hasHypertension = activeConditions.some(condition => matchesCondition(condition, HYPERTENSION));
+      const highSystolic = (vitals || []).some((vital) => (systolicValue(vital) ?? 0) > 140);
+      if (hasHypertension && highSystolic) {
+        generatedInsights.push({
+          id: 'conditions-hypertension-bp',
+          type: 'warning',
+          category: 'Conditions',
+          title: 'Blood Pressure Above Target',
+          description: 'Your problem list includes hypertension and a recent reading was above 140 mmHg systolic. Talk to your care team about whether your treatment needs adjusting.',
+          priority: 'high',
+        });
+      }
+
+      const hasDiabetes = activeConditions.some(condition => matchesCondition(condition, DIABETES));
+      const recentA1c = (labReports || []).some((lab) =>
+        lab.code?.coding?.some((coding: any) => HBA1C_LOINC.includes(coding.code)) &&
+        lab.effectiveDateTime && Date.now() - new Date(lab.effectiveDateTime).getTime() < SIX_MONTHS_MS
+      );
+      if (hasDiabetes && !recentA1c) {
+        generatedInsights.push({
+          id: 'conditions-diabetes-a1c',
+          type: 'suggestion',
+          category: 'Conditions',
+          title: 'HbA1c Check Due',
+          description: 'Your problem list includes diabetes but there is no HbA1c result from the last 6 months. Most guidelines recommend testing every 3-6 months.',
+          priority: 'medium',
+        });
+      }
+
+      const unconfirmed = activeConditions.filter(condition =>
+        ['provisional', 'differential', 'unconfirmed'].includes(verificationStatus(condition) || '')
+      );
+      if (unconfirmed.length > 0) {
+        generatedInsights.push({
+          id: 'conditions-unconfirmed',
+          type: 'info',
+          category: 'Conditions',
+          title: 'Unconfirmed Diagnoses',
+          description: `${unconfirmed.map(conditionName).join(', ')} ${unconfirmed.length > 1 ? 'are' : 'is'} not yet confirmed. Ask your provider about next steps.`,
+          priority: 'medium',
+        });
+      }
+    }
+
+    // Immunization schedule gaps
+    const vaccineNames = (status: ScheduleResult['status']) => (immunizationGaps || [])
+      .filter(gap => gap.status === status)
+      .map(gap => gap.recommendation.name);
+    const overdueVaccines = vaccineNames('overdue');
+    const dueVaccines = vaccineNames('due');
+    const upcomingVaccines = vaccineNames('upcoming');
+    if (overdueVaccines.length > 0) {
+      generatedInsights.push({
+        id: 'immunizations-overdue',
+        type: 'warning',
+        category: 'Immunizations',
+        title: 'Overdue Vaccines',
+        description: `Your record shows you may be behind on: ${overdueVaccines.join(', ')}. Ask your provider whether you need a catch-up dose.`,
+        priority: 'high',
+      });
+    }
+    if (dueVaccines.length > 0) {
+      generatedInsights.push({
+        id: 'immunizations-due',
+        type: 'suggestion',
+        category: 'Immunizations',
+        title: 'Vaccines Due Now',
+        description: `${dueVaccines.join(', ')} ${dueVaccines.length > 1 ? 'are' : 'is'} recommended for you now.`,
+        priority: 'medium',
+      });
+    }
+    if (upcomingVaccines.length > 0) {
+      generatedInsights.push({
+        id: 'immunizations-upcoming',
+        type: 'info',
+        category: 'Immunizations',
+        title: 'Upcoming Vaccines',
+        description: `Coming up in the next few months: ${upcomingVaccines.join(', ')}.`,
+        priority: 'low',
+      });
+    }
+
+    // Interactions between prescriptions, and with recorded allergies
+    (interactions || []).forEach(finding => {
+      generatedInsights.push({
+        id: `interaction-${finding.id}`,
+        type: 'warning',
+        category: 'Medications',
+        title: finding.kind === 'drug-allergy'
+          ? `${finding.medicationNames[0]} and your ${finding.allergy} allergy`
+          : `${finding.medicationNames.join(' + ')}: ${finding.severity === 'contraindicated' ? 'do not combine' : `${SEVERITY_LABELS[finding.severity].toLowerCase()} interaction`}`,
+        description: `${finding.mechanism} ${finding.advice}`,
+        priority: 'high',
+      });
+    });
+
     // Medication adherence insights
     if (medications && medications.length > 0) {
       const activeMeds = medications.filter((med: any) => med.status === 'active');
@@ -155,7 +296,7 @@ const HealthInsights: React.FC<HealthInsightsProps> = ({ vitals, medications, la
       const priorityOrder = { high: 0, medium: 1, low: 2 };
       return priorityOrder[a.priority] - priorityOrder[b.priority];
     });
-  }, [vitals, medications, labReports, encounters]);
+  }, [vitals, medications, labReports, encounters, conditions, immunizationGaps, interactions]);
 
   const getIcon = (type: string) => {
     switch (type) {
@@ -207,6 +348,10 @@ const HealthInsights: React.FC<HealthInsightsProps> = ({ vitals, medications, la
         return <AlertTriangle className="h-4 w-4" />;
       case 'Care':
         return <Heart className="h-4 w-4" />;
+      case 'Conditions':
+        return <ClipboardList className="h-4 w-4" />;
+      case 'Immunizations':
+        return <Syringe className="h-4 w-4" />;
       case 'Wellness':
         return <TrendingUp className="h-4 w-4" />;
       default:
@@ -222,6 +367,10 @@ const HealthInsights: React.FC<HealthInsightsProps> = ({ vitals, medications, la
         return 'text-blue-500 dark:text-blue-400';
       case 'Care':
         return 'text-green-500 dark:text-green-400';
+      case 'Conditions':
+        return 'text-orange-500 dark:text-orange-400';
+      case 'Immunizations':
+        return 'text-teal-500 dark:text-teal-400';
       case 'Wellness':
         return 'text-purple-500 dark:text-purple-400';
       default:
@@ -2,15 +2,20 @@
 import React from 'react';
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
 import { getVitalStatus, renderVitalValue } from '@/utils/vitalUtils';
+import { useUnitPreference } from '@/contexts/UnitPreferenceContext';
 
 interface HealthSummaryProps {
   groupedByVital: Record<string, any[]>;
 }
 
 export const HealthSummary: React.FC<HealthSummaryProps> = ({ groupedByVital }) => {
+  const { unitSystem } = useUnitPreference();
+  const statusOf = (name: string, measurement: any) =>
+    getVitalStatus(name, name === 'Blood Pressure' ? measurement : measurement.value, measurement.observation);
+
   const abnormalVitals = Object.entries(groupedByVital).filter(([name, measurements]) => {
     const latestMeasurement = measurements[0];
-    return getVitalStatus(name, latestMeasurement.value) !== 'normal';
+    return statusOf(name, latestMeasurement) !== 'normal';
   });
 
   return (
@@ -25,7 +30,7 @@ export const HealthSummary: React.FC<HealthSummaryProps> = ({ groupedByVital })
             <ul>
               {abnormalVitals.map(([name, measurements]) => (
                 <li key={name}>
-                  {name}: {renderVitalValue(measurements[0])} ({getVitalStatus(name, measurements[0].value)})
+                  {name}: {renderVitalValue(measurements[0], unitSystem)} ({statusOf(name, measurements[0])})
                 </li>
               ))}
             </ul>
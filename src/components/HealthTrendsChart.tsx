@@ -1,80 +1,127 @@
 'use client';
 
 import React, { useMemo } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Area, AreaChart } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Area, AreaChart, ReferenceLine } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { DateRangePicker } from '@/components/ui/date-range-picker';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { format } from 'date-fns';
-import { Observation } from 'fhir/r4';
+import { Observation, Quantity } from 'fhir/r4';
 import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import type { GoalTarget } from '@/lib/care';
+import { displayQuantity, normalizeQuantity } from '@/lib/units';
+import { VITAL_SIGNS, classifyVital, findVitalComponent } from '@/lib/vital-signs';
+import { isAllTime } from '@/lib/date-range';
+import { useUnitPreference } from '@/contexts/UnitPreferenceContext';
+import useDateRange from '@/hooks/useDateRange';
+
+// LOINC codes whose goals are drawn on each chart
+const CHART_MEASURES = {
+  bloodPressure: [...VITAL_SIGNS.systolic.loinc, ...VITAL_SIGNS.diastolic.loinc],
+  heartRate: VITAL_SIGNS.heartRate.loinc,
+  temperature: VITAL_SIGNS.temperature.loinc,
+  weight: VITAL_SIGNS.weight.loinc,
+};
 
 interface HealthTrendsChartProps {
+  /** Already narrowed to the shared date range */
   vitals: Observation[];
+  /** Measurable goal targets, drawn as target lines */
+  goalTargets?: GoalTarget[];
 }
 
-const HealthTrendsChart: React.FC<HealthTrendsChartProps> = ({ vitals }) => {
+const HealthTrendsChart: React.FC<HealthTrendsChartProps> = ({ vitals, goalTargets = [] }) => {
+  const { unitSystem } = useUnitPreference();
+  const { dateRange, setDateRange } = useDateRange();
+  // All time shows the latest readings; a chosen range shows all of them
+  const allTime = isAllTime(dateRange);
+
   const chartData = useMemo(() => {
     if (!vitals || vitals.length === 0) return { bloodPressure: [], heartRate: [], temperature: [], weight: [] };
 
-    const bloodPressure: any[] = [];
+    // Keyed by time so separately-sent systolic and diastolic readings pair up
+    const bloodPressure = new Map<string, any>();
     const heartRate: any[] = [];
     const temperature: any[] = [];
     const weight: any[] = [];
 
-    vitals.forEach((vital) => {
-      const date = vital.effectiveDateTime ? new Date(vital.effectiveDateTime) : new Date();
-      const formattedDate = format(date, 'MMM dd');
-
-      // Blood Pressure (systolic/diastolic)
-      if (vital.code?.coding?.[0]?.display?.toLowerCase().includes('blood pressure')) {
-        const systolic = vital.component?.find(c => c.code?.coding?.[0]?.display?.toLowerCase().includes('systolic'));
-        const diastolic = vital.component?.find(c => c.code?.coding?.[0]?.display?.toLowerCase().includes('diastolic'));
-
-        if (systolic && diastolic) {
-          bloodPressure.push({
-            date: formattedDate,
-            systolic: systolic.valueQuantity?.value || 0,
-            diastolic: diastolic.valueQuantity?.value || 0,
-          });
-        }
-      }
+    // Normalized by UCUM unit so readings from different EMRs share a scale,
+    // then shown in the patient's preferred system
+    const shown = ({ valueQuantity }: { valueQuantity?: Quantity }) => {
+      const { value, unit } = displayQuantity(valueQuantity && normalizeQuantity(valueQuantity), unitSystem);
+      return { value: value || 0, unit };
+    };
 
-      // Heart Rate
-      if (vital.code?.coding?.[0]?.display?.toLowerCase().includes('heart rate')) {
-        heartRate.push({
-          date: formattedDate,
-          value: vital.valueQuantity?.value || 0,
-          unit: vital.valueQuantity?.unit || 'bpm',
-        });
-      }
+    // Oldest first, so the chart reads left to right and the trend compares the latest two
+    const chronological = [...vitals].sort((a, b) => (a.effectiveDateTime || '').localeCompare(b.effectiveDateTime || ''));
 
-      // Temperature
-      if (vital.code?.coding?.[0]?.display?.toLowerCase().includes('temperature')) {
-        temperature.push({
-          date: formattedDate,
-          value: vital.valueQuantity?.value || 0,
-          unit: vital.valueQuantity?.unit || '°F',
-        });
-      }
+    chronological.forEach((vital) => {
+      const date = vital.effectiveDateTime ? new Date(vital.effectiveDateTime) : new Date();
+      const formattedDate = format(date, allTime ? 'MMM dd' : 'MMM dd, yy');
 
-      // Weight
-      if (vital.code?.coding?.[0]?.display?.toLowerCase().includes('weight') ||
-          vital.code?.coding?.[0]?.display?.toLowerCase().includes('body mass')) {
-        weight.push({
-          date: formattedDate,
-          value: vital.valueQuantity?.value || 0,
-          unit: vital.valueQuantity?.unit || 'kg',
-        });
+      const reading = (part: 'systolic' | 'diastolic', value: number) => {
+        const key = vital.effectiveDateTime || formattedDate;
+        bloodPressure.set(key, { date: formattedDate, ...bloodPressure.get(key), [part]: value });
+      };
+
+      const kind = classifyVital(vital.code);
+      switch (kind) {
+        // Blood Pressure (systolic/diastolic)
+        case 'bloodPressure': {
+          const systolic = findVitalComponent(vital, 'systolic');
+          const diastolic = findVitalComponent(vital, 'diastolic');
+          if (systolic && diastolic) {
+            reading('systolic', shown(systolic).value);
+            reading('diastolic', shown(diastolic).value);
+          }
+          break;
+        }
+        case 'systolic':
+        case 'diastolic':
+          reading(kind, shown(vital).value);
+          break;
+        case 'heartRate':
+          heartRate.push({ date: formattedDate, ...shown(vital) });
+          break;
+        case 'temperature':
+          temperature.push({ date: formattedDate, ...shown(vital) });
+          break;
+        case 'weight':
+          weight.push({ date: formattedDate, ...shown(vital) });
+          break;
       }
     });
 
+    const pairedBloodPressure = Array.from(bloodPressure.values())
+      .filter(entry => entry.systolic !== undefined && entry.diastolic !== undefined);
+
+    const shownReadings = (readings: any[]) => (allTime ? readings.slice(-10) : readings);
     return {
-      bloodPressure: bloodPressure.slice(-10).reverse(),
-      heartRate: heartRate.slice(-10).reverse(),
-      temperature: temperature.slice(-10).reverse(),
-      weight: weight.slice(-10).reverse(),
+      bloodPressure: shownReadings(pairedBloodPressure),
+      heartRate: shownReadings(heartRate),
+      temperature: shownReadings(temperature),
+      weight: shownReadings(weight),
     };
-  }, [vitals]);
+  }, [vitals, unitSystem, allTime]);
+
+  // One line per bound - a range target gets two
+  const targetLines = (chart: keyof typeof CHART_MEASURES) => goalTargets
+    .filter(target => CHART_MEASURES[chart].includes(target.measureCode))
+    .flatMap(target => {
+      const bounds = target.low === target.high ? [target.low] : [target.low, target.high];
+      return bounds
+        .map(bound => displayQuantity(bound === undefined ? undefined : { value: bound, unit: target.unit }, unitSystem).value)
+        .filter((value): value is number => value !== undefined).map(value => (
+        <ReferenceLine
+          key={`${target.measureCode}-${value}`}
+          y={value}
+          stroke="#0d9488"
+          strokeDasharray="6 4"
+          ifOverflow="extendDomain"
+          label={{ value: `Goal: ${target.measureName.replace(/ blood pressure$/i, '')} ${value}`, position: 'insideTopRight', fontSize: 11, fill: '#0d9488' }}
+        />
+      ));
+    });
 
   const getTrendIndicator = (data: any[]) => {
     if (data.length < 2) return <Minus className="h-4 w-4 text-gray-400" />;
@@ -104,10 +151,13 @@ const HealthTrendsChart: React.FC<HealthTrendsChartProps> = ({ vitals }) => {
   return (
     <Card className="w-full">
       <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <TrendingUp className="h-5 w-5" />
-          Health Trends & Analytics
-        </CardTitle>
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5" />
+            Health Trends & Analytics
+          </CardTitle>
+          <DateRangePicker value={dateRange} onChange={setDateRange} />
+        </div>
       </CardHeader>
       <CardContent>
         <Tabs defaultValue="bloodPressure" className="w-full">
@@ -146,6 +196,7 @@ const HealthTrendsChart: React.FC<HealthTrendsChartProps> = ({ vitals }) => {
                     <Legend />
                     <Line type="monotone" dataKey="systolic" stroke="#ef4444" strokeWidth={2} name="Systolic" dot={{ r: 4 }} />
                     <Line type="monotone" dataKey="diastolic" stroke="#3b82f6" strokeWidth={2} name="Diastolic" dot={{ r: 4 }} />
+                    {targetLines('bloodPressure')}
                   </LineChart>
                 </ResponsiveContainer>
               </>
@@ -173,6 +224,7 @@ const HealthTrendsChart: React.FC<HealthTrendsChartProps> = ({ vitals }) => {
                     <YAxis className="text-xs" />
                     <Tooltip content={<CustomTooltip />} />
                     <Area type="monotone" dataKey="value" stroke="#8b5cf6" fill="#8b5cf6" fillOpacity={0.3} name="Heart Rate" />
+                    {targetLines('heartRate')}
                   </AreaChart>
                 </ResponsiveContainer>
               </>
@@ -200,6 +252,7 @@ const HealthTrendsChart: React.FC<HealthTrendsChartProps> = ({ vitals }) => {
                     <YAxis className="text-xs" domain={['dataMin - 2', 'dataMax + 2']} />
                     <Tooltip content={<CustomTooltip />} />
                     <Line type="monotone" dataKey="value" stroke="#f59e0b" strokeWidth={2} name="Temperature" dot={{ r: 4 }} />
+                    {targetLines('temperature')}
                   </LineChart>
                 </ResponsiveContainer>
               </>
@@ -227,6 +280,7 @@ const HealthTrendsChart: React.FC<HealthTrendsChartProps> = ({ vitals }) => {
                     <YAxis className="text-xs" />
                     <Tooltip content={<CustomTooltip />} />
                     <Area type="monotone" dataKey="value" stroke="#10b981" fill="#10b981" fillOpacity={0.3} name="Weight" />
+                    {targetLines('weight')}
                   </AreaChart>
                 </ResponsiveContainer>
               </>
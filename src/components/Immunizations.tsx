@@ -0,0 +1,208 @@
+import React, { useMemo } from 'react';
+import { Syringe, Calendar, CalendarClock, CheckCircle, HelpCircle, Package, User, XCircle } from 'lucide-react';
+import { Immunization } from 'fhir/r4';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import ProvenanceBadge from './ProvenanceBadge';
+import { reconcile, type ReconciledEntry } from '@/lib/reconcile';
+import { IMMUNIZATION_SCHEDULE } from '@/config/immunizationSchedule';
+import {
+  cvxCode,
+  isDisplayableImmunization,
+  notDoneReason,
+  occurrenceDate,
+  occurrenceText,
+  performerNames,
+  vaccineName,
+  type ScheduleResult,
+  type ScheduleStatus,
+} from '@/lib/immunizations';
+
+const STATUS_STYLES: Record<ScheduleStatus, { label: string; color: string }> = {
+  overdue: { label: 'Overdue', color: 'bg-red-100 text-red-800' },
+  due: { label: 'Due now', color: 'bg-yellow-100 text-yellow-800' },
+  upcoming: { label: 'Upcoming', color: 'bg-blue-100 text-blue-800' },
+  complete: { label: 'Up to date', color: 'bg-green-100 text-green-800' },
+};
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+interface ScheduleCardProps {
+  gaps: ScheduleResult[];
+  /** Why the schedule couldn't be checked, if it couldn't */
+  unavailableReason?: string;
+}
+
+const ScheduleCard: React.FC<ScheduleCardProps> = ({ gaps, unavailableReason }) => {
+  const open = gaps.filter(gap => gap.status !== 'complete');
+  const completeCount = gaps.length - open.length;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex justify-between items-center gap-2 text-lg">
+          <span className="flex items-center text-teal-700">
+            <CalendarClock className="h-5 w-5 mr-2" /> Recommended Schedule
+          </span>
+          <Badge variant="outline" className="text-xs font-normal" title={IMMUNIZATION_SCHEDULE.source}>
+            {IMMUNIZATION_SCHEDULE.version}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        {unavailableReason ? (
+          <p className="flex items-center text-gray-600">
+            <HelpCircle className="h-4 w-4 mr-2" /> {unavailableReason}
+          </p>
+        ) : open.length === 0 ? (
+          <p className="flex items-center text-green-700">
+            <CheckCircle className="h-4 w-4 mr-2" /> No routine vaccines are due based on your record
+          </p>
+        ) : (
+          open.map(gap => (
+            <div key={gap.recommendation.id} className="flex justify-between items-center gap-2 border-b last:border-0 pb-2">
+              <div>
+                <p className="font-medium text-gray-900">{gap.recommendation.name}</p>
+                <p className="text-xs text-gray-500">
+                  {gap.dosesRequired !== undefined
+                    ? `${gap.dosesReceived} of ${gap.dosesRequired} doses on record`
+                    : gap.lastDoseDate
+                      ? `Last dose ${formatDate(new Date(gap.lastDoseDate))}`
+                      : 'No dose on record'}
+                  {gap.dueDate && ` · due ${formatDate(gap.dueDate)}`}
+                </p>
+              </div>
+              <Badge variant="outline" className={STATUS_STYLES[gap.status].color}>
+                {STATUS_STYLES[gap.status].label}
+              </Badge>
+            </div>
+          ))
+        )}
+        {!unavailableReason && completeCount > 0 && (
+          <p className="text-xs text-gray-500">{completeCount} vaccine series up to date</p>
+        )}
+        <p className="text-xs text-gray-400 pt-1">
+          Routine recommendations only - your provider may advise differently based on your health and history.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+interface DoseRowProps {
+  immunization: Immunization;
+  sources: Immunization[];
+}
+
+const DoseRow: React.FC<DoseRowProps> = ({ immunization, sources }) => {
+  const notDone = immunization.status === 'not-done';
+  const performers = performerNames(immunization);
+  const reason = notDoneReason(immunization);
+
+  return (
+    <div className={`rounded-md border p-3 ${notDone ? 'border-dashed border-gray-400 bg-gray-50' : 'bg-white'}`}>
+      <div className="flex justify-between items-start gap-2">
+        <span className={`flex items-center font-medium ${notDone ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
+          <Calendar className="h-4 w-4 mr-2 text-gray-400" />
+          {occurrenceText(immunization)}
+        </span>
+        <div className="flex items-center gap-2 flex-wrap justify-end">
+          <ProvenanceBadge sources={sources} />
+          {notDone ? (
+            <Badge variant="destructive" className="flex items-center">
+              <XCircle className="h-3 w-3 mr-1" /> Not given
+            </Badge>
+          ) : immunization.status === 'completed' ? (
+            <Badge variant="outline" className="bg-green-100 text-green-800">Given</Badge>
+          ) : null}
+        </div>
+      </div>
+      {notDone && (
+        <p className="mt-1 text-xs text-gray-600">Reason: {reason || 'Not recorded'}</p>
+      )}
+      <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-1 text-xs text-gray-600">
+        <span className="flex items-center">
+          <Package className="h-3 w-3 mr-1 text-gray-400" />
+          Lot: {immunization.lotNumber || 'Not recorded'}
+        </span>
+        <span className="flex items-center">
+          <User className="h-3 w-3 mr-1 text-gray-400" />
+          {performers.length > 0 ? performers.join(', ') : 'Performer not recorded'}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+interface ImmunizationsProps {
+  immunizations: Immunization[];
+  /** Output of checkImmunizationSchedule */
+  gaps: ScheduleResult[];
+  birthDate?: string;
+  /** The EMR couldn't be asked or returned an error */
+  unavailable?: boolean;
+}
+
+const Immunizations: React.FC<ImmunizationsProps> = ({ immunizations, gaps, birthDate, unavailable = false }) => {
+  // Doses grouped by vaccine, most recent first
+  const vaccines = useMemo(() => {
+    const entries = reconcile(immunizations.filter(isDisplayableImmunization), 'Immunization')
+      .sort((a, b) => new Date(occurrenceDate(b.resource) || 0).getTime() - new Date(occurrenceDate(a.resource) || 0).getTime());
+
+    const groups = new Map<string, { name: string; cvx?: string; entries: ReconciledEntry<Immunization>[] }>();
+    entries.forEach(entry => {
+      const cvx = cvxCode(entry.resource);
+      const name = vaccineName(entry.resource);
+      const key = cvx ? `cvx:${cvx}` : name.toLowerCase();
+      if (!groups.has(key)) groups.set(key, { name, cvx, entries: [] });
+      groups.get(key)!.entries.push(entry);
+    });
+    return Array.from(groups.entries());
+  }, [immunizations]);
+
+  const unavailableReason = unavailable
+    ? 'Immunization records couldn\'t be loaded, so the schedule can\'t be checked'
+    : !birthDate
+      ? 'Your record has no birth date, so the schedule can\'t be checked'
+      : undefined;
+
+  return (
+    <div className="mt-8 bg-gradient-to-r from-teal-50 to-cyan-50 p-6 rounded-lg shadow-lg">
+      <h2 className="text-2xl font-bold text-teal-800 mb-4 flex items-center">
+        <Syringe className="mr-2" /> Immunizations
+      </h2>
+      <ScrollArea className="h-[600px] pr-4">
+        <ScheduleCard gaps={gaps} unavailableReason={unavailableReason} />
+
+        {vaccines.length === 0 ? (
+          <Card>
+            <CardContent className="flex items-center justify-center h-32">
+              <p className="text-gray-600">No immunizations on record</p>
+            </CardContent>
+          </Card>
+        ) : (
+          vaccines.map(([key, vaccine]) => (
+            <Card key={key} className="mb-3">
+              <CardHeader className="pb-2">
+                <CardTitle className="flex justify-between items-start gap-2">
+                  <span className="text-lg font-semibold text-teal-700">{vaccine.name}</span>
+                  {vaccine.cvx && (
+                    <Badge variant="secondary" className="font-mono text-xs">CVX: {vaccine.cvx}</Badge>
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {vaccine.entries.map(entry => (
+                  <DoseRow key={entry.key} immunization={entry.resource} sources={entry.sources} />
+                ))}
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default Immunizations;
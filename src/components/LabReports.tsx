@@ -1,13 +1,45 @@
-import React, { useState } from 'react';
-import { FileText, AlertCircle, CheckCircle, ChevronDown, ChevronUp, Calendar, User, Clock, TestTube } from 'lucide-react';
-import { Observation } from 'fhir/r4';
+import React, { useMemo, useState } from 'react';
+import { FileText, AlertCircle, CheckCircle, ChevronDown, ChevronUp, Calendar, User, Clock, TestTube, ClipboardCheck, TrendingUp } from 'lucide-react';
+import { DiagnosticReport, Observation } from 'fhir/r4';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DateRangePicker } from '@/components/ui/date-range-picker';
+import { Button } from '@/components/ui/button';
+import LabTrends from './LabTrends';
+import SourceBadge from './SourceBadge';
+import ProvenanceBadge from './ProvenanceBadge';
+import { groupLabPanels, orderingProvider, reportName, type LabPanel } from '@/lib/lab-panels';
+import { RANGE_SOURCE_LABELS, checkReferenceRange, rangeText, type PatientDemographics } from '@/lib/reference-ranges';
+import { displayQuantity, formatQuantity, type UnitSystem } from '@/lib/units';
+import { isAllTime } from '@/lib/date-range';
+import { useUnitPreference } from '@/contexts/UnitPreferenceContext';
+import useDateRange from '@/hooks/useDateRange';
+
+const getInterpretationColor = (code?: string) => {
+  switch (code) {
+    case 'N': return 'text-green-600';
+    case 'L':
+    case 'H': return 'text-yellow-600';
+    case 'LL':
+    case 'HH': return 'text-red-600';
+    default: return 'text-gray-600';
+  }
+};
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
+  });
+};
 
 interface LabResultCardProps {
   report: Observation;
+  patient?: PatientDemographics;
 }
 
-const LabResultCard: React.FC<LabResultCardProps> = ({ report }) => {
+const LabResultCard: React.FC<LabResultCardProps> = ({ report, patient }) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const { unitSystem } = useUnitPreference();
+  const { range } = checkReferenceRange(report, patient);
 
   const getTestName = () => {
     return report.code?.text || 
@@ -17,7 +49,7 @@ const LabResultCard: React.FC<LabResultCardProps> = ({ report }) => {
 
   const getResultValue = () => {
     if (report.valueQuantity) {
-      return `${report.valueQuantity.value} ${report.valueQuantity.unit || ''}`;
+      return formatQuantity(report.valueQuantity, unitSystem) || 'N/A';
     } else if (report.valueCodeableConcept) {
       return report.valueCodeableConcept.text || 'N/A';
     } else {
@@ -34,17 +66,6 @@ const LabResultCard: React.FC<LabResultCardProps> = ({ report }) => {
     return null;
   };
 
-  const getInterpretationColor = (code: string) => {
-    switch (code) {
-      case 'N': return 'text-green-600';
-      case 'L':
-      case 'H': return 'text-yellow-600';
-      case 'LL':
-      case 'HH': return 'text-red-600';
-      default: return 'text-gray-600';
-    }
-  };
-
   const getInterpretationIcon = (code: string) => {
     switch (code) {
       case 'N': return <CheckCircle className="h-5 w-5 text-green-600" />;
@@ -56,12 +77,6 @@ const LabResultCard: React.FC<LabResultCardProps> = ({ report }) => {
     }
   };
 
-  const formatDate = (date: string) => {
-    return new Date(date).toLocaleDateString('en-US', {
-      year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
-    });
-  };
-
   const interpretation = getInterpretation();
 
   return (
@@ -72,9 +87,12 @@ const LabResultCard: React.FC<LabResultCardProps> = ({ report }) => {
             {interpretation ? getInterpretationIcon(interpretation.code) : <TestTube className="h-5 w-5 text-blue-500" />}
             <h3 className="text-lg font-semibold text-gray-900 ml-2">{getTestName()}</h3>
           </div>
-          <span className={`px-2 py-1 rounded-full text-xs font-medium ${report.status === 'final' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>
-            {report.status}
-          </span>
+          <div className="flex items-center gap-2">
+            <SourceBadge resource={report} />
+            <span className={`px-2 py-1 rounded-full text-xs font-medium ${report.status === 'final' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>
+              {report.status}
+            </span>
+          </div>
         </div>
         
         <div className="mt-2 flex items-center justify-between">
@@ -86,9 +104,10 @@ const LabResultCard: React.FC<LabResultCardProps> = ({ report }) => {
           )}
         </div>
         
-        {report.referenceRange && report.referenceRange.length > 0 && (
+        {range && (
           <p className="mt-1 text-sm text-gray-500">
-            Reference Range: {report.referenceRange[0].low?.value || ''} - {report.referenceRange[0].high?.value || ''} {report.referenceRange[0].low?.unit || ''}
+            Reference Range: {rangeText(range, { system: unitSystem })}
+            <span className="ml-1 text-xs text-gray-400">({RANGE_SOURCE_LABELS[range.source]})</span>
           </p>
         )}
         
@@ -140,25 +159,172 @@ const LabResultCard: React.FC<LabResultCardProps> = ({ report }) => {
   );
 };
 
+const resultValue = (observation: Observation, system: UnitSystem) => {
+  if (observation.valueQuantity?.value !== undefined) {
+    const { value, unit } = displayQuantity(observation.valueQuantity, system);
+    return { value: String(value), unit };
+  }
+  if (observation.valueCodeableConcept) return { value: observation.valueCodeableConcept.text || observation.valueCodeableConcept.coding?.[0]?.display || 'N/A', unit: '' };
+  if (observation.valueString) return { value: observation.valueString, unit: '' };
+  return { value: observation.dataAbsentReason?.text || 'N/A', unit: '' };
+};
+
+const LabPanelCard: React.FC<{ panel: LabPanel; patient?: PatientDemographics }> = ({ panel, patient }) => {
+  const { unitSystem } = useUnitPreference();
+  const report = panel.entry.resource;
+  const orderedBy = orderingProvider(report);
+  const issued = report.issued || report.effectiveDateTime;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      <div className="p-4">
+        <div className="flex justify-between items-start gap-2">
+          <div className="flex items-center">
+            <ClipboardCheck className="h-5 w-5 text-indigo-500" />
+            <h3 className="text-lg font-semibold text-gray-900 ml-2">{reportName(report)}</h3>
+          </div>
+          <div className="flex items-center gap-2">
+            <ProvenanceBadge sources={panel.entry.sources} />
+            <span className={`px-2 py-1 rounded-full text-xs font-medium ${report.status === 'final' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>
+              {report.status}
+            </span>
+          </div>
+        </div>
+
+        <div className="mt-2 flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-500">
+          <span className="flex items-center">
+            <User className="h-4 w-4 mr-2" />
+            Ordered by: {orderedBy || 'Not specified'}
+          </span>
+          {issued && (
+            <span className="flex items-center">
+              <Clock className="h-4 w-4 mr-2" />
+              Issued: {formatDate(issued)}
+            </span>
+          )}
+        </div>
+
+        {panel.results.length > 0 && (
+          <Table className="mt-3 text-sm">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Test</TableHead>
+                <TableHead className="text-right">Value</TableHead>
+                <TableHead>Unit</TableHead>
+                <TableHead>Reference range</TableHead>
+                <TableHead>Flag</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {panel.results.map((observation, index) => {
+                const { value, unit } = resultValue(observation, unitSystem);
+                const flag = observation.interpretation?.[0];
+                const { status, range } = checkReferenceRange(observation, patient);
+                // Without a flag from the EMR, show ours from the resolved range
+                const flagCode = flag?.coding?.[0]?.code || (status === 'high' ? 'H' : status === 'low' ? 'L' : undefined);
+                const abnormal = status === 'high' || status === 'low';
+                const flagTitle = flag?.text || flag?.coding?.[0]?.display
+                  || (abnormal && range ? `Outside the normal range (${RANGE_SOURCE_LABELS[range.source]})` : undefined);
+                return (
+                  <TableRow key={observation.id || index} className={abnormal ? 'bg-yellow-50' : undefined}>
+                    <TableCell className="py-2">{observation.code?.text || observation.code?.coding?.[0]?.display || 'Unknown Test'}</TableCell>
+                    <TableCell className={`py-2 text-right font-medium ${abnormal ? getInterpretationColor(flagCode) : 'text-gray-900'}`}>{value}</TableCell>
+                    <TableCell className="py-2 text-gray-500">{unit}</TableCell>
+                    <TableCell className="py-2 text-gray-500">
+                      {rangeText(range, { withUnit: false, system: unitSystem })}
+                      {range && range.source !== 'observation' && <span className="block text-xs text-gray-400">{RANGE_SOURCE_LABELS[range.source]}</span>}
+                    </TableCell>
+                    <TableCell className={`py-2 font-medium ${getInterpretationColor(flagCode)}`} title={flagTitle}>
+                      {flagCode || ''}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+        {panel.missingCount > 0 && (
+          <p className="mt-2 text-xs text-gray-500">
+            {panel.missingCount} result{panel.missingCount > 1 ? 's' : ''} in this report {panel.missingCount > 1 ? 'weren\'t' : 'wasn\'t'} returned by your provider
+          </p>
+        )}
+
+        {report.conclusion && (
+          <div className="mt-3 p-2 bg-indigo-50 rounded-md text-sm text-indigo-900">
+            <span className="font-medium">Conclusion: </span>{report.conclusion}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+type ViewMode = 'trends' | 'reports';
+
 interface LabReportsProps {
+  /** Already narrowed to the shared date range */
   labReports: Observation[];
+  /** Reports whose `result` groups the observations into panels */
+  diagnosticReports?: DiagnosticReport[];
+  /** Age and sex pick the default range when a result has none of its own */
+  patient?: PatientDemographics;
 }
 
-const LabReports: React.FC<LabReportsProps> = ({ labReports }) => {
+const LabReports: React.FC<LabReportsProps> = ({ labReports, diagnosticReports = [], patient }) => {
+  const { panels, ungrouped } = useMemo(
+    () => groupLabPanels(diagnosticReports, labReports),
+    [diagnosticReports, labReports]
+  );
+  const { dateRange, setDateRange } = useDateRange();
+  const [viewMode, setViewMode] = useState<ViewMode>('trends');
+  const empty = panels.length === 0 && ungrouped.length === 0;
+
   return (
     <div className="bg-gradient-to-r from-blue-100 to-indigo-100 p-6 rounded-lg shadow-lg">
-      <h2 className="text-2xl font-bold text-indigo-800 mb-6 flex items-center">
-        <TestTube className="mr-2" /> Your Lab Results
-      </h2>
-      <div className="space-y-6">
-        {labReports.length > 0 ? (
-          labReports.map((report, index) => (
-            <LabResultCard key={index} report={report} />
-          ))
-        ) : (
-          <p className="text-gray-600 text-center py-4">No lab results available</p>
-        )}
+      <div className="flex items-center justify-between flex-wrap gap-4 mb-6">
+        <h2 className="text-2xl font-bold text-indigo-800 flex items-center">
+          <TestTube className="mr-2" /> Your Lab Results
+        </h2>
+        <div className="flex items-center gap-2">
+          <Button
+            variant={viewMode === 'trends' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setViewMode('trends')}
+          >
+            <TrendingUp className="h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">By test</span>
+          </Button>
+          <Button
+            variant={viewMode === 'reports' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setViewMode('reports')}
+          >
+            <ClipboardCheck className="h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">By report</span>
+          </Button>
+          <DateRangePicker value={dateRange} onChange={setDateRange} className="bg-white" />
+        </div>
       </div>
+      {viewMode === 'trends' && !empty ? (
+        <LabTrends labReports={labReports} patient={patient} />
+      ) : (
+        <div className="space-y-6">
+          {panels.map(panel => (
+            <LabPanelCard key={panel.entry.key} panel={panel} patient={patient} />
+          ))}
+          {panels.length > 0 && ungrouped.length > 0 && (
+            <h3 className="text-lg font-semibold text-indigo-800">Other results</h3>
+          )}
+          {ungrouped.map((report, index) => (
+            <LabResultCard key={index} report={report} patient={patient} />
+          ))}
+          {empty && (
+            <p className="text-gray-600 text-center py-4">
+              {isAllTime(dateRange) ? 'No lab results available' : 'No lab results in this date range'}
+            </p>
+          )}
+        </div>
+      )}
     </div>
   );
 };
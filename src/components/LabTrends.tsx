@@ -0,0 +1,258 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceArea } from 'recharts';
+import { format } from 'date-fns';
+import { ArrowDownRight, ArrowUpRight, Minus } from 'lucide-react';
+import { Observation } from 'fhir/r4';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import SourceBadge from './SourceBadge';
+import { labTrends, type LabPoint, type LabTrend } from '@/lib/lab-trends';
+import { RANGE_SOURCE_LABELS, rangeText, type PatientDemographics } from '@/lib/reference-ranges';
+import { displayQuantity, type UnitSystem } from '@/lib/units';
+import { useUnitPreference } from '@/contexts/UnitPreferenceContext';
+
+const BAND_COLOR = '#10b981';
+const LINE_COLOR = '#6366f1';
+
+const flagColor = (code?: string) => {
+  switch (code) {
+    case 'N': return 'text-green-600';
+    case 'L':
+    case 'H': return 'text-yellow-600';
+    case 'LL':
+    case 'HH': return 'text-red-600';
+    default: return 'text-gray-600';
+  }
+};
+
+// The EMR's flag, else ours from the resolved range
+const flagCode = ({ observation, check }: LabPoint) =>
+  observation.interpretation?.[0]?.coding?.[0]?.code
+  || (check.status === 'high' ? 'H' : check.status === 'low' ? 'L' : undefined);
+
+const shortDate = (date?: string) => (date ? format(new Date(date), 'MMM d, yyyy') : 'Unknown date');
+
+const pointValue = (point: LabPoint, trend: LabTrend, system: UnitSystem) => {
+  const { observation } = point;
+  if (point.value !== undefined) {
+    const { value, unit } = displayQuantity({ value: point.value, unit: trend.unit }, system);
+    return `${value} ${unit}`.trim();
+  }
+  if (observation.valueQuantity?.value !== undefined) {
+    const { value, unit } = displayQuantity(observation.valueQuantity, system);
+    return `${value} ${unit}`.trim();
+  }
+  return observation.valueCodeableConcept?.text
+    || observation.valueCodeableConcept?.coding?.[0]?.display
+    || observation.valueString
+    || observation.dataAbsentReason?.text
+    || 'N/A';
+};
+
+/**
+ * Chart-ready values and band in the patient's unit system
+ */
+function chartSeries(trend: LabTrend, system: UnitSystem) {
+  const shown = (value?: number) =>
+    value === undefined ? undefined : displayQuantity({ value, unit: trend.unit }, system).value;
+  return {
+    data: trend.points
+      .filter(point => point.value !== undefined)
+      .map(point => ({ date: point.date ? format(new Date(point.date), 'MMM d, yy') : '', value: shown(point.value) })),
+    band: trend.range ? { low: shown(trend.range.low), high: shown(trend.range.high) } : undefined,
+    unit: displayQuantity({ value: 0, unit: trend.unit }, system).unit,
+  };
+}
+
+// How far outside the range a value sits - 0 inside it
+const distanceFromRange = (value: number, trend: LabTrend) => {
+  const { low, high } = trend.range || {};
+  if (low !== undefined && value < low) return low - value;
+  if (high !== undefined && value > high) return value - high;
+  return 0;
+};
+
+const DeltaBadge: React.FC<{ trend: LabTrend; system: UnitSystem }> = ({ trend, system }) => {
+  if (trend.delta === undefined || !trend.previous) return null;
+  const { value: previous } = displayQuantity({ value: trend.previous.value, unit: trend.unit }, system);
+  const { value: latest, unit } = displayQuantity({ value: trend.latest.value, unit: trend.unit }, system);
+  if (previous === undefined || latest === undefined) return null;
+  const delta = Math.round((latest - previous) * 1000) / 1000;
+
+  // Up isn't good or bad by itself - what matters is moving toward the range
+  const before = distanceFromRange(trend.previous.value!, trend);
+  const after = distanceFromRange(trend.latest.value!, trend);
+  const color = after < before ? 'text-green-600' : after > before ? 'text-yellow-600' : 'text-gray-500';
+  const Icon = delta > 0 ? ArrowUpRight : delta < 0 ? ArrowDownRight : Minus;
+
+  return (
+    <p className={`flex items-center text-xs ${color}`} title={`Previous: ${previous} ${unit} on ${shortDate(trend.previous.date)}`}>
+      <Icon className="h-3 w-3 mr-0.5" />
+      {delta > 0 ? '+' : ''}{delta} {unit}
+      <span className="ml-1 text-gray-400">vs {previous} on {shortDate(trend.previous.date)}</span>
+    </p>
+  );
+};
+
+const TrendTooltip = ({ active, payload, label, unit }: any) => {
+  if (active && payload && payload.length) {
+    return (
+      <div className="bg-white dark:bg-gray-800 px-2 py-1 border border-gray-200 dark:border-gray-700 rounded shadow text-xs">
+        <p className="font-semibold">{label}</p>
+        <p>{payload[0].value} {unit}</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+const LabTrendCard: React.FC<{ trend: LabTrend; onOpen: () => void }> = ({ trend, onOpen }) => {
+  const { unitSystem } = useUnitPreference();
+  const { data, band, unit } = chartSeries(trend, unitSystem);
+  const code = flagCode(trend.latest);
+
+  return (
+    <button
+      type="button"
+      onClick={onOpen}
+      className="w-full text-left bg-white rounded-lg shadow-md p-4 hover:shadow-lg transition-shadow focus:outline-none focus:ring-2 focus:ring-indigo-400"
+    >
+      <div className="flex justify-between items-start gap-2">
+        <div className="min-w-0">
+          <h3 className="font-semibold text-gray-900 truncate">{trend.name}</h3>
+          <p className="text-xs text-gray-500">
+            {trend.points.length} result{trend.points.length > 1 ? 's' : ''} · latest {shortDate(trend.latest.date)}
+          </p>
+        </div>
+        <SourceBadge resource={trend.latest.observation} />
+      </div>
+
+      <div className="mt-2 flex items-end justify-between gap-4">
+        <div>
+          <p className="text-2xl font-bold text-indigo-600">
+            {pointValue(trend.latest, trend, unitSystem)}
+            {code && <span className={`ml-2 text-sm font-medium ${flagColor(code)}`}>{code}</span>}
+          </p>
+          <DeltaBadge trend={trend} system={unitSystem} />
+          {trend.range && (
+            <p className="text-xs text-gray-500">
+              Range: {rangeText(trend.range, { system: unitSystem })}
+            </p>
+          )}
+        </div>
+        {data.length > 1 && (
+          <div className="w-32 sm:w-40 h-14 flex-shrink-0">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={data} margin={{ top: 4, right: 4, bottom: 4, left: 4 }}>
+                <YAxis hide domain={['dataMin', 'dataMax']} />
+                {band && (
+                  <ReferenceArea y1={band.low} y2={band.high} fill={BAND_COLOR} fillOpacity={0.15} stroke="none" ifOverflow="extendDomain" />
+                )}
+                <Tooltip content={<TrendTooltip unit={unit} />} />
+                <Line type="monotone" dataKey="value" stroke={LINE_COLOR} strokeWidth={2} dot={{ r: 2 }} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+    </button>
+  );
+};
+
+const LabHistoryDialog: React.FC<{ trend: LabTrend | null; onClose: () => void }> = ({ trend, onClose }) => {
+  const { unitSystem } = useUnitPreference();
+  if (!trend) return null;
+  const { data, band, unit } = chartSeries(trend, unitSystem);
+
+  return (
+    <Dialog open onOpenChange={isOpen => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{trend.name}</DialogTitle>
+          <DialogDescription>
+            {trend.points.length} result{trend.points.length > 1 ? 's' : ''}
+            {trend.loinc && ` · LOINC ${trend.loinc}`}
+            {trend.range && ` · normal ${rangeText(trend.range, { system: unitSystem })} (${RANGE_SOURCE_LABELS[trend.range.source]})`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {data.length > 1 && (
+          <ResponsiveContainer width="100%" height={220}>
+            <LineChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-gray-200 dark:stroke-gray-700" />
+              <XAxis dataKey="date" className="text-xs" />
+              <YAxis className="text-xs" domain={['dataMin', 'dataMax']} />
+              {band && (
+                <ReferenceArea y1={band.low} y2={band.high} fill={BAND_COLOR} fillOpacity={0.15} stroke="none" ifOverflow="extendDomain" />
+              )}
+              <Tooltip content={<TrendTooltip unit={unit} />} />
+              <Line type="monotone" dataKey="value" stroke={LINE_COLOR} strokeWidth={2} dot={{ r: 4 }} name={trend.name} />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+
+        <div className="max-h-72 overflow-y-auto">
+          <Table className="text-sm">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead className="text-right">Value</TableHead>
+                <TableHead>Interpretation</TableHead>
+                <TableHead>Reference range</TableHead>
+                <TableHead>Source</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...trend.points].reverse().map((point, index) => {
+                const code = flagCode(point);
+                const interpretation = point.observation.interpretation?.[0];
+                const abnormal = point.check.status === 'high' || point.check.status === 'low';
+                return (
+                  <TableRow key={point.observation.id || index} className={abnormal ? 'bg-yellow-50' : undefined}>
+                    <TableCell className="py-2">{shortDate(point.date)}</TableCell>
+                    <TableCell className={`py-2 text-right font-medium ${abnormal ? flagColor(code) : 'text-gray-900'}`}>
+                      {pointValue(point, trend, unitSystem)}
+                    </TableCell>
+                    <TableCell className={`py-2 ${flagColor(code)}`}>
+                      {interpretation?.text || interpretation?.coding?.[0]?.display || code || (point.check.status === 'normal' ? 'Normal' : '')}
+                    </TableCell>
+                    <TableCell className="py-2 text-gray-500">{rangeText(point.check.range, { system: unitSystem })}</TableCell>
+                    <TableCell className="py-2"><SourceBadge resource={point.observation} /></TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface LabTrendsProps {
+  labReports: Observation[];
+  patient?: PatientDemographics;
+}
+
+const LabTrends: React.FC<LabTrendsProps> = ({ labReports, patient }) => {
+  const trends = useMemo(() => labTrends(labReports, patient), [labReports, patient]);
+  const [openKey, setOpenKey] = useState<string | null>(null);
+  const open = trends.find(trend => trend.key === openKey) || null;
+
+  if (trends.length === 0) return null;
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {trends.map(trend => (
+          <LabTrendCard key={trend.key} trend={trend} onOpen={() => setOpenKey(trend.key)} />
+        ))}
+      </div>
+      <LabHistoryDialog trend={open} onClose={() => setOpenKey(null)} />
+    </>
+  );
+};
+
+export default LabTrends;
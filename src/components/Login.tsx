@@ -3,23 +3,32 @@
  *
  * This replaces the old Login component with SDK-powered authentication.
  * No more manual OAuth handling, PKCE, or EMR-specific logic!
+ *
+ * Opened while signed in (/connect), it links further EMR accounts instead.
  */
 
 'use client';
 
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FileText, Lock, Activity, Server, CheckCircle, Heart, ChevronRight, Info } from 'lucide-react';
+import { FileText, Lock, Activity, Server, CheckCircle, Heart, ChevronRight, Info, Link2, Plus } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { useAuth, emrRegistry } from '@nirmiteeio/fhir-sdk';
+import { useAuth, emrRegistry, SessionStorageAuthState } from '@nirmiteeio/fhir-sdk';
 import { useRouter } from 'next/navigation';
+import { clearLaunchProvider } from '@/app/ehr-launch';
+import { completeBackendCallback, isBackendProvider } from '@/app/backend-session';
+import { clearPendingLink, completeLinkCallback, pendingLinkProvider, startLinkAccount } from '@/app/linked-accounts';
+import { useSession } from '@/contexts/SessionContext';
+import { parseScopes, sessionFromSdkStorage } from '@/lib/session-store';
 
 const HealthJourneyPortal = () => {
   const router = useRouter();
+  const { session, isLoggedIn, isLoading: sessionLoading, selectedProviderId: savedProviderId, selectProvider, setSession, updateSession } = useSession();
   const [selectedProviderId, setSelectedProviderId] = useState('');
+  const [linkProviderId, setLinkProviderId] = useState('');
   const [callbackProviderId, setCallbackProviderId] = useState<string | null>(null);
   const [stage, setStage] = useState(0);
   const [status, setStatus] = useState('');
@@ -32,23 +41,32 @@ const HealthJourneyPortal = () => {
     const state = urlParams.get('state');
 
     if (code && state && !authInitiated.current) {
-      // Get provider ID from sessionStorage (set during authorize)
-      const sessionProviderId = sessionStorage.getItem('fhir_sdk_auth_provider_id');
+      // Get provider ID from the SDK's auth state (set during authorize)
+      const sessionProviderId = new SessionStorageAuthState().getProviderId();
 
-      if (sessionProviderId) {
+      if (sessionProviderId && !emrRegistry.hasProvider(sessionProviderId)) {
+        // Don't guess a provider - exchanging the code with the wrong EMR can't succeed
+        window.history.replaceState({}, document.title, window.location.pathname);
+        setStatus(`Authentication failed: EMR "${sessionProviderId}" is no longer configured`);
+      } else if (sessionProviderId) {
         setCallbackProviderId(sessionProviderId);
         authInitiated.current = true;
       }
-    } else {
-      // Not a callback, load saved provider ID for login
-      const savedProviderId = localStorage.getItem('selected_provider_id');
-      if (savedProviderId) {
-        setSelectedProviderId(savedProviderId);
-      }
     }
   }, []);
 
+  // Not a callback - preselect the provider chosen last time
+  useEffect(() => {
+    if (sessionLoading || new URLSearchParams(window.location.search).get('code')) return;
+    if (savedProviderId && emrRegistry.hasProvider(savedProviderId)) {
+      setSelectedProviderId(current => current || savedProviderId);
+    }
+  }, [sessionLoading, savedProviderId]);
+
   const providers = emrRegistry.listProviders();
+  // Signed in already - the login screen offers to connect further EMRs instead
+  const connectedIds = new Set(session ? [session.providerId, ...(session.linkedAccounts || []).map(account => account.providerId)] : []);
+  const linkableProviders = providers.filter(provider => !connectedIds.has(provider.id));
 
   // Get auth client - use callback provider ID if handling callback, otherwise use selected
   const effectiveProviderId = callbackProviderId || selectedProviderId || 'epic';
@@ -72,10 +90,38 @@ const HealthJourneyPortal = () => {
       // Clear URL params immediately
       window.history.replaceState({}, document.title, window.location.pathname);
 
-      // Handle callback with SDK using saved URL
-      authClient.handleCallback(callbackUrl)
+      // Connecting another EMR to the current session rather than signing in
+      const linkTo = pendingLinkProvider() === callbackProviderId && isLoggedIn ? session : null;
+      if (!linkTo) clearPendingLink();
+      // Re-authorizing the same primary account (e.g. for more scopes) keeps its linked ones
+      const linkedAccounts = session?.providerId === callbackProviderId ? session.linkedAccounts : undefined;
+
+      // Confidential clients exchange the code on the server; everyone else through the SDK
+      const exchange = linkTo
+        ? completeLinkCallback(callbackProviderId, callbackUrl).then(account => updateSession({
+            linkedAccounts: [
+              ...(linkTo.linkedAccounts || []).filter(linked => linked.providerId !== account.providerId),
+              account,
+            ],
+          }))
+        : isBackendProvider(callbackProviderId)
+        ? completeBackendCallback(callbackProviderId, callbackUrl).then(result => setSession({
+            providerId: callbackProviderId,
+            patientId: result.patientId,
+            expiresAt: result.expiresAt,
+            scopes: parseScopes(result.scope),
+            fhirUser: result.fhirUser,
+            linkedAccounts,
+          }))
+        : authClient.authClient.handleCallback(callbackUrl).then(async tokenResponse => {
+            const account = await sessionFromSdkStorage(callbackProviderId, tokenResponse.scope);
+            if (!account) throw new Error('No access token received');
+            await setSession({ ...account, linkedAccounts });
+          });
+
+      exchange
         .then(() => {
-          setStatus('Authentication successful! Redirecting...');
+          setStatus(linkTo ? 'Account connected! Redirecting...' : 'Authentication successful! Redirecting...');
           setTimeout(() => {
             router.push('/dashboard');
           }, 1000);
@@ -88,23 +134,13 @@ const HealthJourneyPortal = () => {
           authInitiated.current = false;
         });
     }
-  }, [callbackProviderId, authClient, router]);
-
-  // Check if already authenticated
-  useEffect(() => {
-    // Check if we have tokens in storage
-    const hasAccessToken = localStorage.getItem('fhir_sdk_access_token');
-    const hasProviderId = localStorage.getItem('selected_provider_id');
-
-    if (hasAccessToken && hasProviderId) {
-      console.log('✅ Already authenticated, redirecting to dashboard...');
-      router.push('/dashboard');
-    }
-  }, [router]);
+  }, [callbackProviderId, authClient, router, session, isLoggedIn, setSession, updateSession]);
 
   const handleEMRSelect = (providerId: string) => {
+    // Standalone login uses the regular scopes, not the EHR launch ones
+    clearLaunchProvider();
     setSelectedProviderId(providerId);
-    localStorage.setItem('selected_provider_id', providerId);
+    selectProvider(providerId);
     setStage(1);
   };
 
@@ -122,6 +158,21 @@ const HealthJourneyPortal = () => {
     }
   };
 
+  const handleLinkClick = async () => {
+    if (!linkProviderId) return;
+    setStage(2);
+    setStatus('Connecting another EMR...');
+
+    try {
+      // Signs in at the other EMR with its own token set, then merges on return
+      await startLinkAccount(linkProviderId);
+    } catch (error) {
+      console.error('Connecting account failed:', error);
+      setStatus(`Connecting account failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setStage(0);
+    }
+  };
+
   const stageConfig = [
     { icon: Server, color: 'text-blue-500', bgColor: 'bg-blue-100', label: 'Select EMR' },
     { icon: Lock, color: 'text-green-500', bgColor: 'bg-green-100', label: 'Secure Connection' },
@@ -132,6 +183,52 @@ const HealthJourneyPortal = () => {
   const renderStageContent = () => {
     switch(stage) {
       case 0:
+        if (isLoggedIn && session && !callbackProviderId) {
+          const signedInWith = providers.find(p => p.id === session.providerId);
+          return (
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              transition={{ duration: 0.5 }}
+              className="space-y-6"
+            >
+              <h3 className="text-xl font-semibold flex items-center">
+                <Link2 className="mr-2 h-5 w-5" /> Connect Another EMR
+              </h3>
+              <p>
+                You&apos;re signed in with {signedInWith?.name || session.providerId}
+                {session.linkedAccounts?.length ? ` and ${session.linkedAccounts.length} more account(s)` : ''}.
+                If you also see providers on another EMR system, connect it to see one combined record.
+              </p>
+              {status && <p className="text-sm text-red-500">{status}</p>}
+              {linkableProviders.length > 0 ? (
+                <div className="flex gap-2">
+                  <Select onValueChange={setLinkProviderId} value={linkProviderId}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Select another EMR system" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {linkableProviders.map((provider) => (
+                        <SelectItem key={provider.id} value={provider.id}>
+                          {provider.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={handleLinkClick} disabled={!linkProviderId}>
+                    <Plus className="mr-1 h-4 w-4" /> Connect
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Every configured EMR is already connected.</p>
+              )}
+              <Button variant="outline" className="w-full" onClick={() => router.push('/dashboard')}>
+                Continue to your dashboard <ChevronRight className="ml-2 h-4 w-4" />
+              </Button>
+            </motion.div>
+          );
+        }
         return (
           <motion.div
             initial={{ opacity: 0 }}
@@ -142,6 +239,7 @@ const HealthJourneyPortal = () => {
           >
             <h3 className="text-xl font-semibold">Welcome to Your Health Journey</h3>
             <p>This portal allows you to securely access and manage your medical records from various healthcare providers. Let's get started by selecting your EMR system.</p>
+            {status && <p className="text-sm text-red-500">{status}</p>}
             <Select onValueChange={handleEMRSelect} value={selectedProviderId}>
               <SelectTrigger className="w-full">
                 <SelectValue placeholder="Select your EMR system" />
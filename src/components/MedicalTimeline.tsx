@@ -4,19 +4,30 @@ import React, { useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Calendar, Pill, Activity, FileText, Stethoscope, Clock } from 'lucide-react';
+import { Calendar, Pill, Activity, FileText, Stethoscope, Clock, ClipboardList } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 import { motion } from 'framer-motion';
+import type { Coding } from 'fhir/r4';
+import SourceBadge from './SourceBadge';
+import { getSource } from '@/lib/merge-records';
+import { conditionName, isDisplayableCondition, onsetDate } from '@/lib/conditions';
 
 interface TimelineEvent {
   id: string;
-  type: 'medication' | 'vital' | 'lab' | 'appointment' | 'encounter' | 'procedure';
+  type: 'medication' | 'vital' | 'lab' | 'appointment' | 'encounter' | 'procedure' | 'condition';
   title: string;
   description: string;
   date: Date;
   status?: string;
+  source?: Coding;
 }
 
+// Merged records can hold the same id from two EMRs - keep keys unique
+const eventId = (prefix: string, resource: any) => {
+  const source = getSource(resource);
+  return `${prefix}-${source ? `${source.code}-` : ''}${resource.id}`;
+};
+
 interface MedicalTimelineProps {
   medications: any[];
   vitals: any[];
@@ -24,6 +35,7 @@ interface MedicalTimelineProps {
   appointments: any[];
   encounters: any[];
   procedures: any[];
+  conditions?: any[];
 }
 
 const MedicalTimeline: React.FC<MedicalTimelineProps> = ({
@@ -33,6 +45,7 @@ const MedicalTimeline: React.FC<MedicalTimelineProps> = ({
   appointments,
   encounters,
   procedures,
+  conditions,
 }) => {
   const timelineEvents = useMemo<TimelineEvent[]>(() => {
     const events: TimelineEvent[] = [];
@@ -41,7 +54,8 @@ const MedicalTimeline: React.FC<MedicalTimelineProps> = ({
     if (Array.isArray(medications)) {
       medications.forEach((med) => {
         events.push({
-          id: `med-${med.id}`,
+          id: eventId('med', med),
+          source: getSource(med),
           type: 'medication',
           title: med.medicationCodeableConcept?.text || med.medicationCodeableConcept?.coding?.[0]?.display || 'Medication',
           description: `Status: ${med.status}`,
@@ -55,7 +69,8 @@ const MedicalTimeline: React.FC<MedicalTimelineProps> = ({
     if (Array.isArray(vitals)) {
       vitals.slice(0, 5).forEach((vital) => {
         events.push({
-          id: `vital-${vital.id}`,
+          id: eventId('vital', vital),
+          source: getSource(vital),
           type: 'vital',
           title: vital.code?.coding?.[0]?.display || 'Vital Sign',
           description: `${vital.valueQuantity?.value} ${vital.valueQuantity?.unit || ''}`,
@@ -68,7 +83,8 @@ const MedicalTimeline: React.FC<MedicalTimelineProps> = ({
     if (Array.isArray(appointments)) {
       appointments.forEach((apt) => {
         events.push({
-          id: `apt-${apt.id}`,
+          id: eventId('apt', apt),
+          source: getSource(apt),
           type: 'appointment',
           title: apt.appointmentType?.text || 'Appointment',
           description: apt.description || 'Scheduled appointment',
@@ -82,7 +98,8 @@ const MedicalTimeline: React.FC<MedicalTimelineProps> = ({
     if (Array.isArray(encounters)) {
       encounters.slice(0, 5).forEach((enc) => {
         events.push({
-          id: `enc-${enc.id}`,
+          id: eventId('enc', enc),
+          source: getSource(enc),
           type: 'encounter',
           title: enc.type?.[0]?.text || enc.class?.display || 'Encounter',
           description: enc.reasonCode?.[0]?.text || `Status: ${enc.status}`,
@@ -96,7 +113,8 @@ const MedicalTimeline: React.FC<MedicalTimelineProps> = ({
     if (Array.isArray(procedures)) {
       procedures.slice(0, 5).forEach((proc) => {
         events.push({
-          id: `proc-${proc.id}`,
+          id: eventId('proc', proc),
+          source: getSource(proc),
           type: 'procedure',
           title: proc.code?.text || proc.code?.coding?.[0]?.display || 'Procedure',
           description: `Status: ${proc.status}`,
@@ -106,9 +124,26 @@ const MedicalTimeline: React.FC<MedicalTimelineProps> = ({
       });
     }
 
+    // Add conditions (diagnosed problems, dated by onset)
+    if (Array.isArray(conditions)) {
+      conditions.filter(isDisplayableCondition).forEach((condition) => {
+        const onset = onsetDate(condition);
+        if (!onset) return;
+        events.push({
+          id: eventId('cond', condition),
+          source: getSource(condition),
+          type: 'condition',
+          title: conditionName(condition),
+          description: condition.verificationStatus?.coding?.[0]?.code === 'confirmed' ? 'Diagnosed' : 'Problem noted',
+          date: parseISO(onset),
+          status: condition.clinicalStatus?.coding?.[0]?.code,
+        });
+      });
+    }
+
     // Sort by date (most recent first)
     return events.sort((a, b) => b.date.getTime() - a.date.getTime()).slice(0, 20);
-  }, [medications, vitals, labReports, appointments, encounters, procedures]);
+  }, [medications, vitals, labReports, appointments, encounters, procedures, conditions]);
 
   const getIcon = (type: string) => {
     switch (type) {
@@ -124,6 +159,8 @@ const MedicalTimeline: React.FC<MedicalTimelineProps> = ({
         return <Stethoscope className="h-4 w-4" />;
       case 'procedure':
         return <FileText className="h-4 w-4" />;
+      case 'condition':
+        return <ClipboardList className="h-4 w-4" />;
       default:
         return <Clock className="h-4 w-4" />;
     }
@@ -143,6 +180,8 @@ const MedicalTimeline: React.FC<MedicalTimelineProps> = ({
         return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
       case 'procedure':
         return 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200';
+      case 'condition':
+        return 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200';
       default:
         return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
     }
@@ -179,9 +218,12 @@ const MedicalTimeline: React.FC<MedicalTimelineProps> = ({
                 <div className="flex-1 space-y-1 pt-0.5">
                   <div className="flex items-center justify-between gap-2 flex-wrap">
                     <h4 className="font-semibold text-sm">{event.title}</h4>
-                    <Badge variant="outline" className="text-xs">
-                      {event.type.charAt(0).toUpperCase() + event.type.slice(1)}
-                    </Badge>
+                    <div className="flex items-center gap-1">
+                      <SourceBadge source={event.source} />
+                      <Badge variant="outline" className="text-xs">
+                        {event.type.charAt(0).toUpperCase() + event.type.slice(1)}
+                      </Badge>
+                    </div>
                   </div>
                   <p className="text-sm text-muted-foreground">{event.description}</p>
                   <p className="text-xs text-muted-foreground flex items-center gap-1">
@@ -0,0 +1,196 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, Download, HelpCircle, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  MISMATCH_LABELS,
+  REPORTED_STATUS_LABELS,
+  hasMismatch,
+  medicationStatementBundle,
+  type AddedMedication,
+  type MedicationReport,
+  type ReconciliationItem,
+  type ReportedStatus,
+} from '@/lib/med-reconciliation';
+
+const STATUSES = Object.keys(REPORTED_STATUS_LABELS) as ReportedStatus[];
+
+interface ReportedStatusPickerProps {
+  report?: MedicationReport;
+  onReport: (status: ReportedStatus, note?: string) => void;
+  onClear: () => void;
+}
+
+/**
+ * "Are you actually taking this?" - the patient's answer for one prescription
+ */
+export const ReportedStatusPicker: React.FC<ReportedStatusPickerProps> = ({ report, onReport, onClear }) => {
+  const [note, setNote] = useState(report?.note || '');
+  useEffect(() => setNote(report?.note || ''), [report?.note]);
+  const needsNote = report?.status === 'taking-differently' || report?.status === 'stopped';
+
+  return (
+    <div className="mb-3 rounded-md bg-gray-50 p-3">
+      <div className="flex flex-wrap items-center gap-2" role="group" aria-label="What you're actually doing">
+        <span className="text-sm text-gray-600">You&apos;re:</span>
+        {STATUSES.map(status => (
+          <Button
+            key={status}
+            size="sm"
+            variant={report?.status === status ? 'default' : 'outline'}
+            className="h-7 rounded-full"
+            onClick={() => (report?.status === status ? onClear() : onReport(status, note))}
+          >
+            {REPORTED_STATUS_LABELS[status]}
+          </Button>
+        ))}
+      </div>
+      {needsNote && (
+        <Input
+          className="mt-2 h-8 text-sm"
+          placeholder={report?.status === 'stopped' ? 'Why did you stop? (optional)' : 'How are you taking it?'}
+          value={note}
+          onChange={event => setNote(event.target.value)}
+          onBlur={() => note !== (report?.note || '') && onReport(report!.status, note)}
+        />
+      )}
+    </div>
+  );
+};
+
+interface AddMedicationFormProps {
+  onAdd: (medication: Omit<AddedMedication, 'id' | 'addedAt'>) => void;
+}
+
+export const AddMedicationForm: React.FC<AddMedicationFormProps> = ({ onAdd }) => {
+  const [name, setName] = useState('');
+  const [dosage, setDosage] = useState('');
+  const [reason, setReason] = useState('');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    onAdd({ name: name.trim(), dosage: dosage.trim() || undefined, reason: reason.trim() || undefined });
+    setName('');
+    setDosage('');
+    setReason('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-[2fr_2fr_2fr_auto] gap-2">
+      <Input placeholder="Medicine, e.g. Ibuprofen" value={name} onChange={event => setName(event.target.value)} aria-label="Medicine name" />
+      <Input placeholder="How much and how often" value={dosage} onChange={event => setDosage(event.target.value)} aria-label="Dosage" />
+      <Input placeholder="What it's for (optional)" value={reason} onChange={event => setReason(event.target.value)} aria-label="Reason" />
+      <Button type="submit" disabled={!name.trim()}>
+        <Plus className="h-4 w-4 mr-1" /> Add
+      </Button>
+    </form>
+  );
+};
+
+export const AddedMedicationCard: React.FC<{ medication: AddedMedication; onRemove: () => void }> = ({ medication, onRemove }) => (
+  <Card className="mb-4 border-dashed">
+    <CardHeader className="pb-2">
+      <CardTitle className="flex justify-between items-center">
+        <span className="text-lg font-semibold text-blue-700">{medication.name}</span>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className="bg-purple-100 text-purple-800">Added by you</Badge>
+          <Button variant="ghost" size="sm" onClick={onRemove} aria-label={`Remove ${medication.name}`}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardTitle>
+    </CardHeader>
+    <CardContent>
+      <p className="text-sm text-gray-600">Dosage: {medication.dosage || 'Not specified'}</p>
+      {medication.reason && <p className="text-sm text-gray-600">For: {medication.reason}</p>}
+    </CardContent>
+  </Card>
+);
+
+const itemTone = (item: ReconciliationItem) => {
+  if (hasMismatch(item)) return { className: 'border-yellow-300 bg-yellow-50', Icon: AlertTriangle, iconClass: 'text-yellow-600' };
+  if (item.mismatch === 'unconfirmed') return { className: 'border-gray-200 bg-gray-50', Icon: HelpCircle, iconClass: 'text-gray-400' };
+  return { className: 'border-green-200 bg-white', Icon: CheckCircle, iconClass: 'text-green-600' };
+};
+
+function downloadBundle(items: ReconciliationItem[], patientId: string) {
+  const bundle = medicationStatementBundle(items, patientId);
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `medication-statements-${format(new Date(), 'yyyy-MM-dd')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+interface ReconciliationReviewProps {
+  items: ReconciliationItem[];
+  patientId: string | null;
+}
+
+/**
+ * Where what the patient reports differs from their record - to bring to
+ * the next appointment
+ */
+export const ReconciliationReview: React.FC<ReconciliationReviewProps> = ({ items, patientId }) => {
+  const mismatches = items.filter(hasMismatch);
+  const unconfirmed = items.filter(item => item.mismatch === 'unconfirmed');
+  const reported = items.some(item => item.report || item.added);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <p className="font-semibold text-gray-900">
+              {mismatches.length === 0
+                ? 'Your list matches your record'
+                : `${mismatches.length} difference${mismatches.length > 1 ? 's' : ''} to discuss at your next appointment`}
+            </p>
+            {unconfirmed.length > 0 && (
+              <p className="text-sm text-gray-500">
+                {unconfirmed.length} prescription{unconfirmed.length > 1 ? 's' : ''} not confirmed yet
+              </p>
+            )}
+          </div>
+          <Button
+            variant="outline"
+            disabled={!patientId || !reported}
+            onClick={() => patientId && downloadBundle(items, patientId)}
+            title="Download as FHIR MedicationStatements to share with your care team"
+          >
+            <Download className="h-4 w-4 mr-2" /> Export
+          </Button>
+        </CardContent>
+      </Card>
+
+      {[...mismatches, ...unconfirmed, ...items.filter(item => !item.mismatch)].map(item => {
+        const { className, Icon, iconClass } = itemTone(item);
+        return (
+          <div key={item.key} className={`rounded-lg border p-3 flex items-start gap-3 ${className}`}>
+            <Icon className={`h-5 w-5 mt-0.5 flex-shrink-0 ${iconClass}`} />
+            <div className="min-w-0 flex-1">
+              <p className="font-medium text-gray-900">{item.name}</p>
+              <p className="text-sm text-gray-600">
+                Record: {item.request ? item.request.status || 'unknown' : 'not listed'}
+                {' · '}
+                You: {item.added ? 'taking' : item.report ? REPORTED_STATUS_LABELS[item.report.status].toLowerCase() : 'not answered'}
+              </p>
+              {item.mismatch && <p className="text-sm font-medium text-gray-700">{MISMATCH_LABELS[item.mismatch]}</p>}
+              {(item.report?.note || item.added?.dosage) && (
+                <p className="text-sm text-gray-500 italic">{item.report?.note || item.added?.dosage}</p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
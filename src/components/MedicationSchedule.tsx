@@ -0,0 +1,182 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { BarChart, Bar, Cell, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { format } from 'date-fns';
+import { Bell, BellOff, CheckCircle, Clock } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { adherenceRate, doseDueAt, type DayAdherence, type ScheduledDose } from '@/lib/dose-schedule';
+import type { DoseSchedule } from '@/hooks/useDoseSchedule';
+import type { DoseReminders, ReminderPermission } from '@/hooks/useDoseReminders';
+
+const CHART_DAYS = 14;
+
+const percentColor = (percent?: number) => {
+  if (percent === undefined) return 'text-gray-400';
+  if (percent >= 90) return 'text-green-600';
+  if (percent >= 70) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+const barColor = (percent: number) => (percent >= 90 ? '#10b981' : percent >= 70 ? '#f59e0b' : '#ef4444');
+
+const timeLabel = (dose: ScheduledDose) => format(doseDueAt(dose), 'p');
+
+const AdherenceStat: React.FC<{ label: string; days: DayAdherence[] }> = ({ label, days }) => {
+  const percent = adherenceRate(days);
+  return (
+    <div>
+      <p className={`text-2xl font-bold ${percentColor(percent)}`}>{percent === undefined ? '–' : `${percent}%`}</p>
+      <p className="text-xs text-gray-500">{label}</p>
+    </div>
+  );
+};
+
+const AdherenceTooltip = ({ active, payload }: any) => {
+  if (active && payload && payload.length) {
+    const { label, taken, due } = payload[0].payload;
+    return (
+      <div className="bg-white dark:bg-gray-800 px-2 py-1 border border-gray-200 dark:border-gray-700 rounded shadow text-xs">
+        <p className="font-semibold">{label}</p>
+        <p>{taken} of {due} doses taken</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+interface ReminderToggleProps {
+  permission: ReminderPermission;
+  enabled: boolean;
+  onEnable: () => void;
+  onDisable: () => void;
+}
+
+const ReminderToggle: React.FC<ReminderToggleProps> = ({ permission, enabled, onEnable, onDisable }) => {
+  if (permission === 'unsupported') {
+    return <p className="text-xs text-gray-500">This browser can&apos;t show dose reminders.</p>;
+  }
+  if (permission === 'denied') {
+    return <p className="text-xs text-gray-500">Notifications are blocked - allow them in your browser settings to get reminders.</p>;
+  }
+  return enabled ? (
+    <Button variant="outline" size="sm" onClick={onDisable}>
+      <BellOff className="h-4 w-4 mr-2" /> Turn off reminders
+    </Button>
+  ) : (
+    <Button variant="outline" size="sm" onClick={onEnable}>
+      <Bell className="h-4 w-4 mr-2" /> Remind me at dose times
+    </Button>
+  );
+};
+
+interface MedicationScheduleProps {
+  schedule: DoseSchedule;
+  reminders: DoseReminders;
+}
+
+/**
+ * Today's doses to tick off, and how many were taken over recent weeks
+ */
+const MedicationSchedule: React.FC<MedicationScheduleProps> = ({ schedule, reminders }) => {
+  const { doses, log, adherence, now, markTaken, markNotTaken } = schedule;
+  const taken = doses.filter(dose => log[dose.id]).length;
+
+  const chartData = useMemo(() => adherence.slice(-CHART_DAYS).map(day => ({
+    ...day,
+    label: format(new Date(`${day.day}T00:00:00`), 'MMM d'),
+    percent: day.due > 0 ? Math.round((day.taken / day.due) * 100) : undefined,
+  })), [adherence]);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="p-4 space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div className="flex-1">
+              <p className="font-semibold text-gray-900">
+                {doses.length === 0 ? 'No doses scheduled today' : `${taken} of ${doses.length} doses taken today`}
+              </p>
+              {doses.length > 0 && <Progress value={(taken / doses.length) * 100} className="mt-2 max-w-sm" />}
+            </div>
+            <ReminderToggle
+              permission={reminders.permission}
+              enabled={reminders.enabled}
+              onEnable={reminders.enable}
+              onDisable={reminders.disable}
+            />
+          </div>
+          <div className="flex gap-8">
+            <AdherenceStat label="Last 7 days" days={adherence.slice(-7)} />
+            <AdherenceStat label="Last 30 days" days={adherence} />
+          </div>
+          {chartData.some(day => day.percent !== undefined) && (
+            <ResponsiveContainer width="100%" height={120}>
+              <BarChart data={chartData}>
+                <XAxis dataKey="label" className="text-xs" interval="preserveStartEnd" />
+                <YAxis hide domain={[0, 100]} />
+                <Tooltip content={<AdherenceTooltip />} />
+                <Bar dataKey="percent" radius={[2, 2, 0, 0]} isAnimationActive={false}>
+                  {chartData.map(day => (
+                    <Cell key={day.day} fill={barColor(day.percent ?? 0)} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Today</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Times come from your prescriptions, or a usual time when they don&apos;t say. Medicines taken only as needed aren&apos;t listed.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {doses.length === 0 ? (
+            <p className="text-sm text-gray-600">Nothing to take on a schedule today.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {doses.map(dose => {
+                const takenAt = log[dose.id];
+                const overdue = !takenAt && doseDueAt(dose) < now;
+                return (
+                  <li key={dose.id} className="py-2">
+                    <label className="flex items-center gap-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="h-5 w-5 accent-blue-600"
+                        checked={!!takenAt}
+                        onChange={event => (event.target.checked ? markTaken(dose.id) : markNotTaken(dose.id))}
+                      />
+                      <span className="w-20 flex-shrink-0 text-sm font-medium text-gray-700">{timeLabel(dose)}</span>
+                      <span className="min-w-0 flex-1">
+                        <span className={`block font-medium ${takenAt ? 'text-gray-500 line-through' : 'text-gray-900'}`}>{dose.name}</span>
+                        {dose.dose && <span className="block text-sm text-gray-500">{dose.dose}</span>}
+                      </span>
+                      {takenAt ? (
+                        <span className="flex items-center text-xs text-green-600">
+                          <CheckCircle className="h-4 w-4 mr-1" /> {format(new Date(takenAt), 'p')}
+                        </span>
+                      ) : overdue ? (
+                        <span className="flex items-center text-xs text-yellow-600">
+                          <Clock className="h-4 w-4 mr-1" /> Overdue
+                        </span>
+                      ) : null}
+                    </label>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MedicationSchedule;
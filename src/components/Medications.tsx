@@ -1,28 +1,52 @@
-import React, { useState } from 'react';
-import { Pill, Calendar, Clock, AlertCircle, ChevronDown, ChevronUp, User, Repeat, Package, Hospital } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Pill, Calendar, CalendarClock, Clock, AlertCircle, AlertTriangle, ChevronDown, ChevronUp, User, Repeat, Package, Hospital, ClipboardList } from 'lucide-react';
 import { MedicationRequest } from 'fhir/r4';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import ProvenanceBadge from './ProvenanceBadge';
+import { AddMedicationForm, AddedMedicationCard, ReconciliationReview, ReportedStatusPicker } from './MedicationReconciliation';
+import MedicationSchedule from './MedicationSchedule';
+import { reconcile } from '@/lib/reconcile';
+import { formatDosageInstructions, formatTiming } from '@/lib/dosage';
+import { hasMismatch, medicationKey, medicationName, reconciliationItems, type MedicationReport, type ReportedStatus } from '@/lib/med-reconciliation';
+import { SEVERITY_LABELS, type InteractionFinding } from '@/lib/interactions';
+import type { InteractionSeverity } from '@/config/drugInteractions';
+import useMedicationReconciliation from '@/hooks/useMedicationReconciliation';
+import type { DoseSchedule } from '@/hooks/useDoseSchedule';
+import type { DoseReminders } from '@/hooks/useDoseReminders';
 
 interface MedicationCardProps {
   medication: MedicationRequest;
+  /** Duplicates of this medication from other systems, including itself */
+  sources?: MedicationRequest[];
+  /** What the patient says they're actually doing */
+  report?: MedicationReport;
+  onReport: (status: ReportedStatus, note?: string) => void;
+  onClearReport: () => void;
+  /** Findings involving this medication, most severe first */
+  interactions?: InteractionFinding[];
 }
 
-const MedicationCard: React.FC<MedicationCardProps> = ({ medication }) => {
-  const [isExpanded, setIsExpanded] = useState(false);
+const SEVERITY_STYLES: Record<InteractionSeverity, string> = {
+  contraindicated: 'bg-red-100 text-red-800 border-red-200',
+  major: 'bg-orange-100 text-orange-800 border-orange-200',
+  moderate: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+};
 
-  const getMedicationName = () => {
-    if (medication.medicationCodeableConcept) {
-      return medication.medicationCodeableConcept.text || 
-             medication.medicationCodeableConcept.coding?.[0]?.display ||
-             'Unnamed Medication';
-    } else if (medication.medicationReference) {
-      return medication.medicationReference.display || 'Unnamed Medication';
-    }
-    return 'Unnamed Medication';
-  };
+// What the finding is about, from this medication's side
+const interactionSubject = (finding: InteractionFinding, key: string) => {
+  if (finding.kind === 'drug-allergy') return `Your ${finding.allergy} allergy`;
+  const others = finding.medicationNames.filter((_, index) => finding.medicationKeys[index] !== key);
+  return `With ${others.join(', ')}`;
+};
+
+const MedicationCard: React.FC<MedicationCardProps> = ({ medication, sources = [medication], report, onReport, onClearReport, interactions = [] }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  // Rendered from the structured dosage - Epic often sends no text
+  const sig = useMemo(() => formatDosageInstructions(medication.dosageInstruction), [medication.dosageInstruction]);
+  const timing = useMemo(() => formatTiming(medication.dosageInstruction?.[0]?.timing), [medication.dosageInstruction]);
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -44,20 +68,51 @@ const MedicationCard: React.FC<MedicationCardProps> = ({ medication }) => {
     <Card className="mb-4">
       <CardHeader>
         <CardTitle className="flex justify-between items-center">
-          <span className="text-lg font-semibold text-blue-700">{getMedicationName()}</span>
-          <Badge variant="outline" className={getStatusColor(medication.status || 'unknown')}>
-            {medication.status}
-          </Badge>
+          <span className="text-lg font-semibold text-blue-700">{medicationName(medication)}</span>
+          <div className="flex items-center gap-2">
+            {interactions.length > 0 && (
+              <Badge variant="outline" className={SEVERITY_STYLES[interactions[0].severity]} title={SEVERITY_LABELS[interactions[0].severity]}>
+                <AlertTriangle className="h-3 w-3 mr-1" />
+                {interactions.length} interaction{interactions.length > 1 ? 's' : ''}
+              </Badge>
+            )}
+            <ProvenanceBadge sources={sources} />
+            <Badge variant="outline" className={getStatusColor(medication.status || 'unknown')}>
+              {medication.status}
+            </Badge>
+          </div>
         </CardTitle>
       </CardHeader>
       <CardContent>
-        <p className="text-sm text-gray-600 mb-3">
-          Dosage: {medication.dosageInstruction?.[0]?.text || 'No dosage information available'}
-        </p>
+        <ReportedStatusPicker report={report} onReport={onReport} onClear={onClearReport} />
+        {interactions.length > 0 && (
+          <ul className="mb-3 space-y-2">
+            {interactions.map(finding => (
+              <li key={finding.id} className={`rounded-md border p-2 text-sm ${SEVERITY_STYLES[finding.severity]}`}>
+                <p className="font-medium">
+                  {SEVERITY_LABELS[finding.severity]} · {interactionSubject(finding, medicationKey(medication))}
+                </p>
+                <p className="mt-0.5">{finding.mechanism} {finding.advice}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+        {sig.length > 1 ? (
+          <div className="text-sm text-gray-600 mb-3">
+            Dosage:
+            <ol className="mt-1 ml-5 list-decimal space-y-0.5">
+              {sig.map((line, index) => <li key={index}>{line}</li>)}
+            </ol>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600 mb-3" title={medication.dosageInstruction?.[0]?.text}>
+            Dosage: {sig[0] || 'No dosage information available'}
+          </p>
+        )}
         
         <div className="flex items-center text-sm text-gray-500 mb-2">
           <Clock className="h-4 w-4 mr-2" />
-          <span>{medication.dosageInstruction?.[0]?.timing?.code?.text || 'Timing not specified'}</span>
+          <span>{timing || 'Timing not specified'}</span>
         </div>
         
         {medication.authoredOn && (
@@ -122,25 +177,104 @@ const MedicationCard: React.FC<MedicationCardProps> = ({ medication }) => {
 
 interface MedicationsProps {
   medications: MedicationRequest[];
+  /** Owned by the Dashboard, which also shows today's doses and sends reminders */
+  schedule: DoseSchedule;
+  reminders: DoseReminders;
+  /** Output of checkInteractions, across every source */
+  interactions: InteractionFinding[];
 }
 
-const Medications: React.FC<MedicationsProps> = ({ medications }) => {
+type ViewMode = 'list' | 'schedule' | 'review';
+
+const Medications: React.FC<MedicationsProps> = ({ medications, schedule, reminders, interactions }) => {
+  const [viewMode, setViewMode] = useState<ViewMode>('list');
+  // The same prescription can come from several EMRs or overlapping pages
+  const entries = useMemo(() => reconcile(medications, 'MedicationRequest'), [medications]);
+  const { state, patientId, reportStatus, clearStatus, addMedication, removeMedication } = useMedicationReconciliation();
+  const items = useMemo(
+    () => reconciliationItems(entries.map(entry => entry.resource), state),
+    [entries, state]
+  );
+  const mismatchCount = items.filter(hasMismatch).length;
+
   return (
     <div className="mt-8 bg-gradient-to-r from-blue-50 to-indigo-50 p-6 rounded-lg shadow-lg">
-      <h2 className="text-2xl font-bold text-blue-800 mb-6 flex items-center">
-        <Pill className="mr-2" /> Your Medications
-      </h2>
+      <div className="flex items-center justify-between flex-wrap gap-4 mb-6">
+        <h2 className="text-2xl font-bold text-blue-800 flex items-center">
+          <Pill className="mr-2" /> Your Medications
+        </h2>
+        <div className="flex items-center gap-2">
+          <Button
+            variant={viewMode === 'list' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setViewMode('list')}
+          >
+            <Pill className="h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">My list</span>
+          </Button>
+          <Button
+            variant={viewMode === 'schedule' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setViewMode('schedule')}
+          >
+            <CalendarClock className="h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">Today&apos;s doses</span>
+          </Button>
+          <Button
+            variant={viewMode === 'review' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setViewMode('review')}
+          >
+            <ClipboardList className="h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">Review for appointment</span>
+            {mismatchCount > 0 && <Badge className="ml-2 bg-yellow-500">{mismatchCount}</Badge>}
+          </Button>
+        </div>
+      </div>
       <ScrollArea className="h-[600px] pr-4">
-        {medications.length > 0 ? (
-          medications.map((medication, index) => (
-            <MedicationCard key={index} medication={medication} />
-          ))
+        {viewMode === 'review' ? (
+          <ReconciliationReview items={items} patientId={patientId} />
+        ) : viewMode === 'schedule' ? (
+          <MedicationSchedule schedule={schedule} reminders={reminders} />
         ) : (
-          <Card>
-            <CardContent className="flex items-center justify-center h-32">
-              <p className="text-gray-600">No current medications</p>
-            </CardContent>
-          </Card>
+          <>
+            {entries.length > 0 ? (
+              entries.map(entry => {
+                const key = medicationKey(entry.resource);
+                return (
+                  <MedicationCard
+                    key={entry.key}
+                    medication={entry.resource}
+                    sources={entry.sources}
+                    report={state.reports[key]}
+                    onReport={(status, note) => reportStatus(key, status, note)}
+                    onClearReport={() => clearStatus(key)}
+                    interactions={interactions.filter(finding => finding.medicationKeys.includes(key))}
+                  />
+                );
+              })
+            ) : (
+              <Card className="mb-4">
+                <CardContent className="flex items-center justify-center h-32">
+                  <p className="text-gray-600">No current medications</p>
+                </CardContent>
+              </Card>
+            )}
+            {state.added.map(medication => (
+              <AddedMedicationCard key={medication.id} medication={medication} onRemove={() => removeMedication(medication.id)} />
+            ))}
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Taking something that isn&apos;t listed?</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Add over-the-counter medicines, vitamins or supplements so your care team sees the full picture.
+                </p>
+              </CardHeader>
+              <CardContent>
+                <AddMedicationForm onAdd={addMedication} />
+              </CardContent>
+            </Card>
+          </>
         )}
       </ScrollArea>
     </div>
@@ -0,0 +1,247 @@
+import React, { useMemo } from 'react';
+import { HeartHandshake, ListChecks, Mail, Phone, Target, Users, Globe, CheckCircle, CircleDot, HelpCircle } from 'lucide-react';
+import { CarePlan, CareTeam, ContactPoint, Goal, Observation } from 'fhir/r4';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import SourceBadge from './SourceBadge';
+import { getSource } from '@/lib/merge-records';
+import { useVitalsData } from '../hooks/vitals/useVitalsData';
+import { useUnitPreference } from '@/contexts/UnitPreferenceContext';
+import { formatQuantity } from '@/lib/units';
+import {
+  carePlanActivities,
+  carePlanTitle,
+  careTeamMembers,
+  goalDescription,
+  goalTargets,
+  goalTargetText,
+  isActiveCarePlan,
+  measureGoalProgress,
+  telecomHref,
+  type GoalProgress,
+  type MeasuredReading,
+} from '@/lib/care';
+
+const getStatusColor = (status?: string) => {
+  switch (status) {
+    case 'active':
+    case 'in-progress':
+    case 'scheduled':
+      return 'bg-blue-100 text-blue-800';
+    case 'completed':
+    case 'achieved':
+      return 'bg-green-100 text-green-800';
+    case 'on-hold':
+    case 'not-started':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'cancelled':
+    case 'stopped':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+// Ids are only unique within one EMR
+const resourceKey = (resource: { id?: string }, index: number) => `${getSource(resource)?.code ?? ''}/${resource.id ?? index}`;
+
+const TelecomLink: React.FC<{ contact: ContactPoint }> = ({ contact }) => {
+  const href = telecomHref(contact);
+  const Icon = contact.system === 'email' ? Mail : contact.system === 'url' ? Globe : Phone;
+  return (
+    <span className="flex items-center text-xs">
+      <Icon className="h-3 w-3 mr-1 text-gray-400" />
+      {href ? <a href={href} className="text-teal-700 hover:underline">{contact.value}</a> : contact.value}
+      {contact.use && <span className="ml-1 text-gray-400">({contact.use})</span>}
+    </span>
+  );
+};
+
+const Unavailable: React.FC<{ what: string }> = ({ what }) => (
+  <p className="flex items-center text-sm text-gray-500">
+    <HelpCircle className="h-4 w-4 mr-2" /> Your provider hasn&apos;t shared {what} with this app
+  </p>
+);
+
+const ProgressLine: React.FC<{ progress: GoalProgress }> = ({ progress }) => {
+  const { target, status, latest } = progress;
+  const { unitSystem } = useUnitPreference();
+  return (
+    <div className="flex items-center justify-between gap-2 text-xs">
+      <span className="text-gray-600">{target.measureName}</span>
+      {status === 'no-data' ? (
+        <span className="text-gray-400">No recent reading</span>
+      ) : (
+        <span className={`flex items-center font-medium ${status === 'met' ? 'text-green-700' : 'text-orange-700'}`}>
+          {status === 'met' ? <CheckCircle className="h-3 w-3 mr-1" /> : <CircleDot className="h-3 w-3 mr-1" />}
+          Latest {formatQuantity({ value: latest!.value, unit: latest!.unit }, unitSystem)} ({new Date(latest!.date).toLocaleDateString()})
+          {status === 'met' ? ' - on target' : ' - not yet on target'}
+        </span>
+      )}
+    </div>
+  );
+};
+
+interface MyCareProps {
+  carePlans: CarePlan[];
+  goals: Goal[];
+  careTeams: CareTeam[];
+  /** Vitals and labs goals are measured against */
+  observations: Observation[];
+  /** Which of the three the granted scopes cover */
+  canRead: { carePlans: boolean; goals: boolean; careTeams: boolean };
+}
+
+const MyCare: React.FC<MyCareProps> = ({ carePlans, goals, careTeams, observations, canRead }) => {
+  const { filteredChartData } = useVitalsData(observations);
+
+  const activePlans = useMemo(() => carePlans.filter(isActiveCarePlan), [carePlans]);
+  const activeTeams = useMemo(() => careTeams.filter(team => team.status !== 'inactive' && team.status !== 'entered-in-error'), [careTeams]);
+
+  const goalProgress = useMemo(() => {
+    const readings = filteredChartData as MeasuredReading[];
+    return new Map(goals.map(goal => [goal, goalTargets(goal).map(target => measureGoalProgress(target, readings))]));
+  }, [goals, filteredChartData]);
+
+  const visibleGoals = goals.filter(goal => goal.lifecycleStatus !== 'entered-in-error' && goal.lifecycleStatus !== 'rejected');
+
+  return (
+    <div className="mt-8 bg-gradient-to-r from-teal-50 to-emerald-50 p-6 rounded-lg shadow-lg">
+      <h2 className="text-2xl font-bold text-teal-800 mb-4 flex items-center">
+        <HeartHandshake className="mr-2" /> My Care
+      </h2>
+      <ScrollArea className="h-[600px] pr-4">
+        <section className="mb-6">
+          <h3 className="text-lg font-semibold mb-3 flex items-center text-teal-700">
+            <ListChecks className="h-5 w-5 mr-2" /> Care Plans
+          </h3>
+          {!canRead.carePlans ? <Unavailable what="care plans" /> : activePlans.length === 0 ? (
+            <p className="text-sm text-gray-600">No active care plans</p>
+          ) : activePlans.map((plan, index) => {
+            const activities = carePlanActivities(plan);
+            return (
+              <Card key={resourceKey(plan, index)} className="mb-3">
+                <CardHeader className="pb-2">
+                  <CardTitle className="flex justify-between items-start gap-2">
+                    <span className="text-base font-semibold text-gray-900">{carePlanTitle(plan)}</span>
+                    <div className="flex items-center gap-2">
+                      <SourceBadge resource={plan} />
+                      <Badge variant="outline" className={`capitalize ${getStatusColor(plan.status)}`}>{plan.status}</Badge>
+                    </div>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm text-gray-600">
+                  {plan.description && <p>{plan.description}</p>}
+                  {plan.period?.start && (
+                    <p className="text-xs text-gray-500">
+                      Since {new Date(plan.period.start).toLocaleDateString()}
+                      {plan.period.end && ` until ${new Date(plan.period.end).toLocaleDateString()}`}
+                    </p>
+                  )}
+                  {activities.length > 0 && (
+                    <ul className="space-y-1">
+                      {activities.map((activity, activityIndex) => (
+                        <li key={activityIndex} className="flex justify-between items-center gap-2 border-b last:border-0 py-1">
+                          <span>
+                            {activity.description}
+                            {activity.scheduled && <span className="text-xs text-gray-400"> · {activity.scheduled}</span>}
+                          </span>
+                          {activity.status && (
+                            <Badge variant="outline" className={`capitalize text-xs ${getStatusColor(activity.status)}`}>
+                              {activity.status}
+                            </Badge>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </section>
+
+        <section className="mb-6">
+          <h3 className="text-lg font-semibold mb-3 flex items-center text-teal-700">
+            <Target className="h-5 w-5 mr-2" /> Goals
+          </h3>
+          {!canRead.goals ? <Unavailable what="goals" /> : visibleGoals.length === 0 ? (
+            <p className="text-sm text-gray-600">No goals on record</p>
+          ) : visibleGoals.map((goal, index) => {
+            const achievement = goal.achievementStatus?.coding?.[0]?.code || goal.achievementStatus?.text;
+            const progress = goalProgress.get(goal) || [];
+            return (
+              <Card key={resourceKey(goal, index)} className="mb-3">
+                <CardHeader className="pb-2">
+                  <CardTitle className="flex justify-between items-start gap-2">
+                    <span className="text-base font-semibold text-gray-900">{goalDescription(goal)}</span>
+                    <div className="flex items-center gap-2 flex-wrap justify-end">
+                      <SourceBadge resource={goal} />
+                      <Badge variant="outline" className={`capitalize ${getStatusColor(goal.lifecycleStatus)}`}>{goal.lifecycleStatus}</Badge>
+                      {achievement && (
+                        <Badge variant="outline" className={`capitalize ${getStatusColor(achievement)}`}>{achievement}</Badge>
+                      )}
+                    </div>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm text-gray-600">
+                  {goalTargetText(goal).map(text => (
+                    <p key={text} className="flex items-center">
+                      <Target className="h-4 w-4 mr-2 text-gray-400" /> Target {text}
+                    </p>
+                  ))}
+                  {goal.target?.[0]?.dueDate && (
+                    <p className="text-xs text-gray-500">Due {new Date(goal.target[0].dueDate).toLocaleDateString()}</p>
+                  )}
+                  {progress.map(item => (
+                    <ProgressLine key={item.target.measureCode} progress={item} />
+                  ))}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </section>
+
+        <section>
+          <h3 className="text-lg font-semibold mb-3 flex items-center text-teal-700">
+            <Users className="h-5 w-5 mr-2" /> Care Team
+          </h3>
+          {!canRead.careTeams ? <Unavailable what="your care team" /> : activeTeams.length === 0 ? (
+            <p className="text-sm text-gray-600">No care team on record</p>
+          ) : activeTeams.map((team, index) => (
+            <Card key={resourceKey(team, index)} className="mb-3">
+              <CardHeader className="pb-2">
+                <CardTitle className="flex justify-between items-start gap-2">
+                  <span className="text-base font-semibold text-gray-900">{team.name || 'Care team'}</span>
+                  <SourceBadge resource={team} />
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm text-gray-600">
+                {careTeamMembers(team).map((member, memberIndex) => (
+                  <div key={memberIndex} className="flex flex-col sm:flex-row sm:justify-between gap-1 border-b last:border-0 pb-2">
+                    <div>
+                      <p className="font-medium text-gray-900">{member.name}</p>
+                      {member.role && <p className="text-xs text-gray-500">{member.role}</p>}
+                    </div>
+                    <div className="flex flex-col gap-1">
+                      {member.telecom.map((contact, contactIndex) => <TelecomLink key={contactIndex} contact={contact} />)}
+                    </div>
+                  </div>
+                ))}
+                {team.telecom && team.telecom.length > 0 && (
+                  <div className="flex flex-wrap gap-3 pt-1">
+                    <span className="text-xs font-medium text-gray-700">Contact the team:</span>
+                    {team.telecom.map((contact, contactIndex) => <TelecomLink key={contactIndex} contact={contact} />)}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </section>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default MyCare;
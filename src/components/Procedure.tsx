@@ -5,6 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
+import SourceBadge from './SourceBadge';
 
 const StatusBadge = ({ status }) => {
   const statusStyles = {
@@ -65,7 +66,10 @@ const ProcedureCard = ({ procedure }) => {
             <CardTitle>{getProcedureName()}</CardTitle>
             <CardDescription>Procedure ID: {procedure?.id}</CardDescription>
           </div>
-          <StatusBadge status={procedure?.status} />
+          <div className="flex items-center gap-2">
+            <SourceBadge resource={procedure} />
+            <StatusBadge status={procedure?.status} />
+          </div>
         </div>
       </CardHeader>
       <CardContent>
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { getSource } from '@/lib/merge-records';
+import SourceBadge from './SourceBadge';
+
+interface ProvenanceBadgeProps {
+  /** Every copy a reconciled entry was built from */
+  sources: any[];
+  className?: string;
+}
+
+const formatUpdated = (value?: string) => (value ? new Date(value).toLocaleString() : 'unknown');
+
+// "N sources" with a drill-down of where each copy came from; a single copy
+// just shows its source EMR
+const ProvenanceBadge: React.FC<ProvenanceBadgeProps> = ({ sources, className }) => {
+  if (sources.length < 2) {
+    return <SourceBadge resource={sources[0]} className={className} />;
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" aria-label={`Reported by ${sources.length} sources`}>
+          <Badge variant="outline" className={`gap-1 text-xs font-normal cursor-pointer ${className || ''}`}>
+            <Layers className="h-3 w-3" />
+            {sources.length} sources
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80">
+        <h4 className="font-semibold text-sm mb-2">Reported by</h4>
+        <ul className="space-y-2">
+          {sources.map((resource, index) => {
+            const source = getSource(resource);
+            return (
+              <li key={index} className="text-sm border-b last:border-b-0 pb-2 last:pb-0">
+                <p className="font-medium">{source?.display || source?.code || 'This record'}</p>
+                <p className="text-xs text-muted-foreground">
+                  {resource.resourceType}/{resource.id || '-'}
+                  {resource.status && ` · ${resource.status}`}
+                </p>
+                <p className="text-xs text-muted-foreground">Last updated: {formatUpdated(resource.meta?.lastUpdated)}</p>
+              </li>
+            );
+          })}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ProvenanceBadge;
@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { describeResourceAccess } from '@/lib/smart-scopes';
+
+interface ScopeLockedNoticeProps {
+  label: string;
+  missingResources: string[];
+  onRequestAccess: () => Promise<void>;
+}
+
+const ScopeLockedNotice: React.FC<ScopeLockedNoticeProps> = ({ label, missingResources, onRequestAccess }) => {
+  const [requesting, setRequesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRequest = async () => {
+    setRequesting(true);
+    setError(null);
+    try {
+      await onRequestAccess();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not start re-authorization');
+      setRequesting(false);
+    }
+  };
+
+  return (
+    <Card className="bg-gray-50 dark:bg-gray-900 border-dashed">
+      <CardContent className="p-6 text-center space-y-3">
+        <Lock className="h-10 w-10 mx-auto text-muted-foreground" />
+        <h3 className="font-semibold text-lg">{label} isn&apos;t shared with this portal</h3>
+        <p className="text-sm text-muted-foreground max-w-md mx-auto">
+          When you signed in, your health record provider didn&apos;t grant access to{' '}
+          {missingResources.map(describeResourceAccess).join(', ')}. You can grant it now - you&apos;ll be asked to confirm with your provider.
+        </p>
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        <Button onClick={handleRequest} disabled={requesting}>
+          {requesting ? 'Redirecting...' : 'Request additional access'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScopeLockedNotice;
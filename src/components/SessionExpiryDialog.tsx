@@ -0,0 +1,52 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface SessionExpiryDialogProps {
+  open: boolean;
+  secondsLeft: number;
+  canRefresh: boolean;
+  isRefreshing: boolean;
+  error: string | null;
+  onStaySignedIn: () => void;
+  onLogout: () => void;
+  onDismiss: () => void;
+}
+
+const describeTimeLeft = (seconds: number) => {
+  if (seconds >= 60) {
+    const minutes = Math.ceil(seconds / 60);
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  }
+  return `${seconds} second${seconds === 1 ? '' : 's'}`;
+};
+
+const SessionExpiryDialog: React.FC<SessionExpiryDialogProps> = ({
+  open, secondsLeft, canRefresh, isRefreshing, error, onStaySignedIn, onLogout, onDismiss,
+}) => (
+  <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) onDismiss(); }}>
+    <DialogContent className="sm:max-w-[425px]" role="alertdialog" aria-modal="true">
+      <DialogHeader>
+        <DialogTitle className="flex items-center">
+          <Clock className="mr-2 h-5 w-5 text-primary" />
+          Your session expires in {describeTimeLeft(secondsLeft)}
+        </DialogTitle>
+        <DialogDescription>
+          {canRefresh
+            ? 'Stay signed in?'
+            : 'Your health record provider needs you to sign in again to keep going.'}
+        </DialogDescription>
+      </DialogHeader>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      <DialogFooter className="gap-2">
+        <Button variant="outline" onClick={onLogout}>Log out</Button>
+        <Button onClick={onStaySignedIn} disabled={isRefreshing}>
+          {isRefreshing ? 'Refreshing...' : canRefresh ? 'Stay signed in' : 'Sign in again'}
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  </Dialog>
+);
+
+export default SessionExpiryDialog;
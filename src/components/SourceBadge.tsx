@@ -0,0 +1,28 @@
+import React from 'react';
+import { Database } from 'lucide-react';
+import type { Coding } from 'fhir/r4';
+import { Badge } from "@/components/ui/badge";
+import { cn } from '@/lib/utils';
+import { getSource } from '@/lib/merge-records';
+
+interface SourceBadgeProps {
+  resource?: unknown;
+  /** The source tag itself, when the resource isn't at hand */
+  source?: Coding;
+  className?: string;
+}
+
+// Which EMR a merged resource came from - renders nothing for single-EMR records
+const SourceBadge: React.FC<SourceBadgeProps> = ({ resource, source: sourceTag, className }) => {
+  const source = sourceTag || getSource(resource);
+  if (!source) return null;
+
+  return (
+    <Badge variant="outline" className={cn('gap-1 text-xs font-normal', className)} title={`From ${source.display || source.code}`}>
+      <Database className="h-3 w-3" />
+      {source.display || source.code}
+    </Badge>
+  );
+};
+
+export default SourceBadge;
@@ -0,0 +1,26 @@
+'use client';
+
+import React from 'react';
+import { Ruler } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useUnitPreference } from '@/contexts/UnitPreferenceContext';
+
+const UnitToggle: React.FC = () => {
+  const { unitSystem, toggleUnitSystem } = useUnitPreference();
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={toggleUnitSystem}
+      className="flex-shrink-0"
+      title={`Show ${unitSystem === 'metric' ? 'imperial (°F, lb, in)' : 'metric (°C, kg, cm)'} units`}
+    >
+      <Ruler size={14} className="sm:mr-2" />
+      <span className="hidden sm:inline">{unitSystem === 'metric' ? 'Metric' : 'Imperial'}</span>
+      <span className="sr-only">Toggle units</span>
+    </Button>
+  );
+};
+
+export default UnitToggle;
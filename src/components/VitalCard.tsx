@@ -4,6 +4,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover';
 import { Info } from 'lucide-react';
 import { getVitalIcon, getStatusColor, getInsight, getReferenceRange, formatDate, renderVitalValue, getTrendIcon } from '@/utils/vitalUtils';
+import { useUnitPreference } from '@/contexts/UnitPreferenceContext';
 
 interface VitalCardProps {
   vital: any;
@@ -12,6 +13,8 @@ interface VitalCardProps {
 }
 
 export const VitalCard: React.FC<VitalCardProps> = ({ vital, trend, status }) => {
+  const { unitSystem } = useUnitPreference();
+
   return (
     <Card className="bg-white shadow-sm hover:shadow-md transition-shadow duration-300">
       <CardContent className="p-4">
@@ -33,13 +36,13 @@ export const VitalCard: React.FC<VitalCardProps> = ({ vital, trend, status }) =>
           </div>
         </div>
         <p className={`text-2xl font-bold ${getStatusColor(status)}`}>
-          {renderVitalValue(vital)}
+          {renderVitalValue(vital, unitSystem)}
         </p>
         <p className="text-sm text-gray-500 mt-1">
           Recorded: {formatDate(vital.date)}
         </p>
         <p className="text-xs text-gray-400 mt-1">
-          Normal Range: {getReferenceRange(vital.vitalName)}
+          Normal Range: {getReferenceRange(vital.vitalName, vital.observation, undefined, unitSystem)}
         </p>
       </CardContent>
     </Card>
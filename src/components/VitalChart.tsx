@@ -1,7 +1,7 @@
 // vitals/components/VitalChart.tsx
 import React from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
-import { referenceRanges } from '../utils/vitalUtils';
+import { referenceRanges } from './vitals/data/referenceRanges';
 
 interface VitalChartProps {
   data: any[];
@@ -26,7 +26,7 @@ export const VitalChart: React.FC<VitalChartProps> = ({ data, selectedVital }) =
         ) : (
           <>
             <Line type="monotone" dataKey="value" stroke="#8884d8" name={selectedVital} />
-            <ReferenceLine y={referenceRanges[selectedVital]?.normal} stroke="green" strokeDasharray="3 3" />
+            <ReferenceLine y={(referenceRanges as Record<string, { normal?: number }>)[selectedVital]?.normal} stroke="green" strokeDasharray="3 3" />
           </>
         )}
       </LineChart>
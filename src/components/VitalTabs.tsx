@@ -4,7 +4,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Accordion, AccordionItem, AccordionTrigger, AccordionContent } from '@/components/ui/accordion';
 import { Calendar, BarChart2 } from 'lucide-react';
 import { VitalCard } from './VitalCard';
-import { getVitalIcon, getVitalStatus, getTrend } from '../utils/vitalUtils';
+import { getVitalIcon, getVitalStatus, getTrend } from '@/utils/vitalUtils';
 
 interface VitalTabsProps {
   groupedByDate: Record<string, any[]>;
@@ -32,7 +32,7 @@ export const VitalTabs: React.FC<VitalTabsProps> = ({ groupedByDate, groupedByVi
                       key={vitalIndex}
                       vital={vital}
                       trend={getTrend(groupedByVital[vital.vitalName])}
-                      status={getVitalStatus(vital.vitalName, vital.value)}
+                      status={getVitalStatus(vital.vitalName, vital.vitalName === 'Blood Pressure' ? vital : vital.value, vital.observation)}
                     />
                   ))}
                 </div>
@@ -58,7 +58,7 @@ export const VitalTabs: React.FC<VitalTabsProps> = ({ groupedByDate, groupedByVi
                       key={measurementIndex}
                       vital={measurement}
                       trend={getTrend(measurements)}
-                      status={getVitalStatus(vitalName, measurement.value)}
+                      status={getVitalStatus(vitalName, vitalName === 'Blood Pressure' ? measurement : measurement.value, measurement.observation)}
                     />
                   ))}
                 </div>
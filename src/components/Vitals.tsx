@@ -2,6 +2,8 @@
 import React from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from '@/components/ui/select';
+import { DateRangePicker } from '@/components/ui/date-range-picker';
+import useDateRange from '../hooks/useDateRange';
 import { useVitalsData } from '../hooks/vitals/useVitalsData';
 import { useVitalSelection } from '../hooks/vitals/useVitalSelection';
 import { HealthSummary } from './HealthSummary';
@@ -27,8 +29,9 @@ interface VitalsProps {
 }
 
 const Vitals: React.FC<VitalsProps> = ({ vitals, patient, encounter }) => {
-  const { selectedVital, setSelectedVital, timeRange, setTimeRange } = useVitalSelection();
-  const { filteredChartData, groupedByDate, groupedByVital } = useVitalsData(vitals, timeRange);
+  const { selectedVital, setSelectedVital } = useVitalSelection();
+  const { dateRange, setDateRange } = useDateRange();
+  const { filteredChartData, groupedByDate, groupedByVital } = useVitalsData(vitals, dateRange);
 
   return (
     <Card className="w-full">
@@ -51,20 +54,7 @@ const Vitals: React.FC<VitalsProps> = ({ vitals, patient, encounter }) => {
                   ))}
                 </SelectContent>
               </Select>
-              <Select
-                value={timeRange}
-                onValueChange={setTimeRange}
-              >
-                <SelectTrigger className="w-[150px]">
-                  <SelectValue placeholder="Time Range" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="week">Last Week</SelectItem>
-                  <SelectItem value="month">Last Month</SelectItem>
-                  <SelectItem value="year">Last Year</SelectItem>
-                  <SelectItem value="all">All Time</SelectItem>
-                </SelectContent>
-              </Select>
+              <DateRangePicker value={dateRange} onChange={setDateRange} />
             </div>
           </div>
           <VitalChart 
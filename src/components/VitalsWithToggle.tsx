@@ -12,13 +12,30 @@ import { Observation } from 'fhir/r4';
 import { format, parseISO } from 'date-fns';
 import { motion, AnimatePresence } from 'framer-motion';
 import HealthTrendsChart from './HealthTrendsChart';
+import SourceBadge from './SourceBadge';
+import { getSource } from '@/lib/merge-records';
+import {
+  RANGE_SOURCE_LABELS,
+  checkReferenceRange,
+  rangeText,
+  type MeasuredValue,
+  type PatientDemographics,
+  type RangeCheck,
+} from '@/lib/reference-ranges';
+import { displayQuantity, formatQuantity, normalizeQuantity, type UnitSystem } from '@/lib/units';
+import { useUnitPreference } from '@/contexts/UnitPreferenceContext';
+import { classifyVital, findVitalComponent, vitalName } from '@/lib/vital-signs';
+import type { Coding } from 'fhir/r4';
 
 interface VitalsWithToggleProps {
   vitals: Observation[];
+  /** Age and sex pick the default range when a reading has none of its own */
+  patient?: PatientDemographics;
 }
 
 type ViewMode = 'table' | 'accordion';
 
+// Readings are kept in canonical units and converted for display
 interface VitalReading {
   date: Date;
   dateStr: string;
@@ -30,10 +47,39 @@ interface VitalReading {
   weight?: number;
   height?: number;
   bmi?: number;
+  source?: Coding;
+  /** Range and status behind each flagged cell */
+  checks: Partial<Record<'systolic' | 'diastolic' | 'heartRate' | 'temperature' | 'respRate' | 'o2Saturation' | 'bmi', RangeCheck>>;
 }
 
-const VitalsWithToggle: React.FC<VitalsWithToggleProps> = ({ vitals }) => {
+// "Normal range: 60 - 100 /min (General guideline)"
+const rangeTitle = (system: UnitSystem, ...checks: (RangeCheck | undefined)[]) => {
+  const ranges = checks.filter(check => check?.range).map(check => rangeText(check!.range, { system }));
+  const source = checks.find(check => check?.range)?.range?.source;
+  return source ? `Normal range: ${ranges.join(' / ')} (${RANGE_SOURCE_LABELS[source]})` : undefined;
+};
+
+const isAbnormal = (...checks: (RangeCheck | undefined)[]) =>
+  checks.some(check => check?.status === 'low' || check?.status === 'high');
+
+// Panels like blood pressure are judged per component
+const RangeNote: React.FC<{ vital: Observation; patient?: PatientDemographics; system: UnitSystem }> = ({ vital, patient, system }) => {
+  const checks = vital.component?.length
+    ? vital.component.map(component => checkReferenceRange(component, patient))
+    : [checkReferenceRange(vital, patient)];
+  const title = rangeTitle(system, ...checks);
+  if (!title) return null;
+  return (
+    <p className={`text-xs ${isAbnormal(...checks) ? 'text-red-700 font-medium' : 'text-muted-foreground'}`}>{title}</p>
+  );
+};
+
+const VitalsWithToggle: React.FC<VitalsWithToggleProps> = ({ vitals, patient }) => {
   const [viewMode, setViewMode] = useState<ViewMode>('accordion');
+  const { unitSystem } = useUnitPreference();
+  const shown = (value: number | undefined, unit: string) =>
+    value === undefined ? '-' : displayQuantity({ value, unit }, unitSystem).value;
+  const unitLabel = (unit: string) => displayQuantity({ value: 0, unit }, unitSystem).unit;
 
   // Group vitals by date for accordion view
   const groupedByDate = useMemo(() => {
@@ -57,11 +103,12 @@ const VitalsWithToggle: React.FC<VitalsWithToggleProps> = ({ vitals }) => {
 
     const grouped: Record<string, Observation[]> = {};
     vitals.forEach((vital) => {
-      const vitalName = vital.code?.coding?.[0]?.display || 'Unknown';
-      if (!grouped[vitalName]) {
-        grouped[vitalName] = [];
+      const kind = classifyVital(vital.code);
+      const name = kind ? vitalName(kind) : vital.code?.coding?.[0]?.display || 'Unknown';
+      if (!grouped[name]) {
+        grouped[name] = [];
       }
-      grouped[vitalName].push(vital);
+      grouped[name].push(vital);
     });
 
     return grouped;
@@ -74,96 +121,77 @@ const VitalsWithToggle: React.FC<VitalsWithToggleProps> = ({ vitals }) => {
 
     vitals.forEach((vital) => {
       const date = vital.effectiveDateTime ? parseISO(vital.effectiveDateTime) : new Date();
-      const dateKey = format(date, 'yyyy-MM-dd HH:mm:ss');
+      const source = getSource(vital);
+      // Readings from different EMRs stay separate rows even at the same time
+      const dateKey = `${format(date, 'yyyy-MM-dd HH:mm:ss')}${source ? ` ${source.code}` : ''}`;
 
       if (!vitalsByDate.has(dateKey)) {
         vitalsByDate.set(dateKey, {
           date,
           dateStr: format(date, 'MM/dd/yyyy HH:mm'),
+          source,
+          checks: {},
         });
       }
 
       const reading = vitalsByDate.get(dateKey)!;
-      const display = vital.code?.coding?.[0]?.display?.toLowerCase() || '';
-
-      // Blood Pressure
-      if (display.includes('blood pressure')) {
-        const systolic = vital.component?.find(c =>
-          c.code?.coding?.[0]?.display?.toLowerCase().includes('systolic')
-        );
-        const diastolic = vital.component?.find(c =>
-          c.code?.coding?.[0]?.display?.toLowerCase().includes('diastolic')
-        );
-
-        if (systolic && diastolic) {
-          reading.bloodPressure = {
-            systolic: systolic.valueQuantity?.value || 0,
-            diastolic: diastolic.valueQuantity?.value || 0,
-          };
+      const check = (measured: MeasuredValue) => checkReferenceRange(measured, patient);
+      const value = (measured: MeasuredValue) => measured.valueQuantity && normalizeQuantity(measured.valueQuantity).value;
+      // Some EMRs send systolic and diastolic as separate observations
+      const bloodPressure = (part: 'systolic' | 'diastolic', measured: MeasuredValue) => {
+        reading.bloodPressure = { systolic: 0, diastolic: 0, ...reading.bloodPressure, [part]: value(measured) || 0 };
+        reading.checks[part] = check(measured);
+      };
+
+      switch (classifyVital(vital.code)) {
+        case 'bloodPressure': {
+          const systolic = findVitalComponent(vital, 'systolic');
+          const diastolic = findVitalComponent(vital, 'diastolic');
+          if (systolic && diastolic) {
+            bloodPressure('systolic', systolic);
+            bloodPressure('diastolic', diastolic);
+          }
+          break;
         }
-      }
-
-      // Heart Rate
-      if (display.includes('heart rate') || display.includes('pulse')) {
-        reading.heartRate = vital.valueQuantity?.value;
-      }
-
-      // Temperature
-      if (display.includes('temperature')) {
-        reading.temperature = vital.valueQuantity?.value;
-      }
-
-      // Respiratory Rate
-      if (display.includes('respiratory') || display.includes('respiration')) {
-        reading.respRate = vital.valueQuantity?.value;
-      }
-
-      // O2 Saturation
-      if (display.includes('oxygen') || display.includes('saturation')) {
-        reading.o2Saturation = vital.valueQuantity?.value;
-      }
-
-      // Weight
-      if (display.includes('weight') && !display.includes('birth')) {
-        reading.weight = vital.valueQuantity?.value;
-      }
-
-      // Height
-      if (display.includes('height') || display.includes('body height')) {
-        reading.height = vital.valueQuantity?.value;
-      }
-
-      // BMI
-      if (display.includes('bmi') || display.includes('body mass')) {
-        reading.bmi = vital.valueQuantity?.value;
+        case 'systolic':
+          bloodPressure('systolic', vital);
+          break;
+        case 'diastolic':
+          bloodPressure('diastolic', vital);
+          break;
+        case 'heartRate':
+          reading.heartRate = value(vital);
+          reading.checks.heartRate = check(vital);
+          break;
+        case 'temperature':
+          reading.temperature = value(vital);
+          reading.checks.temperature = check(vital);
+          break;
+        case 'respiratoryRate':
+          reading.respRate = value(vital);
+          reading.checks.respRate = check(vital);
+          break;
+        case 'oxygenSaturation':
+          reading.o2Saturation = value(vital);
+          reading.checks.o2Saturation = check(vital);
+          break;
+        case 'weight':
+          reading.weight = value(vital);
+          break;
+        case 'height':
+          reading.height = value(vital);
+          break;
+        case 'bmi':
+          reading.bmi = value(vital);
+          reading.checks.bmi = check(vital);
+          break;
       }
     });
 
     return Array.from(vitalsByDate.values())
       .sort((a, b) => b.date.getTime() - a.date.getTime())
       .slice(0, 20);
-  }, [vitals]);
-
-  const isAbnormal = (type: string, value: number) => {
-    switch (type) {
-      case 'systolic':
-        return value < 90 || value > 140;
-      case 'diastolic':
-        return value < 60 || value > 90;
-      case 'heartRate':
-        return value < 60 || value > 100;
-      case 'temperature':
-        return value < 36.1 || value > 37.2;
-      case 'respRate':
-        return value < 12 || value > 20;
-      case 'o2Saturation':
-        return value < 95;
-      case 'bmi':
-        return value < 18.5 || value > 30;
-      default:
-        return false;
-    }
-  };
+  }, [vitals, patient]);
 
   const getCellClassName = (isAbnormal: boolean) => {
     return isAbnormal
@@ -259,20 +287,24 @@ const VitalsWithToggle: React.FC<VitalsWithToggleProps> = ({ vitals }) => {
                                 <div key={vitalIndex} className="p-4 border rounded-lg bg-muted/30 hover:bg-muted/50 transition-colors">
                                   <div className="flex items-center justify-between">
                                     <div>
-                                      <p className="font-semibold">{vital.code?.coding?.[0]?.display || 'Vital Sign'}</p>
+                                      <p className="font-semibold flex items-center gap-2">
+                                        {vital.code?.coding?.[0]?.display || 'Vital Sign'}
+                                        <SourceBadge resource={vital} />
+                                      </p>
                                       <p className="text-sm text-muted-foreground">
                                         {vital.effectiveDateTime && format(parseISO(vital.effectiveDateTime), 'HH:mm:ss')}
                                       </p>
                                     </div>
                                     <div className="text-right">
                                       <p className="text-lg font-bold">
-                                        {vital.valueQuantity?.value} {vital.valueQuantity?.unit}
+                                        {formatQuantity(vital.valueQuantity, unitSystem)}
                                       </p>
                                       {vital.component && (
                                         <p className="text-sm text-muted-foreground">
-                                          {vital.component.map(c => `${c.valueQuantity?.value} ${c.valueQuantity?.unit}`).join(' / ')}
+                                          {vital.component.map(c => formatQuantity(c.valueQuantity, unitSystem)).join(' / ')}
                                         </p>
                                       )}
+                                      <RangeNote vital={vital} patient={patient} system={unitSystem} />
                                     </div>
                                   </div>
                                 </div>
@@ -310,16 +342,18 @@ const VitalsWithToggle: React.FC<VitalsWithToggleProps> = ({ vitals }) => {
                                       <p className="text-sm text-muted-foreground">
                                         {vital.effectiveDateTime && format(parseISO(vital.effectiveDateTime), 'MM/dd/yyyy HH:mm:ss')}
                                       </p>
+                                      <SourceBadge resource={vital} className="mt-1" />
                                     </div>
                                     <div className="text-right">
                                       <p className="text-lg font-bold">
-                                        {vital.valueQuantity?.value} {vital.valueQuantity?.unit}
+                                        {formatQuantity(vital.valueQuantity, unitSystem)}
                                       </p>
                                       {vital.component && (
                                         <p className="text-sm text-muted-foreground">
-                                          {vital.component.map(c => `${c.valueQuantity?.value} ${c.valueQuantity?.unit}`).join(' / ')}
+                                          {vital.component.map(c => formatQuantity(c.valueQuantity, unitSystem)).join(' / ')}
                                         </p>
                                       )}
+                                      <RangeNote vital={vital} patient={patient} system={unitSystem} />
                                     </div>
                                   </div>
                                 </div>
@@ -347,11 +381,11 @@ const VitalsWithToggle: React.FC<VitalsWithToggleProps> = ({ vitals }) => {
                     <TableHead className="min-w-[140px] font-semibold">Date & Time</TableHead>
                     <TableHead className="text-center font-semibold">Blood Pressure</TableHead>
                     <TableHead className="text-center font-semibold">Heart Rate</TableHead>
-                    <TableHead className="text-center font-semibold">Temperature</TableHead>
+                    <TableHead className="text-center font-semibold">Temperature ({unitLabel('Cel')})</TableHead>
                     <TableHead className="text-center font-semibold">Resp. Rate</TableHead>
                     <TableHead className="text-center font-semibold">O2 Saturation</TableHead>
-                    <TableHead className="text-center font-semibold">Weight</TableHead>
-                    <TableHead className="text-center font-semibold">Height</TableHead>
+                    <TableHead className="text-center font-semibold">Weight ({unitLabel('kg')})</TableHead>
+                    <TableHead className="text-center font-semibold">Height ({unitLabel('cm')})</TableHead>
                     <TableHead className="text-center font-semibold">BMI</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -375,46 +409,50 @@ const VitalsWithToggle: React.FC<VitalsWithToggleProps> = ({ vitals }) => {
                           <div className="flex flex-col">
                             <span className="font-semibold">{format(reading.date, 'MM/dd/yyyy')}</span>
                             <span className="text-xs text-muted-foreground">{format(reading.date, 'HH:mm:ss')}</span>
+                            <SourceBadge source={reading.source} className="mt-1 w-fit" />
                           </div>
                         </TableCell>
                         <TableCell
-                          className={`text-center ${reading.bloodPressure && (
-                            isAbnormal('systolic', reading.bloodPressure.systolic) ||
-                            isAbnormal('diastolic', reading.bloodPressure.diastolic)
-                          ) ? getCellClassName(true) : ''}`}
+                          className={`text-center ${getCellClassName(isAbnormal(reading.checks.systolic, reading.checks.diastolic))}`}
+                          title={rangeTitle(unitSystem, reading.checks.systolic, reading.checks.diastolic)}
                         >
                           {reading.bloodPressure
                             ? `${reading.bloodPressure.systolic}/${reading.bloodPressure.diastolic}`
                             : '-'}
                         </TableCell>
                         <TableCell
-                          className={`text-center ${reading.heartRate && isAbnormal('heartRate', reading.heartRate) ? getCellClassName(true) : ''}`}
+                          className={`text-center ${getCellClassName(isAbnormal(reading.checks.heartRate))}`}
+                          title={rangeTitle(unitSystem, reading.checks.heartRate)}
                         >
                           {reading.heartRate || '-'}
                         </TableCell>
                         <TableCell
-                          className={`text-center ${reading.temperature && isAbnormal('temperature', reading.temperature) ? getCellClassName(true) : ''}`}
+                          className={`text-center ${getCellClassName(isAbnormal(reading.checks.temperature))}`}
+                          title={rangeTitle(unitSystem, reading.checks.temperature)}
                         >
-                          {reading.temperature || '-'}
+                          {shown(reading.temperature, 'Cel')}
                         </TableCell>
                         <TableCell
-                          className={`text-center ${reading.respRate && isAbnormal('respRate', reading.respRate) ? getCellClassName(true) : ''}`}
+                          className={`text-center ${getCellClassName(isAbnormal(reading.checks.respRate))}`}
+                          title={rangeTitle(unitSystem, reading.checks.respRate)}
                         >
                           {reading.respRate || '-'}
                         </TableCell>
                         <TableCell
-                          className={`text-center ${reading.o2Saturation && isAbnormal('o2Saturation', reading.o2Saturation) ? getCellClassName(true) : ''}`}
+                          className={`text-center ${getCellClassName(isAbnormal(reading.checks.o2Saturation))}`}
+                          title={rangeTitle(unitSystem, reading.checks.o2Saturation)}
                         >
                           {reading.o2Saturation || '-'}
                         </TableCell>
                         <TableCell className="text-center">
-                          {reading.weight || '-'}
+                          {shown(reading.weight, 'kg')}
                         </TableCell>
                         <TableCell className="text-center">
-                          {reading.height || '-'}
+                          {shown(reading.height, 'cm')}
                         </TableCell>
                         <TableCell
-                          className={`text-center ${reading.bmi && isAbnormal('bmi', reading.bmi) ? getCellClassName(true) : ''}`}
+                          className={`text-center ${getCellClassName(isAbnormal(reading.checks.bmi))}`}
+                          title={rangeTitle(unitSystem, reading.checks.bmi)}
                         >
                           {reading.bmi || '-'}
                         </TableCell>
@@ -0,0 +1,162 @@
+/**
+ * EMR Config Admin
+ *
+ * Lists stored EMR provider configs and edits them through
+ * /api/admin/emr-configs. Saving re-registers providers in emrRegistry,
+ * so the change is live without a reload.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { AlertTriangle, Edit, Plus, RefreshCw, Server, Trash2 } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { emrRegistry } from '@nirmiteeio/fhir-sdk';
+import useEMRConfigAdmin from '@/hooks/useEMRConfigAdmin';
+import type { StoredEMRConfig } from '@/schemas/emrConfigSchema';
+import EMRConfigForm from './EMRConfigForm';
+
+interface Editing {
+  config: Partial<StoredEMRConfig>;
+  isNew: boolean;
+}
+
+const EMRConfigAdmin = () => {
+  const { token, setToken, entries, readOnly, loading, error, refresh, save, remove, testConnection } = useEMRConfigAdmin();
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [tokenInput, setTokenInput] = useState('');
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  const handleSave = async (config: StoredEMRConfig) => {
+    await save(config);
+    setEditing(null);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm(`Delete EMR config "${id}"?`)) return;
+    setDeleteError(null);
+    try {
+      await remove(id);
+    } catch (err) {
+      setDeleteError(err instanceof Error ? err.message : 'Failed to delete');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 dark:bg-gray-900 p-4 sm:p-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+          <div>
+            <h1 className="text-2xl font-bold text-primary">EMR Providers</h1>
+            <p className="text-sm text-muted-foreground">Create, edit and test the EMR configurations this portal connects to.</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={refresh}>
+              <RefreshCw className="mr-2 h-4 w-4" /> Refresh
+            </Button>
+            {!readOnly && (
+              <Button onClick={() => setEditing({ config: {}, isNew: true })}>
+                <Plus className="mr-2 h-4 w-4" /> New provider
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <Card>
+          <CardContent className="p-4 flex flex-col sm:flex-row gap-2 sm:items-center">
+            <span className="text-sm font-medium whitespace-nowrap">Admin token</span>
+            <Input
+              type="password"
+              placeholder={token ? '••••••••' : 'ADMIN_API_TOKEN'}
+              value={tokenInput}
+              onChange={(e) => setTokenInput(e.target.value)}
+            />
+            <Button variant="outline" onClick={() => { setToken(tokenInput); setTokenInput(''); }}>
+              Use token
+            </Button>
+          </CardContent>
+        </Card>
+
+        {readOnly && (
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg p-4 text-sm">
+            Configs are served from environment variables (EMR_CONFIG_STORE=env) and can&apos;t be edited here.
+          </div>
+        )}
+        {error && <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4" role="alert">{error}</div>}
+        {deleteError && <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4" role="alert">{deleteError}</div>}
+
+        {editing ? (
+          <Card>
+            <CardHeader>
+              <h2 className="text-lg font-semibold">
+                {editing.isNew ? 'New EMR provider' : `Edit ${editing.config.name || editing.config.id}`}
+              </h2>
+            </CardHeader>
+            <CardContent>
+              <EMRConfigForm
+                config={editing.config}
+                isNew={editing.isNew}
+                readOnly={readOnly}
+                onSave={handleSave}
+                onCancel={() => setEditing(null)}
+                onTestConnection={testConnection}
+              />
+            </CardContent>
+          </Card>
+        ) : loading ? (
+          <p className="text-center text-muted-foreground">Loading...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-muted-foreground">No EMR providers configured yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {entries.map(({ config, issues }, index) => (
+              <Card key={config.id || index}>
+                <CardContent className="p-4 flex flex-col sm:flex-row gap-3 sm:items-center">
+                  <Server className="h-8 w-8 text-primary flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <h3 className="font-semibold">{config.name || '(unnamed)'}</h3>
+                      <Badge variant="outline">{config.id || 'no id'}</Badge>
+                      {config.id && emrRegistry.hasProvider(config.id)
+                        ? <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Registered</Badge>
+                        : <Badge variant="secondary">Not registered here</Badge>}
+                      {config.tenants?.map(tenant => (
+                        <Badge key={tenant} variant="secondary">{tenant}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">{config.fhirBaseUrl}</p>
+                    {issues.length > 0 && (
+                      <ul className="mt-2 text-xs text-red-600 space-y-1">
+                        {issues.map(issue => (
+                          <li key={issue.path + issue.message} className="flex items-center">
+                            <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+                            {issue.path || 'config'}: {issue.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setEditing({ config, isNew: false })}>
+                      <Edit className="mr-1 h-4 w-4" /> {readOnly ? 'View' : 'Edit'}
+                    </Button>
+                    {!readOnly && config.id && (
+                      <Button variant="destructive" size="sm" onClick={() => handleDelete(config.id!)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EMRConfigAdmin;
@@ -0,0 +1,368 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { CheckCircle, XCircle, Plug, Save, X } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { storedEMRConfigSchema, type StoredEMRConfig } from '@/schemas/emrConfigSchema';
+import type { ConnectionTestResult, EndpointCheck } from '@/hooks/useEMRConfigAdmin';
+import { AdminApiError } from '@/hooks/useEMRConfigAdmin';
+
+// Lists and maps are edited as text, then parsed back on submit
+interface EMRConfigFormValues {
+  id: string;
+  name: string;
+  fhirBaseUrl: string;
+  authUrl: string;
+  tokenUrl: string;
+  clientId: string;
+  redirectUri: string;
+  scopes: string;
+  flow: 'authorization_code' | 'client_credentials';
+  pkce: boolean;
+  responseType: string;
+  tokenEndpointAuthMethod: '' | 'none' | 'client_secret_basic' | 'client_secret_post' | 'private_key_jwt';
+  supportedResources: string;
+  supportsRefreshToken: boolean;
+  searchParams: string;
+  acceptHeader: string;
+  patientIdLocation: string;
+  tokenParsingStrategy: '' | 'standard' | 'jwt' | 'custom';
+  notFoundStatusCodes: string;
+  supportsPagination: boolean;
+  filterByResourceType: boolean;
+  customHeaders: string;
+  urlParams: string;
+  requiresDateFilter: string;
+  tenants: string;
+}
+
+type FieldName = keyof EMRConfigFormValues;
+
+const JSON_FIELDS: FieldName[] = ['searchParams', 'customHeaders', 'urlParams', 'requiresDateFilter'];
+
+const splitList = (value: string) => value.split(/[\s,]+/).map(item => item.trim()).filter(Boolean);
+const joinList = (value?: Array<string | number>) => (value || []).join(', ');
+const toJson = (value?: object) => (value && Object.keys(value).length > 0 ? JSON.stringify(value, null, 2) : '');
+
+function toFormValues(config: Partial<StoredEMRConfig>): EMRConfigFormValues {
+  return {
+    id: config.id || '',
+    name: config.name || '',
+    fhirBaseUrl: config.fhirBaseUrl || '',
+    authUrl: config.authUrl || '',
+    tokenUrl: config.tokenUrl || '',
+    clientId: config.clientId || '',
+    redirectUri: config.redirectUri || '',
+    scopes: (config.scopes || []).join('\n'),
+    flow: config.oauth?.flow || 'authorization_code',
+    pkce: config.oauth?.pkce ?? true,
+    responseType: config.oauth?.responseType || 'code',
+    tokenEndpointAuthMethod: config.tokenEndpointAuthMethod || '',
+    supportedResources: joinList(config.capabilities?.supportedResources),
+    supportsRefreshToken: config.capabilities?.supportsRefreshToken ?? false,
+    searchParams: toJson(config.capabilities?.searchParams),
+    acceptHeader: config.quirks?.acceptHeader || '',
+    patientIdLocation: config.quirks?.patientIdLocation || '',
+    tokenParsingStrategy: config.quirks?.tokenParsingStrategy || '',
+    notFoundStatusCodes: joinList(config.quirks?.notFoundStatusCodes),
+    supportsPagination: config.quirks?.supportsPagination ?? false,
+    filterByResourceType: config.quirks?.filterByResourceType ?? false,
+    customHeaders: toJson(config.quirks?.customHeaders),
+    urlParams: toJson(config.quirks?.urlParams),
+    requiresDateFilter: toJson(config.quirks?.requiresDateFilter),
+    tenants: joinList(config.tenants),
+  };
+}
+
+/**
+ * Build a config from the form; empty optional fields are left out entirely
+ */
+function fromFormValues(values: EMRConfigFormValues): { config: unknown; jsonErrors: Partial<Record<FieldName, string>> } {
+  const jsonErrors: Partial<Record<FieldName, string>> = {};
+  const parsed: Partial<Record<FieldName, unknown>> = {};
+
+  JSON_FIELDS.forEach(field => {
+    const text = (values[field] as string).trim();
+    if (!text) return;
+    try {
+      parsed[field] = JSON.parse(text);
+    } catch {
+      jsonErrors[field] = 'Must be valid JSON';
+    }
+  });
+
+  const optional = (value: string) => value.trim() || undefined;
+  const list = (value: string) => (splitList(value).length > 0 ? splitList(value) : undefined);
+
+  const config = {
+    id: values.id.trim(),
+    name: values.name.trim(),
+    authUrl: optional(values.authUrl),
+    tokenUrl: optional(values.tokenUrl),
+    fhirBaseUrl: values.fhirBaseUrl.trim(),
+    clientId: values.clientId.trim(),
+    redirectUri: values.redirectUri.trim(),
+    scopes: splitList(values.scopes),
+    oauth: {
+      flow: values.flow,
+      pkce: values.pkce,
+      responseType: optional(values.responseType),
+    },
+    tokenEndpointAuthMethod: values.tokenEndpointAuthMethod || undefined,
+    capabilities: {
+      supportedResources: list(values.supportedResources),
+      supportsRefreshToken: values.supportsRefreshToken,
+      searchParams: parsed.searchParams,
+    },
+    quirks: {
+      customHeaders: parsed.customHeaders,
+      patientIdLocation: optional(values.patientIdLocation),
+      requiresDateFilter: parsed.requiresDateFilter,
+      acceptHeader: optional(values.acceptHeader),
+      supportsPagination: values.supportsPagination,
+      notFoundStatusCodes: list(values.notFoundStatusCodes)?.map(Number),
+      filterByResourceType: values.filterByResourceType,
+      tokenParsingStrategy: values.tokenParsingStrategy || undefined,
+      urlParams: parsed.urlParams,
+    },
+    tenants: list(values.tenants),
+  };
+
+  return { config: JSON.parse(JSON.stringify(config)), jsonErrors };
+}
+
+/**
+ * "oauth.pkce" -> "pkce", "scopes.2" -> "scopes"
+ */
+function fieldForIssuePath(path: string): FieldName {
+  const [first, second] = path.split('.');
+  return (['oauth', 'capabilities', 'quirks'].includes(first) && second ? second : first) as FieldName;
+}
+
+const inputClass = "flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm font-mono focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+const Field = ({ label, error, hint, children }: { label: string; error?: string; hint?: string; children: React.ReactNode }) => (
+  <div className="space-y-1">
+    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">{label}</label>
+    {children}
+    {hint && !error && <p className="text-xs text-muted-foreground">{hint}</p>}
+    {error && <p className="text-xs text-red-500">{error}</p>}
+  </div>
+);
+
+const Section = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <fieldset className="border rounded-lg p-4 space-y-4">
+    <legend className="px-2 text-sm font-semibold text-primary">{title}</legend>
+    {children}
+  </fieldset>
+);
+
+const CheckResult = ({ label, check }: { label: string; check: EndpointCheck }) => (
+  <div className={`rounded-md border p-3 text-sm ${check.ok ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+    <div className="flex items-center font-semibold mb-1">
+      {check.ok
+        ? <CheckCircle className="h-4 w-4 text-green-600 mr-2" />
+        : <XCircle className="h-4 w-4 text-red-600 mr-2" />}
+      {label}
+    </div>
+    <p className="text-xs text-muted-foreground break-all">{check.url}</p>
+    {check.error && <p className="text-xs text-red-700 mt-1">{check.error}</p>}
+    {check.summary && (
+      <ul className="text-xs mt-2 space-y-1">
+        {Object.entries(check.summary).map(([key, value]) => (
+          <li key={key} className="break-all">
+            <span className="font-medium">{key}:</span>{' '}
+            {Array.isArray(value) ? value.join(', ') || '—' : String(value ?? '—')}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+interface EMRConfigFormProps {
+  config: Partial<StoredEMRConfig>;
+  isNew: boolean;
+  readOnly: boolean;
+  onSave: (config: StoredEMRConfig) => Promise<void>;
+  onCancel: () => void;
+  onTestConnection: (fhirBaseUrl: string) => Promise<ConnectionTestResult>;
+}
+
+const EMRConfigForm: React.FC<EMRConfigFormProps> = ({ config, isNew, readOnly, onSave, onCancel, onTestConnection }) => {
+  const { register, handleSubmit, setError, getValues, formState } = useForm<EMRConfigFormValues>({
+    defaultValues: toFormValues(config),
+  });
+  const { errors, isSubmitting } = formState;
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [testResult, setTestResult] = useState<ConnectionTestResult | null>(null);
+  const [testError, setTestError] = useState<string | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  const applyIssues = (issues: { path: string; message: string }[]) => {
+    issues.forEach(issue => setError(fieldForIssuePath(issue.path), { message: issue.message }));
+  };
+
+  const onSubmit = async (values: EMRConfigFormValues) => {
+    setSaveError(null);
+    const { config: candidate, jsonErrors } = fromFormValues(values);
+    Object.entries(jsonErrors).forEach(([field, message]) => setError(field as FieldName, { message }));
+
+    const result = storedEMRConfigSchema.safeParse(candidate);
+    if (!result.success) {
+      applyIssues(result.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message })));
+    }
+    if (!result.success || Object.keys(jsonErrors).length > 0) {
+      setSaveError('Please fix the highlighted fields.');
+      return;
+    }
+
+    try {
+      await onSave(result.data);
+    } catch (err) {
+      if (err instanceof AdminApiError) applyIssues(err.issues);
+      setSaveError(err instanceof Error ? err.message : 'Failed to save');
+    }
+  };
+
+  const handleTestConnection = async () => {
+    setTesting(true);
+    setTestError(null);
+    setTestResult(null);
+    try {
+      setTestResult(await onTestConnection(getValues('fhirBaseUrl').trim()));
+    } catch (err) {
+      setTestError(err instanceof Error ? err.message : 'Connection test failed');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const text = (name: FieldName, label: string, hint?: string) => (
+    <Field label={label} error={errors[name]?.message} hint={hint}>
+      {/* readOnly, not disabled, so the id is still submitted when editing */}
+      <Input {...register(name)} disabled={readOnly} readOnly={name === 'id' && !isNew} className={errors[name] ? 'border-red-500' : ''} />
+    </Field>
+  );
+
+  const textarea = (name: FieldName, label: string, hint?: string) => (
+    <Field label={label} error={errors[name]?.message} hint={hint}>
+      <textarea {...register(name)} rows={4} disabled={readOnly} className={`${inputClass} ${errors[name] ? 'border-red-500' : ''}`} />
+    </Field>
+  );
+
+  const checkbox = (name: FieldName, label: string) => (
+    <label className="flex items-center space-x-2 text-sm">
+      <input type="checkbox" {...register(name)} disabled={readOnly} className="h-4 w-4" />
+      <span>{label}</span>
+    </label>
+  );
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      <Section title="Provider">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {text('id', 'ID', 'Lowercase letters, digits and hyphens')}
+          {text('name', 'Name')}
+          {text('clientId', 'Client ID')}
+          {text('redirectUri', 'Redirect URI')}
+        </div>
+        {text('tenants', 'Tenant hostnames', 'Comma separated. Leave empty to serve this EMR to every tenant.')}
+      </Section>
+
+      <Section title="Endpoints">
+        {text('fhirBaseUrl', 'FHIR base URL')}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {text('authUrl', 'Auth URL', 'Leave empty to discover from SMART configuration')}
+          {text('tokenUrl', 'Token URL', 'Leave empty to discover from SMART configuration')}
+        </div>
+        <div className="space-y-3">
+          <Button type="button" variant="outline" onClick={handleTestConnection} disabled={testing}>
+            <Plug className="mr-2 h-4 w-4" /> {testing ? 'Testing...' : 'Test connection'}
+          </Button>
+          {testError && <p className="text-sm text-red-500">{testError}</p>}
+          {testResult && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <CheckResult label="CapabilityStatement" check={testResult.capabilityStatement} />
+              <CheckResult label="SMART configuration" check={testResult.smartConfiguration} />
+            </div>
+          )}
+        </div>
+      </Section>
+
+      <Section title="OAuth">
+        {textarea('scopes', 'Scopes', 'One per line (or space separated)')}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Field label="Flow" error={errors.flow?.message}>
+            <select {...register('flow')} disabled={readOnly} className={inputClass}>
+              <option value="authorization_code">authorization_code</option>
+              <option value="client_credentials">client_credentials</option>
+            </select>
+          </Field>
+          {text('responseType', 'Response type')}
+          <Field
+            label="Token endpoint auth"
+            error={errors.tokenEndpointAuthMethod?.message}
+            hint="Anything but public exchanges the code on the server; secrets come from EMR_<ID>_* env vars"
+          >
+            <select {...register('tokenEndpointAuthMethod')} disabled={readOnly} className={inputClass}>
+              <option value="">public client (browser)</option>
+              <option value="client_secret_basic">client_secret_basic</option>
+              <option value="client_secret_post">client_secret_post</option>
+              <option value="private_key_jwt">private_key_jwt</option>
+            </select>
+          </Field>
+        </div>
+        {checkbox('pkce', 'Use PKCE')}
+      </Section>
+
+      <Section title="Capabilities">
+        {textarea('supportedResources', 'Supported resources', 'Comma separated, e.g. Patient, Observation')}
+        {checkbox('supportsRefreshToken', 'Supports refresh token')}
+        {textarea('searchParams', 'Search params (JSON)', '{ "Observation": ["category", "date"] }')}
+      </Section>
+
+      <Section title="Quirks">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {text('acceptHeader', 'Accept header', 'e.g. application/fhir+json')}
+          {text('patientIdLocation', 'Patient ID location', 'token.patient or id_token.fhirUser')}
+          <Field label="Token parsing strategy" error={errors.tokenParsingStrategy?.message}>
+            <select {...register('tokenParsingStrategy')} disabled={readOnly} className={inputClass}>
+              <option value="">(default)</option>
+              <option value="standard">standard</option>
+              <option value="jwt">jwt</option>
+              <option value="custom">custom</option>
+            </select>
+          </Field>
+          {text('notFoundStatusCodes', 'Not-found status codes', 'Comma separated, e.g. 403')}
+        </div>
+        <div className="flex flex-wrap gap-6">
+          {checkbox('supportsPagination', 'Supports pagination')}
+          {checkbox('filterByResourceType', 'Filter by resource type')}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {textarea('customHeaders', 'Custom headers (JSON)')}
+          {textarea('urlParams', 'URL params (JSON)')}
+          {textarea('requiresDateFilter', 'Requires date filter (JSON)')}
+        </div>
+      </Section>
+
+      {saveError && <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4" role="alert">{saveError}</div>}
+
+      <div className="flex justify-end gap-3">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          <X className="mr-2 h-4 w-4" /> Cancel
+        </Button>
+        {!readOnly && (
+          <Button type="submit" disabled={isSubmitting}>
+            <Save className="mr-2 h-4 w-4" /> {isSubmitting ? 'Saving...' : 'Save'}
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default EMRConfigForm;
@@ -2,9 +2,15 @@
 
 import * as React from "react"
 import { CalendarIcon } from "@radix-ui/react-icons"
-import { format } from "date-fns"
+import type { DateRange as DayRange } from "react-day-picker"
 
 import { cn } from "@/lib/utils"
+import {
+  DATE_RANGE_PRESETS,
+  describeDateRange,
+  toDay,
+  type DateRange,
+} from "@/lib/date-range"
 import { Button } from "@/components/ui/button"
 import { Calendar } from "@/components/ui/calendar"
 import {
@@ -13,30 +19,84 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover"
 
-export function DateRangePicker() {
-  const [date, setDate] = React.useState<Date>()
+interface DateRangePickerProps {
+  value: DateRange
+  onChange: (range: DateRange) => void
+  className?: string
+}
+
+const fromDay = (day?: string) => (day ? new Date(`${day}T00:00:00`) : undefined)
+
+export function DateRangePicker({ value, onChange, className }: DateRangePickerProps) {
+  const [open, setOpen] = React.useState(false)
+  // The calendar's in-progress selection - only applied once both ends are picked
+  const [draft, setDraft] = React.useState<DayRange | undefined>()
+
+  const selected = draft ?? (value.preset === "custom"
+    ? { from: fromDay(value.from), to: fromDay(value.to) }
+    : undefined)
+
+  const choose = (range: DateRange) => {
+    onChange(range)
+    setDraft(undefined)
+    setOpen(false)
+  }
+
+  const handleSelect = (range: DayRange | undefined) => {
+    if (range?.from && range.to) {
+      choose({ preset: "custom", from: toDay(range.from), to: toDay(range.to) })
+    } else {
+      setDraft(range)
+    }
+  }
 
   return (
-    <Popover>
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next)
+        if (!next) setDraft(undefined)
+      }}
+    >
       <PopoverTrigger asChild>
         <Button
           variant={"outline"}
+          size="sm"
           className={cn(
-            "w-[240px] justify-start text-left font-normal",
-            !date && "text-muted-foreground"
+            "justify-start text-left font-normal",
+            value.preset === "all" && "text-muted-foreground",
+            className
           )}
         >
           <CalendarIcon className="mr-2 h-4 w-4" />
-          {date ? format(date, "PPP") : <span>Pick a date</span>}
+          <span>{describeDateRange(value)}</span>
         </Button>
       </PopoverTrigger>
-      <PopoverContent className="w-auto p-0" align="start">
-        <Calendar
-          mode="single"
-          selected={date}
-          onSelect={setDate}
-          initialFocus
-        />
+      <PopoverContent className="w-auto p-0" align="end">
+        <div className="flex flex-col sm:flex-row">
+          <div className="flex sm:flex-col gap-1 p-3 border-b sm:border-b-0 sm:border-r flex-wrap">
+            {DATE_RANGE_PRESETS.map((preset) => (
+              <Button
+                key={preset.value}
+                variant={value.preset === preset.value ? "default" : "ghost"}
+                size="sm"
+                className="justify-start"
+                onClick={() => choose({ preset: preset.value })}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+          <Calendar
+            mode="range"
+            selected={selected}
+            onSelect={handleSelect}
+            defaultMonth={selected?.from}
+            disabled={{ after: new Date() }}
+            numberOfMonths={2}
+            initialFocus
+          />
+        </div>
       </PopoverContent>
     </Popover>
   )
@@ -1,9 +1,11 @@
 // vitals/utils/referenceRanges.ts
+// The one bundled range table - lib/reference-ranges falls back to it when the
+// Observation has no range of its own and no age/sex default applies.
 
 export const referenceRanges = {
     'Blood Pressure': {
-      systolic: { low: 90, normal: 120, high: 140 },
-      diastolic: { low: 60, normal: 80, high: 90 },
+      systolic: { low: 90, normal: 120, high: 140, loinc: ['8480-6'] },
+      diastolic: { low: 60, normal: 80, high: 90, loinc: ['8462-4'] },
       unit: 'mmHg',
       insights: {
         low: 'Low blood pressure may cause dizziness or fainting. Consider increasing salt intake and staying hydrated.',
@@ -13,6 +15,7 @@ export const referenceRanges = {
     },
     'Heart Rate': {
       low: 60, normal: 80, high: 100,
+      loinc: ['8867-4'],
       unit: 'bpm',
       insights: {
         low: 'A low heart rate may indicate excellent cardiovascular fitness or an underlying condition. Consult your doctor if you experience symptoms.',
@@ -22,6 +25,7 @@ export const referenceRanges = {
     },
     'Body Temperature': {
       low: 36.1, normal: 37, high: 38,
+      loinc: ['8310-5', '8331-1'],
       unit: '°C',
       insights: {
         low: 'A low body temperature may indicate hypothermia. Warm up gradually and seek medical attention if symptoms persist.',
@@ -31,6 +35,7 @@ export const referenceRanges = {
     },
     'Respiratory Rate': {
       low: 12, normal: 16, high: 20,
+      loinc: ['9279-1'],
       unit: 'breaths/min',
       insights: {
         low: 'A low respiratory rate may indicate respiratory depression. Practice deep breathing exercises and consult a doctor if accompanied by other symptoms.',
@@ -40,6 +45,7 @@ export const referenceRanges = {
     },
     'Oxygen Saturation': {
       low: 95, normal: 98, high: 100,
+      loinc: ['2708-6', '59408-5'],
       unit: '%',
       insights: {
         low: 'Low oxygen saturation may indicate respiratory issues. Practice deep breathing exercises and consult a doctor if it persists.',
@@ -48,6 +54,7 @@ export const referenceRanges = {
       }
     },
     'Weight': {
+      loinc: ['29463-7', '3141-9'],
       unit: 'kg',
       insights: {
         trend: 'Monitor your weight trend. Sudden changes may indicate fluid retention or loss, or changes in diet and exercise habits.'
@@ -55,6 +62,7 @@ export const referenceRanges = {
     },
     'BMI': {
       low: 18.5, normal: 24.9, high: 29.9,
+      loinc: ['39156-5'],
       unit: 'kg/m²',
       insights: {
         low: 'A low BMI may indicate underweight. Consider consulting a nutritionist for a balanced diet plan.',
@@ -62,4 +70,34 @@ export const referenceRanges = {
         high: 'An elevated BMI may indicate overweight or obesity. Consider increasing physical activity and consulting a nutritionist for dietary advice.'
       }
     },
-  };
\ No newline at end of file
+  };
+
+// Age- and sex-specific defaults, checked before the table above. Ages in
+// years, `maxAge` exclusive.
+export const demographicRanges: {
+  loinc: string[];
+  name: string;
+  low: number;
+  high: number;
+  unit: string;
+  minAge?: number;
+  maxAge?: number;
+  sex?: 'male' | 'female';
+}[] = [
+  // Resting heart rate and breathing run faster in children
+  { loinc: ['8867-4'], name: 'Heart Rate', minAge: 0, maxAge: 1, low: 100, high: 160, unit: 'bpm' },
+  { loinc: ['8867-4'], name: 'Heart Rate', minAge: 1, maxAge: 3, low: 90, high: 150, unit: 'bpm' },
+  { loinc: ['8867-4'], name: 'Heart Rate', minAge: 3, maxAge: 6, low: 80, high: 140, unit: 'bpm' },
+  { loinc: ['8867-4'], name: 'Heart Rate', minAge: 6, maxAge: 13, low: 70, high: 120, unit: 'bpm' },
+  { loinc: ['9279-1'], name: 'Respiratory Rate', minAge: 0, maxAge: 1, low: 30, high: 60, unit: 'breaths/min' },
+  { loinc: ['9279-1'], name: 'Respiratory Rate', minAge: 1, maxAge: 3, low: 24, high: 40, unit: 'breaths/min' },
+  { loinc: ['9279-1'], name: 'Respiratory Rate', minAge: 3, maxAge: 6, low: 22, high: 34, unit: 'breaths/min' },
+  { loinc: ['9279-1'], name: 'Respiratory Rate', minAge: 6, maxAge: 13, low: 18, high: 30, unit: 'breaths/min' },
+  // Adult lab values that differ by sex
+  { loinc: ['718-7'], name: 'Hemoglobin', minAge: 18, sex: 'male', low: 13.5, high: 17.5, unit: 'g/dL' },
+  { loinc: ['718-7'], name: 'Hemoglobin', minAge: 18, sex: 'female', low: 12.0, high: 15.5, unit: 'g/dL' },
+  { loinc: ['4544-3'], name: 'Hematocrit', minAge: 18, sex: 'male', low: 41, high: 53, unit: '%' },
+  { loinc: ['4544-3'], name: 'Hematocrit', minAge: 18, sex: 'female', low: 36, high: 46, unit: '%' },
+  { loinc: ['2160-0'], name: 'Creatinine', minAge: 18, sex: 'male', low: 0.74, high: 1.35, unit: 'mg/dL' },
+  { loinc: ['2160-0'], name: 'Creatinine', minAge: 18, sex: 'female', low: 0.59, high: 1.04, unit: 'mg/dL' },
+];
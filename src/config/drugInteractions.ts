@@ -0,0 +1,372 @@
+// Interaction table checkInteractions (lib/interactions) runs against.
+// A condensed set of well-established, clinically significant drug-drug
+// interactions and drug-allergy class conflicts, for prompting a
+// conversation with the care team - not a substitute for a pharmacist's
+// review. Bump `version` when the table changes so findings can say which
+// table they came from.
+//
+// Ingredients are RxNorm ingredient (IN) concepts. EMRs usually code a
+// prescription as a clinical or branded drug (SCD/SBD), so each ingredient
+// lists the common products that contain it; others still match by name.
+// A rule's `between` entries are either an ingredient RxCUI or a class id.
+// Only the most severe rule for a pair is reported, the first listed on a
+// tie, so put the more specific of two equally severe rules first.
+
+export type InteractionSeverity = 'contraindicated' | 'major' | 'moderate';
+
+export interface DrugClass {
+  id: string;
+  name: string;
+  /** Words that name the class in an allergy record, e.g. "sulfa" */
+  keywords: string[];
+}
+
+export interface Ingredient {
+  rxcui: string;
+  name: string;
+  /** Brand and other names it's prescribed under */
+  synonyms?: string[];
+  /** SCD/SBD RxCUIs of common products containing it */
+  products?: string[];
+  classes: string[];
+}
+
+export interface DrugInteraction {
+  id: string;
+  between: [string, string];
+  severity: InteractionSeverity;
+  mechanism: string;
+  advice: string;
+}
+
+export interface AllergyConflict {
+  id: string;
+  /** Class the allergy is to... */
+  allergyClass: string;
+  /** ...and the class of medicine it rules out or calls into question */
+  drugClass: string;
+  severity: InteractionSeverity;
+  mechanism: string;
+  advice: string;
+}
+
+export interface InteractionTable {
+  version: string;
+  source: string;
+  classes: DrugClass[];
+  ingredients: Ingredient[];
+  interactions: DrugInteraction[];
+  allergyConflicts: AllergyConflict[];
+}
+
+export const INTERACTION_TABLE: InteractionTable = {
+  version: 'portal-interactions 2024.3',
+  source: 'Condensed from FDA labeling and published interaction references',
+  classes: [
+    { id: 'anticoagulant', name: 'Anticoagulants', keywords: ['anticoagulant'] },
+    { id: 'antiplatelet', name: 'Antiplatelets', keywords: ['antiplatelet'] },
+    { id: 'nsaid', name: 'NSAIDs', keywords: ['nsaid', 'non-steroidal', 'nonsteroidal'] },
+    { id: 'ace-inhibitor', name: 'ACE inhibitors', keywords: ['ace inhibitor'] },
+    { id: 'arb', name: 'Angiotensin receptor blockers', keywords: ['angiotensin receptor blocker'] },
+    { id: 'potassium-sparing-diuretic', name: 'Potassium-sparing diuretics', keywords: [] },
+    { id: 'potassium-supplement', name: 'Potassium supplements', keywords: [] },
+    { id: 'statin', name: 'Statins', keywords: ['statin'] },
+    { id: 'strong-cyp3a4-inhibitor', name: 'Strong CYP3A4 inhibitors', keywords: [] },
+    { id: 'pde5-inhibitor', name: 'PDE5 inhibitors', keywords: [] },
+    { id: 'nitrate', name: 'Nitrates', keywords: ['nitrate'] },
+    { id: 'ssri', name: 'SSRIs', keywords: ['ssri'] },
+    { id: 'serotonergic', name: 'Serotonergic medicines', keywords: [] },
+    { id: 'opioid', name: 'Opioids', keywords: ['opioid', 'opiate', 'narcotic'] },
+    { id: 'benzodiazepine', name: 'Benzodiazepines', keywords: ['benzodiazepine'] },
+    { id: 'penicillin', name: 'Penicillins', keywords: ['penicillin'] },
+    { id: 'cephalosporin', name: 'Cephalosporins', keywords: ['cephalosporin'] },
+    { id: 'sulfonamide-antibiotic', name: 'Sulfonamide antibiotics', keywords: ['sulfa', 'sulfonamide'] },
+    { id: 'fluoroquinolone', name: 'Fluoroquinolones', keywords: ['fluoroquinolone', 'quinolone'] },
+  ],
+  ingredients: [
+    { rxcui: '11289', name: 'warfarin', synonyms: ['coumadin', 'jantoven'], products: ['855332'], classes: ['anticoagulant'] },
+    { rxcui: '1364430', name: 'apixaban', synonyms: ['eliquis'], products: ['1364435', '1364445', '1364447'], classes: ['anticoagulant'] },
+    { rxcui: '1114195', name: 'rivaroxaban', synonyms: ['xarelto'], classes: ['anticoagulant'] },
+    { rxcui: '32968', name: 'clopidogrel', synonyms: ['plavix'], products: ['309362', '213169'], classes: ['antiplatelet'] },
+    { rxcui: '1191', name: 'aspirin', synonyms: ['acetylsalicylic acid'], products: ['243670'], classes: ['antiplatelet', 'nsaid'] },
+    { rxcui: '5640', name: 'ibuprofen', synonyms: ['advil', 'motrin'], products: ['310965', '197805', '197807'], classes: ['nsaid'] },
+    { rxcui: '7258', name: 'naproxen', synonyms: ['aleve', 'naprosyn'], products: ['849574'], classes: ['nsaid'] },
+    { rxcui: '140587', name: 'celecoxib', synonyms: ['celebrex'], classes: ['nsaid'] },
+    { rxcui: '29046', name: 'lisinopril', synonyms: ['prinivil', 'zestril'], products: ['314076', '314077'], classes: ['ace-inhibitor'] },
+    { rxcui: '3827', name: 'enalapril', synonyms: ['vasotec'], classes: ['ace-inhibitor'] },
+    { rxcui: '52175', name: 'losartan', synonyms: ['cozaar'], classes: ['arb'] },
+    { rxcui: '9997', name: 'spironolactone', synonyms: ['aldactone'], classes: ['potassium-sparing-diuretic'] },
+    { rxcui: '8591', name: 'potassium chloride', synonyms: ['klor-con'], classes: ['potassium-supplement'] },
+    { rxcui: '36567', name: 'simvastatin', synonyms: ['zocor'], products: ['312961'], classes: ['statin'] },
+    { rxcui: '83367', name: 'atorvastatin', synonyms: ['lipitor'], products: ['259255'], classes: ['statin'] },
+    { rxcui: '21212', name: 'clarithromycin', synonyms: ['biaxin'], classes: ['strong-cyp3a4-inhibitor'] },
+    { rxcui: '6135', name: 'ketoconazole', classes: ['strong-cyp3a4-inhibitor'] },
+    { rxcui: '4450', name: 'fluconazole', synonyms: ['diflucan'], classes: [] },
+    { rxcui: '703', name: 'amiodarone', synonyms: ['pacerone', 'cordarone'], classes: [] },
+    { rxcui: '3407', name: 'digoxin', synonyms: ['lanoxin'], classes: [] },
+    { rxcui: '2683', name: 'colchicine', synonyms: ['colcrys'], classes: [] },
+    { rxcui: '136411', name: 'sildenafil', synonyms: ['viagra', 'revatio'], classes: ['pde5-inhibitor'] },
+    { rxcui: '358263', name: 'tadalafil', synonyms: ['cialis'], classes: ['pde5-inhibitor'] },
+    { rxcui: '4917', name: 'nitroglycerin', synonyms: ['nitrostat'], classes: ['nitrate'] },
+    { rxcui: '6058', name: 'isosorbide mononitrate', synonyms: ['imdur'], classes: ['nitrate'] },
+    { rxcui: '4493', name: 'fluoxetine', synonyms: ['prozac'], classes: ['ssri', 'serotonergic'] },
+    { rxcui: '36437', name: 'sertraline', synonyms: ['zoloft'], classes: ['ssri', 'serotonergic'] },
+    { rxcui: '2556', name: 'citalopram', synonyms: ['celexa'], classes: ['ssri', 'serotonergic'] },
+    { rxcui: '321988', name: 'escitalopram', synonyms: ['lexapro'], classes: ['ssri', 'serotonergic'] },
+    { rxcui: '10689', name: 'tramadol', synonyms: ['ultram'], products: ['835603'], classes: ['opioid', 'serotonergic'] },
+    { rxcui: '190376', name: 'linezolid', synonyms: ['zyvox'], classes: [] },
+    { rxcui: '7804', name: 'oxycodone', synonyms: ['oxycontin', 'percocet'], classes: ['opioid'] },
+    { rxcui: '5489', name: 'hydrocodone', synonyms: ['norco', 'vicodin'], classes: ['opioid'] },
+    { rxcui: '7052', name: 'morphine', classes: ['opioid'] },
+    { rxcui: '2670', name: 'codeine', classes: ['opioid'] },
+    { rxcui: '596', name: 'alprazolam', synonyms: ['xanax'], classes: ['benzodiazepine'] },
+    { rxcui: '6470', name: 'lorazepam', synonyms: ['ativan'], classes: ['benzodiazepine'] },
+    { rxcui: '3322', name: 'diazepam', synonyms: ['valium'], classes: ['benzodiazepine'] },
+    { rxcui: '57258', name: 'tizanidine', synonyms: ['zanaflex'], classes: [] },
+    { rxcui: '6851', name: 'methotrexate', classes: [] },
+    { rxcui: '7646', name: 'omeprazole', synonyms: ['prilosec'], classes: [] },
+    { rxcui: '723', name: 'amoxicillin', synonyms: ['amoxil', 'augmentin'], products: ['308182', '308191', '562251'], classes: ['penicillin'] },
+    { rxcui: '733', name: 'ampicillin', classes: ['penicillin'] },
+    { rxcui: '7984', name: 'penicillin v', classes: ['penicillin'] },
+    { rxcui: '2231', name: 'cephalexin', synonyms: ['keflex'], classes: ['cephalosporin'] },
+    { rxcui: '10180', name: 'sulfamethoxazole', synonyms: ['bactrim', 'septra'], products: ['198335'], classes: ['sulfonamide-antibiotic'] },
+    { rxcui: '10829', name: 'trimethoprim', products: ['198335'], classes: [] },
+    { rxcui: '2551', name: 'ciprofloxacin', synonyms: ['cipro'], products: ['309309'], classes: ['fluoroquinolone'] },
+    { rxcui: '82122', name: 'levofloxacin', synonyms: ['levaquin'], classes: ['fluoroquinolone'] },
+  ],
+  interactions: [
+    {
+      id: 'anticoagulant-antiplatelet',
+      between: ['anticoagulant', 'antiplatelet'],
+      severity: 'major',
+      mechanism: 'Two medicines that each reduce clotting raise the risk of serious bleeding together.',
+      advice: 'Check with your prescriber that both are meant to be taken together.',
+    },
+    {
+      id: 'anticoagulant-nsaid',
+      between: ['anticoagulant', 'nsaid'],
+      severity: 'major',
+      mechanism: 'NSAIDs affect platelets and the stomach lining, adding to the anticoagulant\'s bleeding risk.',
+      advice: 'Avoid regular NSAID use; ask which pain reliever is safe with your blood thinner.',
+    },
+    {
+      id: 'warfarin-sulfamethoxazole',
+      between: ['11289', '10180'],
+      severity: 'major',
+      mechanism: 'Sulfamethoxazole slows warfarin\'s breakdown (CYP2C9), raising INR.',
+      advice: 'Your INR may need checking more often while on this antibiotic.',
+    },
+    {
+      id: 'warfarin-amiodarone',
+      between: ['11289', '703'],
+      severity: 'major',
+      mechanism: 'Amiodarone slows warfarin\'s breakdown for weeks to months, raising INR.',
+      advice: 'Warfarin doses are usually lowered and INR checked closely.',
+    },
+    {
+      id: 'warfarin-fluconazole',
+      between: ['11289', '4450'],
+      severity: 'major',
+      mechanism: 'Fluconazole slows warfarin\'s breakdown (CYP2C9), raising INR.',
+      advice: 'Your INR may need checking more often while on fluconazole.',
+    },
+    {
+      id: 'simvastatin-cyp3a4',
+      between: ['36567', 'strong-cyp3a4-inhibitor'],
+      severity: 'contraindicated',
+      mechanism: 'Strong CYP3A4 inhibitors raise simvastatin levels many times over, risking muscle breakdown (rhabdomyolysis).',
+      advice: 'Simvastatin is usually paused while taking this medicine - ask your prescriber.',
+    },
+    {
+      id: 'atorvastatin-clarithromycin',
+      between: ['83367', '21212'],
+      severity: 'moderate',
+      mechanism: 'Clarithromycin raises atorvastatin levels, increasing the risk of muscle pain and damage.',
+      advice: 'Report unexplained muscle pain or weakness; your statin dose may be limited.',
+    },
+    {
+      id: 'ras-potassium-sparing',
+      between: ['ace-inhibitor', 'potassium-sparing-diuretic'],
+      severity: 'major',
+      mechanism: 'Both raise blood potassium, which can cause dangerous heart rhythms.',
+      advice: 'Potassium levels should be checked regularly.',
+    },
+    {
+      id: 'arb-potassium-sparing',
+      between: ['arb', 'potassium-sparing-diuretic'],
+      severity: 'major',
+      mechanism: 'Both raise blood potassium, which can cause dangerous heart rhythms.',
+      advice: 'Potassium levels should be checked regularly.',
+    },
+    {
+      id: 'ace-potassium-supplement',
+      between: ['ace-inhibitor', 'potassium-supplement'],
+      severity: 'moderate',
+      mechanism: 'ACE inhibitors keep potassium in the body; supplements add more.',
+      advice: 'Ask whether you still need the potassium supplement and when your levels were last checked.',
+    },
+    {
+      id: 'arb-potassium-supplement',
+      between: ['arb', 'potassium-supplement'],
+      severity: 'moderate',
+      mechanism: 'ARBs keep potassium in the body; supplements add more.',
+      advice: 'Ask whether you still need the potassium supplement and when your levels were last checked.',
+    },
+    {
+      id: 'ace-nsaid',
+      between: ['ace-inhibitor', 'nsaid'],
+      severity: 'moderate',
+      mechanism: 'NSAIDs blunt the blood pressure effect and together they can strain the kidneys.',
+      advice: 'Use NSAIDs sparingly and mention them at your next blood pressure check.',
+    },
+    {
+      id: 'arb-nsaid',
+      between: ['arb', 'nsaid'],
+      severity: 'moderate',
+      mechanism: 'NSAIDs blunt the blood pressure effect and together they can strain the kidneys.',
+      advice: 'Use NSAIDs sparingly and mention them at your next blood pressure check.',
+    },
+    {
+      id: 'pde5-nitrate',
+      between: ['pde5-inhibitor', 'nitrate'],
+      severity: 'contraindicated',
+      mechanism: 'Together they can drop blood pressure to dangerous levels.',
+      advice: 'Do not take these together. Talk to your prescriber before using either.',
+    },
+    {
+      id: 'ssri-tramadol',
+      between: ['ssri', '10689'],
+      severity: 'major',
+      mechanism: 'Both increase serotonin, risking serotonin syndrome; tramadol\'s seizure risk is also higher.',
+      advice: 'Seek care for agitation, fever, sweating or muscle twitching.',
+    },
+    {
+      id: 'serotonergic-linezolid',
+      between: ['serotonergic', '190376'],
+      severity: 'major',
+      mechanism: 'Linezolid blocks serotonin breakdown (MAO inhibition), risking serotonin syndrome.',
+      advice: 'Your prescriber may pause the other medicine during linezolid treatment.',
+    },
+    {
+      id: 'opioid-benzodiazepine',
+      between: ['opioid', 'benzodiazepine'],
+      severity: 'major',
+      mechanism: 'Together they can slow breathing dangerously, cause deep sedation or death.',
+      advice: 'Avoid alcohol, and ask whether naloxone should be kept at home.',
+    },
+    {
+      id: 'methotrexate-trimethoprim',
+      between: ['6851', '10829'],
+      severity: 'major',
+      mechanism: 'Both block folate; together they can suppress the bone marrow.',
+      advice: 'Make sure every prescriber knows you take methotrexate.',
+    },
+    {
+      id: 'methotrexate-sulfamethoxazole',
+      between: ['6851', '10180'],
+      severity: 'major',
+      mechanism: 'Sulfamethoxazole raises methotrexate levels and adds to its effect on the bone marrow.',
+      advice: 'Make sure every prescriber knows you take methotrexate.',
+    },
+    {
+      id: 'methotrexate-nsaid',
+      between: ['6851', 'nsaid'],
+      severity: 'moderate',
+      mechanism: 'NSAIDs slow methotrexate\'s clearance by the kidneys.',
+      advice: 'Usually fine with low weekly doses, but ask before regular NSAID use.',
+    },
+    {
+      id: 'digoxin-amiodarone',
+      between: ['3407', '703'],
+      severity: 'major',
+      mechanism: 'Amiodarone raises digoxin levels, risking toxicity (nausea, vision changes, slow heart rate).',
+      advice: 'The digoxin dose is usually lowered and levels checked.',
+    },
+    {
+      id: 'clopidogrel-omeprazole',
+      between: ['32968', '7646'],
+      severity: 'moderate',
+      mechanism: 'Omeprazole reduces clopidogrel\'s activation (CYP2C19), weakening its protection.',
+      advice: 'Ask whether a different stomach medicine would suit you better.',
+    },
+    {
+      id: 'colchicine-clarithromycin',
+      between: ['2683', '21212'],
+      severity: 'contraindicated',
+      mechanism: 'Clarithromycin raises colchicine to toxic levels.',
+      advice: 'Colchicine is usually paused during clarithromycin treatment - ask your prescriber.',
+    },
+    {
+      id: 'tizanidine-ciprofloxacin',
+      between: ['57258', '2551'],
+      severity: 'contraindicated',
+      mechanism: 'Ciprofloxacin blocks tizanidine\'s breakdown (CYP1A2), causing very low blood pressure and sedation.',
+      advice: 'Do not take these together. Ask for a different antibiotic.',
+    },
+    {
+      id: 'ssri-nsaid',
+      between: ['ssri', 'nsaid'],
+      severity: 'moderate',
+      mechanism: 'SSRIs reduce platelet serotonin; with NSAIDs the risk of stomach bleeding rises.',
+      advice: 'Ask about stomach protection if you use NSAIDs regularly.',
+    },
+  ],
+  allergyConflicts: [
+    {
+      id: 'penicillin-allergy-penicillin',
+      allergyClass: 'penicillin',
+      drugClass: 'penicillin',
+      severity: 'contraindicated',
+      mechanism: 'Penicillins share the structure the allergy is to.',
+      advice: 'Tell your prescriber about your penicillin allergy before taking this.',
+    },
+    {
+      id: 'penicillin-allergy-cephalosporin',
+      allergyClass: 'penicillin',
+      drugClass: 'cephalosporin',
+      severity: 'moderate',
+      mechanism: 'A small share of people allergic to penicillin also react to cephalosporins.',
+      advice: 'Often prescribed safely - make sure your prescriber knew about the allergy.',
+    },
+    {
+      id: 'cephalosporin-allergy-cephalosporin',
+      allergyClass: 'cephalosporin',
+      drugClass: 'cephalosporin',
+      severity: 'contraindicated',
+      mechanism: 'Cephalosporins share the structure the allergy is to.',
+      advice: 'Tell your prescriber about your cephalosporin allergy before taking this.',
+    },
+    {
+      id: 'sulfa-allergy-sulfonamide',
+      allergyClass: 'sulfonamide-antibiotic',
+      drugClass: 'sulfonamide-antibiotic',
+      severity: 'contraindicated',
+      mechanism: 'Sulfonamide antibiotics are what a "sulfa" allergy usually refers to.',
+      advice: 'Tell your prescriber about your sulfa allergy before taking this.',
+    },
+    {
+      id: 'nsaid-allergy-nsaid',
+      allergyClass: 'nsaid',
+      drugClass: 'nsaid',
+      severity: 'major',
+      mechanism: 'Reactions to one NSAID (aspirin included) often happen with others.',
+      advice: 'Ask your prescriber or pharmacist before taking any NSAID.',
+    },
+    {
+      id: 'opioid-allergy-opioid',
+      allergyClass: 'opioid',
+      drugClass: 'opioid',
+      severity: 'major',
+      mechanism: 'Opioids can cause similar reactions, though many are side effects rather than true allergy.',
+      advice: 'Make sure your prescriber knew which reaction you had before.',
+    },
+    {
+      id: 'fluoroquinolone-allergy-fluoroquinolone',
+      allergyClass: 'fluoroquinolone',
+      drugClass: 'fluoroquinolone',
+      severity: 'contraindicated',
+      mechanism: 'Fluoroquinolones commonly cross-react with each other.',
+      advice: 'Tell your prescriber about your allergy before taking this.',
+    },
+  ],
+};
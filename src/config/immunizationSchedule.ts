@@ -0,0 +1,200 @@
+// Routine immunization schedule checkImmunizationSchedule (lib/immunizations) runs against.
+// Condensed from the CDC child/adolescent and adult schedules - routine
+// recommendations only, no risk-based or travel vaccines. Bump `version` when
+// the table changes so results can say which schedule they came from.
+//
+// Ages are in months. A dose is due from `fromMonths` and overdue after
+// `toMonths`. Recommendations with `maxAgeMonths` aren't checked past that
+// age (no routine catch-up, or adult records rarely carry childhood doses),
+// though a finished series still shows as complete.
+
+export interface ScheduleDose {
+  fromMonths: number;
+  toMonths: number;
+}
+
+export interface VaccineRecommendation {
+  id: string;
+  name: string;
+  /** CVX codes that count towards this recommendation, combination vaccines included */
+  cvx: string[];
+  /** A fixed series... */
+  doses?: ScheduleDose[];
+  /** ...or a recurring dose from `startMonths` on */
+  repeatEveryMonths?: number;
+  startMonths?: number;
+  maxAgeMonths?: number;
+}
+
+export interface ImmunizationSchedule {
+  version: string;
+  source: string;
+  recommendations: VaccineRecommendation[];
+}
+
+const YEARS = 12;
+
+export const IMMUNIZATION_SCHEDULE: ImmunizationSchedule = {
+  version: 'CDC 2024.1',
+  source: 'https://www.cdc.gov/vaccines/hcp/imz-schedules/',
+  recommendations: [
+    {
+      id: 'hepb',
+      name: 'Hepatitis B',
+      cvx: ['08', '43', '44', '45', '51', '102', '104', '110', '146', '189', '220'],
+      doses: [
+        { fromMonths: 0, toMonths: 2 },
+        { fromMonths: 1, toMonths: 3 },
+        { fromMonths: 6, toMonths: 19 },
+      ],
+      maxAgeMonths: 19 * YEARS - 1,
+    },
+    {
+      id: 'rotavirus',
+      name: 'Rotavirus',
+      cvx: ['116', '119', '122'],
+      doses: [
+        { fromMonths: 2, toMonths: 3 },
+        { fromMonths: 4, toMonths: 5 },
+        { fromMonths: 6, toMonths: 8 },
+      ],
+      // Not given after 8 months
+      maxAgeMonths: 8,
+    },
+    {
+      id: 'dtap',
+      name: 'Diphtheria, tetanus & pertussis (DTaP)',
+      cvx: ['20', '50', '106', '107', '110', '120', '130', '146'],
+      doses: [
+        { fromMonths: 2, toMonths: 3 },
+        { fromMonths: 4, toMonths: 5 },
+        { fromMonths: 6, toMonths: 7 },
+        { fromMonths: 15, toMonths: 19 },
+        { fromMonths: 4 * YEARS, toMonths: 7 * YEARS },
+      ],
+      maxAgeMonths: 7 * YEARS - 1,
+    },
+    {
+      id: 'hib',
+      name: 'Haemophilus influenzae type b (Hib)',
+      cvx: ['17', '46', '47', '48', '49', '51', '120', '146', '148'],
+      doses: [
+        { fromMonths: 2, toMonths: 3 },
+        { fromMonths: 4, toMonths: 5 },
+        { fromMonths: 6, toMonths: 7 },
+        { fromMonths: 12, toMonths: 16 },
+      ],
+      maxAgeMonths: 5 * YEARS - 1,
+    },
+    {
+      id: 'pcv-child',
+      name: 'Pneumococcal conjugate (PCV)',
+      cvx: ['133', '152', '215', '216'],
+      doses: [
+        { fromMonths: 2, toMonths: 3 },
+        { fromMonths: 4, toMonths: 5 },
+        { fromMonths: 6, toMonths: 7 },
+        { fromMonths: 12, toMonths: 16 },
+      ],
+      maxAgeMonths: 5 * YEARS - 1,
+    },
+    {
+      id: 'ipv',
+      name: 'Polio (IPV)',
+      cvx: ['10', '89', '110', '120', '130', '146'],
+      doses: [
+        { fromMonths: 2, toMonths: 3 },
+        { fromMonths: 4, toMonths: 5 },
+        { fromMonths: 6, toMonths: 19 },
+        { fromMonths: 4 * YEARS, toMonths: 7 * YEARS },
+      ],
+      maxAgeMonths: 18 * YEARS - 1,
+    },
+    {
+      id: 'mmr',
+      name: 'Measles, mumps & rubella (MMR)',
+      cvx: ['03', '94'],
+      doses: [
+        { fromMonths: 12, toMonths: 16 },
+        { fromMonths: 4 * YEARS, toMonths: 7 * YEARS },
+      ],
+      maxAgeMonths: 19 * YEARS - 1,
+    },
+    {
+      id: 'varicella',
+      name: 'Varicella (chickenpox)',
+      cvx: ['21', '94'],
+      doses: [
+        { fromMonths: 12, toMonths: 16 },
+        { fromMonths: 4 * YEARS, toMonths: 7 * YEARS },
+      ],
+      maxAgeMonths: 19 * YEARS - 1,
+    },
+    {
+      id: 'hepa',
+      name: 'Hepatitis A',
+      cvx: ['31', '52', '83', '85', '104'],
+      doses: [
+        { fromMonths: 12, toMonths: 24 },
+        { fromMonths: 18, toMonths: 30 },
+      ],
+      maxAgeMonths: 19 * YEARS - 1,
+    },
+    {
+      id: 'tdap-adolescent',
+      name: 'Tdap (adolescent)',
+      cvx: ['115'],
+      doses: [{ fromMonths: 11 * YEARS, toMonths: 13 * YEARS }],
+      maxAgeMonths: 19 * YEARS - 1,
+    },
+    {
+      id: 'hpv',
+      name: 'Human papillomavirus (HPV)',
+      cvx: ['62', '118', '165'],
+      doses: [
+        { fromMonths: 11 * YEARS, toMonths: 13 * YEARS },
+        { fromMonths: 11 * YEARS + 6, toMonths: 13 * YEARS + 6 },
+      ],
+      maxAgeMonths: 27 * YEARS - 1,
+    },
+    {
+      id: 'menacwy',
+      name: 'Meningococcal ACWY',
+      cvx: ['108', '114', '136', '147', '203'],
+      doses: [
+        { fromMonths: 11 * YEARS, toMonths: 13 * YEARS },
+        { fromMonths: 16 * YEARS, toMonths: 17 * YEARS },
+      ],
+      maxAgeMonths: 22 * YEARS - 1,
+    },
+    {
+      id: 'influenza',
+      name: 'Influenza (yearly)',
+      cvx: ['88', '111', '140', '141', '149', '150', '153', '155', '158', '161', '166', '168', '171', '185', '186', '197', '205'],
+      startMonths: 6,
+      repeatEveryMonths: 12,
+    },
+    {
+      id: 'td-booster',
+      name: 'Tetanus booster (Td/Tdap)',
+      cvx: ['09', '113', '115', '138', '139'],
+      startMonths: 19 * YEARS,
+      repeatEveryMonths: 10 * YEARS,
+    },
+    {
+      id: 'zoster',
+      name: 'Shingles (recombinant zoster)',
+      cvx: ['187'],
+      doses: [
+        { fromMonths: 50 * YEARS, toMonths: 51 * YEARS },
+        { fromMonths: 50 * YEARS + 2, toMonths: 51 * YEARS + 6 },
+      ],
+    },
+    {
+      id: 'pneumococcal-adult',
+      name: 'Pneumococcal (adult)',
+      cvx: ['33', '215', '216', '327'],
+      doses: [{ fromMonths: 65 * YEARS, toMonths: 66 * YEARS }],
+    },
+  ],
+};
@@ -1,44 +1,85 @@
-import { Calendar, Pill, Activity, FileText, Clock, TrendingUp } from 'lucide-react';
+import { Calendar, Pill, Activity, FileText, Clock, TrendingUp, ClipboardList, ShieldAlert, Syringe, Files, HeartHandshake } from 'lucide-react';
 
-export const tabConfig = [
+// `resources`: FHIR types a tab needs read access to, narrowed to a category where the
+// tab shows only one (see lib/smart-scopes); tabs are locked when the granted scopes
+// don't cover them. Summary, Timeline and My Care show whatever was granted.
+export const tabConfig: { id: string; label: string; icon: typeof Clock; resources: string[] }[] = [
   {
     id: 'overview',
     label: 'Summary',
     icon: TrendingUp,
+    resources: [],
   },
   {
     id: 'timeline',
     label: 'Timeline',
     icon: Clock,
+    resources: [],
+  },
+  {
+    id: 'conditions',
+    label: 'Conditions',
+    icon: ClipboardList,
+    resources: ['Condition'],
+  },
+  {
+    id: 'allergies',
+    label: 'Allergies',
+    icon: ShieldAlert,
+    resources: ['AllergyIntolerance'],
+  },
+  {
+    id: 'immunizations',
+    label: 'Immunizations',
+    icon: Syringe,
+    resources: ['Immunization'],
+  },
+  {
+    id: 'care',
+    label: 'My Care',
+    icon: HeartHandshake,
+    resources: [],
   },
   {
     id: 'vitals',
     label: 'Vitals',
     icon: Activity,
+    resources: ['Observation?category=vital-signs'],
   },
   {
     id: 'medications',
     label: 'Medications',
     icon: Pill,
+    resources: ['MedicationRequest'],
   },
   {
     id: 'appointments',
     label: 'Appointments',
     icon: Calendar,
+    resources: ['Appointment'],
   },
   {
     id: 'labReports',
     label: 'Lab Reports',
     icon: FileText,
+    resources: ['Observation?category=laboratory'],
   },
   {
     id: 'encounters',
     label: 'Encounters',
     icon: FileText,
+    resources: ['Encounter'],
   },
   {
     id: 'procedures',
     label: 'Procedures',
     icon: FileText,
+    resources: ['Procedure'],
+  },
+  {
+    id: 'documents',
+    label: 'Documents',
+    icon: Files,
+    resources: ['DocumentReference'],
   },
 ];
\ No newline at end of file
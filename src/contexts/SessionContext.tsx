@@ -0,0 +1,102 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import {
+  createSessionBackend,
+  isSessionActive,
+  sessionFromSdkStorage,
+  SessionStore,
+  type PortalSession,
+  type SessionBackend,
+} from '@/lib/session-store';
+
+interface SessionContextType {
+  session: PortalSession | null;
+  isLoggedIn: boolean;
+  isLoading: boolean;
+  /** The EMR last chosen at login or launch, kept after sign-out */
+  selectedProviderId: string | null;
+  selectProvider: (providerId: string) => Promise<void>;
+  setSession: (session: PortalSession) => Promise<void>;
+  updateSession: (changes: Partial<PortalSession>) => Promise<void>;
+  /** Refresh in one tab at a time - see SessionStore.refreshExclusively */
+  refreshSession: (neededUntil: number, refresh: () => Promise<Partial<PortalSession>>) => Promise<boolean>;
+  clearSession: () => Promise<void>;
+}
+
+const SessionContext = createContext<SessionContextType | undefined>(undefined);
+
+export const SessionProvider: React.FC<{ children: React.ReactNode; backend?: SessionBackend }> = ({ children, backend }) => {
+  const [store] = useState(() => new SessionStore(backend || createSessionBackend()));
+  const [session, setSessionState] = useState<PortalSession | null>(null);
+  const [selectedProviderId, setSelectedProviderId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const unsubscribe = store.subscribe(setSessionState);
+
+    const load = async () => {
+      let loaded = await store.init();
+      const providerId = store.getSelectedProvider();
+      setSelectedProviderId(providerId);
+
+      // Signed in before the store existed - pick the session back up from
+      // the SDK's token storage
+      if (!loaded && providerId) {
+        loaded = await sessionFromSdkStorage(providerId);
+        if (loaded) await store.set(loaded);
+      }
+      setIsLoading(false);
+    };
+    load();
+
+    return unsubscribe;
+  }, [store]);
+
+  // Re-render when the session runs out so isLoggedIn flips on its own
+  useEffect(() => {
+    if (!session?.expiresAt) return;
+    const timeout = setTimeout(() => setNow(Date.now()), Math.max(0, session.expiresAt - Date.now()) + 100);
+    return () => clearTimeout(timeout);
+  }, [session?.expiresAt]);
+
+  const selectProvider = useCallback(async (providerId: string) => {
+    setSelectedProviderId(providerId);
+    await store.selectProvider(providerId);
+  }, [store]);
+  const setSession = useCallback((value: PortalSession) => store.set(value), [store]);
+  const updateSession = useCallback((changes: Partial<PortalSession>) => store.update(changes), [store]);
+  const refreshSession = useCallback(
+    (neededUntil: number, refresh: () => Promise<Partial<PortalSession>>) => store.refreshExclusively(neededUntil, refresh),
+    [store]
+  );
+  const clearSession = useCallback(() => store.clear(), [store]);
+
+  const value = useMemo(() => ({
+    session,
+    // `now` only forces the re-check; isSessionActive reads the clock itself
+    isLoggedIn: now > 0 && isSessionActive(session),
+    isLoading,
+    selectedProviderId,
+    selectProvider,
+    setSession,
+    updateSession,
+    refreshSession,
+    clearSession,
+  }), [session, now, isLoading, selectedProviderId, selectProvider, setSession, updateSession, refreshSession, clearSession]);
+
+  return (
+    <SessionContext.Provider value={value}>
+      {children}
+    </SessionContext.Provider>
+  );
+};
+
+export const useSession = () => {
+  const context = useContext(SessionContext);
+  if (context === undefined) {
+    throw new Error('useSession must be used within a SessionProvider');
+  }
+  return context;
+};
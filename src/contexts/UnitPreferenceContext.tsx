@@ -0,0 +1,49 @@
+'use client';
+
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import type { UnitSystem } from '@/lib/units';
+
+interface UnitPreferenceContextType {
+  unitSystem: UnitSystem;
+  toggleUnitSystem: () => void;
+}
+
+const UnitPreferenceContext = createContext<UnitPreferenceContextType | undefined>(undefined);
+
+// Countries that still measure people in pounds and Fahrenheit
+const IMPERIAL_REGIONS = ['US', 'LR', 'MM'];
+
+export const UnitPreferenceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>('metric');
+
+  useEffect(() => {
+    // Check localStorage for a saved choice, then the browser's region
+    const saved = localStorage.getItem('unitSystem') as UnitSystem | null;
+    if (saved === 'metric' || saved === 'imperial') {
+      setUnitSystem(saved);
+    } else {
+      const region = navigator.language.split('-')[1]?.toUpperCase();
+      setUnitSystem(region && IMPERIAL_REGIONS.includes(region) ? 'imperial' : 'metric');
+    }
+  }, []);
+
+  const toggleUnitSystem = () => {
+    const next = unitSystem === 'metric' ? 'imperial' : 'metric';
+    setUnitSystem(next);
+    localStorage.setItem('unitSystem', next);
+  };
+
+  return (
+    <UnitPreferenceContext.Provider value={{ unitSystem, toggleUnitSystem }}>
+      {children}
+    </UnitPreferenceContext.Provider>
+  );
+};
+
+export const useUnitPreference = () => {
+  const context = useContext(UnitPreferenceContext);
+  if (context === undefined) {
+    throw new Error('useUnitPreference must be used within a UnitPreferenceProvider');
+  }
+  return context;
+};
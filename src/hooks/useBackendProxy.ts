@@ -0,0 +1,18 @@
+'use client';
+
+/**
+ * useBackendProxy Hook
+ * Points a FHIRClient at /api/fhir/<providerId> for confidential-client EMRs,
+ * where the server adds the real access token
+ */
+
+import { useMemo } from 'react';
+import type { FHIRClient } from '@nirmiteeio/fhir-sdk';
+import { installBackendProxy } from '@/app/backend-session';
+
+const useBackendProxy = (providerId: string, fhirClient: FHIRClient | null | undefined) => {
+  // Installed during render so it's in place before useFHIR's first fetch
+  return useMemo(() => installBackendProxy(providerId, fhirClient), [providerId, fhirClient]);
+};
+
+export default useBackendProxy;
@@ -0,0 +1,31 @@
+'use client';
+
+/**
+ * useDateRange Hook
+ * The date range shared by the vitals and lab views, kept in the URL query
+ * string so a filtered view can be bookmarked or shared. Every component that
+ * calls this sees the same range.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { parseDateRange, writeDateRange, type DateRange } from '@/lib/date-range';
+
+const useDateRange = () => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const query = searchParams.toString();
+  const dateRange = useMemo(() => parseDateRange(new URLSearchParams(query)), [query]);
+
+  // Replace rather than push - changing the filter isn't worth a back-button stop
+  const setDateRange = useCallback((range: DateRange) => {
+    const next = writeDateRange(new URLSearchParams(query), range).toString();
+    router.replace(next ? `${pathname}?${next}` : pathname, { scroll: false });
+  }, [router, pathname, query]);
+
+  return { dateRange, setDateRange };
+};
+
+export default useDateRange;
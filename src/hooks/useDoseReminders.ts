@@ -0,0 +1,132 @@
+'use client';
+
+/**
+ * useDoseReminders Hook
+ * Browser notifications at scheduled dose times through the service worker
+ * in public/dose-reminders-sw.js. Reminders are opt-in per browser. The
+ * worker schedules them itself where notification triggers are supported;
+ * otherwise they're timed here while the portal is open. Doses marked
+ * taken from a notification come back through onTaken.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { doseDueAt, type DoseLog, type ScheduledDose } from '@/lib/dose-schedule';
+
+const WORKER_URL = '/dose-reminders-sw.js';
+const PREFERENCE_KEY = 'doseReminders';
+
+export type ReminderPermission = NotificationPermission | 'unsupported';
+
+interface Reminder {
+  id: string;
+  title: string;
+  body: string;
+  /** Epoch milliseconds */
+  at: number;
+}
+
+const toReminder = (dose: ScheduledDose): Reminder => ({
+  id: dose.id,
+  title: `Time for ${dose.name}`,
+  body: [dose.dose, `due at ${format(doseDueAt(dose), 'p')}`].filter(Boolean).join(' · '),
+  at: doseDueAt(dose).getTime(),
+});
+
+const isSupported = () => typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+
+interface DoseReminderOptions {
+  /** Today's and tomorrow's doses */
+  doses: ScheduledDose[];
+  log: DoseLog;
+  onTaken: (doseId: string) => void;
+  /** Hold "mark as taken" from a notification until the log is loaded */
+  ready: boolean;
+}
+
+const useDoseReminders = ({ doses, log, onTaken, ready }: DoseReminderOptions) => {
+  const [permission, setPermission] = useState<ReminderPermission>('default');
+  const [enabled, setEnabled] = useState(false);
+
+  useEffect(() => {
+    if (!isSupported()) {
+      setPermission('unsupported');
+      return;
+    }
+    setPermission(Notification.permission);
+    setEnabled(localStorage.getItem(PREFERENCE_KEY) === 'on' && Notification.permission === 'granted');
+  }, []);
+
+  const active = enabled && permission === 'granted';
+
+  // Schedule what's still to come and not already taken
+  useEffect(() => {
+    if (!isSupported() || (!active && !navigator.serviceWorker.controller)) return;
+    const now = Date.now();
+    const reminders = active
+      ? doses.filter(dose => !log[dose.id] && doseDueAt(dose).getTime() > now).map(toReminder)
+      : [];
+
+    let cancelled = false;
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    navigator.serviceWorker.register(WORKER_URL)
+      .then(() => navigator.serviceWorker.ready)
+      .then(registration => {
+        const worker = registration.active;
+        if (cancelled || !worker) return;
+        worker.postMessage({ type: 'schedule', reminders });
+        if ('showTrigger' in Notification.prototype) return;
+        reminders.forEach(reminder => {
+          timers.push(setTimeout(() => worker.postMessage({ type: 'show', reminder }), reminder.at - now));
+        });
+      })
+      .catch(error => console.error('Error registering dose reminders:', error));
+
+    return () => {
+      cancelled = true;
+      timers.forEach(clearTimeout);
+    };
+  }, [active, doses, log]);
+
+  // "Mark as taken" from a notification
+  useEffect(() => {
+    if (!isSupported() || !ready) return;
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'dose-taken' && event.data.doseId) onTaken(event.data.doseId);
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    navigator.serviceWorker.startMessages();
+
+    // The worker opened the portal for it
+    const url = new URL(window.location.href);
+    const doseId = url.searchParams.get('doseTaken');
+    if (doseId) {
+      onTaken(doseId);
+      url.searchParams.delete('doseTaken');
+      window.history.replaceState(null, '', `${url.pathname}${url.search}`);
+    }
+
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [onTaken, ready]);
+
+  const enable = useCallback(async () => {
+    if (!isSupported()) return;
+    const result = await Notification.requestPermission();
+    setPermission(result);
+    if (result === 'granted') {
+      localStorage.setItem(PREFERENCE_KEY, 'on');
+      setEnabled(true);
+    }
+  }, []);
+
+  const disable = useCallback(() => {
+    localStorage.removeItem(PREFERENCE_KEY);
+    setEnabled(false);
+  }, []);
+
+  return useMemo(() => ({ permission, enabled: active, enable, disable }), [permission, active, enable, disable]);
+};
+
+export type DoseReminders = ReturnType<typeof useDoseReminders>;
+
+export default useDoseReminders;
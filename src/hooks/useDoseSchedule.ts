@@ -0,0 +1,102 @@
+'use client';
+
+/**
+ * useDoseSchedule Hook
+ * Today's doses for the given prescriptions, which of them the patient
+ * marked as taken and how that adds up over the last month. The log is
+ * kept in localStorage per EMR patient; entries older than LOG_DAYS are
+ * dropped on write.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { addDays, subDays } from 'date-fns';
+import { MedicationRequest } from 'fhir/r4';
+import { useSession } from '@/contexts/SessionContext';
+import { adherenceByDay, dayKey, dosesOn, type DoseLog } from '@/lib/dose-schedule';
+
+const STORAGE_PREFIX = 'dose_log:';
+const LOG_DAYS = 90;
+const ADHERENCE_DAYS = 30;
+// Due and missed doses move on with the clock
+const TICK_MS = 60 * 1000;
+
+function readStored(key: string): DoseLog {
+  const stored = localStorage.getItem(key);
+  if (!stored) return {};
+  try {
+    return JSON.parse(stored) || {};
+  } catch {
+    // Corrupt entry - start over rather than break the tab
+    localStorage.removeItem(key);
+    return {};
+  }
+}
+
+const prune = (log: DoseLog) => {
+  const cutoff = subDays(new Date(), LOG_DAYS).toISOString();
+  return Object.fromEntries(Object.entries(log).filter(([, takenAt]) => takenAt >= cutoff));
+};
+
+const useDoseSchedule = (medications: MedicationRequest[]) => {
+  const { session } = useSession();
+  const storageKey = session?.patientId ? `${STORAGE_PREFIX}${session.providerId}|${session.patientId}` : null;
+  const [log, setLog] = useState<DoseLog>({});
+  // Whose log is in state - lags storageKey by a render when it changes
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    setLog(storageKey ? readStored(storageKey) : {});
+    setLoadedKey(storageKey);
+  }, [storageKey]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const today = dayKey(now);
+  const doses = useMemo(() => dosesOn(medications, new Date(`${today}T00:00:00`)), [medications, today]);
+  // Tomorrow's too, so reminders scheduled late in the day carry over midnight
+  const upcoming = useMemo(
+    () => [...doses, ...dosesOn(medications, addDays(new Date(`${today}T00:00:00`), 1))],
+    [medications, doses, today]
+  );
+  const adherence = useMemo(() => adherenceByDay(medications, log, ADHERENCE_DAYS, now), [medications, log, now]);
+
+  const update = useCallback((change: (current: DoseLog) => DoseLog) => {
+    setLog(current => {
+      const next = prune(change(current));
+      if (storageKey) localStorage.setItem(storageKey, JSON.stringify(next));
+      return next;
+    });
+  }, [storageKey]);
+
+  const markTaken = useCallback((doseId: string) => {
+    update(current => (current[doseId] ? current : { ...current, [doseId]: new Date().toISOString() }));
+  }, [update]);
+
+  const markNotTaken = useCallback((doseId: string) => {
+    update(current => {
+      const { [doseId]: _removed, ...rest } = current;
+      return rest;
+    });
+  }, [update]);
+
+  const ready = !!storageKey && loadedKey === storageKey;
+  return useMemo(() => ({
+    doses,
+    upcoming,
+    log,
+    adherence,
+    now,
+    /** False until the patient's log has been read */
+    ready,
+    markTaken,
+    markNotTaken,
+  }), [doses, upcoming, log, adherence, now, ready, markTaken, markNotTaken]);
+};
+
+export type DoseSchedule = ReturnType<typeof useDoseSchedule>;
+
+export default useDoseSchedule;
@@ -0,0 +1,117 @@
+'use client';
+
+/**
+ * useEMRConfigAdmin Hook
+ * Talks to /api/admin/emr-configs and re-registers providers after changes
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { reloadProviders } from '@/app/sdk-init';
+import { clearDiscoveryCache } from '@/app/smart-discovery';
+import type { StoredEMRConfig } from '@/schemas/emrConfigSchema';
+
+const TOKEN_KEY = 'admin_api_token';
+
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+export interface AdminConfigEntry {
+  config: Partial<StoredEMRConfig>;
+  issues: ConfigIssue[];
+}
+
+export interface EndpointCheck {
+  url: string;
+  ok: boolean;
+  status?: number;
+  error?: string;
+  summary?: Record<string, unknown>;
+}
+
+export interface ConnectionTestResult {
+  capabilityStatement: EndpointCheck;
+  smartConfiguration: EndpointCheck;
+}
+
+export class AdminApiError extends Error {
+  constructor(message: string, public status: number, public issues: ConfigIssue[] = []) {
+    super(message);
+    this.name = 'AdminApiError';
+  }
+}
+
+const useEMRConfigAdmin = () => {
+  const [token, setTokenState] = useState('');
+  const [entries, setEntries] = useState<AdminConfigEntry[]>([]);
+  const [readOnly, setReadOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTokenState(sessionStorage.getItem(TOKEN_KEY) || '');
+  }, []);
+
+  const setToken = useCallback((value: string) => {
+    sessionStorage.setItem(TOKEN_KEY, value);
+    setTokenState(value);
+  }, []);
+
+  const request = useCallback(async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...init.headers,
+      },
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new AdminApiError(body.error || `Request failed (${response.status})`, response.status, body.issues);
+    }
+    return response.status === 204 ? null : response.json();
+  }, [token]);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await request('/api/admin/emr-configs');
+      setEntries(data.configs);
+      setReadOnly(data.readOnly);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [request]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const save = useCallback(async (config: StoredEMRConfig) => {
+    await request('/api/admin/emr-configs', { method: 'POST', body: JSON.stringify(config) });
+    // Endpoints may have changed - don't reuse the old discovery
+    clearDiscoveryCache(config.fhirBaseUrl);
+    await Promise.all([refresh(), reloadProviders()]);
+  }, [request, refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    await request(`/api/admin/emr-configs/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    await Promise.all([refresh(), reloadProviders()]);
+  }, [request, refresh]);
+
+  const testConnection = useCallback(async (fhirBaseUrl: string): Promise<ConnectionTestResult> => {
+    return request('/api/admin/connection-test', {
+      method: 'POST',
+      body: JSON.stringify({ fhirBaseUrl }),
+    });
+  }, [request]);
+
+  return { token, setToken, entries, readOnly, loading, error, refresh, save, remove, testConnection };
+};
+
+export default useEMRConfigAdmin;
@@ -0,0 +1,86 @@
+'use client';
+
+/**
+ * useGrantedAccess Hook
+ * What the signed-in user's granted scopes let the portal read, and a
+ * re-authorization that asks for just the missing ones. With linked EMR
+ * accounts, a resource counts as readable if any account can read it.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { emrRegistry, SMARTAuthClient } from '@nirmiteeio/fhir-sdk';
+import { useSession } from '@/contexts/SessionContext';
+import type { SessionAccount } from '@/lib/session-store';
+import {
+  buildScopeRequest,
+  canReadResource,
+  effectiveScopes,
+  isResourceScope,
+  scopesForResources,
+} from '@/lib/smart-scopes';
+
+// useFHIR data keys (and their error keys) -> the resource each one reads
+export const DATA_RESOURCES: Record<string, string> = {
+  patient: 'Patient',
+  medications: 'MedicationRequest',
+  vitals: 'Observation?category=vital-signs',
+  labReports: 'Observation?category=laboratory',
+  appointments: 'Appointment',
+  encounters: 'Encounter',
+  procedures: 'Procedure',
+};
+
+const configuredScopes = (providerId: string | undefined) =>
+  providerId && emrRegistry.hasProvider(providerId) ? emrRegistry.getProvider(providerId).scopes : [];
+
+/**
+ * Whether one account's granted scopes let it read `resourceType`, which
+ * may carry a `?category=`
+ */
+export function accountCanRead(account: SessionAccount, resourceType: string): boolean {
+  const granted = effectiveScopes(account.scopes, configuredScopes(account.providerId));
+  // Some EMRs (Epic) grant resource access from the app registration and only
+  // echo back openid/fhirUser - with no resource scopes to go on, don't lock anything
+  return !granted.some(isResourceScope) || canReadResource(granted, resourceType);
+}
+
+const useGrantedAccess = () => {
+  const { session } = useSession();
+  const providerId = session?.providerId;
+
+  const requestedScopes = useMemo(() => configuredScopes(providerId), [providerId]);
+  const grantedScopes = useMemo(
+    () => effectiveScopes(session?.scopes || [], requestedScopes),
+    [session?.scopes, requestedScopes]
+  );
+
+  const isScopeAware = grantedScopes.some(isResourceScope);
+
+  const canRead = useCallback(
+    (resourceType: string) => !session || [session, ...(session.linkedAccounts || [])]
+      .some(account => accountCanRead(account, resourceType)),
+    [session]
+  );
+
+  const missingResources = useCallback(
+    (resourceTypes: string[]) => Array.from(new Set(resourceTypes.filter(resourceType => !canRead(resourceType)))),
+    [canRead]
+  );
+
+  /**
+   * Send the user back through the EMR's consent screen asking for
+   * what they already granted plus `resourceTypes`
+   */
+  const requestAccess = useCallback(async (resourceTypes: string[]) => {
+    if (!providerId) return;
+
+    const additional = scopesForResources(requestedScopes, missingResources(resourceTypes));
+    const authUrl = new URL(await new SMARTAuthClient(providerId).authorize());
+    authUrl.searchParams.set('scope', buildScopeRequest(requestedScopes, session?.scopes || [], additional).join(' '));
+    window.location.href = authUrl.toString();
+  }, [providerId, requestedScopes, missingResources, session?.scopes]);
+
+  return { grantedScopes, isScopeAware, canRead, missingResources, requestAccess };
+};
+
+export default useGrantedAccess;
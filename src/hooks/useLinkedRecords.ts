@@ -0,0 +1,78 @@
+'use client';
+
+/**
+ * useLinkedRecords Hook
+ * Fetches the patient record from every linked EMR account, each through its
+ * own auth client (and the backend proxy for confidential clients)
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { emrRegistry, PatientService } from '@nirmiteeio/fhir-sdk';
+import { linkedFhirClient } from '@/app/linked-accounts';
+import { emptyRecord, toPatientRecord, type RecordSource } from '@/lib/merge-records';
+import type { SessionAccount } from '@/lib/session-store';
+
+export interface LinkedRecord extends RecordSource {
+  /** Per data key, like useFHIR's errors */
+  errors: Record<string, string>;
+}
+
+const useLinkedRecords = (accounts: SessionAccount[]) => {
+  const [records, setRecords] = useState<LinkedRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const latestFetch = useRef(0);
+
+  // Session updates (expiry refreshes) hand us new objects - only rebuild
+  // clients when the set of accounts actually changes
+  const accountsKey = accounts
+    .filter(account => account.patientId && emrRegistry.hasProvider(account.providerId))
+    .map(account => `${account.providerId}|${account.patientId}`)
+    .join(',');
+
+  const services = useMemo(() => accountsKey.split(',').filter(Boolean).map(entry => {
+    const [providerId, patientId] = entry.split('|');
+    return {
+      providerId,
+      patientId,
+      name: emrRegistry.getProvider(providerId).name,
+      patientService: new PatientService(linkedFhirClient(providerId)),
+    };
+  }), [accountsKey]);
+
+  const refetch = useCallback(async () => {
+    const fetchId = ++latestFetch.current;
+    if (services.length === 0) {
+      setRecords([]);
+      return;
+    }
+
+    setIsLoading(true);
+    const results = await Promise.all(services.map(async ({ providerId, patientId, name, patientService }) => {
+      try {
+        const { patient, errors, ...record } = await patientService.getAllPatientData(patientId);
+        return { providerId, name, record: toPatientRecord(record), errors };
+      } catch (error) {
+        console.error(`Failed to fetch linked record from ${providerId}:`, error);
+        return {
+          providerId,
+          name,
+          record: emptyRecord(),
+          errors: { general: error instanceof Error ? error.message : 'Unknown error' },
+        };
+      }
+    }));
+
+    // A newer fetch (accounts changed meanwhile) wins
+    if (fetchId !== latestFetch.current) return;
+    setRecords(results);
+    setIsLoading(false);
+  }, [services]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return { records, isLoading, refetch };
+};
+
+export default useLinkedRecords;
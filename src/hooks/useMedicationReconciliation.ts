@@ -0,0 +1,84 @@
+'use client';
+
+/**
+ * useMedicationReconciliation Hook
+ * The patient's own account of their medications, kept in localStorage per
+ * EMR patient - it's what they told us, not part of any EMR record, and
+ * only leaves the browser when they export it.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSession } from '@/contexts/SessionContext';
+import {
+  EMPTY_RECONCILIATION,
+  newAddedMedication,
+  type AddedMedication,
+  type ReconciliationState,
+  type ReportedStatus,
+} from '@/lib/med-reconciliation';
+
+const STORAGE_PREFIX = 'medication_reconciliation:';
+
+function readStored(key: string): ReconciliationState {
+  const stored = localStorage.getItem(key);
+  if (!stored) return EMPTY_RECONCILIATION;
+  try {
+    const parsed = JSON.parse(stored);
+    return { reports: parsed.reports || {}, added: parsed.added || [] };
+  } catch {
+    // Corrupt entry - start over rather than break the tab
+    localStorage.removeItem(key);
+    return EMPTY_RECONCILIATION;
+  }
+}
+
+const useMedicationReconciliation = () => {
+  const { session } = useSession();
+  const storageKey = session?.patientId ? `${STORAGE_PREFIX}${session.providerId}|${session.patientId}` : null;
+  const [state, setState] = useState<ReconciliationState>(EMPTY_RECONCILIATION);
+
+  useEffect(() => {
+    setState(storageKey ? readStored(storageKey) : EMPTY_RECONCILIATION);
+  }, [storageKey]);
+
+  const update = useCallback((change: (current: ReconciliationState) => ReconciliationState) => {
+    setState(current => {
+      const next = change(current);
+      if (storageKey) localStorage.setItem(storageKey, JSON.stringify(next));
+      return next;
+    });
+  }, [storageKey]);
+
+  const reportStatus = useCallback((key: string, status: ReportedStatus, note?: string) => {
+    update(current => ({
+      ...current,
+      reports: { ...current.reports, [key]: { status, note: note?.trim() || undefined, reportedAt: new Date().toISOString() } },
+    }));
+  }, [update]);
+
+  const clearStatus = useCallback((key: string) => {
+    update(current => {
+      const { [key]: _cleared, ...reports } = current.reports;
+      return { ...current, reports };
+    });
+  }, [update]);
+
+  const addMedication = useCallback((fields: Omit<AddedMedication, 'id' | 'addedAt'>) => {
+    update(current => ({ ...current, added: [...current.added, newAddedMedication(fields)] }));
+  }, [update]);
+
+  const removeMedication = useCallback((id: string) => {
+    update(current => ({ ...current, added: current.added.filter(medication => medication.id !== id) }));
+  }, [update]);
+
+  return {
+    state,
+    patientId: session?.patientId || null,
+    reportStatus,
+    clearStatus,
+    addMedication,
+    removeMedication,
+  };
+};
+
+export default useMedicationReconciliation;
@@ -0,0 +1,95 @@
+'use client';
+
+/**
+ * usePatientResources Hook
+ * Searches one resource type for the patient across the primary and every
+ * linked EMR account - for the types PatientService.getAllPatientData doesn't
+ * cover. Accounts whose scopes don't allow reading the type (or the
+ * searched category of it) are skipped.
+ * Passing `null` params skips the search until there's something to ask.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Resource } from 'fhir/r4';
+import { emrRegistry } from '@nirmiteeio/fhir-sdk';
+import type { FHIRClient, SearchParams } from '@nirmiteeio/fhir-sdk';
+import { linkedFhirClient } from '@/app/linked-accounts';
+import { useSession } from '@/contexts/SessionContext';
+import type { DateSearchParams } from '@/lib/date-range';
+import { mergeResources, resourcesOfType } from '@/lib/merge-records';
+import { accountCanRead } from './useGrantedAccess';
+
+const usePatientResources = <T extends Resource = Resource>(
+  resourceType: T['resourceType'],
+  fhirClient: FHIRClient | null | undefined,
+  params?: DateSearchParams | null
+) => {
+  const { session } = useSession();
+  const [resources, setResources] = useState<T[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const latestFetch = useRef(0);
+
+  const category = params?.category;
+  const access = typeof category === 'string' ? `${resourceType}?category=${category}` : resourceType;
+
+  // Rebuild only when who we're asking (or what) changes, not on expiry updates
+  const accountsKey = (session ? [session, ...(session.linkedAccounts || [])] : [])
+    .filter(account => account.patientId && emrRegistry.hasProvider(account.providerId) && accountCanRead(account, access))
+    .map(account => `${account.providerId}|${account.patientId}`)
+    .join(',');
+  const primaryProviderId = session?.providerId;
+  const isMultiAccount = !!session?.linkedAccounts?.length;
+  const skip = params === null;
+  const paramsKey = JSON.stringify(params || {});
+
+  const targets = useMemo(() => accountsKey.split(',').filter(Boolean).map(entry => {
+    const [providerId, patientId] = entry.split('|');
+    return {
+      providerId,
+      patientId,
+      name: emrRegistry.getProvider(providerId).name,
+      client: providerId === primaryProviderId ? fhirClient : linkedFhirClient(providerId),
+    };
+  }), [accountsKey, primaryProviderId, fhirClient]);
+
+  const refetch = useCallback(async () => {
+    const fetchId = ++latestFetch.current;
+    if (skip) {
+      setResources([]);
+      setErrors({});
+      setIsLoading(false);
+      return;
+    }
+    const searchParams: SearchParams = JSON.parse(paramsKey);
+
+    setIsLoading(true);
+    const fetchErrors: Record<string, string> = {};
+    const results = await Promise.all(targets.map(async ({ providerId, patientId, name, client }) => {
+      if (!client) return { providerId, name, resources: [] as T[] };
+      try {
+        const found = await client.searchByPatient(resourceType, patientId, searchParams);
+        // Searchsets can carry an OperationOutcome alongside the matches
+        return { providerId, name, resources: resourcesOfType<T>(found, resourceType) };
+      } catch (error) {
+        console.error(`Failed to fetch ${resourceType} from ${providerId}:`, error);
+        fetchErrors[providerId] = error instanceof Error ? error.message : 'Unknown error';
+        return { providerId, name, resources: [] as T[] };
+      }
+    }));
+
+    // A newer fetch (accounts or params changed meanwhile) wins
+    if (fetchId !== latestFetch.current) return;
+    setResources(mergeResources(results, isMultiAccount));
+    setErrors(fetchErrors);
+    setIsLoading(false);
+  }, [targets, resourceType, paramsKey, skip, isMultiAccount]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return { resources, errors, isLoading, refetch };
+};
+
+export default usePatientResources;
@@ -0,0 +1,33 @@
+'use client';
+
+/**
+ * useSdkReady Hook
+ * Tracks sdk-init loading EMR configs from the server and registering them
+ */
+
+import { useEffect, useState } from 'react';
+import { sdkReady } from '@/app/sdk-init';
+
+const useSdkReady = () => {
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    sdkReady
+      .catch((err) => {
+        console.error('SDK initialization failed:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error');
+      })
+      .finally(() => {
+        if (!cancelled) setIsReady(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { isReady, error };
+};
+
+export default useSdkReady;
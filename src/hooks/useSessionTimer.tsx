@@ -1,32 +1,174 @@
-import { useState, useEffect } from 'react';
+'use client';
 
-export const useSessionTimer = () => {
+/**
+ * useSessionTimer Hook
+ * Single source of truth for session expiry: counts down from the SDK's
+ * token expiry, refreshes silently while the user is active, and asks
+ * before the session runs out otherwise.
+ *
+ * - Refresh-capable providers: tokens are refreshed shortly before expiry if
+ *   there was activity since the last refresh. Idle users get the warning.
+ * - Providers without refresh tokens: warning at the threshold, then
+ *   onExpire() at zero, as before.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { emrRegistry, LocalStorageTokenStorage, SMARTAuthClient } from '@nirmiteeio/fhir-sdk';
+import { isBackendProvider, refreshBackendSession } from '@/app/backend-session';
+import { useSession } from '@/contexts/SessionContext';
+import { parseScopes } from '@/lib/session-store';
+
+const REFRESH_TOKEN_KEY = 'fhir_sdk_refresh_token';
+
+// Warn this long before the session ends (NEXT_PUBLIC_SESSION_WARNING_SECONDS)
+export const SESSION_WARNING_SECONDS = Number(process.env.NEXT_PUBLIC_SESSION_WARNING_SECONDS) || 120;
+// Refresh this long before expiry - same margin SMARTAuthClient treats as expired
+const REFRESH_LEAD_SECONDS = 60;
+
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'scroll'] as const;
+
+interface SessionTimerOptions {
+  providerId: string;
+  onExpire: () => void;
+  warningSeconds?: number;
+}
+
+export const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = seconds % 60;
+  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+};
+
+export const useSessionTimer = ({ providerId, onExpire, warningSeconds = SESSION_WARNING_SECONDS }: SessionTimerOptions) => {
+  const { session, refreshSession } = useSession();
+  const expiresAt = session?.expiresAt ?? null;
   const [expiryTime, setExpiryTime] = useState(0);
+  const [showWarning, setShowWarning] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+
+  const lastActivity = useRef(Date.now());
+  const lastRefresh = useRef(Date.now());
+  const refreshInFlight = useRef(false);
+  const refreshFailed = useRef(false);
+  const warningDismissed = useRef(false);
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  const isBackend = isBackendProvider(providerId);
+  const provider = providerId && emrRegistry.hasProvider(providerId) ? emrRegistry.getProvider(providerId) : null;
+  const supportsRefresh = Boolean(provider?.capabilities?.supportsRefreshToken);
+
+  // Backend sessions keep the refresh token on the server
+  const canRefresh = supportsRefresh && (isBackend || (typeof window !== 'undefined' && !!localStorage.getItem(REFRESH_TOKEN_KEY)));
 
   useEffect(() => {
-    const expiresAt = localStorage.getItem('expires_at') || '0';
-    const now = Math.floor(Date.now() / 1000);
-    const expiresIn = Math.max(0, parseInt(expiresAt, 10) - now);
-    setExpiryTime(expiresIn);
-
-    const timer = setInterval(() => {
-      setExpiryTime((prevTime) => {
-        if (prevTime <= 1) {
-          clearInterval(timer);
-          return 0;
+    const markActive = () => {
+      lastActivity.current = Date.now();
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+    return () => ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+  }, []);
+
+  /**
+   * Make the session last at least `leadSeconds` more - unless another tab
+   * already has, only one tab refreshes
+   */
+  const refresh = useCallback(async (leadSeconds: number) => {
+    if (!providerId || refreshInFlight.current) return false;
+    refreshInFlight.current = true;
+    setIsRefreshing(true);
+    setRefreshError(null);
+    try {
+      // The session store broadcasts the new expiry to the other tabs
+      const refreshed = await refreshSession(Date.now() + leadSeconds * 1000, async () => {
+        if (isBackend) {
+          return { expiresAt: await refreshBackendSession(providerId) };
         }
-        return prevTime - 1;
+        const tokens = await new SMARTAuthClient(providerId).refreshAccessToken();
+        return {
+          expiresAt: await new LocalStorageTokenStorage().getTokenExpiry(),
+          ...(tokens.scope ? { scopes: parseScopes(tokens.scope) } : {}),
+        };
       });
-    }, 1000);
+      if (!refreshed) return false;
+      lastRefresh.current = Date.now();
+      refreshFailed.current = false;
+      warningDismissed.current = false;
+      setShowWarning(false);
+      return true;
+    } catch (error) {
+      console.error('Session refresh failed:', error);
+      // Don't retry every tick - fall back to the warning and let the session run out
+      refreshFailed.current = true;
+      setRefreshError(error instanceof Error ? error.message : 'Session refresh failed');
+      return false;
+    } finally {
+      refreshInFlight.current = false;
+      setIsRefreshing(false);
+    }
+  }, [providerId, isBackend, refreshSession]);
+
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    let interval: ReturnType<typeof setInterval> | undefined;
+    const tick = () => {
+      const secondsLeft = Math.max(0, Math.floor((expiresAt - Date.now()) / 1000));
+      setExpiryTime(secondsLeft);
+
+      if (secondsLeft <= 0) {
+        clearInterval(interval);
+        setShowWarning(false);
+        onExpireRef.current();
+        return;
+      }
+
+      if (secondsLeft > warningSeconds) {
+        // Extended elsewhere (another tab, or the store) - the old countdown no longer applies
+        warningDismissed.current = false;
+        setShowWarning(false);
+        return;
+      }
 
-    return () => clearInterval(timer);
+      const activeSinceRefresh = lastActivity.current > lastRefresh.current;
+      const canRefreshNow = canRefresh && !refreshFailed.current;
+
+      if (canRefreshNow && activeSinceRefresh && secondsLeft <= REFRESH_LEAD_SECONDS) {
+        refresh(REFRESH_LEAD_SECONDS);
+      } else if (!warningDismissed.current && !(canRefreshNow && activeSinceRefresh)) {
+        setShowWarning(true);
+      }
+    };
+
+    interval = setInterval(tick, 1000);
+    tick();
+    return () => clearInterval(interval);
+  }, [expiresAt, canRefresh, warningSeconds, refresh]);
+
+  /**
+   * "Stay signed in" - refresh now where possible, otherwise go back through the EMR's login
+   */
+  const extendSession = useCallback(async () => {
+    if (canRefresh && await refresh(warningSeconds)) return;
+    if (providerId) {
+      window.location.href = await new SMARTAuthClient(providerId).authorize();
+    }
+  }, [canRefresh, refresh, providerId, warningSeconds]);
+
+  const dismissWarning = useCallback(() => {
+    warningDismissed.current = true;
+    setShowWarning(false);
   }, []);
 
-  const formatTime = (seconds:any) => {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  return {
+    expiryTime,
+    formatTime,
+    canRefresh,
+    showWarning,
+    isRefreshing,
+    refreshError,
+    extendSession,
+    dismissWarning,
   };
-
-  return { expiryTime, formatTime };
-};
\ No newline at end of file
+};
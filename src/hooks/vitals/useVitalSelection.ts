@@ -3,12 +3,9 @@ import { useState } from 'react';
 
 export const useVitalSelection = (initialVital: string = 'Blood Pressure') => {
   const [selectedVital, setSelectedVital] = useState(initialVital);
-  const [timeRange, setTimeRange] = useState('all');
 
   return {
     selectedVital,
     setSelectedVital,
-    timeRange,
-    setTimeRange,
   };
 };
\ No newline at end of file
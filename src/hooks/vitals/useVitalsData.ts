@@ -1,22 +1,29 @@
 // vitals/hooks/useVitalsData.ts
 import { useMemo } from 'react';
 import { Observation } from 'fhir/r4';
+import { ALL_TIME, isInDateRange, type DateRange } from '@/lib/date-range';
+import { normalizeQuantity } from '@/lib/units';
+import { classifyVital, findVitalComponent, vitalName } from '@/lib/vital-signs';
 
-export const useVitalsData = (vitals: Observation[], timeRange: string) => {
+export const useVitalsData = (vitals: Observation[], dateRange: DateRange = ALL_TIME) => {
   const chartData = useMemo(() => {
     return vitals.map(vital => {
       const date = new Date(vital.effectiveDateTime || '');
       if (isNaN(date.getTime())) return null;
-      let value = vital.valueQuantity?.value;
+      // Values are charted in canonical units, whatever the EMR sent
+      const quantity = vital.valueQuantity && normalizeQuantity(vital.valueQuantity);
+      let value = quantity?.value;
       let systolic, diastolic, unit;
       if (vital.component) {
-        const systolicComponent = vital.component.find(c => c.code.coding?.[0]?.code === '8480-6');
-        const diastolicComponent = vital.component.find(c => c.code.coding?.[0]?.code === '8462-4');
-        systolic = systolicComponent?.valueQuantity?.value;
-        diastolic = diastolicComponent?.valueQuantity?.value;
-        unit = systolicComponent?.valueQuantity?.unit || diastolicComponent?.valueQuantity?.unit || 'mmHg';
+        const systolicComponent = findVitalComponent(vital, 'systolic');
+        const diastolicComponent = findVitalComponent(vital, 'diastolic');
+        const systolicQuantity = systolicComponent?.valueQuantity && normalizeQuantity(systolicComponent.valueQuantity);
+        const diastolicQuantity = diastolicComponent?.valueQuantity && normalizeQuantity(diastolicComponent.valueQuantity);
+        systolic = systolicQuantity?.value;
+        diastolic = diastolicQuantity?.value;
+        unit = systolicQuantity?.unit || diastolicQuantity?.unit || 'mmHg';
       } else {
-        unit = vital.valueQuantity?.unit || '';
+        unit = quantity?.unit || '';
       }
       return {
         date: date.toISOString().split('T')[0],
@@ -24,30 +31,19 @@ export const useVitalsData = (vitals: Observation[], timeRange: string) => {
         systolic: systolic,
         diastolic: diastolic,
         vitalName: getVitalName(vital),
-        vitalCode: vital.code?.coding?.[0]?.code,
+        vitalCode: (vital.code?.coding?.find(coding => coding.system === 'http://loinc.org') || vital.code?.coding?.[0])?.code,
         unit: unit,
+        // Kept so status checks can use the EMR's own range and interpretation
+        observation: vital,
       };
     }).filter(data => data !== null)
       .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
   }, [vitals]);
 
-  const filteredChartData = useMemo(() => {
-    const now = new Date();
-    const timeRangeFilter = (date) => {
-      const dataDate = new Date(date);
-      switch (timeRange) {
-        case 'week':
-          return now.getTime() - dataDate.getTime() <= 7 * 24 * 60 * 60 * 1000;
-        case 'month':
-          return now.getTime() - dataDate.getTime() <= 30 * 24 * 60 * 60 * 1000;
-        case 'year':
-          return now.getTime() - dataDate.getTime() <= 365 * 24 * 60 * 60 * 1000;
-        default:
-          return true;
-      }
-    };
-    return chartData.filter(data => timeRangeFilter(data.date));
-  }, [chartData, timeRange]);
+  const filteredChartData = useMemo(
+    () => chartData.filter(data => isInDateRange(data.date, dateRange)),
+    [chartData, dateRange]
+  );
 
   const groupedByDate = useMemo(() => {
     const grouped = {};
@@ -74,7 +70,10 @@ export const useVitalsData = (vitals: Observation[], timeRange: string) => {
   return { filteredChartData, groupedByDate, groupedByVital };
 };
 
+// Classified names line up with the referenceRanges table
 function getVitalName(vital: Observation) {
+  const kind = classifyVital(vital.code);
+  if (kind) return vitalName(kind);
   return vital.code?.text || 
          vital.code?.coding?.[0]?.display || 
          'Unknown Vital Sign';
@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { requireAdmin } from './admin-auth';
+
+const env = process.env as Record<string, string | undefined>;
+const originalNodeEnv = env.NODE_ENV;
+
+const request = (authorization?: string) =>
+  new NextRequest('http://localhost/api/admin/emr-configs', {
+    headers: authorization ? { authorization } : {},
+  });
+
+describe('requireAdmin', () => {
+  afterEach(() => {
+    delete env.ADMIN_API_TOKEN;
+    env.NODE_ENV = originalNodeEnv;
+  });
+
+  it('checks the bearer token', () => {
+    env.ADMIN_API_TOKEN = 'secret-token';
+    expect(requireAdmin(request('Bearer secret-token'))).toBeNull();
+    expect(requireAdmin(request('Bearer secret-tokem'))?.status).toBe(401);
+    expect(requireAdmin(request('Bearer secret'))?.status).toBe(401);
+    expect(requireAdmin(request())?.status).toBe(401);
+  });
+
+  it('stays closed without a token outside development', () => {
+    env.NODE_ENV = 'test';
+    expect(requireAdmin(request())?.status).toBe(403);
+    env.NODE_ENV = 'development';
+    expect(requireAdmin(request())).toBeNull();
+  });
+});
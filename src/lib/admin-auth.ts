@@ -0,0 +1,41 @@
+/**
+ * Admin API Auth (server only)
+ *
+ * Admin routes require `Authorization: Bearer <ADMIN_API_TOKEN>`.
+ * Without ADMIN_API_TOKEN they're open in development and closed everywhere else.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Compares in constant time so response timing doesn't leak the token
+ */
+function tokenMatches(presented: string, expected: string): boolean {
+  const a = Buffer.from(presented);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Returns a 401/403 response if the request isn't allowed, otherwise null
+ */
+export function requireAdmin(request: NextRequest): NextResponse | null {
+  const adminToken = process.env.ADMIN_API_TOKEN;
+
+  if (!adminToken) {
+    if (process.env.NODE_ENV !== 'development') {
+      return NextResponse.json(
+        { error: 'Admin API is disabled - set ADMIN_API_TOKEN to enable it' },
+        { status: 403 }
+      );
+    }
+    return null;
+  }
+
+  const authorization = request.headers.get('authorization') ?? '';
+  if (!tokenMatches(authorization, `Bearer ${adminToken}`)) {
+    return NextResponse.json({ error: 'Invalid admin token' }, { status: 401 });
+  }
+  return null;
+}
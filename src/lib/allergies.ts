@@ -0,0 +1,89 @@
+/**
+ * Allergy Helpers
+ *
+ * Display values for AllergyIntolerance, and telling an explicit "no known
+ * allergies" record apart from the EMR simply not returning anything.
+ */
+
+import type { AllergyIntolerance, AllergyIntoleranceReaction } from 'fhir/r4';
+
+// SNOMED CT negation findings EMRs record instead of an allergy
+const NO_KNOWN_ALLERGY_CODES = new Set([
+  '716186003', // No known allergy
+  '409137002', // No known drug allergy
+  '429625007', // No known food allergy
+  '428607008', // No known environmental allergy
+  '428197003', // No known insect allergy
+  '1003774007', // No known latex allergy
+]);
+
+export type AllergySeverity = NonNullable<AllergyIntoleranceReaction['severity']>;
+
+/**
+ * - `allergies`: at least one current allergy
+ * - `no-known-allergies`: the EMR explicitly records none
+ * - `none-recorded`: nothing came back - not the same as no allergies
+ * - `unavailable`: the request failed or wasn't permitted
+ */
+export type AllergyListStatus = 'allergies' | 'no-known-allergies' | 'none-recorded' | 'unavailable';
+
+const SEVERITY_ORDER: AllergySeverity[] = ['mild', 'moderate', 'severe'];
+
+export function isNoKnownAllergy(allergy: AllergyIntolerance): boolean {
+  return (allergy.code?.coding || []).some(coding =>
+    coding.system === 'http://snomed.info/sct' && !!coding.code && NO_KNOWN_ALLERGY_CODES.has(coding.code)
+  );
+}
+
+/**
+ * Refuted and entered-in-error records aren't allergies the patient has
+ */
+export function isRecordedAllergy(allergy: AllergyIntolerance): boolean {
+  const verification = allergy.verificationStatus?.coding?.[0]?.code;
+  return verification !== 'refuted' && verification !== 'entered-in-error' && !isNoKnownAllergy(allergy);
+}
+
+export function isCurrentAllergy(allergy: AllergyIntolerance): boolean {
+  const status = allergy.clinicalStatus?.coding?.[0]?.code;
+  return isRecordedAllergy(allergy) && status !== 'inactive' && status !== 'resolved';
+}
+
+export function isHighCriticality(allergy: AllergyIntolerance): boolean {
+  return allergy.criticality === 'high';
+}
+
+export function allergyListStatus(allergies: AllergyIntolerance[], unavailable = false): AllergyListStatus {
+  if (allergies.some(isCurrentAllergy)) return 'allergies';
+  if (allergies.some(isNoKnownAllergy)) return 'no-known-allergies';
+  return unavailable ? 'unavailable' : 'none-recorded';
+}
+
+export function substanceName(allergy: AllergyIntolerance): string {
+  return allergy.code?.text || allergy.code?.coding?.[0]?.display
+    || allergy.reaction?.[0]?.substance?.text || allergy.reaction?.[0]?.substance?.coding?.[0]?.display
+    || 'Unknown substance';
+}
+
+export function manifestations(allergy: AllergyIntolerance): string[] {
+  const names = (allergy.reaction || []).flatMap(reaction =>
+    reaction.manifestation.map(manifestation => manifestation.text || manifestation.coding?.[0]?.display || '')
+  );
+  return Array.from(new Set(names.filter(Boolean)));
+}
+
+/**
+ * Worst severity across the recorded reactions
+ */
+export function worstSeverity(allergy: AllergyIntolerance): AllergySeverity | undefined {
+  return (allergy.reaction || [])
+    .map(reaction => reaction.severity)
+    .filter((severity): severity is AllergySeverity => !!severity)
+    .sort((a, b) => SEVERITY_ORDER.indexOf(b) - SEVERITY_ORDER.indexOf(a))[0];
+}
+
+/**
+ * High criticality first, then by name
+ */
+export function compareAllergies(a: AllergyIntolerance, b: AllergyIntolerance): number {
+  return Number(isHighCriticality(b)) - Number(isHighCriticality(a)) || substanceName(a).localeCompare(substanceName(b));
+}
@@ -0,0 +1,218 @@
+/**
+ * Care Plan, Goal and Care Team Helpers
+ *
+ * Display values for the My Care tab, and measuring goals with a coded
+ * target (a vital or lab) against the patient's readings.
+ */
+
+import type { CarePlan, CareTeam, CareTeamParticipant, ContactPoint, Goal, GoalTarget as FhirGoalTarget, Quantity } from 'fhir/r4';
+import { normalizeQuantity } from './units';
+import { vitalKindForCode } from './vital-signs';
+
+/**
+ * A chart-style reading, as produced by useVitalsData
+ */
+export interface MeasuredReading {
+  date: string;
+  value?: number;
+  systolic?: number;
+  diastolic?: number;
+  vitalCode?: string;
+  unit?: string;
+}
+
+export interface GoalTarget {
+  goal: Goal;
+  /** LOINC code of what's measured */
+  measureCode: string;
+  measureName: string;
+  /** Bounds in canonical units, like useVitalsData readings */
+  low?: number;
+  high?: number;
+  unit?: string;
+  dueDate?: string;
+}
+
+/**
+ * - `met`: the latest reading is within the target
+ * - `not-met`: it isn't
+ * - `no-data`: nothing to measure against
+ */
+export type GoalProgressStatus = 'met' | 'not-met' | 'no-data';
+
+export interface GoalProgress {
+  target: GoalTarget;
+  status: GoalProgressStatus;
+  latest?: { value: number; date: string; unit?: string };
+}
+
+export function isActiveCarePlan(carePlan: CarePlan): boolean {
+  return carePlan.status === 'active' || carePlan.status === 'on-hold' || carePlan.status === 'draft';
+}
+
+export function carePlanTitle(carePlan: CarePlan): string {
+  return carePlan.title || carePlan.category?.[0]?.text || carePlan.category?.[0]?.coding?.[0]?.display || 'Care plan';
+}
+
+export interface CarePlanActivity {
+  description: string;
+  status?: string;
+  scheduled?: string;
+}
+
+export function carePlanActivities(carePlan: CarePlan): CarePlanActivity[] {
+  return (carePlan.activity || []).map(activity => {
+    const detail = activity.detail;
+    return {
+      description: detail?.description || detail?.code?.text || detail?.code?.coding?.[0]?.display
+        || activity.reference?.display || activity.outcomeCodeableConcept?.[0]?.text || 'Activity',
+      status: detail?.status,
+      scheduled: detail?.scheduledString || detail?.scheduledPeriod?.start,
+    };
+  });
+}
+
+export function goalDescription(goal: Goal): string {
+  return goal.description.text || goal.description.coding?.[0]?.display || 'Goal';
+}
+
+export function isActiveGoal(goal: Goal): boolean {
+  return !['cancelled', 'entered-in-error', 'rejected', 'completed'].includes(goal.lifecycleStatus);
+}
+
+function describeTarget(target: FhirGoalTarget): string | null {
+  if (target.detailQuantity?.value !== undefined) {
+    const { comparator, value, unit } = target.detailQuantity;
+    return `${comparator ? `${comparator} ` : ''}${value}${unit ? ` ${unit}` : ''}`;
+  }
+  if (target.detailRange) {
+    const { low, high } = target.detailRange;
+    const unit = low?.unit || high?.unit;
+    if (low?.value !== undefined && high?.value !== undefined) return `${low.value}-${high.value}${unit ? ` ${unit}` : ''}`;
+    if (low?.value !== undefined) return `>= ${low.value}${unit ? ` ${unit}` : ''}`;
+    if (high?.value !== undefined) return `<= ${high.value}${unit ? ` ${unit}` : ''}`;
+  }
+  return target.detailString || target.detailCodeableConcept?.text || null;
+}
+
+/**
+ * Target text per target, e.g. "Systolic blood pressure: <= 130 mm[Hg]"
+ */
+export function goalTargetText(goal: Goal): string[] {
+  return (goal.target || []).map(target => {
+    const measure = target.measure?.text || target.measure?.coding?.[0]?.display;
+    const detail = describeTarget(target);
+    return [measure, detail].filter(Boolean).join(': ');
+  }).filter(Boolean);
+}
+
+/**
+ * Targets that can be measured - a LOINC measure with a numeric bound
+ */
+export function goalTargets(goal: Goal): GoalTarget[] {
+  return (goal.target || []).flatMap(target => {
+    const measureCode = target.measure?.coding?.find(coding => coding.system === 'http://loinc.org')?.code;
+    if (!measureCode) return [];
+
+    let low: number | undefined;
+    let high: number | undefined;
+    let unit: string | undefined;
+    const canonical = (quantity?: Quantity) => (quantity?.value === undefined ? undefined : normalizeQuantity(quantity));
+    if (target.detailQuantity?.value !== undefined) {
+      const { comparator } = target.detailQuantity;
+      const quantity = normalizeQuantity(target.detailQuantity);
+      const value = quantity.value;
+      unit = quantity.unit;
+      if (comparator === '<' || comparator === '<=') high = value;
+      else if (comparator === '>' || comparator === '>=') low = value;
+      else low = high = value;
+    } else if (target.detailRange) {
+      const rangeLow = canonical(target.detailRange.low);
+      const rangeHigh = canonical(target.detailRange.high);
+      low = rangeLow?.value;
+      high = rangeHigh?.value;
+      unit = rangeLow?.unit || rangeHigh?.unit;
+    }
+    if (low === undefined && high === undefined) return [];
+
+    return [{
+      goal,
+      measureCode,
+      measureName: target.measure?.text || target.measure?.coding?.[0]?.display || measureCode,
+      low,
+      high,
+      unit,
+      dueDate: target.dueDate,
+    }];
+  });
+}
+
+// Vitals match by kind, so an oral temperature counts towards a body
+// temperature goal; anything else needs the same code
+function readingValue(reading: MeasuredReading, measureCode: string): number | undefined {
+  const kind = vitalKindForCode(measureCode);
+  if (kind === 'systolic' && reading.systolic !== undefined) return reading.systolic;
+  if (kind === 'diastolic' && reading.diastolic !== undefined) return reading.diastolic;
+  if (kind) return vitalKindForCode(reading.vitalCode) === kind ? reading.value : undefined;
+  return reading.vitalCode === measureCode ? reading.value : undefined;
+}
+
+/**
+ * Compare a target with the most recent matching reading. An exact target
+ * (no comparator) counts as met within 5%.
+ */
+export function measureGoalProgress(target: GoalTarget, readings: MeasuredReading[]): GoalProgress {
+  const latest = readings
+    .map(reading => ({ reading, value: readingValue(reading, target.measureCode) }))
+    .filter((match): match is { reading: MeasuredReading; value: number } => match.value !== undefined)
+    .sort((a, b) => new Date(b.reading.date).getTime() - new Date(a.reading.date).getTime())[0];
+  if (!latest) return { target, status: 'no-data' };
+
+  const { low, high } = target;
+  const tolerance = low !== undefined && low === high ? Math.abs(low) * 0.05 : 0;
+  const met = (low === undefined || latest.value >= low - tolerance) && (high === undefined || latest.value <= high + tolerance);
+  return {
+    target,
+    status: met ? 'met' : 'not-met',
+    latest: { value: latest.value, date: latest.reading.date, unit: latest.reading.unit },
+  };
+}
+
+export interface CareTeamMember {
+  name: string;
+  role?: string;
+  telecom: ContactPoint[];
+}
+
+// Member details are only available when the EMR contains them in the CareTeam
+function containedTelecom(careTeam: CareTeam, participant: CareTeamParticipant): ContactPoint[] {
+  const reference = participant.member?.reference;
+  if (!reference?.startsWith('#')) return [];
+  const contained = careTeam.contained?.find(resource => resource.id === reference.slice(1)) as { telecom?: ContactPoint[] } | undefined;
+  return contained?.telecom || [];
+}
+
+export function careTeamMembers(careTeam: CareTeam): CareTeamMember[] {
+  return (careTeam.participant || [])
+    .filter(participant => !participant.period?.end || new Date(participant.period.end) > new Date())
+    .map(participant => ({
+      name: participant.member?.display || participant.onBehalfOf?.display || 'Unknown member',
+      role: participant.role?.[0]?.text || participant.role?.[0]?.coding?.[0]?.display,
+      telecom: containedTelecom(careTeam, participant),
+    }));
+}
+
+export function telecomHref(contact: ContactPoint): string | undefined {
+  if (!contact.value) return undefined;
+  switch (contact.system) {
+    case 'phone':
+    case 'sms':
+      return `tel:${contact.value.replace(/[^\d+]/g, '')}`;
+    case 'email':
+      return `mailto:${contact.value}`;
+    case 'url':
+      return /^https?:/i.test(contact.value) ? contact.value : undefined;
+    default:
+      return undefined;
+  }
+}
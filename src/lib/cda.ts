@@ -0,0 +1,150 @@
+/**
+ * C-CDA Rendering
+ *
+ * Turns a C-CDA document into readable HTML with a bundled XSLT stylesheet:
+ * the header (title, patient, authors, date) followed by each section's
+ * human-readable narrative. Coded entries are skipped - the narrative is what
+ * the sending system meant people to read. Browser only (XSLTProcessor).
+ */
+
+import { sanitizeHtml } from './sanitize-html';
+
+export const CDA_NAMESPACE = 'urn:hl7-org:v3';
+
+// A compact subset of the HL7 CDA narrative rendering - no styling, the viewer supplies it
+export const CDA_STYLESHEET = `<?xml version="1.0" encoding="UTF-8"?>
+<xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform" xmlns:n1="${CDA_NAMESPACE}" exclude-result-prefixes="n1">
+  <xsl:output method="html" encoding="UTF-8" indent="no"/>
+
+  <xsl:template match="/">
+    <div>
+      <xsl:apply-templates select="n1:ClinicalDocument"/>
+    </div>
+  </xsl:template>
+
+  <xsl:template match="n1:ClinicalDocument">
+    <h1><xsl:value-of select="n1:title"/></h1>
+    <dl>
+      <xsl:for-each select="n1:recordTarget/n1:patientRole/n1:patient">
+        <dt>Patient</dt>
+        <dd>
+          <xsl:apply-templates select="n1:name[1]"/>
+          <xsl:if test="n1:birthTime/@value">
+            <xsl:text>, born </xsl:text>
+            <xsl:call-template name="date"><xsl:with-param name="value" select="n1:birthTime/@value"/></xsl:call-template>
+          </xsl:if>
+        </dd>
+      </xsl:for-each>
+      <xsl:if test="n1:effectiveTime/@value">
+        <dt>Date</dt>
+        <dd><xsl:call-template name="date"><xsl:with-param name="value" select="n1:effectiveTime/@value"/></xsl:call-template></dd>
+      </xsl:if>
+      <xsl:for-each select="n1:author/n1:assignedAuthor">
+        <dt>Author</dt>
+        <dd>
+          <xsl:choose>
+            <xsl:when test="n1:assignedPerson/n1:name"><xsl:apply-templates select="n1:assignedPerson/n1:name[1]"/></xsl:when>
+            <xsl:otherwise><xsl:value-of select="n1:representedOrganization/n1:name"/></xsl:otherwise>
+          </xsl:choose>
+        </dd>
+      </xsl:for-each>
+      <xsl:for-each select="n1:custodian/n1:assignedCustodian/n1:representedCustodianOrganization/n1:name">
+        <dt>From</dt>
+        <dd><xsl:value-of select="."/></dd>
+      </xsl:for-each>
+    </dl>
+    <xsl:apply-templates select="n1:component/n1:structuredBody/n1:component/n1:section"/>
+    <xsl:if test="n1:component/n1:nonXMLBody">
+      <p><em>This document's content isn't in a readable format. Download it to open it.</em></p>
+    </xsl:if>
+  </xsl:template>
+
+  <xsl:template match="n1:section">
+    <section>
+      <h2><xsl:value-of select="n1:title"/></h2>
+      <xsl:apply-templates select="n1:text"/>
+      <xsl:apply-templates select="n1:component/n1:section"/>
+    </section>
+  </xsl:template>
+
+  <xsl:template match="n1:name">
+    <xsl:for-each select="n1:prefix | n1:given | n1:family | n1:suffix">
+      <xsl:if test="position() > 1"><xsl:text> </xsl:text></xsl:if>
+      <xsl:value-of select="."/>
+    </xsl:for-each>
+    <xsl:if test="not(n1:given | n1:family)"><xsl:value-of select="."/></xsl:if>
+  </xsl:template>
+
+  <!-- HL7 TS (YYYYMMDD...) as YYYY-MM-DD -->
+  <xsl:template name="date">
+    <xsl:param name="value"/>
+    <xsl:value-of select="substring($value, 1, 4)"/>
+    <xsl:if test="string-length($value) >= 6">-<xsl:value-of select="substring($value, 5, 2)"/></xsl:if>
+    <xsl:if test="string-length($value) >= 8">-<xsl:value-of select="substring($value, 7, 2)"/></xsl:if>
+  </xsl:template>
+
+  <!-- Narrative block -->
+  <xsl:template match="n1:text"><div><xsl:apply-templates/></div></xsl:template>
+  <xsl:template match="n1:paragraph"><p><xsl:apply-templates/></p></xsl:template>
+  <xsl:template match="n1:content"><span><xsl:apply-templates/></span></xsl:template>
+  <xsl:template match="n1:br"><br/></xsl:template>
+  <xsl:template match="n1:sub"><sub><xsl:apply-templates/></sub></xsl:template>
+  <xsl:template match="n1:sup"><sup><xsl:apply-templates/></sup></xsl:template>
+  <xsl:template match="n1:caption"><strong><xsl:apply-templates/></strong></xsl:template>
+  <xsl:template match="n1:linkHtml"><a href="{@href}"><xsl:apply-templates/></a></xsl:template>
+  <xsl:template match="n1:footnote | n1:footnoteRef | n1:renderMultiMedia"/>
+  <xsl:template match="n1:list">
+    <xsl:apply-templates select="n1:caption"/>
+    <xsl:choose>
+      <xsl:when test="@listType = 'ordered'"><ol><xsl:apply-templates select="n1:item"/></ol></xsl:when>
+      <xsl:otherwise><ul><xsl:apply-templates select="n1:item"/></ul></xsl:otherwise>
+    </xsl:choose>
+  </xsl:template>
+  <xsl:template match="n1:item"><li><xsl:apply-templates/></li></xsl:template>
+  <xsl:template match="n1:table">
+    <table>
+      <xsl:if test="n1:caption"><caption><xsl:apply-templates select="n1:caption/node()"/></caption></xsl:if>
+      <xsl:apply-templates select="n1:thead | n1:tbody | n1:tfoot | n1:tr"/>
+    </table>
+  </xsl:template>
+  <xsl:template match="n1:thead"><thead><xsl:apply-templates/></thead></xsl:template>
+  <xsl:template match="n1:tbody"><tbody><xsl:apply-templates/></tbody></xsl:template>
+  <xsl:template match="n1:tfoot"><tfoot><xsl:apply-templates/></tfoot></xsl:template>
+  <xsl:template match="n1:tr"><tr><xsl:apply-templates/></tr></xsl:template>
+  <xsl:template match="n1:th">
+    <th>
+      <xsl:copy-of select="@colspan | @rowspan"/>
+      <xsl:apply-templates/>
+    </th>
+  </xsl:template>
+  <xsl:template match="n1:td">
+    <td>
+      <xsl:copy-of select="@colspan | @rowspan"/>
+      <xsl:apply-templates/>
+    </td>
+  </xsl:template>
+</xsl:stylesheet>`;
+
+export function isCdaDocument(xml: string): boolean {
+  return /<([A-Za-z0-9_]+:)?ClinicalDocument[\s>]/.test(xml);
+}
+
+/**
+ * Render a C-CDA document to sanitized HTML. Throws if the XML doesn't parse.
+ */
+export function renderCda(xml: string): string {
+  const parser = new DOMParser();
+  const source = parser.parseFromString(xml, 'application/xml');
+  if (source.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The document is not valid XML');
+  }
+
+  const processor = new XSLTProcessor();
+  processor.importStylesheet(parser.parseFromString(CDA_STYLESHEET, 'application/xml'));
+  const result = processor.transformToDocument(source);
+  const root = result?.documentElement;
+  if (!root) {
+    throw new Error('The document could not be rendered');
+  }
+  return sanitizeHtml(root.outerHTML);
+}
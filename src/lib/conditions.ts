@@ -0,0 +1,108 @@
+/**
+ * Condition Helpers
+ *
+ * Status grouping and display values for problem-list Conditions, shared by
+ * the Conditions tab, the timeline and the insight rules.
+ */
+
+import type { Age, CodeableConcept, Condition, Period, Range } from 'fhir/r4';
+
+export type ConditionGroup = 'active' | 'inactive' | 'resolved';
+
+export const CODE_SYSTEM_LABELS: Record<string, string> = {
+  'http://snomed.info/sct': 'SNOMED CT',
+  'http://hl7.org/fhir/sid/icd-10-cm': 'ICD-10-CM',
+  'http://hl7.org/fhir/sid/icd-10': 'ICD-10',
+};
+
+const statusCode = (concept?: CodeableConcept) => concept?.coding?.[0]?.code || concept?.text?.toLowerCase();
+
+export function clinicalStatus(condition: Condition): string | undefined {
+  return statusCode(condition.clinicalStatus);
+}
+
+export function verificationStatus(condition: Condition): string | undefined {
+  return statusCode(condition.verificationStatus);
+}
+
+/**
+ * active/recurrence/relapse -> active, inactive/remission -> inactive.
+ * Conditions without a clinical status are listed as active - that's how
+ * most EMRs report an open problem-list entry.
+ */
+export function conditionGroup(condition: Condition): ConditionGroup {
+  switch (clinicalStatus(condition)) {
+    case 'resolved':
+      return 'resolved';
+    case 'inactive':
+    case 'remission':
+      return 'inactive';
+    default:
+      return 'active';
+  }
+}
+
+/**
+ * Refuted and entered-in-error entries aren't part of the patient's problems
+ */
+export function isDisplayableCondition(condition: Condition): boolean {
+  const verification = verificationStatus(condition);
+  return verification !== 'refuted' && verification !== 'entered-in-error';
+}
+
+export function conditionName(condition: Condition): string {
+  return condition.code?.text || condition.code?.coding?.[0]?.display || 'Unnamed condition';
+}
+
+/**
+ * Codes worth showing - SNOMED CT and ICD-10, labelled by system
+ */
+export function conditionCodes(condition: Condition): { system: string; code: string; display?: string }[] {
+  return (condition.code?.coding || [])
+    .filter(coding => coding.system && coding.code && CODE_SYSTEM_LABELS[coding.system])
+    .map(coding => ({ system: CODE_SYSTEM_LABELS[coding.system!], code: coding.code!, display: coding.display }));
+}
+
+interface TimingFields {
+  dateTime?: string;
+  age?: Age;
+  period?: Period;
+  range?: Range;
+  string?: string;
+}
+
+// onset[x] / abatement[x] as display text
+function describeTiming({ dateTime, age, period, range, string }: TimingFields): string | null {
+  if (dateTime) return new Date(dateTime).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+  if (period?.start) return describeTiming({ dateTime: period.start });
+  if (age?.value !== undefined) return `Age ${age.value}${age.unit ? ` ${age.unit}` : ''}`;
+  if (range?.low?.value !== undefined) return `Age ${range.low.value}${range.high?.value !== undefined ? `-${range.high.value}` : '+'}`;
+  return string || null;
+}
+
+export function onsetText(condition: Condition): string | null {
+  return describeTiming({
+    dateTime: condition.onsetDateTime,
+    age: condition.onsetAge,
+    period: condition.onsetPeriod,
+    range: condition.onsetRange,
+    string: condition.onsetString,
+  });
+}
+
+export function abatementText(condition: Condition): string | null {
+  return describeTiming({
+    dateTime: condition.abatementDateTime,
+    age: condition.abatementAge,
+    period: condition.abatementPeriod,
+    range: condition.abatementRange,
+    string: condition.abatementString,
+  });
+}
+
+/**
+ * When the condition started, for sorting and the timeline
+ */
+export function onsetDate(condition: Condition): string | undefined {
+  return condition.onsetDateTime || condition.onsetPeriod?.start || condition.recordedDate;
+}
@@ -0,0 +1,25 @@
+import { dateSearchParams, parseDateRange } from './date-range';
+
+const TODAY = new Date('2024-06-15T12:00:00');
+
+describe('dateSearchParams', () => {
+  it('sends both ends of a custom range as repeated date params', () => {
+    expect(dateSearchParams({ preset: 'custom', from: '2024-01-01', to: '2024-03-31' }, TODAY))
+      .toEqual({ date: ['ge2024-01-01', 'le2024-03-31'] });
+  });
+
+  it('resolves a preset against today', () => {
+    expect(dateSearchParams({ preset: '30d' }, TODAY)).toEqual({ date: ['ge2024-05-16'] });
+  });
+
+  it('sends nothing for all time', () => {
+    expect(dateSearchParams({ preset: 'all' }, TODAY)).toBeUndefined();
+  });
+});
+
+describe('parseDateRange', () => {
+  it('swaps a range entered backwards', () => {
+    expect(parseDateRange(new URLSearchParams('from=2024-03-31&to=2024-01-01')))
+      .toEqual({ preset: 'custom', from: '2024-01-01', to: '2024-03-31' });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Date Ranges
+ *
+ * The window the vitals and lab views are filtered to. Presets are relative
+ * ("last 90 days") so a bookmarked link keeps meaning the same thing; a
+ * custom range is a pair of calendar dates, both inclusive. The range lives
+ * in the URL query string and is pushed down to the FHIR search as
+ * `date=ge...&date=le...`.
+ */
+
+import { format, subDays, subMonths, subYears } from 'date-fns';
+import type { SearchParams } from '@nirmiteeio/fhir-sdk';
+
+export type DateRangePreset = '30d' | '90d' | '6m' | '1y' | 'all';
+
+export interface DateRange {
+  preset: DateRangePreset | 'custom';
+  /** yyyy-MM-dd, inclusive - only set for custom ranges */
+  from?: string;
+  to?: string;
+}
+
+export const DATE_RANGE_PRESETS: { value: DateRangePreset; label: string; start?: (today: Date) => Date }[] = [
+  { value: '30d', label: 'Last 30 days', start: today => subDays(today, 30) },
+  { value: '90d', label: 'Last 90 days', start: today => subDays(today, 90) },
+  { value: '6m', label: 'Last 6 months', start: today => subMonths(today, 6) },
+  { value: '1y', label: 'Last year', start: today => subYears(today, 1) },
+  { value: 'all', label: 'All time' },
+];
+
+export const ALL_TIME: DateRange = { preset: 'all' };
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+export function toDay(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Read a range from the query string - `?range=90d` or `?from=...&to=...`.
+ * Anything unrecognised means all time
+ */
+export function parseDateRange(query: { get(name: string): string | null }): DateRange {
+  const from = query.get('from');
+  const to = query.get('to');
+  if ((from && DAY.test(from)) || (to && DAY.test(to))) {
+    const range: DateRange = {
+      preset: 'custom',
+      from: from && DAY.test(from) ? from : undefined,
+      to: to && DAY.test(to) ? to : undefined,
+    };
+    // A range entered backwards still means the days between
+    return range.from && range.to && range.from > range.to
+      ? { preset: 'custom', from: range.to, to: range.from }
+      : range;
+  }
+
+  const preset = DATE_RANGE_PRESETS.find(option => option.value === query.get('range'));
+  return preset ? { preset: preset.value } : ALL_TIME;
+}
+
+/**
+ * Write a range into an existing query string, leaving other params alone
+ */
+export function writeDateRange(query: URLSearchParams, range: DateRange): URLSearchParams {
+  const next = new URLSearchParams(query);
+  ['range', 'from', 'to'].forEach(name => next.delete(name));
+  if (range.preset === 'custom') {
+    if (range.from) next.set('from', range.from);
+    if (range.to) next.set('to', range.to);
+  } else if (range.preset !== 'all') {
+    next.set('range', range.preset);
+  }
+  return next;
+}
+
+/**
+ * The concrete days a range covers, resolving presets against today
+ */
+export function resolveDateRange(range: DateRange, today = new Date()): { from?: string; to?: string } {
+  if (range.preset === 'custom') return { from: range.from, to: range.to };
+  const start = DATE_RANGE_PRESETS.find(option => option.value === range.preset)?.start;
+  return start ? { from: toDay(start(today)) } : {};
+}
+
+export function isAllTime(range: DateRange): boolean {
+  const { from, to } = resolveDateRange(range);
+  return !from && !to;
+}
+
+/**
+ * SearchParams with `date` repeatable - the client sends an array param once
+ * per value, so both bounds go out as date=ge...&date=le...
+ */
+export type DateSearchParams = Omit<SearchParams, 'date'> & { date?: string | string[] };
+
+/**
+ * FHIR search params for the range, or undefined for all time
+ */
+export function dateSearchParams(range: DateRange, today = new Date()): DateSearchParams | undefined {
+  const { from, to } = resolveDateRange(range, today);
+  const date = [from && `ge${from}`, to && `le${to}`].filter((value): value is string => !!value);
+  return date.length > 0 ? { date } : undefined;
+}
+
+/**
+ * Client-side check for servers that ignore the date param. Compared by
+ * calendar day so a reading late on the last day still counts; undated
+ * resources only show under all time
+ */
+export function isInDateRange(dateTime: string | undefined, range: DateRange, today = new Date()): boolean {
+  const { from, to } = resolveDateRange(range, today);
+  if (!from && !to) return true;
+  if (!dateTime) return false;
+  const day = dateTime.slice(0, 10);
+  return (!from || day >= from) && (!to || day <= to);
+}
+
+export function describeDateRange(range: DateRange): string {
+  if (range.preset !== 'custom') {
+    return DATE_RANGE_PRESETS.find(option => option.value === range.preset)?.label || 'All time';
+  }
+  const day = (value: string) => format(new Date(`${value}T00:00:00`), 'MMM d, yyyy');
+  if (range.from && range.to) return `${day(range.from)} – ${day(range.to)}`;
+  if (range.from) return `Since ${day(range.from)}`;
+  return range.to ? `Until ${day(range.to)}` : 'All time';
+}
@@ -0,0 +1,123 @@
+/**
+ * Clinical Documents
+ *
+ * Display values for DocumentReference, and loading attachments through the
+ * authenticated FHIR client - inline `data`, or a Binary the `url` points at.
+ * The original bytes and content type are kept so downloads match what the
+ * EMR stored.
+ */
+
+import type { Attachment, Binary, DocumentReference } from 'fhir/r4';
+import type { FHIRClient } from '@nirmiteeio/fhir-sdk';
+import { isCdaDocument } from './cda';
+
+/**
+ * How the viewer shows an attachment - decided from the content type, and
+ * for XML from the content itself
+ */
+export type AttachmentKind = 'html' | 'text' | 'pdf' | 'cda' | 'other';
+
+export interface LoadedAttachment {
+  blob: Blob;
+  contentType: string;
+  filename: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'text/html': 'html',
+  'text/plain': 'txt',
+  'text/rtf': 'rtf',
+  'application/xml': 'xml',
+  'text/xml': 'xml',
+  'application/hl7-v3+xml': 'xml',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/tiff': 'tiff',
+};
+
+export function documentTypeName(document: DocumentReference): string {
+  return document.type?.text || document.type?.coding?.[0]?.display || 'Clinical document';
+}
+
+export function documentTitle(document: DocumentReference): string {
+  return document.description || document.content[0]?.attachment?.title || documentTypeName(document);
+}
+
+export function documentDate(document: DocumentReference): string | undefined {
+  return document.date || document.context?.period?.start || document.content[0]?.attachment?.creation;
+}
+
+export function documentAuthors(document: DocumentReference): string[] {
+  return (document.author || []).map(author => author.display || '').filter(Boolean);
+}
+
+export function isDisplayableDocument(document: DocumentReference): boolean {
+  return document.status !== 'entered-in-error';
+}
+
+// Drop parameters: "text/html; charset=utf-8" -> "text/html"
+const baseContentType = (contentType?: string) => (contentType || '').split(';')[0].trim().toLowerCase();
+
+export function attachmentKind(contentType: string | undefined, content?: string): AttachmentKind {
+  const type = baseContentType(contentType);
+  if (type === 'application/pdf') return 'pdf';
+  if (type === 'text/html' || type === 'application/xhtml+xml') return 'html';
+  if (type.endsWith('xml')) return content !== undefined && isCdaDocument(content) ? 'cda' : 'text';
+  if (type === 'text/plain') return 'text';
+  return 'other';
+}
+
+export function attachmentFilename(attachment: Attachment, contentType: string, fallback: string): string {
+  if (attachment.title && /\.[A-Za-z0-9]{2,5}$/.test(attachment.title)) return attachment.title;
+  const extension = EXTENSIONS[baseContentType(contentType)];
+  const name = (attachment.title || fallback).replace(/[\\/:*?"<>|]+/g, '_');
+  return extension ? `${name}.${extension}` : name;
+}
+
+function decodeBase64(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+// "Binary/123", "https://emr/fhir/Binary/123" or ".../Binary/123/_history/1" -> "123".
+// Absolute URLs must be on the client's own FHIR server.
+function binaryId(url: string, fhirBaseUrl: string): string | null {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(url) && !url.startsWith(fhirBaseUrl.replace(/\/+$/, '') + '/')) return null;
+  const match = url.match(/(?:^|\/)Binary\/([^/?#]+)(?:\/_history\/[^/?#]+)?(?:[?#].*)?$/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+/**
+ * Load an attachment's bytes. URLs outside the FHIR API aren't fetched -
+ * they'd need the token sent somewhere we can't vouch for.
+ */
+export async function fetchAttachment(
+  client: FHIRClient,
+  attachment: Attachment,
+  fallbackName: string
+): Promise<LoadedAttachment> {
+  let data = attachment.data;
+  let contentType = attachment.contentType || 'application/octet-stream';
+
+  if (!data) {
+    const id = attachment.url ? binaryId(attachment.url, client.getProvider().fhirBaseUrl) : null;
+    if (!id) {
+      throw new Error('This attachment is stored outside your provider\'s records system and can\'t be opened here');
+    }
+    const binary = await client.read<any>('Binary', id) as Binary;
+    data = binary.data;
+    contentType = binary.contentType || contentType;
+  }
+  if (!data) {
+    throw new Error('The attachment is empty');
+  }
+
+  return {
+    blob: new Blob([decodeBase64(data)], { type: contentType }),
+    contentType,
+    filename: attachmentFilename(attachment, contentType, fallbackName),
+  };
+}
@@ -0,0 +1,76 @@
+import type { Dosage } from 'fhir/r4';
+import { formatDosage, formatDosageInstructions, formatTiming } from './dosage';
+
+const ORAL = { coding: [{ system: 'http://snomed.info/sct', code: '26643006' }] };
+
+const tablets = (value: number): Dosage['doseAndRate'] => [{ doseQuantity: { value, unit: 'tablet' } }];
+
+const taper = (doses: number[]): Dosage[] => doses.map((value, index) => ({
+  sequence: index + 1,
+  timing: { repeat: { frequency: 1, period: 1, periodUnit: 'd', boundsDuration: { value: 3, unit: 'd' } } },
+  doseAndRate: [{ doseQuantity: { value, unit: 'mg' } }],
+}));
+
+describe('formatDosage', () => {
+  it('renders a BID code with route and dose', () => {
+    const dosage: Dosage = { timing: { code: { coding: [{ code: 'BID' }] } }, route: ORAL, doseAndRate: tablets(1) };
+    expect(formatDosage(dosage, { locale: 'en' })).toBe('Take 1 tablet by mouth twice a day');
+  });
+
+  it('renders q4-6h as needed with a maximum dose', () => {
+    const dosage: Dosage = {
+      timing: { repeat: { frequency: 1, period: 4, periodMax: 6, periodUnit: 'h' } },
+      asNeededCodeableConcept: { text: 'pain' },
+      doseAndRate: tablets(2),
+      maxDosePerPeriod: { numerator: { value: 8, unit: 'tablet' }, denominator: { value: 24, unit: 'h' } },
+    };
+    expect(formatDosage(dosage, { locale: 'en' }))
+      .toBe('Take 2 tablets every 4-6 hours as needed for pain. No more than 8 tablets in 24 hours');
+  });
+
+  it('appends additional instructions', () => {
+    const dosage: Dosage = {
+      timing: { code: { coding: [{ code: 'QD' }] } },
+      doseAndRate: [{ doseQuantity: { value: 500, unit: 'mg' } }],
+      additionalInstruction: [{ text: 'Take with food' }],
+    };
+    expect(formatDosage(dosage, { locale: 'en' })).toBe('Take 500 mg once a day. Take with food');
+  });
+
+  it('falls back to the EMR text when there is no structure', () => {
+    expect(formatDosage({ text: 'Use as directed' }, { locale: 'en' })).toBe('Use as directed');
+  });
+
+  it('renders Spanish', () => {
+    const dosage: Dosage = { timing: { code: { coding: [{ code: 'BID' }] } }, route: ORAL, doseAndRate: tablets(1) };
+    expect(formatDosage(dosage, { locale: 'es' })).toBe('Tomar 1 tableta por vía oral dos veces al día');
+  });
+});
+
+describe('formatDosageInstructions', () => {
+  it('reads a multi-step taper as one schedule', () => {
+    expect(formatDosageInstructions(taper([40, 30, 20, 10]), { locale: 'en' })).toEqual([
+      'Take 40 mg once a day for 3 days',
+      'then take 30 mg once a day for 3 days',
+      'then take 20 mg once a day for 3 days',
+      'then take 10 mg once a day for 3 days',
+    ]);
+  });
+
+  it('reads a taper in Spanish', () => {
+    expect(formatDosageInstructions(taper([40, 30]), { locale: 'es' })).toEqual([
+      'Tomar 40 mg una vez al día durante 3 días',
+      'luego tomar 30 mg una vez al día durante 3 días',
+    ]);
+  });
+
+  it('returns nothing for no instructions', () => {
+    expect(formatDosageInstructions(undefined)).toEqual([]);
+  });
+});
+
+describe('formatTiming', () => {
+  it('renders a timing code on its own', () => {
+    expect(formatTiming({ code: { coding: [{ code: 'TID' }] } }, { locale: 'en' })).toBe('3 times a day');
+  });
+});
@@ -0,0 +1,622 @@
+/**
+ * Dosage Instructions
+ *
+ * Human-readable sig text from a FHIR Dosage's structured parts - dose,
+ * route, timing.repeat, bounds, as-needed and maximum dose - for EMRs (Epic
+ * especially) that send the structure without `text`. Several instructions
+ * read as one schedule: the same `sequence` happens together, a later one
+ * follows ("then"), which covers tapers.
+ *
+ * Phrases come from a per-language table; numbers, dates, weekdays and
+ * lists are formatted with Intl for the given locale. Languages without a
+ * table fall back to English.
+ */
+
+import type { CodeableConcept, Dosage, Duration, Quantity, Range, Ratio, Timing, TimingRepeat } from 'fhir/r4';
+
+export type PeriodUnit = 's' | 'min' | 'h' | 'd' | 'wk' | 'mo' | 'a';
+type Verb = 'take' | 'inject' | 'apply' | 'inhale' | 'insert' | 'use';
+type Route =
+  | 'oral' | 'sublingual' | 'intravenous' | 'intramuscular' | 'subcutaneous' | 'topical'
+  | 'transdermal' | 'inhalation' | 'nasal' | 'ophthalmic' | 'otic' | 'rectal' | 'vaginal';
+type DoseForm = 'tablet' | 'capsule' | 'puff' | 'drop' | 'patch' | 'spray' | 'application' | 'unit';
+type EventTiming =
+  | 'MORN' | 'AFT' | 'EVE' | 'NIGHT' | 'HS' | 'WAKE'
+  | 'C' | 'CM' | 'CD' | 'CV' | 'AC' | 'ACM' | 'ACD' | 'ACV' | 'PC' | 'PCM' | 'PCD' | 'PCV';
+
+interface DosageMessages {
+  verbs: Record<Verb, string>;
+  routes: Record<Route, string>;
+  /** Singular and plural */
+  forms: Record<DoseForm, [string, string]>;
+  units: Record<PeriodUnit, [string, string]>;
+  when: Record<EventTiming, string>;
+  /** "once", "twice", "3 times" - count is undefined for a range like "1-2" */
+  times: (count: number | undefined, formatted: string) => string;
+  /** "a day" - once per one of the unit */
+  perUnit: Record<PeriodUnit, string>;
+  /** "every 8 hours"; count undefined for "every hour" */
+  every: (amount: string | undefined, unit: string) => string;
+  everyOther: (unit: PeriodUnit) => string | undefined;
+  onDays: (days: string) => string;
+  atTimes: (times: string) => string;
+  forDuration: (amount: string, unit: string) => string;
+  overDuration: (amount: string, unit: string) => string;
+  forCount: (count: string) => string;
+  fromTo: (start: string, end: string) => string;
+  until: (end: string) => string;
+  starting: (start: string) => string;
+  asNeeded: string;
+  asNeededFor: (reason: string) => string;
+  /** "no more than 4 tablets a day" */
+  maxPer: (dose: string, period: string) => string;
+  maxPerDose: (dose: string) => string;
+  /** "in 24 hours" - a maximum over more than one unit */
+  within: (amount: string, unit: string) => string;
+  then: string;
+}
+
+const en: DosageMessages = {
+  verbs: { take: 'take', inject: 'inject', apply: 'apply', inhale: 'inhale', insert: 'insert', use: 'use' },
+  routes: {
+    oral: 'by mouth',
+    sublingual: 'under the tongue',
+    intravenous: 'into a vein',
+    intramuscular: 'into the muscle',
+    subcutaneous: 'under the skin',
+    topical: 'to the skin',
+    transdermal: 'to the skin',
+    inhalation: 'by inhalation',
+    nasal: 'in the nose',
+    ophthalmic: 'in the eye',
+    otic: 'in the ear',
+    rectal: 'rectally',
+    vaginal: 'vaginally',
+  },
+  forms: {
+    tablet: ['tablet', 'tablets'],
+    capsule: ['capsule', 'capsules'],
+    puff: ['puff', 'puffs'],
+    drop: ['drop', 'drops'],
+    patch: ['patch', 'patches'],
+    spray: ['spray', 'sprays'],
+    application: ['application', 'applications'],
+    unit: ['unit', 'units'],
+  },
+  units: {
+    s: ['second', 'seconds'],
+    min: ['minute', 'minutes'],
+    h: ['hour', 'hours'],
+    d: ['day', 'days'],
+    wk: ['week', 'weeks'],
+    mo: ['month', 'months'],
+    a: ['year', 'years'],
+  },
+  when: {
+    MORN: 'in the morning',
+    AFT: 'in the afternoon',
+    EVE: 'in the evening',
+    NIGHT: 'at night',
+    HS: 'at bedtime',
+    WAKE: 'on waking',
+    C: 'with meals',
+    CM: 'with breakfast',
+    CD: 'with lunch',
+    CV: 'with dinner',
+    AC: 'before meals',
+    ACM: 'before breakfast',
+    ACD: 'before lunch',
+    ACV: 'before dinner',
+    PC: 'after meals',
+    PCM: 'after breakfast',
+    PCD: 'after lunch',
+    PCV: 'after dinner',
+  },
+  times: (count, formatted) => (count === 1 ? 'once' : count === 2 ? 'twice' : `${formatted} times`),
+  perUnit: { s: 'a second', min: 'a minute', h: 'an hour', d: 'a day', wk: 'a week', mo: 'a month', a: 'a year' },
+  every: (amount, unit) => (amount ? `every ${amount} ${unit}` : `every ${unit}`),
+  everyOther: unit => (unit === 'd' ? 'every other day' : unit === 'wk' ? 'every other week' : undefined),
+  onDays: days => `on ${days}`,
+  atTimes: times => `at ${times}`,
+  forDuration: (amount, unit) => `for ${amount} ${unit}`,
+  overDuration: (amount, unit) => `over ${amount} ${unit}`,
+  forCount: count => `for ${count} doses`,
+  fromTo: (start, end) => `from ${start} to ${end}`,
+  until: end => `until ${end}`,
+  starting: start => `starting ${start}`,
+  asNeeded: 'as needed',
+  asNeededFor: reason => `as needed for ${reason}`,
+  maxPer: (dose, period) => `no more than ${dose} ${period}`,
+  maxPerDose: dose => `no more than ${dose} per dose`,
+  within: (amount, unit) => `in ${amount} ${unit}`,
+  then: 'then',
+};
+
+const es: DosageMessages = {
+  verbs: { take: 'tomar', inject: 'inyectar', apply: 'aplicar', inhale: 'inhalar', insert: 'introducir', use: 'usar' },
+  routes: {
+    oral: 'por vía oral',
+    sublingual: 'debajo de la lengua',
+    intravenous: 'por vía intravenosa',
+    intramuscular: 'en el músculo',
+    subcutaneous: 'debajo de la piel',
+    topical: 'sobre la piel',
+    transdermal: 'sobre la piel',
+    inhalation: 'por inhalación',
+    nasal: 'en la nariz',
+    ophthalmic: 'en el ojo',
+    otic: 'en el oído',
+    rectal: 'por vía rectal',
+    vaginal: 'por vía vaginal',
+  },
+  forms: {
+    tablet: ['tableta', 'tabletas'],
+    capsule: ['cápsula', 'cápsulas'],
+    puff: ['inhalación', 'inhalaciones'],
+    drop: ['gota', 'gotas'],
+    patch: ['parche', 'parches'],
+    spray: ['pulverización', 'pulverizaciones'],
+    application: ['aplicación', 'aplicaciones'],
+    unit: ['unidad', 'unidades'],
+  },
+  units: {
+    s: ['segundo', 'segundos'],
+    min: ['minuto', 'minutos'],
+    h: ['hora', 'horas'],
+    d: ['día', 'días'],
+    wk: ['semana', 'semanas'],
+    mo: ['mes', 'meses'],
+    a: ['año', 'años'],
+  },
+  when: {
+    MORN: 'por la mañana',
+    AFT: 'por la tarde',
+    EVE: 'al anochecer',
+    NIGHT: 'por la noche',
+    HS: 'al acostarse',
+    WAKE: 'al despertar',
+    C: 'con las comidas',
+    CM: 'con el desayuno',
+    CD: 'con el almuerzo',
+    CV: 'con la cena',
+    AC: 'antes de las comidas',
+    ACM: 'antes del desayuno',
+    ACD: 'antes del almuerzo',
+    ACV: 'antes de la cena',
+    PC: 'después de las comidas',
+    PCM: 'después del desayuno',
+    PCD: 'después del almuerzo',
+    PCV: 'después de la cena',
+  },
+  times: (count, formatted) => (count === 1 ? 'una vez' : count === 2 ? 'dos veces' : `${formatted} veces`),
+  perUnit: { s: 'por segundo', min: 'por minuto', h: 'por hora', d: 'al día', wk: 'a la semana', mo: 'al mes', a: 'al año' },
+  every: (amount, unit) => (amount ? `cada ${amount} ${unit}` : `cada ${unit}`),
+  everyOther: unit => (unit === 'd' ? 'en días alternos' : undefined),
+  onDays: days => `los ${days}`,
+  atTimes: times => `a las ${times}`,
+  forDuration: (amount, unit) => `durante ${amount} ${unit}`,
+  overDuration: (amount, unit) => `en ${amount} ${unit}`,
+  forCount: count => `durante ${count} tomas`,
+  fromTo: (start, end) => `del ${start} al ${end}`,
+  until: end => `hasta el ${end}`,
+  starting: start => `a partir del ${start}`,
+  asNeeded: 'según sea necesario',
+  asNeededFor: reason => `según sea necesario para ${reason}`,
+  maxPer: (dose, period) => `sin superar ${dose} ${period}`,
+  maxPerDose: dose => `sin superar ${dose} por toma`,
+  within: (amount, unit) => `en ${amount} ${unit}`,
+  then: 'luego',
+};
+
+const MESSAGES: Record<string, DosageMessages> = { en, es };
+
+// SNOMED CT route codes, then the display text EMRs commonly send instead
+const ROUTE_CODES: Record<string, Route> = {
+  '26643006': 'oral',
+  '37839007': 'sublingual',
+  '47625008': 'intravenous',
+  '78421000': 'intramuscular',
+  '34206005': 'subcutaneous',
+  '6064005': 'topical',
+  '45890007': 'transdermal',
+  '447694001': 'inhalation',
+  '18679011000001101': 'inhalation',
+  '46713006': 'nasal',
+  '54485002': 'ophthalmic',
+  '10547007': 'otic',
+  '37161004': 'rectal',
+  '16857009': 'vaginal',
+};
+
+const ROUTE_TEXT: [RegExp, Route][] = [
+  [/^(oral|po|by mouth|mouth)$/i, 'oral'],
+  [/sublingual|under the tongue/i, 'sublingual'],
+  [/intravenous|^iv$/i, 'intravenous'],
+  [/intramuscular|^im$/i, 'intramuscular'],
+  [/subcutaneous|^sc$|^subq$|^sq$/i, 'subcutaneous'],
+  [/transdermal/i, 'transdermal'],
+  [/topical|cutaneous/i, 'topical'],
+  [/inhal/i, 'inhalation'],
+  [/nasal|intranasal/i, 'nasal'],
+  [/ophthalmic|eye/i, 'ophthalmic'],
+  [/otic|ear/i, 'otic'],
+  [/rectal/i, 'rectal'],
+  [/vaginal/i, 'vaginal'],
+];
+
+const ROUTE_VERBS: Partial<Record<Route, Verb>> = {
+  intravenous: 'inject',
+  intramuscular: 'inject',
+  subcutaneous: 'inject',
+  topical: 'apply',
+  transdermal: 'apply',
+  inhalation: 'inhale',
+  nasal: 'use',
+  ophthalmic: 'use',
+  otic: 'use',
+  rectal: 'insert',
+  vaginal: 'insert',
+};
+
+// Dose units as EMRs spell them - UCUM annotations ({tbl}), abbreviations, plurals
+const FORM_ALIASES: Record<string, DoseForm> = {
+  tablet: 'tablet', tablets: 'tablet', tab: 'tablet', tabs: 'tablet', tbl: 'tablet',
+  capsule: 'capsule', capsules: 'capsule', cap: 'capsule', caps: 'capsule',
+  puff: 'puff', puffs: 'puff', actuation: 'puff', actuations: 'puff',
+  drop: 'drop', drops: 'drop', gtt: 'drop',
+  patch: 'patch', patches: 'patch',
+  spray: 'spray', sprays: 'spray',
+  application: 'application', applications: 'application', appl: 'application',
+  unit: 'unit', units: 'unit', u: 'unit', '[iu]': 'unit', iu: 'unit',
+};
+
+const PERIOD_UNIT_ALIASES: Record<string, PeriodUnit> = {
+  s: 's', sec: 's', second: 's', seconds: 's',
+  min: 'min', minute: 'min', minutes: 'min',
+  h: 'h', hr: 'h', hour: 'h', hours: 'h',
+  d: 'd', day: 'd', days: 'd',
+  wk: 'wk', week: 'wk', weeks: 'wk',
+  mo: 'mo', month: 'mo', months: 'mo',
+  a: 'a', yr: 'a', year: 'a', years: 'a',
+};
+
+// HL7 GTSAbbreviation codes, as the repeat they stand for
+const TIMING_CODES: Record<string, TimingRepeat> = {
+  QD: { frequency: 1, period: 1, periodUnit: 'd' },
+  BID: { frequency: 2, period: 1, periodUnit: 'd' },
+  TID: { frequency: 3, period: 1, periodUnit: 'd' },
+  QID: { frequency: 4, period: 1, periodUnit: 'd' },
+  QOD: { frequency: 1, period: 2, periodUnit: 'd' },
+  Q1H: { frequency: 1, period: 1, periodUnit: 'h' },
+  Q2H: { frequency: 1, period: 2, periodUnit: 'h' },
+  Q3H: { frequency: 1, period: 3, periodUnit: 'h' },
+  Q4H: { frequency: 1, period: 4, periodUnit: 'h' },
+  Q6H: { frequency: 1, period: 6, periodUnit: 'h' },
+  Q8H: { frequency: 1, period: 8, periodUnit: 'h' },
+  AM: { frequency: 1, period: 1, periodUnit: 'd', when: ['MORN'] },
+  PM: { frequency: 1, period: 1, periodUnit: 'd', when: ['EVE'] },
+  BED: { frequency: 1, period: 1, periodUnit: 'd', when: ['HS'] },
+  WK: { frequency: 1, period: 1, periodUnit: 'wk' },
+  MO: { frequency: 1, period: 1, periodUnit: 'mo' },
+};
+
+const WEEKDAYS: Record<string, number> = { sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6 };
+
+// Offsets only read naturally before or after something
+const OFFSET_EVENTS = new Set(['AC', 'ACM', 'ACD', 'ACV', 'PC', 'PCM', 'PCD', 'PCV']);
+
+export interface DosageFormatOptions {
+  /** BCP 47 tag - defaults to the browser's language */
+  locale?: string;
+}
+
+interface Formatter {
+  locale: string;
+  messages: DosageMessages;
+  number: (value: number) => string;
+}
+
+export function defaultLocale(): string {
+  return typeof navigator !== 'undefined' && navigator.language ? navigator.language : 'en-US';
+}
+
+function formatter({ locale = defaultLocale() }: DosageFormatOptions = {}): Formatter {
+  const language = locale.split('-')[0].toLowerCase();
+  const numberFormat = new Intl.NumberFormat(locale, { maximumFractionDigits: 3 });
+  return { locale, messages: MESSAGES[language] || en, number: value => numberFormat.format(value) };
+}
+
+const list = (items: string[], { locale }: Formatter, type: 'conjunction' | 'disjunction' = 'conjunction') =>
+  new Intl.ListFormat(locale, { style: 'long', type }).format(items);
+
+const conceptText = (concept?: CodeableConcept) => concept?.text || concept?.coding?.find(coding => coding.display)?.display;
+
+function routeOf(concept?: CodeableConcept): Route | undefined {
+  const coded = concept?.coding?.map(coding => coding.code && ROUTE_CODES[coding.code]).find(Boolean);
+  if (coded) return coded;
+  const text = conceptText(concept)?.trim();
+  return text ? ROUTE_TEXT.find(([pattern]) => pattern.test(text))?.[1] : undefined;
+}
+
+function formOf(quantity?: Pick<Quantity, 'unit' | 'code'>): DoseForm | undefined {
+  const spelled = (quantity?.unit || quantity?.code || '').trim().toLowerCase().replace(/^\{(.*)\}$/, '$1');
+  return FORM_ALIASES[spelled];
+}
+
+export const periodUnitOf = (unit?: string): PeriodUnit | undefined => (unit ? PERIOD_UNIT_ALIASES[unit.toLowerCase()] : undefined);
+
+// "2 tablets", "500 mg" - units we don't recognise are printed as sent
+function amount(value: number, unit: Pick<Quantity, 'unit' | 'code'> | undefined, f: Formatter): string {
+  const form = formOf(unit);
+  const label = form ? f.messages.forms[form][value === 1 ? 0 : 1] : unit?.unit || unit?.code || '';
+  return `${f.number(value)} ${label}`.trim();
+}
+
+function quantityText(quantity: Quantity | undefined, f: Formatter): string | undefined {
+  return quantity?.value === undefined ? undefined : amount(quantity.value, quantity, f);
+}
+
+// "1-2 tablets" - labelled like the high end
+function rangeText(range: Range | undefined, f: Formatter): string | undefined {
+  const low = range?.low?.value;
+  const high = range?.high?.value;
+  if (low === undefined || high === undefined) return quantityText(range?.low || range?.high, f);
+  const unit = range?.high || range?.low;
+  const form = formOf(unit);
+  const label = form ? f.messages.forms[form][1] : unit?.unit || unit?.code || '';
+  return `${f.number(low)}-${f.number(high)} ${label}`.trim();
+}
+
+function periodText(value: number, valueMax: number | undefined, unit: PeriodUnit, f: Formatter) {
+  return {
+    amount: valueMax !== undefined ? `${f.number(value)}-${f.number(valueMax)}` : f.number(value),
+    unit: f.messages.units[unit][value === 1 && valueMax === undefined ? 0 : 1],
+  };
+}
+
+function durationText(duration: Duration | undefined, f: Formatter): string | undefined {
+  const unit = periodUnitOf(duration?.code || duration?.unit);
+  if (duration?.value === undefined || !unit) return undefined;
+  const { amount: shown, unit: label } = periodText(duration.value, undefined, unit, f);
+  return f.messages.forDuration(shown, label);
+}
+
+function doseText(dosage: Dosage, f: Formatter): string | undefined {
+  // The ordered dose over a calculated one
+  const doseAndRate = dosage.doseAndRate?.find(entry => entry.type?.coding?.some(coding => coding.code === 'ordered'))
+    || dosage.doseAndRate?.[0];
+  if (!doseAndRate) return undefined;
+  return quantityText(doseAndRate.doseQuantity, f) || rangeText(doseAndRate.doseRange, f);
+}
+
+function frequencyText(repeat: TimingRepeat, f: Formatter): string | undefined {
+  const { messages } = f;
+  const unit = periodUnitOf(repeat.periodUnit);
+  if (repeat.period === undefined || !unit) {
+    // "twice" with no period - rare, but says something
+    return repeat.frequency !== undefined && repeat.frequency > 1 ? messages.times(repeat.frequency, f.number(repeat.frequency)) : undefined;
+  }
+
+  const frequency = repeat.frequency ?? 1;
+  const times = repeat.frequencyMax !== undefined
+    ? messages.times(undefined, `${f.number(frequency)}-${f.number(repeat.frequencyMax)}`)
+    : messages.times(frequency, f.number(frequency));
+
+  if (repeat.period === 1 && repeat.periodMax === undefined) {
+    // Sub-daily units read as "every hour"; the rest as "once a day"
+    if (frequency === 1 && repeat.frequencyMax === undefined && ['s', 'min', 'h'].includes(unit)) {
+      return messages.every(undefined, messages.units[unit][0]);
+    }
+    return `${times} ${messages.perUnit[unit]}`;
+  }
+
+  const every = repeat.period === 2 && repeat.periodMax === undefined && messages.everyOther(unit);
+  const { amount: period, unit: label } = periodText(repeat.period, repeat.periodMax, unit, f);
+  const interval = every || messages.every(period, label);
+  return frequency === 1 && repeat.frequencyMax === undefined ? interval : `${times} ${interval}`;
+}
+
+function whenText(repeat: TimingRepeat, f: Formatter): string | undefined {
+  const events = (repeat.when || []).filter((event): event is EventTiming => event in f.messages.when);
+  if (events.length === 0) return undefined;
+  const joined = list(events.map(event => f.messages.when[event]), f);
+  if (!repeat.offset || !events.every(event => OFFSET_EVENTS.has(event))) return joined;
+
+  // Offsets are in minutes; whole hours read better as hours
+  const inHours = repeat.offset >= 60 && repeat.offset % 60 === 0;
+  const offset = periodText(inHours ? repeat.offset / 60 : repeat.offset, undefined, inHours ? 'h' : 'min', f);
+  return `${offset.amount} ${offset.unit} ${joined}`;
+}
+
+function daysText(repeat: TimingRepeat, f: Formatter): string | undefined {
+  if (!repeat.dayOfWeek?.length) return undefined;
+  const weekday = new Intl.DateTimeFormat(f.locale, { weekday: 'long', timeZone: 'UTC' });
+  // 2023-01-01 was a Sunday
+  const names = repeat.dayOfWeek
+    .filter(day => day in WEEKDAYS)
+    .map(day => weekday.format(new Date(Date.UTC(2023, 0, 1 + WEEKDAYS[day]))));
+  return names.length > 0 ? f.messages.onDays(list(names, f)) : undefined;
+}
+
+function timesOfDayText(repeat: TimingRepeat, f: Formatter): string | undefined {
+  if (!repeat.timeOfDay?.length) return undefined;
+  const time = new Intl.DateTimeFormat(f.locale, { hour: 'numeric', minute: '2-digit', timeZone: 'UTC' });
+  const shown = repeat.timeOfDay.map(value => {
+    const [hours, minutes] = value.split(':').map(Number);
+    return time.format(new Date(Date.UTC(2023, 0, 1, hours, minutes || 0)));
+  });
+  return f.messages.atTimes(list(shown, f));
+}
+
+function boundsText(repeat: TimingRepeat, f: Formatter): string | undefined {
+  if (repeat.boundsDuration) return durationText(repeat.boundsDuration, f);
+  if (repeat.boundsRange) {
+    const unit = periodUnitOf(repeat.boundsRange.low?.code || repeat.boundsRange.low?.unit || repeat.boundsRange.high?.code || repeat.boundsRange.high?.unit);
+    const low = repeat.boundsRange.low?.value;
+    const high = repeat.boundsRange.high?.value;
+    if (!unit || (low === undefined && high === undefined)) return undefined;
+    const { amount: shown, unit: label } = periodText(low ?? high!, low !== undefined ? high : undefined, unit, f);
+    return f.messages.forDuration(shown, label);
+  }
+  if (repeat.boundsPeriod) {
+    const date = new Intl.DateTimeFormat(f.locale, { dateStyle: 'medium', timeZone: 'UTC' });
+    const day = (value: string) => date.format(new Date(`${value.slice(0, 10)}T00:00:00Z`));
+    const { start, end } = repeat.boundsPeriod;
+    if (start && end) return f.messages.fromTo(day(start), day(end));
+    if (end) return f.messages.until(day(end));
+    if (start) return f.messages.starting(day(start));
+  }
+  return undefined;
+}
+
+function administrationText(repeat: TimingRepeat, f: Formatter): string[] {
+  const parts: string[] = [];
+  const unit = periodUnitOf(repeat.durationUnit);
+  if (repeat.duration !== undefined && unit) {
+    const { amount: shown, unit: label } = periodText(repeat.duration, repeat.durationMax, unit, f);
+    parts.push(f.messages.overDuration(shown, label));
+  }
+  if (repeat.count !== undefined) {
+    parts.push(f.messages.forCount(repeat.countMax !== undefined ? `${f.number(repeat.count)}-${f.number(repeat.countMax)}` : f.number(repeat.count)));
+  }
+  return parts;
+}
+
+/**
+ * Timing alone, e.g. "twice a day with meals" - the repeat, else the code
+ */
+export function formatTiming(timing: Timing | undefined, options?: DosageFormatOptions): string | undefined {
+  return timingParts(timing, formatter(options)).join(' ') || undefined;
+}
+
+/**
+ * The repeat a timing stands for - its own fields over those of its code
+ * (BID, Q8H...), with period units normalized
+ */
+export function timingRepeat(timing: Timing | undefined): TimingRepeat | undefined {
+  const code = timing?.code?.coding?.map(coding => coding.code && TIMING_CODES[coding.code.toUpperCase()]).find(Boolean);
+  const repeat: TimingRepeat | undefined = timing?.repeat || code || undefined;
+  if (!repeat) return undefined;
+  // A code's repeat stands in for missing fields only
+  const merged = code && timing?.repeat ? { ...code, ...timing.repeat } : repeat;
+  return {
+    ...merged,
+    periodUnit: periodUnitOf(merged.periodUnit),
+    durationUnit: periodUnitOf(merged.durationUnit),
+  };
+}
+
+function timingParts(timing: Timing | undefined, f: Formatter): string[] {
+  const merged = timingRepeat(timing);
+  if (!merged) {
+    const text = conceptText(timing?.code);
+    return text ? [text] : [];
+  }
+  // "on Monday" already says weekly
+  const weeklyOnDays = merged.dayOfWeek?.length && (merged.frequency ?? 1) === 1 && merged.period === 1 && periodUnitOf(merged.periodUnit) === 'wk';
+  return [
+    weeklyOnDays ? undefined : frequencyText(merged, f),
+    daysText(merged, f),
+    timesOfDayText(merged, f),
+    whenText(merged, f),
+    ...administrationText(merged, f),
+    boundsText(merged, f),
+  ].filter((part): part is string => !!part);
+}
+
+/**
+ * Just the amount, e.g. "2 tablets" or "5-10 mL"
+ */
+export function formatDose(dosage: Dosage, options?: DosageFormatOptions): string | undefined {
+  return doseText(dosage, formatter(options));
+}
+
+function maxDoseText(dosage: Dosage, f: Formatter): string | undefined {
+  const perPeriod = (ratio?: Ratio) => {
+    const dose = quantityText(ratio?.numerator, f);
+    const unit = periodUnitOf(ratio?.denominator?.code || ratio?.denominator?.unit);
+    const value = ratio?.denominator?.value ?? 1;
+    if (!dose || !unit) return undefined;
+    const period = value === 1 ? f.messages.perUnit[unit] : f.messages.within(f.number(value), f.messages.units[unit][1]);
+    return f.messages.maxPer(dose, period);
+  };
+  const perDose = quantityText(dosage.maxDosePerAdministration, f);
+  return list([perPeriod(dosage.maxDosePerPeriod), perDose && f.messages.maxPerDose(perDose)]
+    .filter((part): part is string => !!part), f) || undefined;
+}
+
+const capitalize = (text: string, locale: string) => text.charAt(0).toLocaleUpperCase(locale) + text.slice(1);
+const uncapitalize = (text: string, locale: string) => text.charAt(0).toLocaleLowerCase(locale) + text.slice(1);
+
+/**
+ * One instruction as sig text, e.g. "Take 1 tablet by mouth twice a day
+ * with meals for 10 days". Falls back to the EMR's `text` when there's no
+ * structure to render.
+ */
+export function formatDosage(dosage: Dosage, options?: DosageFormatOptions): string {
+  const f = formatter(options);
+  const route = routeOf(dosage.route);
+  const dose = doseText(dosage, f);
+  const timing = timingParts(dosage.timing, f);
+  const reason = conceptText(dosage.asNeededCodeableConcept)?.toLocaleLowerCase(f.locale);
+  const asNeeded = reason
+    ? f.messages.asNeededFor(reason)
+    : dosage.asNeededBoolean || dosage.asNeededCodeableConcept ? f.messages.asNeeded : undefined;
+
+  if (!dose && timing.length === 0 && !asNeeded) return dosage.text || '';
+
+  // "Inhale ... by inhalation" says it twice
+  const routeText = route === 'inhalation' ? undefined
+    : route ? f.messages.routes[route] : conceptText(dosage.route)?.toLocaleLowerCase(f.locale);
+  const maxDose = maxDoseText(dosage, f);
+  const sig = [
+    f.messages.verbs[(route && ROUTE_VERBS[route]) || 'take'],
+    dose,
+    routeText,
+    ...timing,
+    asNeeded,
+  ].filter((part): part is string => !!part).join(' ');
+
+  const extra = [
+    maxDose && capitalize(maxDose, f.locale),
+    ...(dosage.additionalInstruction || []).map(conceptText),
+    dosage.patientInstruction,
+  ].filter((part): part is string => !!part);
+
+  return [capitalize(sig, f.locale), ...extra].join('. ');
+}
+
+/**
+ * Every instruction of a prescription in order, one line per step. The same
+ * `sequence` happens together; later steps start with "then", as in a taper.
+ * Unsequenced instructions follow as lines of their own, since nothing says
+ * whether they're concurrent or consecutive.
+ */
+export function formatDosageInstructions(dosages: Dosage[] | undefined, options?: DosageFormatOptions): string[] {
+  if (!dosages?.length) return [];
+  const f = formatter(options);
+
+  const steps = new Map<number, Dosage[]>();
+  dosages
+    .filter(dosage => dosage.sequence !== undefined)
+    .forEach(dosage => steps.set(dosage.sequence!, [...(steps.get(dosage.sequence!) || []), dosage]));
+
+  const sequenced = Array.from(steps.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, together]) => list(
+      together
+        .map(dosage => formatDosage(dosage, options))
+        .filter(Boolean)
+        .map((sig, index) => (index === 0 ? sig : uncapitalize(sig, f.locale))),
+      f
+    ))
+    .filter(Boolean)
+    .map((line, index) => (index === 0 ? line : `${f.messages.then} ${uncapitalize(line, f.locale)}`));
+
+  const unsequenced = dosages
+    .filter(dosage => dosage.sequence === undefined)
+    .map(dosage => formatDosage(dosage, options))
+    .filter(Boolean);
+
+  return [...sequenced, ...unsequenced];
+}
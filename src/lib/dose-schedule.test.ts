@@ -0,0 +1,85 @@
+import type { MedicationRequest } from 'fhir/r4';
+import { adherenceByDay, dosesOn } from './dose-schedule';
+
+const RXNORM = 'http://www.nlm.nih.gov/research/umls/rxnorm';
+
+const twiceDaily = (overrides: Partial<MedicationRequest> = {}): MedicationRequest => ({
+  resourceType: 'MedicationRequest',
+  status: 'active',
+  intent: 'order',
+  subject: { reference: 'Patient/example' },
+  medicationCodeableConcept: { coding: [{ system: RXNORM, code: '314076' }], text: 'Lisinopril 10 mg tablet' },
+  authoredOn: '2024-03-01',
+  dosageInstruction: [{
+    timing: { repeat: { frequency: 2, period: 1, periodUnit: 'd' } },
+    doseAndRate: [{ doseQuantity: { value: 1, unit: 'tablet' } }],
+  }],
+  ...overrides,
+});
+
+const times = (medications: MedicationRequest[], day: string) =>
+  dosesOn(medications, new Date(`${day}T00:00:00`)).map(dose => dose.time);
+
+describe('dosesOn', () => {
+  it('schedules an active order from the day it was written', () => {
+    expect(times([twiceDaily()], '2024-02-29')).toEqual([]);
+    expect(times([twiceDaily()], '2024-03-01')).toEqual(['08:00', '20:00']);
+    expect(times([twiceDaily()], '2024-09-01')).toEqual(['08:00', '20:00']);
+  });
+
+  it('keeps the past doses of an order stopped since', () => {
+    const stopped = twiceDaily({ status: 'stopped', meta: { lastUpdated: '2024-03-10T14:00:00Z' } });
+    expect(times([stopped], '2024-03-09')).toEqual(['08:00', '20:00']);
+    expect(times([stopped], '2024-03-10')).toEqual([]);
+  });
+
+  it('ends a completed order with its validity period', () => {
+    const completed = twiceDaily({
+      status: 'completed',
+      authoredOn: undefined,
+      dispenseRequest: { validityPeriod: { start: '2024-03-01', end: '2024-03-14' } },
+      meta: { lastUpdated: '2024-04-02T08:00:00Z' },
+    });
+    expect(times([completed], '2024-02-28')).toEqual([]);
+    expect(times([completed], '2024-03-14')).toEqual(['08:00', '20:00']);
+    expect(times([completed], '2024-03-15')).toEqual([]);
+  });
+
+  it('skips ended orders that say nothing about when', () => {
+    expect(times([twiceDaily({ status: 'stopped' })], '2024-03-05')).toEqual([]);
+  });
+
+  it('never schedules orders that did not take effect', () => {
+    const meta = { lastUpdated: '2024-04-01T00:00:00Z' };
+    expect(times([twiceDaily({ status: 'cancelled', meta }), twiceDaily({ status: 'entered-in-error', meta })], '2024-03-05')).toEqual([]);
+  });
+});
+
+describe('adherenceByDay', () => {
+  it('still counts doses due before a medicine was stopped', () => {
+    const stopped = twiceDaily({ status: 'stopped', meta: { lastUpdated: '2024-03-03T09:00:00Z' } });
+    const log = { 'rxnorm|314076|2024-03-01|08:00': '2024-03-01T08:05:00' };
+    expect(adherenceByDay([stopped], log, 3, new Date('2024-03-03T12:00:00'))).toEqual([
+      { day: '2024-03-01', due: 2, taken: 1 },
+      { day: '2024-03-02', due: 2, taken: 0 },
+      { day: '2024-03-03', due: 0, taken: 0 },
+    ]);
+  });
+});
+
+describe('timestamps', () => {
+  // Tests run in New York time (see jest.config.js)
+  it('are read on the local day', () => {
+    // 10pm on March 4th in New York, already the 5th in UTC
+    const bounded = twiceDaily({
+      dosageInstruction: [{
+        timing: { repeat: { frequency: 2, period: 1, periodUnit: 'd', boundsPeriod: { start: '2024-03-05T03:00:00Z' } } },
+      }],
+    });
+    expect(times([bounded], '2024-03-04')).toEqual(['08:00', '20:00']);
+
+    const stopped = twiceDaily({ status: 'stopped', meta: { lastUpdated: '2024-03-10T02:00:00Z' } });
+    expect(times([stopped], '2024-03-08')).toEqual(['08:00', '20:00']);
+    expect(times([stopped], '2024-03-09')).toEqual([]);
+  });
+});
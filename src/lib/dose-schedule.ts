@@ -0,0 +1,286 @@
+/**
+ * Dose Schedule
+ *
+ * A day's doses from each MedicationRequest's `timing.repeat`. If
+ * the EMR sends times of day, those are used. Otherwise a usual clock
+ * time is picked for the event (breakfast, bedtime) or for the frequency,
+ * e.g. 8am and 8pm for twice a day. Tapers follow their `sequence`, and
+ * as-needed medicines aren't scheduled. Orders count on the days they
+ * covered, so a medicine stopped since still has its past doses. Patients
+ * log the doses they take; adherence is the share of due doses they logged.
+ */
+
+import { addDays, addMonths, differenceInCalendarDays, differenceInCalendarMonths, format, lastDayOfMonth, parseISO, startOfDay } from 'date-fns';
+import type { Dosage, Duration, MedicationRequest, TimingRepeat } from 'fhir/r4';
+import { formatDose, periodUnitOf, timingRepeat } from './dosage';
+import { medicationKey, medicationName } from './med-reconciliation';
+
+export interface ScheduledDose {
+  /** Medication, day and time - stable across refetches so the log still matches */
+  id: string;
+  medicationKey: string;
+  name: string;
+  /** Local day, yyyy-MM-dd */
+  day: string;
+  /** Local time, HH:mm */
+  time: string;
+  /** e.g. "2 tablets", when the dosage says */
+  dose?: string;
+}
+
+/** When each dose was marked taken (ISO timestamp), by ScheduledDose id */
+export type DoseLog = Record<string, string>;
+
+export interface DayAdherence {
+  /** Local day, yyyy-MM-dd */
+  day: string;
+  /** Doses due by now - later ones today aren't missed yet */
+  due: number;
+  taken: number;
+}
+
+const BREAKFAST = '08:00';
+const LUNCH = '12:30';
+const DINNER = '18:30';
+
+// Usual clock times for EventTiming codes
+const EVENT_TIMES: Record<string, string[]> = {
+  WAKE: ['07:00'], MORN: ['08:00'], AFT: ['13:00'], EVE: ['18:00'], NIGHT: ['21:00'], HS: ['22:00'],
+  C: [BREAKFAST, LUNCH, DINNER], CM: [BREAKFAST], CD: [LUNCH], CV: [DINNER],
+  AC: [BREAKFAST, LUNCH, DINNER], ACM: [BREAKFAST], ACD: [LUNCH], ACV: [DINNER],
+  PC: [BREAKFAST, LUNCH, DINNER], PCM: [BREAKFAST], PCD: [LUNCH], PCV: [DINNER],
+};
+
+const WEEKDAY_CODES: NonNullable<TimingRepeat['dayOfWeek']> = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// With no start date, weekly doses fall on Mondays
+const WEEKLY_ANCHOR = new Date(2024, 0, 1);
+
+// The patient's local day - a timestamp's UTC date can be the day before or after
+const dayOf = (value?: string) => (value ? startOfDay(parseISO(value)) : undefined);
+
+const clock = (minutes: number) => {
+  const wrapped = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+};
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// Several a day spread over waking hours, 8am to 8pm
+const spreadTimes = (count: number) =>
+  count <= 1
+    ? ['08:00']
+    : Array.from({ length: Math.round(count) }, (_, index) => clock(480 + (index * 720) / (Math.round(count) - 1)));
+
+// "Every 6 hours" from 8am around the clock
+const intervalTimes = (minutes: number) =>
+  Array.from({ length: Math.floor(1440 / minutes) }, (_, index) => clock(480 + index * minutes)).sort();
+
+function eventTimes(event: string, offset = 0): string[] {
+  // The offset is minutes before an "AC" event and after any other
+  const shift = event.startsWith('AC') ? -offset : offset;
+  return (EVENT_TIMES[event] || []).map(time => clock(minutesOf(time) + shift));
+}
+
+/**
+ * Clock times on a dose day, or none when the timing isn't something a
+ * patient can be reminded of (every few minutes, an infusion)
+ */
+function timesOfDay(repeat: TimingRepeat): string[] {
+  if (repeat.timeOfDay?.length) return Array.from(new Set(repeat.timeOfDay.map(time => time.slice(0, 5)))).sort();
+
+  const fromEvents = (repeat.when || []).flatMap(event => eventTimes(event, repeat.offset));
+  if (fromEvents.length) return Array.from(new Set(fromEvents)).sort();
+
+  const frequency = repeat.frequency ?? 1;
+  const period = repeat.period ?? 1;
+  switch (repeat.periodUnit) {
+    case 'h':
+    case 'min': {
+      const every = (repeat.periodUnit === 'h' ? period * 60 : period) / frequency;
+      return every >= 60 ? intervalTimes(every) : [];
+    }
+    case 's':
+      return [];
+    case 'd':
+      return spreadTimes(frequency);
+    default:
+      // Weekly and monthly doses are once on their day
+      return spreadTimes(1);
+  }
+}
+
+function isDoseDay(repeat: TimingRepeat, day: Date, start?: Date): boolean {
+  if (repeat.dayOfWeek?.length && !repeat.dayOfWeek.includes(WEEKDAY_CODES[day.getDay()])) return false;
+
+  const period = Math.max(1, Math.round(repeat.period ?? 1));
+  const frequency = Math.max(1, Math.round(repeat.frequency ?? 1));
+  switch (repeat.periodUnit) {
+    case 'd':
+      return period === 1 || !start || differenceInCalendarDays(day, start) % period === 0;
+    case 'wk': {
+      const days = differenceInCalendarDays(day, start || WEEKLY_ANCHOR);
+      if (Math.floor(days / 7) % period !== 0) return false;
+      if (repeat.dayOfWeek?.length) return true;
+      // "Twice a week" - spread from the start day
+      const offsets = Array.from({ length: Math.min(frequency, 7) }, (_, index) => Math.floor((index * 7) / frequency));
+      return offsets.includes(((days % 7) + 7) % 7);
+    }
+    case 'mo':
+    case 'a': {
+      if (!start) return day.getDate() === 1;
+      const months = differenceInCalendarMonths(day, start);
+      if (months % (repeat.periodUnit === 'a' ? period * 12 : period) !== 0) return false;
+      // The 31st falls on the last day of shorter months
+      return day.getDate() === Math.min(start.getDate(), lastDayOfMonth(day).getDate());
+    }
+    default:
+      return true;
+  }
+}
+
+function addDuration(start: Date, duration?: Duration): Date | undefined {
+  const unit = periodUnitOf(duration?.code || duration?.unit);
+  const value = duration?.value;
+  if (value === undefined || !unit) return undefined;
+  switch (unit) {
+    case 'd': return addDays(start, Math.ceil(value));
+    case 'wk': return addDays(start, Math.ceil(value * 7));
+    case 'mo': return addMonths(start, Math.ceil(value));
+    case 'a': return addMonths(start, Math.ceil(value * 12));
+    case 'h': return addDays(start, Math.ceil(value / 24));
+    default: return addDays(start, 1);
+  }
+}
+
+interface ScheduledDosage {
+  dosage: Dosage;
+  repeat: TimingRepeat;
+  start?: Date;
+  /** First day with no doses */
+  end?: Date;
+}
+
+function scheduledDosage(dosage: Dosage, from?: Date): ScheduledDosage | null {
+  const repeat = timingRepeat(dosage.timing);
+  if (!repeat || dosage.asNeededBoolean || dosage.asNeededCodeableConcept) return null;
+
+  if (repeat.boundsPeriod) {
+    const start = dayOf(repeat.boundsPeriod.start) || from;
+    const end = dayOf(repeat.boundsPeriod.end);
+    return { dosage, repeat, start, end: end && addDays(end, 1) };
+  }
+  if (!from) return { dosage, repeat };
+
+  const bound = repeat.boundsDuration || repeat.boundsRange?.high;
+  if (bound) return { dosage, repeat, start: from, end: addDuration(from, bound) };
+
+  // "For 10 doses" - only countable for daily schedules
+  if (repeat.count !== undefined && repeat.periodUnit === 'd') {
+    const perDay = timesOfDay(repeat).length || 1;
+    const days = Math.ceil(repeat.count / perDay) * Math.max(1, Math.round(repeat.period ?? 1));
+    return { dosage, repeat, start: from, end: addDays(from, days) };
+  }
+  return { dosage, repeat, start: from };
+}
+
+/**
+ * Each schedulable dosage with the days it runs - a later `sequence`
+ * starts when the one before it ends
+ */
+function scheduledDosages(request: MedicationRequest): ScheduledDosage[] {
+  const authored = dayOf(request.authoredOn || request.dispenseRequest?.validityPeriod?.start);
+  const dosages = request.dosageInstruction || [];
+  const unsequenced = dosages
+    .filter(dosage => dosage.sequence === undefined)
+    .map(dosage => scheduledDosage(dosage, authored));
+
+  const sequences = Array.from(new Set(dosages.map(dosage => dosage.sequence).filter((sequence): sequence is number => sequence !== undefined)))
+    .sort((a, b) => a - b);
+  const sequenced: (ScheduledDosage | null)[] = [];
+  let start = authored;
+  for (const sequence of sequences) {
+    const step = dosages
+      .filter(dosage => dosage.sequence === sequence)
+      .map(dosage => scheduledDosage(dosage, start));
+    sequenced.push(...step);
+    const ends = step.map(scheduled => scheduled?.end);
+    // An open-ended step never hands over to the next
+    if (ends.some(end => !end)) break;
+    start = new Date(Math.max(...ends.map(end => end!.getTime())));
+  }
+
+  return [...unsequenced, ...sequenced].filter((scheduled): scheduled is ScheduledDosage => !!scheduled);
+}
+
+// Orders that never took effect
+const NEVER_STARTED = new Set(['cancelled', 'entered-in-error', 'draft']);
+
+/**
+ * Whether an order still applied on a day - its start is up to
+ * scheduledDosages. An ended order (stopped, completed, on hold) runs until
+ * its validity period ends or it last changed, whichever is first: the
+ * status says that it ended, not when. With neither date there's no telling
+ * which days it covered.
+ */
+function orderCovers(request: MedicationRequest, day: Date): boolean {
+  if (NEVER_STARTED.has(request.status)) return false;
+  if (request.status === 'active') return true;
+
+  const validityEnd = dayOf(request.dispenseRequest?.validityPeriod?.end);
+  const ends = [validityEnd && addDays(validityEnd, 1), dayOf(request.meta?.lastUpdated)]
+    .filter((end): end is Date => !!end);
+  return ends.length > 0 && day < new Date(Math.min(...ends.map(end => end.getTime())));
+}
+
+export const dayKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/** The dose's scheduled moment in local time */
+export const doseDueAt = (dose: ScheduledDose) => new Date(`${dose.day}T${dose.time}:00`);
+
+/**
+ * Every dose due on a day across the prescriptions that covered it, in
+ * time order. `medications` should already be de-duplicated across EMRs.
+ */
+export function dosesOn(medications: MedicationRequest[], date: Date): ScheduledDose[] {
+  const day = startOfDay(date);
+  const key = dayKey(day);
+  const doses = new Map<string, ScheduledDose>();
+
+  medications
+    .filter(request => orderCovers(request, day))
+    .forEach(request => {
+      const medication = medicationKey(request);
+      scheduledDosages(request).forEach(({ dosage, repeat, start, end }) => {
+        if ((start && day < start) || (end && day >= end) || !isDoseDay(repeat, day, start)) return;
+        timesOfDay(repeat).forEach(time => {
+          const id = `${medication}|${key}|${time}`;
+          if (doses.has(id)) return;
+          doses.set(id, { id, medicationKey: medication, name: medicationName(request), day: key, time, dose: formatDose(dosage) });
+        });
+      });
+    });
+
+  return Array.from(doses.values()).sort((a, b) => a.time.localeCompare(b.time) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Due and taken doses for each of the last `days` days, oldest first
+ */
+export function adherenceByDay(medications: MedicationRequest[], log: DoseLog, days: number, now = new Date()): DayAdherence[] {
+  return Array.from({ length: days }, (_, index) => {
+    const date = addDays(startOfDay(now), index - days + 1);
+    const due = dosesOn(medications, date).filter(dose => doseDueAt(dose) <= now);
+    return { day: dayKey(date), due: due.length, taken: due.filter(dose => log[dose.id]).length };
+  });
+}
+
+/** Percent of due doses taken, or undefined when none were due */
+export function adherenceRate(days: DayAdherence[]): number | undefined {
+  const due = days.reduce((sum, day) => sum + day.due, 0);
+  const taken = days.reduce((sum, day) => sum + day.taken, 0);
+  return due > 0 ? Math.round((taken / due) * 100) : undefined;
+}
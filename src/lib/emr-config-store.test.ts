@@ -0,0 +1,68 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import type { StoredEMRConfig } from '@/schemas/emrConfigSchema';
+import { JsonFileEMRConfigStore, requestHostname } from './emr-config-store';
+
+// The SDK behind the env configs doesn't load under Jest
+jest.mock('@/app/emr-configs', () => ({ getConfiguredEMRs: () => [] }));
+
+const request = (headers: Record<string, string>) =>
+  new NextRequest('http://localhost:3000/api/emr-configs', { headers });
+
+describe('requestHostname', () => {
+  afterEach(() => {
+    delete process.env.TRUST_PROXY;
+  });
+
+  it('ignores X-Forwarded-Host unless a proxy is trusted', () => {
+    delete process.env.TRUST_PROXY;
+    expect(requestHostname(request({ host: 'clinic-a.example.com', 'x-forwarded-host': 'clinic-b.example.com' })))
+      .toBe('clinic-a.example.com');
+  });
+
+  it('uses the hop the trusted proxy appended', () => {
+    process.env.TRUST_PROXY = 'true';
+    expect(requestHostname(request({ host: 'portal.internal:3000', 'x-forwarded-host': 'clinic-b.example.com, clinic-a.example.com:443' })))
+      .toBe('clinic-a.example.com');
+  });
+
+  it('falls back to Host behind a trusted proxy that sent nothing', () => {
+    process.env.TRUST_PROXY = 'true';
+    expect(requestHostname(request({ host: 'clinic-a.example.com:8443' }))).toBe('clinic-a.example.com');
+  });
+});
+
+describe('JsonFileEMRConfigStore', () => {
+  const envConfigs = [{ id: 'epic', name: 'Epic' }, { id: 'cerner', name: 'Cerner' }];
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'emr-configs-'));
+    filePath = path.join(dir, 'emr-configs.json');
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('serves the env configs until the file exists', async () => {
+    expect(await new JsonFileEMRConfigStore(filePath, () => envConfigs).list()).toEqual(envConfigs);
+  });
+
+  it('writes the env configs to the file on the first save', async () => {
+    const store = new JsonFileEMRConfigStore(filePath, () => envConfigs);
+    await store.save({ id: 'athena', name: 'athenahealth' } as StoredEMRConfig);
+    expect(JSON.parse(await fs.readFile(filePath, 'utf-8')).map((config: { id: string }) => config.id))
+      .toEqual(['epic', 'cerner', 'athena']);
+  });
+
+  it('reads only the file once it exists', async () => {
+    await fs.writeFile(filePath, JSON.stringify([{ id: 'athena' }]));
+    expect(await new JsonFileEMRConfigStore(filePath, () => envConfigs).list()).toEqual([{ id: 'athena' }]);
+  });
+});
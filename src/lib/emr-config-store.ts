@@ -0,0 +1,177 @@
+/**
+ * EMR Config Store (server only)
+ *
+ * Where /api/emr-configs reads provider configs from. The default is a JSON
+ * file (EMR_CONFIG_FILE, or config/emr-configs.json). Until that file exists
+ * the env-var based EMR_CONFIGS are served, and the first admin save writes
+ * them to the file along with the change. Set EMR_CONFIG_STORE=env to keep
+ * serving EMR_CONFIGS read-only. Swap in a database-backed store by
+ * implementing EMRConfigStore.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { NextRequest } from 'next/server';
+import { getConfiguredEMRs } from '@/app/emr-configs';
+import { storedEMRConfigSchema, type StoredEMRConfig } from '@/schemas/emrConfigSchema';
+
+export interface EMRConfigStore {
+  readOnly: boolean;
+  /** Raw entries - validated by loadEMRConfigs() */
+  list(): Promise<unknown[]>;
+  /** Create or replace the config with the same id */
+  save(config: StoredEMRConfig): Promise<void>;
+  /** Returns false if no config had that id */
+  remove(id: string): Promise<boolean>;
+}
+
+export class JsonFileEMRConfigStore implements EMRConfigStore {
+  readOnly = false;
+
+  /**
+   * @param seed - Configs to serve while the file doesn't exist; the first
+   * save writes them to it
+   */
+  constructor(private filePath: string, private seed: () => unknown[] = () => []) {}
+
+  async list(): Promise<unknown[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        const seeded = this.seed();
+        console.warn(`⚠️  EMR config file not found: ${this.filePath}${seeded.length ? ` - serving ${seeded.length} env config(s)` : ''}`);
+        return seeded;
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(contents);
+    if (!Array.isArray(parsed)) {
+      throw new Error(`${this.filePath} must contain an array of EMR configs`);
+    }
+    return parsed;
+  }
+
+  async save(config: StoredEMRConfig): Promise<void> {
+    const entries = await this.list();
+    const index = entries.findIndex(entry => (entry as { id?: string })?.id === config.id);
+    if (index >= 0) {
+      entries[index] = config;
+    } else {
+      entries.push(config);
+    }
+    await this.write(entries);
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const entries = await this.list();
+    const remaining = entries.filter(entry => (entry as { id?: string })?.id !== id);
+    if (remaining.length === entries.length) return false;
+    await this.write(remaining);
+    return true;
+  }
+
+  /**
+   * Write via a temp file so a crash mid-write can't leave half a JSON file
+   */
+  private async write(entries: unknown[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entries, null, 2) + '\n', 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+export class EnvEMRConfigStore implements EMRConfigStore {
+  readOnly = true;
+
+  async list(): Promise<unknown[]> {
+    return getConfiguredEMRs();
+  }
+
+  async save(): Promise<void> {
+    throw new Error('EMR configs come from environment variables and are read-only');
+  }
+
+  async remove(): Promise<boolean> {
+    throw new Error('EMR configs come from environment variables and are read-only');
+  }
+}
+
+let store: EMRConfigStore | null = null;
+
+export function getEMRConfigStore(): EMRConfigStore {
+  if (!store) {
+    store = process.env.EMR_CONFIG_STORE === 'env'
+      ? new EnvEMRConfigStore()
+      : new JsonFileEMRConfigStore(
+          path.resolve(process.cwd(), process.env.EMR_CONFIG_FILE || 'config/emr-configs.json'),
+          getConfiguredEMRs
+        );
+  }
+  return store;
+}
+
+/**
+ * Use a different store (database, tests, ...)
+ */
+export function setEMRConfigStore(customStore: EMRConfigStore): void {
+  store = customStore;
+}
+
+/**
+ * Load and validate every config; invalid ones are logged and skipped
+ */
+export async function loadEMRConfigs(configStore: EMRConfigStore = getEMRConfigStore()): Promise<StoredEMRConfig[]> {
+  const entries = await configStore.list();
+  const valid: StoredEMRConfig[] = [];
+
+  entries.forEach((entry, index) => {
+    const result = storedEMRConfigSchema.safeParse(entry);
+    if (result.success) {
+      valid.push(result.data);
+    } else {
+      const id = (entry as { id?: string })?.id || `#${index}`;
+      const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+      console.error(`❌ Invalid EMR config "${id}":`, issues.join('; '));
+    }
+  });
+
+  return valid;
+}
+
+// X-Forwarded-Host is whatever the client sent unless a proxy in front of
+// the portal sets it
+const trustsProxy = () => ['1', 'true'].includes((process.env.TRUST_PROXY || '').toLowerCase());
+
+/**
+ * Tenant hostname of a request, port dropped. Forwarded headers count only
+ * with TRUST_PROXY set, and then the hop our proxy appended (the last) wins.
+ */
+export function requestHostname(request: NextRequest): string {
+  const forwarded = trustsProxy() ? request.headers.get('x-forwarded-host')?.split(',').pop()?.trim() : undefined;
+  const host = forwarded || request.headers.get('host') || request.nextUrl.host;
+  return host.trim().split(':')[0];
+}
+
+/**
+ * Configs served to a hostname: ones listing it as a tenant, plus shared
+ * configs with no tenant list
+ */
+export function filterByTenant(configs: StoredEMRConfig[], hostname: string): StoredEMRConfig[] {
+  const host = hostname.toLowerCase();
+  return configs.filter(config =>
+    !config.tenants || config.tenants.length === 0 ||
+    config.tenants.some(tenant => tenant.toLowerCase() === host)
+  );
+}
+
+/**
+ * The config a tenant would see for `id`, or undefined
+ */
+export async function findTenantConfig(request: NextRequest, id: string): Promise<StoredEMRConfig | undefined> {
+  const configs = filterByTenant(await loadEMRConfigs(), requestHostname(request));
+  return configs.find(config => config.id === id);
+}
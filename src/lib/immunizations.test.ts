@@ -0,0 +1,115 @@
+import type { Immunization } from 'fhir/r4';
+import { IMMUNIZATION_SCHEDULE, type ImmunizationSchedule, type VaccineRecommendation } from '@/config/immunizationSchedule';
+import { CVX_SYSTEM, checkImmunizationSchedule } from './immunizations';
+
+const BIRTH_DATE = '2024-01-15';
+
+const recommendation = (id: string): VaccineRecommendation => {
+  const found = IMMUNIZATION_SCHEDULE.recommendations.find(entry => entry.id === id);
+  if (!found) throw new Error(`No ${id} in the schedule`);
+  return found;
+};
+
+const scheduleOf = (...recommendations: VaccineRecommendation[]): ImmunizationSchedule => ({
+  version: 'test',
+  source: 'test',
+  recommendations,
+});
+
+let nextId = 0;
+const dose = (code: string, date: string, overrides: Partial<Immunization> = {}): Immunization => ({
+  resourceType: 'Immunization',
+  id: `imm-${++nextId}`,
+  status: 'completed',
+  vaccineCode: { coding: [{ system: CVX_SYSTEM, code }] },
+  patient: { reference: 'Patient/example' },
+  occurrenceDateTime: date,
+  ...overrides,
+});
+
+const check = (schedule: ImmunizationSchedule, immunizations: Immunization[], today: string) =>
+  checkImmunizationSchedule(BIRTH_DATE, immunizations, { schedule, today: new Date(`${today}T12:00:00`) });
+
+describe('checkImmunizationSchedule', () => {
+  describe('an infant series', () => {
+    const hepb = scheduleOf(recommendation('hepb'));
+
+    it('is due from birth', () => {
+      expect(check(hepb, [], '2024-01-20')).toMatchObject([
+        { status: 'due', dosesReceived: 0, dosesRequired: 3, dueDate: new Date(2024, 0, 15) },
+      ]);
+    });
+
+    it('shows the next dose as upcoming until its window opens', () => {
+      expect(check(hepb, [dose('08', '2024-01-15')], '2024-01-20')).toMatchObject([
+        { status: 'upcoming', dosesReceived: 1, dueDate: new Date(2024, 1, 15) },
+      ]);
+    });
+
+    it('is due inside the window and overdue once it closes', () => {
+      const doses = [dose('08', '2024-01-15')];
+      expect(check(hepb, doses, '2024-02-20')).toMatchObject([{ status: 'due', dueDate: new Date(2024, 1, 15) }]);
+      expect(check(hepb, doses, '2024-05-01')).toMatchObject([{ status: 'overdue', dueDate: new Date(2024, 1, 15) }]);
+    });
+
+    it('is complete once every dose is in, combination vaccines included', () => {
+      const doses = [dose('08', '2024-01-15'), dose('110', '2024-02-20'), dose('110', '2024-07-20')];
+      expect(check(hepb, doses, '2024-08-01')).toMatchObject([
+        { status: 'complete', dosesReceived: 3, dosesRequired: 3, lastDoseDate: '2024-07-20' },
+      ]);
+    });
+
+    it('counts a dose once when several EMRs report it', () => {
+      const fromTwoEMRs = [
+        dose('08', '2024-01-15', { meta: { source: 'https://emr-a.example' } }),
+        dose('08', '2024-01-15', { meta: { source: 'https://emr-b.example' } }),
+      ];
+      expect(check(hepb, fromTwoEMRs, '2024-02-20')).toMatchObject([{ status: 'due', dosesReceived: 1 }]);
+    });
+
+    it('ignores doses that were not given', () => {
+      expect(check(hepb, [dose('08', '2024-01-15', { status: 'not-done' })], '2024-01-20')).toMatchObject([
+        { status: 'due', dosesReceived: 0 },
+      ]);
+    });
+  });
+
+  describe('age cut-offs', () => {
+    it('stops checking a series past its maximum age', () => {
+      const rotavirus = scheduleOf(recommendation('rotavirus'));
+      expect(check(rotavirus, [], '2024-09-15')).toMatchObject([{ status: 'overdue' }]);
+      expect(check(rotavirus, [], '2024-10-15')).toEqual([]);
+    });
+
+    it('still shows a finished series as complete past its maximum age', () => {
+      const rotavirus = scheduleOf(recommendation('rotavirus'));
+      const doses = [dose('116', '2024-03-15'), dose('116', '2024-05-15'), dose('116', '2024-07-15')];
+      expect(check(rotavirus, doses, '2026-01-15')).toMatchObject([{ status: 'complete' }]);
+    });
+
+    it('leaves out a recurring vaccine until its start age is near', () => {
+      const influenza = scheduleOf(recommendation('influenza'));
+      expect(check(influenza, [], '2024-03-01')).toEqual([]);
+      expect(check(influenza, [], '2024-05-01')).toMatchObject([{ status: 'upcoming', dueDate: new Date(2024, 6, 15) }]);
+      expect(check(influenza, [], '2024-08-01')).toMatchObject([{ status: 'due' }]);
+    });
+
+    it('repeats a recurring vaccine after its interval', () => {
+      const influenza = scheduleOf(recommendation('influenza'));
+      const doses = [dose('150', '2024-09-01')];
+      expect(check(influenza, doses, '2025-03-01')).toMatchObject([{ status: 'complete', dueDate: new Date(2025, 8, 1) }]);
+      expect(check(influenza, doses, '2025-07-01')).toMatchObject([{ status: 'upcoming' }]);
+      expect(check(influenza, doses, '2025-09-02')).toMatchObject([{ status: 'overdue' }]);
+    });
+
+    it('stops checking a recurring vaccine past its maximum age', () => {
+      const seasonal = scheduleOf({ id: 'seasonal', name: 'Seasonal', cvx: ['150'], repeatEveryMonths: 12, maxAgeMonths: 19 });
+      expect(check(seasonal, [], '2025-08-15')).toMatchObject([{ status: 'due' }]);
+      expect(check(seasonal, [], '2025-09-15')).toEqual([]);
+    });
+  });
+
+  it('checks nothing without a birth date', () => {
+    expect(checkImmunizationSchedule(undefined, [], { today: new Date(2024, 5, 1) })).toEqual([]);
+  });
+});
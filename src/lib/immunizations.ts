@@ -0,0 +1,168 @@
+/**
+ * Immunization Helpers
+ *
+ * Display values for Immunization records and the schedule gap check that
+ * compares them with the bundled recommendation table
+ * (config/immunizationSchedule) using the patient's birth date.
+ */
+
+import type { Immunization } from 'fhir/r4';
+import {
+  IMMUNIZATION_SCHEDULE,
+  type ImmunizationSchedule,
+  type VaccineRecommendation,
+} from '@/config/immunizationSchedule';
+import { reconcile } from './reconcile';
+
+export const CVX_SYSTEM = 'http://hl7.org/fhir/sid/cvx';
+
+// How far ahead a dose counts as upcoming
+const UPCOMING_WINDOW_MONTHS = 3;
+
+/**
+ * - `overdue`: past the recommended age window, or a recurring dose has lapsed
+ * - `due`: inside the window now, or a recurring dose was never recorded
+ * - `upcoming`: due within the next few months
+ * - `complete`: every dose in the series is on record
+ */
+export type ScheduleStatus = 'overdue' | 'due' | 'upcoming' | 'complete';
+
+export interface ScheduleResult {
+  recommendation: VaccineRecommendation;
+  status: ScheduleStatus;
+  dosesReceived: number;
+  /** Series length - undefined for recurring vaccines */
+  dosesRequired?: number;
+  /** When the next dose is (or was) due */
+  dueDate?: Date;
+  lastDoseDate?: string;
+}
+
+const STATUS_ORDER: ScheduleStatus[] = ['overdue', 'due', 'upcoming', 'complete'];
+
+export function cvxCode(immunization: Immunization): string | undefined {
+  return immunization.vaccineCode?.coding?.find(coding => coding.system === CVX_SYSTEM)?.code;
+}
+
+export function vaccineName(immunization: Immunization): string {
+  return immunization.vaccineCode?.text || immunization.vaccineCode?.coding?.[0]?.display || 'Unknown vaccine';
+}
+
+export function occurrenceDate(immunization: Immunization): string | undefined {
+  return immunization.occurrenceDateTime;
+}
+
+export function occurrenceText(immunization: Immunization): string {
+  if (immunization.occurrenceDateTime) {
+    return new Date(immunization.occurrenceDateTime).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+  }
+  return immunization.occurrenceString || 'Date unknown';
+}
+
+export function performerNames(immunization: Immunization): string[] {
+  return (immunization.performer || []).map(performer => performer.actor.display || '').filter(Boolean);
+}
+
+/**
+ * Why a not-done immunization wasn't given, if recorded
+ */
+export function notDoneReason(immunization: Immunization): string | undefined {
+  return immunization.statusReason?.text || immunization.statusReason?.coding?.[0]?.display;
+}
+
+export function isDisplayableImmunization(immunization: Immunization): boolean {
+  return immunization.status !== 'entered-in-error';
+}
+
+/**
+ * Only doses actually given count towards the schedule
+ */
+export function isAdministered(immunization: Immunization): boolean {
+  return immunization.status === 'completed';
+}
+
+// Some EMRs drop the leading zero ("3" for MMR's "03")
+const normalizeCvx = (code: string) => code.trim().replace(/^0+(?=\d)/, '');
+
+// FHIR dates can be partial (YYYY or YYYY-MM) - take the earliest day they cover
+function parseDate(value: string): Date {
+  const [year, month = '01', day = '01'] = value.slice(0, 10).split('-');
+  return new Date(Number(year), Number(month) - 1, Number(day));
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+function monthsBetween(from: Date, to: Date): number {
+  const months = (to.getFullYear() - from.getFullYear()) * 12 + (to.getMonth() - from.getMonth());
+  return to.getDate() < from.getDate() ? months - 1 : months;
+}
+
+function checkRecommendation(
+  recommendation: VaccineRecommendation,
+  doses: Immunization[],
+  birth: Date,
+  today: Date
+): ScheduleResult | null {
+  const ageMonths = monthsBetween(birth, today);
+  const upcomingBy = addMonths(today, UPCOMING_WINDOW_MONTHS);
+  const lastDoseDate = doses.map(occurrenceDate).filter((date): date is string => !!date).sort().pop();
+  const base = { recommendation, dosesReceived: doses.length, lastDoseDate };
+  const pastMaxAge = recommendation.maxAgeMonths !== undefined && ageMonths > recommendation.maxAgeMonths;
+
+  if (recommendation.repeatEveryMonths) {
+    if (pastMaxAge) return null;
+    const startDate = addMonths(birth, recommendation.startMonths ?? 0);
+    if (startDate > today) {
+      return startDate <= upcomingBy ? { ...base, status: 'upcoming', dueDate: startDate } : null;
+    }
+    if (!lastDoseDate) return { ...base, status: 'due' };
+
+    const dueDate = addMonths(parseDate(lastDoseDate), recommendation.repeatEveryMonths);
+    if (dueDate <= today) return { ...base, status: 'overdue', dueDate };
+    return { ...base, status: dueDate <= upcomingBy ? 'upcoming' : 'complete', dueDate };
+  }
+
+  const series = recommendation.doses || [];
+  const dosesRequired = series.length;
+  if (doses.length >= dosesRequired) return { ...base, status: 'complete', dosesRequired };
+  if (pastMaxAge) return null;
+
+  const next = series[doses.length];
+  const dueDate = addMonths(birth, next.fromMonths);
+  if (addMonths(birth, next.toMonths) < today) return { ...base, status: 'overdue', dosesRequired, dueDate };
+  if (dueDate <= today) return { ...base, status: 'due', dosesRequired, dueDate };
+  if (dueDate <= upcomingBy) return { ...base, status: 'upcoming', dosesRequired, dueDate };
+  return null;
+}
+
+/**
+ * Compare the patient's immunizations with the schedule. Copies of the same
+ * dose from several EMRs are counted once. Recommendations that don't apply
+ * at the patient's age are left out; without a birth date nothing is checked.
+ */
+export function checkImmunizationSchedule(
+  birthDate: string | undefined,
+  immunizations: Immunization[],
+  { schedule = IMMUNIZATION_SCHEDULE, today = new Date() }: { schedule?: ImmunizationSchedule; today?: Date } = {}
+): ScheduleResult[] {
+  if (!birthDate) return [];
+
+  const birth = parseDate(birthDate);
+  const administered = reconcile(immunizations.filter(isAdministered), 'Immunization').map(entry => entry.resource);
+
+  return schedule.recommendations
+    .map(recommendation => {
+      const codes = new Set(recommendation.cvx.map(normalizeCvx));
+      const doses = administered.filter(immunization => {
+        const code = cvxCode(immunization);
+        return !!code && codes.has(normalizeCvx(code));
+      });
+      return checkRecommendation(recommendation, doses, birth, today);
+    })
+    .filter((result): result is ScheduleResult => !!result)
+    .sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status));
+}
@@ -0,0 +1,98 @@
+import type { AllergyIntolerance, MedicationRequest } from 'fhir/r4';
+import { INTERACTION_TABLE } from '@/config/drugInteractions';
+import { checkInteractions, medicationIngredients } from './interactions';
+
+const RXNORM = 'http://www.nlm.nih.gov/research/umls/rxnorm';
+
+const prescription = (id: string, code: string, display: string): MedicationRequest => ({
+  resourceType: 'MedicationRequest',
+  id,
+  status: 'active',
+  intent: 'order',
+  subject: { reference: 'Patient/example' },
+  medicationCodeableConcept: { coding: [{ system: RXNORM, code, display }] },
+});
+
+const ingredientNames = (request: MedicationRequest) => medicationIngredients(request).map(ingredient => ingredient.name);
+
+describe('medicationIngredients', () => {
+  it('maps an ingredient RxCUI', () => {
+    expect(ingredientNames(prescription('a', '11289', 'warfarin'))).toEqual(['warfarin']);
+  });
+
+  it('maps clinical and branded drug RxCUIs to their ingredients', () => {
+    // Codes only - no display to fall back on
+    expect(ingredientNames(prescription('a', '309362', ''))).toEqual(['clopidogrel']);
+    expect(ingredientNames(prescription('b', '213169', ''))).toEqual(['clopidogrel']);
+  });
+
+  it('maps a combination product to each ingredient', () => {
+    expect(ingredientNames(prescription('a', '198335', ''))).toEqual(['sulfamethoxazole', 'trimethoprim']);
+  });
+
+  it('resolves a contained Medication and its ingredients', () => {
+    const request: MedicationRequest = {
+      resourceType: 'MedicationRequest',
+      status: 'active',
+      intent: 'order',
+      subject: { reference: 'Patient/example' },
+      medicationReference: { reference: '#med' },
+      contained: [{
+        resourceType: 'Medication',
+        id: 'med',
+        code: { coding: [{ system: 'urn:oid:2.16.840.1.113883.6.69', code: '00000-0000-00' }] },
+        ingredient: [{ itemCodeableConcept: { coding: [{ system: RXNORM, code: '36567' }] } }],
+      }],
+    };
+    expect(ingredientNames(request)).toEqual(['simvastatin']);
+  });
+
+  it('still matches by name when the code is unknown', () => {
+    expect(ingredientNames(prescription('a', '999999', 'Eliquis 5 MG Oral Tablet'))).toEqual(['apixaban']);
+  });
+});
+
+describe('checkInteractions', () => {
+  it('finds interactions between product-coded prescriptions', () => {
+    const findings = checkInteractions([
+      prescription('a', '855332', ''),
+      prescription('b', '198335', ''),
+    ]);
+    expect(findings.map(finding => finding.id)).toEqual([expect.stringMatching(/^warfarin-sulfamethoxazole\|/)]);
+  });
+
+  it('reports one finding per pair, the most severe', () => {
+    const findings = checkInteractions([
+      prescription('a', '243670', 'Aspirin 81 MG Oral Tablet'),
+      prescription('b', '855332', 'Warfarin Sodium 5 MG Oral Tablet'),
+    ]);
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ severity: 'major', id: expect.stringMatching(/^anticoagulant-antiplatelet\|/) });
+  });
+
+  it('keeps the more severe of two rules for a pair', () => {
+    // A looser moderate rule listed ahead of simvastatin-cyp3a4 (contraindicated)
+    const findings = checkInteractions([
+      prescription('a', '36567', 'simvastatin'),
+      prescription('b', '21212', 'clarithromycin'),
+    ], [], {
+      ...INTERACTION_TABLE,
+      interactions: [
+        { id: 'statin-macrolide', between: ['statin', '21212'], severity: 'moderate', mechanism: '', advice: '' },
+        ...INTERACTION_TABLE.interactions,
+      ],
+    });
+    expect(findings.map(finding => finding.severity)).toEqual(['contraindicated']);
+  });
+
+  it('checks product-coded prescriptions against allergies', () => {
+    const allergy: AllergyIntolerance = {
+      resourceType: 'AllergyIntolerance',
+      patient: { reference: 'Patient/example' },
+      code: { text: 'Penicillin' },
+    };
+    const findings = checkInteractions([prescription('a', '308182', '')], [allergy]);
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ kind: 'drug-allergy', severity: 'contraindicated' });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Interaction Checker
+ *
+ * Maps each current prescription to RxNorm ingredients - by ingredient or
+ * product RxCUI, including a contained Medication's ingredients, or else by
+ * ingredient or brand name in the medication's text. Every pair
+ * is then checked against the bundled table (config/drugInteractions).
+ * Current allergies are checked too: against the same ingredient, and
+ * against the table's class conflicts, e.g. a penicillin allergy and
+ * amoxicillin.
+ */
+
+import type { AllergyIntolerance, CodeableConcept, Coding, Medication, MedicationRequest } from 'fhir/r4';
+import {
+  INTERACTION_TABLE,
+  type Ingredient,
+  type InteractionSeverity,
+  type InteractionTable,
+} from '@/config/drugInteractions';
+import { isCurrentAllergy, substanceName } from './allergies';
+import { isCurrentRequest, medicationKey, medicationName } from './med-reconciliation';
+
+const RXNORM = 'http://www.nlm.nih.gov/research/umls/rxnorm';
+
+export type InteractionKind = 'drug-drug' | 'drug-allergy';
+
+export interface InteractionFinding {
+  /** Rule and medications - copies of a prescription from several EMRs give one finding */
+  id: string;
+  kind: InteractionKind;
+  severity: InteractionSeverity;
+  mechanism: string;
+  advice: string;
+  /** medicationKey() of each prescription involved */
+  medicationKeys: string[];
+  medicationNames: string[];
+  /** The allergy's substance, for drug-allergy findings */
+  allergy?: string;
+  tableVersion: string;
+}
+
+export const SEVERITY_LABELS: Record<InteractionSeverity, string> = {
+  contraindicated: 'Do not combine',
+  major: 'Major',
+  moderate: 'Moderate',
+};
+
+const SEVERITY_ORDER: InteractionSeverity[] = ['contraindicated', 'major', 'moderate'];
+
+export const compareSeverity = (a: InteractionSeverity, b: InteractionSeverity) =>
+  SEVERITY_ORDER.indexOf(a) - SEVERITY_ORDER.indexOf(b);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words, plurals allowed - "statins", not "nystatin"
+const mentions = (text: string, name: string) => new RegExp(`\\b${escapeRegExp(name)}s?\\b`, 'i').test(text);
+
+function ingredientsIn(codings: Coding[], texts: (string | undefined)[], table: InteractionTable): Ingredient[] {
+  const codes = new Set(codings.filter(coding => coding.system === RXNORM && coding.code).map(coding => coding.code));
+  const text = texts.filter(Boolean).join(' ');
+  return table.ingredients.filter(ingredient =>
+    codes.has(ingredient.rxcui) ||
+    (ingredient.products || []).some(product => codes.has(product)) ||
+    [ingredient.name, ...(ingredient.synonyms || [])].some(name => mentions(text, name))
+  );
+}
+
+/**
+ * The table's ingredients in a prescription - several for combination
+ * products
+ */
+export function medicationIngredients(medication: MedicationRequest, table = INTERACTION_TABLE): Ingredient[] {
+  const reference = medication.medicationReference?.reference;
+  const contained = medication.contained?.find((resource): resource is Medication =>
+    resource.resourceType === 'Medication' && `#${resource.id}` === reference
+  );
+  const concepts: (CodeableConcept | undefined)[] = [
+    medication.medicationCodeableConcept,
+    contained?.code,
+    ...(contained?.ingredient || []).map(ingredient => ingredient.itemCodeableConcept),
+  ];
+  const codings = concepts.flatMap(concept => concept?.coding || []);
+  const texts = [...concepts.map(concept => concept?.text), ...codings.map(coding => coding.display), medication.medicationReference?.display];
+  return ingredientsIn(codings, texts, table);
+}
+
+function allergyProfile(allergy: AllergyIntolerance, table: InteractionTable) {
+  const concepts = [allergy.code, ...(allergy.reaction || []).map(reaction => reaction.substance)];
+  const codings = concepts.flatMap(concept => concept?.coding || []);
+  const texts = [...concepts.map(concept => concept?.text), ...codings.map(coding => coding.display)];
+  const ingredients = ingredientsIn(codings, texts, table);
+  const text = texts.filter(Boolean).join(' ');
+  const classes = new Set([
+    ...ingredients.flatMap(ingredient => ingredient.classes),
+    ...table.classes.filter(drugClass => drugClass.keywords.some(keyword => mentions(text, keyword))).map(drugClass => drugClass.id),
+  ]);
+  return { ingredients, classes };
+}
+
+// A rule side is an ingredient RxCUI or a class id
+const selects = (selector: string, ingredients: Ingredient[]) =>
+  ingredients.some(ingredient => ingredient.rxcui === selector || ingredient.classes.includes(selector));
+
+/**
+ * Drug-drug and drug-allergy findings for the patient's current
+ * prescriptions, most severe first. Allergies are optional - leave them
+ * out when they couldn't be fetched.
+ */
+export function checkInteractions(
+  medications: MedicationRequest[],
+  allergies: AllergyIntolerance[] = [],
+  table = INTERACTION_TABLE
+): InteractionFinding[] {
+  const seen = new Set<string>();
+  const prescriptions = medications.filter(isCurrentRequest).flatMap(request => {
+    const key = medicationKey(request);
+    if (seen.has(key)) return [];
+    seen.add(key);
+    return [{ key, name: medicationName(request), ingredients: medicationIngredients(request, table) }];
+  }).filter(prescription => prescription.ingredients.length > 0);
+
+  const findings: InteractionFinding[] = [];
+
+  prescriptions.forEach((first, index) => {
+    prescriptions.slice(index + 1).forEach(second => {
+      // One finding per pair - aspirin is an antiplatelet and an NSAID, but
+      // with warfarin that's one warning. Ties go to the earlier rule.
+      const rule = table.interactions
+        .filter(({ between: [a, b] }) =>
+          (selects(a, first.ingredients) && selects(b, second.ingredients)) ||
+          (selects(b, first.ingredients) && selects(a, second.ingredients))
+        )
+        .sort((a, b) => compareSeverity(a.severity, b.severity))[0];
+      if (!rule) return;
+      findings.push({
+        id: `${rule.id}|${[first.key, second.key].sort().join('|')}`,
+        kind: 'drug-drug',
+        severity: rule.severity,
+        mechanism: rule.mechanism,
+        advice: rule.advice,
+        medicationKeys: [first.key, second.key],
+        medicationNames: [first.name, second.name],
+        tableVersion: table.version,
+      });
+    });
+  });
+
+  allergies.filter(isCurrentAllergy).forEach(allergy => {
+    const profile = allergyProfile(allergy, table);
+    const substance = substanceName(allergy);
+    prescriptions.forEach(prescription => {
+      const finding = {
+        kind: 'drug-allergy' as const,
+        medicationKeys: [prescription.key],
+        medicationNames: [prescription.name],
+        allergy: substance,
+        tableVersion: table.version,
+      };
+
+      const same = prescription.ingredients.find(ingredient => profile.ingredients.includes(ingredient));
+      if (same) {
+        findings.push({
+          ...finding,
+          id: `allergy-ingredient|${prescription.key}|${substance.toLowerCase()}`,
+          severity: 'contraindicated',
+          mechanism: `${prescription.name} contains ${same.name}, which you have an allergy recorded to.`,
+          advice: 'Check with your prescriber before taking this.',
+        });
+        return;
+      }
+
+      // The most severe conflict is the one worth raising
+      const conflict = table.allergyConflicts
+        .filter(rule => profile.classes.has(rule.allergyClass) && selects(rule.drugClass, prescription.ingredients))
+        .sort((a, b) => compareSeverity(a.severity, b.severity))[0];
+      if (conflict) {
+        findings.push({
+          ...finding,
+          id: `${conflict.id}|${prescription.key}|${substance.toLowerCase()}`,
+          severity: conflict.severity,
+          mechanism: conflict.mechanism,
+          advice: conflict.advice,
+        });
+      }
+    });
+  });
+
+  // Two allergy records for the same substance are one finding
+  const unique = new Map(findings.map(finding => [finding.id, finding]));
+  return Array.from(unique.values()).sort((a, b) => compareSeverity(a.severity, b.severity));
+}
@@ -0,0 +1,95 @@
+/**
+ * Lab Panels
+ *
+ * Groups lab Observations under the DiagnosticReport that lists them in
+ * `result`, so a CBC reads as one panel instead of a dozen unrelated results.
+ * Observations no report claims are returned separately.
+ */
+
+import type { DiagnosticReport, Observation, Reference } from 'fhir/r4';
+import { getSource } from './merge-records';
+import { reconcile, type ReconciledEntry } from './reconcile';
+
+export interface LabPanel {
+  entry: ReconciledEntry<DiagnosticReport>;
+  /** Results found among the fetched Observations, in report order */
+  results: Observation[];
+  /** References the report lists that weren't among them */
+  missingCount: number;
+}
+
+// Lab is "LAB" in the v2-0074 value set; some EMRs send "laboratory"
+const LAB_CATEGORY_CODES = new Set(['lab', 'laboratory']);
+
+// Observations are only matched within the EMR they came from - ids aren't unique across EMRs
+const resourceKey = (source: string | undefined, resourceType: string, id: string | undefined) =>
+  `${source ?? ''}|${resourceType}/${id ?? ''}`;
+
+function referenceKey(reference: Reference, source: string | undefined): string | null {
+  // Absolute URLs and version suffixes: keep "Type/id"
+  const match = reference.reference?.match(/([A-Za-z]+)\/([^/]+?)(?:\/_history\/[^/]+)?$/);
+  return match ? resourceKey(source, match[1], match[2]) : null;
+}
+
+export function isLabReport(report: DiagnosticReport): boolean {
+  return (report.category || []).some(category =>
+    (category.coding || []).some(coding => !!coding.code && LAB_CATEGORY_CODES.has(coding.code.toLowerCase()))
+  );
+}
+
+export function reportName(report: DiagnosticReport): string {
+  return report.code?.text || report.code?.coding?.[0]?.display || 'Lab panel';
+}
+
+export function reportDate(report: DiagnosticReport): string | undefined {
+  return report.effectiveDateTime || report.effectivePeriod?.start || report.issued;
+}
+
+/**
+ * Who ordered the panel - from the order it was based on, else a practitioner among the performers
+ */
+export function orderingProvider(report: DiagnosticReport): string | undefined {
+  const practitioner = (report.performer || []).find(performer =>
+    performer.type === 'Practitioner' || performer.reference?.includes('Practitioner')
+  );
+  return report.basedOn?.[0]?.display || practitioner?.display;
+}
+
+/**
+ * Split `observations` into report panels and the results no report lists.
+ * Copies of the same report from several EMRs become one panel.
+ */
+export function groupLabPanels(
+  reports: DiagnosticReport[],
+  observations: Observation[]
+): { panels: LabPanel[]; ungrouped: Observation[] } {
+  const byKey = new Map(observations.map(observation =>
+    [resourceKey(getSource(observation)?.code, 'Observation', observation.id), observation] as const
+  ));
+  const grouped = new Set<Observation>();
+
+  const panels = reconcile(reports.filter(report => report.status !== 'entered-in-error'), 'DiagnosticReport')
+    .map(entry => {
+      const results: Observation[] = [];
+      let missingCount = 0;
+      // Any copy may be the one whose results were fetched
+      entry.sources.forEach(report => {
+        (report.result || []).forEach(reference => {
+          const key = referenceKey(reference, getSource(report)?.code);
+          const observation = key ? byKey.get(key) : undefined;
+          if (observation) {
+            grouped.add(observation);
+            results.push(observation);
+          } else if (report === entry.resource) {
+            missingCount++;
+          }
+        });
+      });
+      // The same result from two EMRs shows once
+      return { entry, results: reconcile(results, 'Observation').map(match => match.resource), missingCount };
+    })
+    .filter(panel => panel.results.length > 0 || isLabReport(panel.entry.resource))
+    .sort((a, b) => new Date(reportDate(b.entry.resource) || 0).getTime() - new Date(reportDate(a.entry.resource) || 0).getTime());
+
+  return { panels, ungrouped: observations.filter(observation => !grouped.has(observation)) };
+}
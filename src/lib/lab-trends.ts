@@ -0,0 +1,127 @@
+/**
+ * Lab Trends
+ *
+ * Lab results grouped by analyte, oldest first, so each test reads as a
+ * history instead of a pile of unrelated cards. Results are keyed by LOINC
+ * code where the EMR sent one, so the same test from two labs (or two EMRs)
+ * lines up. Values are charted in canonical units, mmol/L glucose in mg/dL
+ * (see ./units); ones that don't convert to the latest result's unit aren't
+ * charted.
+ */
+
+import type { Observation } from 'fhir/r4';
+import { checkReferenceRange, type PatientDemographics, type RangeCheck, type ResolvedRange } from './reference-ranges';
+import { molarAnalyte, normalizeQuantity, ucumCode } from './units';
+
+const LOINC = 'http://loinc.org';
+
+export interface LabPoint {
+  observation: Observation;
+  /** When the specimen was taken, else when the result was issued */
+  date?: string;
+  /** In the trend's unit - undefined when the result isn't numeric or is in another unit */
+  value?: number;
+  check: RangeCheck;
+}
+
+export interface LabTrend {
+  key: string;
+  name: string;
+  loinc?: string;
+  /** Unit every charted value is in, as the EMR labels it */
+  unit?: string;
+  /** Oldest first */
+  points: LabPoint[];
+  latest: LabPoint;
+  /** The charted result before the latest, for the delta */
+  previous?: LabPoint;
+  /** latest - previous, in the trend's unit */
+  delta?: number;
+  /** The latest result's range, when it has bounds - drawn as the band */
+  range?: ResolvedRange;
+}
+
+export function labResultDate(observation: Observation): string | undefined {
+  return observation.effectiveDateTime || observation.effectivePeriod?.start || observation.issued;
+}
+
+export function labResultName(observation: Observation): string {
+  return observation.code?.text || observation.code?.coding?.[0]?.display || 'Unknown Test';
+}
+
+// LOINC first; otherwise the EMR's own code, else the name
+function analyteKey(observation: Observation): { key: string; loinc?: string } {
+  const codings = observation.code?.coding || [];
+  const loinc = codings.find(coding => coding.system === LOINC && coding.code)?.code;
+  if (loinc) return { key: `${LOINC}|${loinc}`, loinc };
+  const local = codings.find(coding => coding.code);
+  if (local) return { key: `${local.system ?? ''}|${local.code}` };
+  return { key: `text|${labResultName(observation).toLowerCase()}` };
+}
+
+// Canonical where the unit is one we convert, else the unit as sent
+function unitKey(observation: Observation, analyte?: string): string | undefined {
+  if (!observation.valueQuantity) return undefined;
+  const quantity = normalizeQuantity(observation.valueQuantity, analyte);
+  return ucumCode(quantity) || quantity.unit;
+}
+
+// Differences of decimals come out as 0.30000000000000004
+const roundDelta = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * One trend per analyte, the most recently tested first
+ */
+export function labTrends(observations: Observation[], patient?: PatientDemographics): LabTrend[] {
+  const groups = new Map<string, { loinc?: string; observations: Observation[] }>();
+  observations
+    .filter(observation => observation.status !== 'entered-in-error' && observation.status !== 'cancelled')
+    .forEach(observation => {
+      const { key, loinc } = analyteKey(observation);
+      const group = groups.get(key) || { loinc, observations: [] };
+      group.observations.push(observation);
+      groups.set(key, group);
+    });
+
+  const trends = Array.from(groups.entries()).map(([key, group]): LabTrend => {
+    const dated = group.observations
+      .map(observation => ({ observation, date: labResultDate(observation) }))
+      .sort((a, b) => (a.date || '').localeCompare(b.date || ''));
+    const latestObservation = dated[dated.length - 1].observation;
+    const analyte = group.loinc && molarAnalyte([group.loinc]);
+    const unit = unitKey(latestObservation, analyte);
+
+    const points: LabPoint[] = dated.map(({ observation, date }) => {
+      const quantity = observation.valueQuantity && normalizeQuantity(observation.valueQuantity, analyte);
+      const charted = quantity?.value !== undefined && unitKey(observation, analyte) === unit;
+      return {
+        observation,
+        date,
+        value: charted ? quantity?.value : undefined,
+        check: checkReferenceRange(observation, patient),
+      };
+    });
+
+    const latest = points[points.length - 1];
+    const charted = points.filter(point => point.value !== undefined);
+    const previous = latest.value !== undefined && charted.length > 1 ? charted[charted.length - 2] : undefined;
+    const range = latest.check.range;
+
+    return {
+      key,
+      name: labResultName(latestObservation),
+      loinc: group.loinc,
+      unit: latestObservation.valueQuantity && normalizeQuantity(latestObservation.valueQuantity, analyte).unit,
+      points,
+      latest,
+      previous,
+      delta: previous && latest.value !== undefined && previous.value !== undefined
+        ? roundDelta(latest.value - previous.value)
+        : undefined,
+      // Resolved against the latest result's unit already; free text has no bounds to draw
+      range: range && (range.low !== undefined || range.high !== undefined) ? range : undefined,
+    };
+  });
+
+  return trends.sort((a, b) => (b.latest.date || '').localeCompare(a.latest.date || ''));
+}
@@ -0,0 +1,211 @@
+/**
+ * Medication Reconciliation
+ *
+ * What the patient says they're actually taking, next to what the EMR has
+ * on file. Patients mark each prescription as taking, stopped or taking
+ * differently, and add over-the-counter medicines the list doesn't have.
+ * Differences are listed for the next appointment, and the whole report
+ * exports as a Bundle of patient-reported MedicationStatements.
+ */
+
+import type { Bundle, CodeableConcept, MedicationRequest, MedicationStatement } from 'fhir/r4';
+
+const RXNORM = 'http://www.nlm.nih.gov/research/umls/rxnorm';
+
+export type ReportedStatus = 'taking' | 'stopped' | 'taking-differently';
+
+export const REPORTED_STATUS_LABELS: Record<ReportedStatus, string> = {
+  taking: 'Taking',
+  stopped: 'Stopped',
+  'taking-differently': 'Taking differently',
+};
+
+export interface MedicationReport {
+  status: ReportedStatus;
+  /** How it's being taken differently, or why it was stopped */
+  note?: string;
+  /** ISO timestamp of the patient's answer */
+  reportedAt: string;
+}
+
+/** A medicine the patient takes that no EMR lists - usually over the counter */
+export interface AddedMedication {
+  id: string;
+  name: string;
+  /** Free text, e.g. "200 mg twice a day as needed" */
+  dosage?: string;
+  reason?: string;
+  addedAt: string;
+}
+
+export interface ReconciliationState {
+  /** Keyed by medicationKey() so answers survive a refetch */
+  reports: Record<string, MedicationReport>;
+  added: AddedMedication[];
+}
+
+export const EMPTY_RECONCILIATION: ReconciliationState = { reports: {}, added: [] };
+
+export type MismatchKind =
+  | 'not-taking'
+  | 'taking-differently'
+  | 'still-taking'
+  | 'not-on-list'
+  | 'unconfirmed';
+
+export const MISMATCH_LABELS: Record<MismatchKind, string> = {
+  'not-taking': 'Prescribed, but you stopped',
+  'taking-differently': 'Taken differently than prescribed',
+  'still-taking': 'Ended in your record, but you still take it',
+  'not-on-list': 'Not in your record',
+  unconfirmed: 'Not confirmed yet',
+};
+
+export interface ReconciliationItem {
+  key: string;
+  name: string;
+  /** The prescription, when the item is on the EMR list */
+  request?: MedicationRequest;
+  added?: AddedMedication;
+  report?: MedicationReport;
+  /** Undefined when the patient's answer agrees with the record */
+  mismatch?: MismatchKind;
+}
+
+// EMR statuses that mean the patient should currently be taking it
+const CURRENT_REQUEST_STATUSES = new Set(['active', 'on-hold', 'draft', 'unknown']);
+
+export function isCurrentRequest(medication: MedicationRequest): boolean {
+  return CURRENT_REQUEST_STATUSES.has(medication.status || 'unknown');
+}
+
+export function medicationName(medication: MedicationRequest): string {
+  return medication.medicationCodeableConcept?.text
+    || medication.medicationCodeableConcept?.coding?.[0]?.display
+    || medication.medicationReference?.display
+    || 'Unnamed Medication';
+}
+
+/**
+ * A key for the same medicine across refetches and EMRs - the RxNorm code
+ * where there is one, else the name
+ */
+export function medicationKey(medication: MedicationRequest): string {
+  const rxnorm = medication.medicationCodeableConcept?.coding?.find(coding => coding.system === RXNORM && coding.code);
+  return rxnorm ? `rxnorm|${rxnorm.code}` : `name|${medicationName(medication).toLowerCase().trim()}`;
+}
+
+function mismatchFor(request: MedicationRequest, report?: MedicationReport): MismatchKind | undefined {
+  const current = isCurrentRequest(request);
+  if (!report) return current ? 'unconfirmed' : undefined;
+  if (report.status === 'taking-differently') return 'taking-differently';
+  if (current && report.status === 'stopped') return 'not-taking';
+  if (!current && report.status === 'taking') return 'still-taking';
+  return undefined;
+}
+
+/**
+ * Every prescription with the patient's answer, then the medicines they
+ * added. `medications` should already be de-duplicated across EMRs.
+ */
+export function reconciliationItems(medications: MedicationRequest[], state: ReconciliationState): ReconciliationItem[] {
+  const seen = new Set<string>();
+  const fromRecord = medications.flatMap(request => {
+    const key = medicationKey(request);
+    if (seen.has(key)) return [];
+    seen.add(key);
+    const report = state.reports[key];
+    return [{ key, name: medicationName(request), request, report, mismatch: mismatchFor(request, report) }];
+  });
+
+  const added = state.added.map(medication => ({
+    key: `added|${medication.id}`,
+    name: medication.name,
+    added: medication,
+    mismatch: 'not-on-list' as const,
+  }));
+
+  return [...fromRecord, ...added];
+}
+
+export function hasMismatch(item: ReconciliationItem): boolean {
+  return !!item.mismatch && item.mismatch !== 'unconfirmed';
+}
+
+// Patient-reported statuses map straight onto MedicationStatement.status
+const STATEMENT_STATUS: Record<ReportedStatus, MedicationStatement['status']> = {
+  taking: 'active',
+  stopped: 'stopped',
+  'taking-differently': 'active',
+};
+
+const uuid = () => (typeof crypto !== 'undefined' && 'randomUUID' in crypto
+  ? crypto.randomUUID()
+  : `${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}`);
+
+function statementFor(item: ReconciliationItem, patientReference: string): MedicationStatement | null {
+  const { request, added, report } = item;
+  const note = [
+    report?.status === 'taking-differently' ? 'Patient reports taking this differently than prescribed' : undefined,
+    report?.note,
+  ]
+    .filter((text): text is string => !!text)
+    .map(text => ({ text }));
+
+  if (request && report) {
+    const medication: CodeableConcept = request.medicationCodeableConcept || { text: medicationName(request) };
+    return {
+      resourceType: 'MedicationStatement',
+      status: STATEMENT_STATUS[report.status],
+      ...(request.id && { basedOn: [{ reference: `MedicationRequest/${request.id}` }] }),
+      medicationCodeableConcept: medication,
+      subject: { reference: patientReference },
+      dateAsserted: report.reportedAt,
+      informationSource: { reference: patientReference },
+      ...(request.dosageInstruction && report.status === 'taking' && { dosage: request.dosageInstruction }),
+      ...(note.length > 0 && { note }),
+    };
+  }
+
+  if (added) {
+    return {
+      resourceType: 'MedicationStatement',
+      status: 'active',
+      medicationCodeableConcept: { text: added.name },
+      subject: { reference: patientReference },
+      dateAsserted: added.addedAt,
+      informationSource: { reference: patientReference },
+      ...(added.dosage && { dosage: [{ text: added.dosage }] }),
+      ...(added.reason && { reasonCode: [{ text: added.reason }] }),
+      note: [{ text: 'Added by the patient - not on their medication list' }],
+    };
+  }
+
+  // Nothing reported yet - no statement to make
+  return null;
+}
+
+/**
+ * The patient's report as a collection Bundle of MedicationStatements, one
+ * per medication they answered for or added
+ */
+export function medicationStatementBundle(
+  items: ReconciliationItem[],
+  patientId: string,
+  now = new Date()
+): Bundle<MedicationStatement> {
+  const patientReference = `Patient/${patientId}`;
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: now.toISOString(),
+    entry: items
+      .map(item => statementFor(item, patientReference))
+      .filter((statement): statement is MedicationStatement => !!statement)
+      .map(resource => ({ fullUrl: `urn:uuid:${uuid()}`, resource })),
+  };
+}
+
+export function newAddedMedication(fields: Omit<AddedMedication, 'id' | 'addedAt'>, now = new Date()): AddedMedication {
+  return { ...fields, id: uuid(), addedAt: now.toISOString() };
+}
@@ -0,0 +1,118 @@
+/**
+ * Merged Patient Records
+ *
+ * Combines the record fetched from each connected EMR account into one.
+ * When more than one EMR contributed, every resource gets a meta.tag naming
+ * where it came from, so the UI can badge and filter by source.
+ */
+
+import type { Appointment, Coding, Encounter, MedicationRequest, Observation, Procedure, Resource } from 'fhir/r4';
+import type { FHIRResource, PatientService } from '@nirmiteeio/fhir-sdk';
+
+export const SOURCE_TAG_SYSTEM = 'urn:fhir-portal:source-emr';
+
+type PatientData = Awaited<ReturnType<PatientService['getAllPatientData']>>;
+
+// Everything but the Patient itself, which stays per-account
+export interface PatientRecord {
+  medications: MedicationRequest[];
+  vitals: Observation[];
+  labReports: Observation[];
+  appointments: Appointment[];
+  encounters: Encounter[];
+  procedures: Procedure[];
+}
+
+export const RECORD_KEYS = ['medications', 'vitals', 'labReports', 'appointments', 'encounters', 'procedures'] as const;
+
+export interface RecordSource {
+  providerId: string;
+  /** EMR display name, shown on the source badge */
+  name: string;
+  record: PatientRecord;
+}
+
+interface TaggableResource {
+  meta?: { tag?: Coding[] };
+}
+
+// Just the source's identity - what goes into the tag
+export type ResourceSource = Pick<RecordSource, 'providerId' | 'name'>;
+
+function tagSource<T>(resource: T, source: ResourceSource): T {
+  const meta = (resource as TaggableResource).meta;
+  const tags = (meta?.tag || []).filter(tag => tag.system !== SOURCE_TAG_SYSTEM);
+  return {
+    ...resource,
+    meta: { ...meta, tag: [...tags, { system: SOURCE_TAG_SYSTEM, code: source.providerId, display: source.name }] },
+  };
+}
+
+/**
+ * The EMR a merged resource came from, if it was tagged
+ */
+export function getSource(resource: unknown): Coding | undefined {
+  return (resource as TaggableResource | null)?.meta?.tag?.find(tag => tag.system === SOURCE_TAG_SYSTEM);
+}
+
+/**
+ * The resources of one type - read as fhir/r4's, which the SDK's own types
+ * only loosely describe
+ */
+export function resourcesOfType<T extends Resource>(resources: FHIRResource[], resourceType: T['resourceType']): T[] {
+  return resources.filter((resource): resource is T => resource.resourceType === resourceType);
+}
+
+/**
+ * A record as PatientService.getAllPatientData returns it, as fhir/r4 resources
+ */
+export function toPatientRecord(data: Omit<PatientData, 'patient' | 'errors'>): PatientRecord {
+  return {
+    medications: resourcesOfType<MedicationRequest>(data.medications, 'MedicationRequest'),
+    vitals: resourcesOfType<Observation>(data.vitals, 'Observation'),
+    labReports: resourcesOfType<Observation>(data.labReports, 'Observation'),
+    appointments: resourcesOfType<Appointment>(data.appointments, 'Appointment'),
+    encounters: resourcesOfType<Encounter>(data.encounters, 'Encounter'),
+    procedures: resourcesOfType<Procedure>(data.procedures, 'Procedure'),
+  };
+}
+
+export function emptyRecord(): PatientRecord {
+  return { medications: [], vitals: [], labReports: [], appointments: [], encounters: [], procedures: [] };
+}
+
+/**
+ * One list from several sources' lists of the same resource type. `tag`
+ * should be true whenever more than one account is connected, even if only
+ * one of them was asked.
+ */
+export function mergeResources<T>(sources: Array<ResourceSource & { resources: T[] }>, tag = sources.length > 1): T[] {
+  // A single account needs no provenance - leave its resources untouched
+  if (!tag) return sources.flatMap(source => source.resources);
+  return sources.flatMap(source => source.resources.map(resource => tagSource(resource, source)));
+}
+
+/**
+ * Only the resources from one EMR; `providerId` null keeps everything
+ */
+export function filterResourcesBySource<T>(resources: T[], providerId: string | null): T[] {
+  return providerId ? resources.filter(resource => getSource(resource)?.code === providerId) : resources;
+}
+
+export function mergePatientData(sources: RecordSource[]): PatientRecord {
+  const merged = emptyRecord();
+  for (const key of RECORD_KEYS) {
+    (merged[key] as unknown[]) = mergeResources(sources.map(source => ({ ...source, resources: source.record[key] as unknown[] })));
+  }
+  return merged;
+}
+
+export function filterBySource(record: PatientRecord, providerId: string | null): PatientRecord {
+  if (!providerId) return record;
+
+  const filtered = emptyRecord();
+  for (const key of RECORD_KEYS) {
+    (filtered[key] as unknown[]) = filterResourcesBySource(record[key] as unknown[], providerId);
+  }
+  return filtered;
+}
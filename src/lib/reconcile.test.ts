@@ -0,0 +1,191 @@
+import { isLikelyDuplicate, MATCH_RULES, reconcile } from './reconcile';
+import { SOURCE_TAG_SYSTEM } from './merge-records';
+
+const RXNORM = 'http://www.nlm.nih.gov/research/umls/rxnorm';
+const LOINC = 'http://loinc.org';
+const SNOMED = 'http://snomed.info/sct';
+
+const from = (providerId: string, resource: Record<string, any>) => ({
+  ...resource,
+  meta: { ...resource.meta, tag: [{ system: SOURCE_TAG_SYSTEM, code: providerId }] },
+});
+
+const lisinopril = (overrides: Record<string, any> = {}) => ({
+  resourceType: 'MedicationRequest',
+  status: 'active',
+  medicationCodeableConcept: {
+    coding: [{ system: RXNORM, code: '314076', display: 'lisinopril 10 MG Oral Tablet' }],
+    text: 'Lisinopril 10 mg tablet',
+  },
+  authoredOn: '2024-02-01T15:00:00Z',
+  requester: { display: 'Dr. Priya Patel' },
+  ...overrides,
+});
+
+const glucose = (effectiveDateTime: string) => ({
+  resourceType: 'Observation',
+  code: { coding: [{ system: LOINC, code: '2345-7', display: 'Glucose [Mass/volume] in Serum or Plasma' }] },
+  effectiveDateTime,
+});
+
+const duplicate = (resourceType: string, a: any, b: any) => isLikelyDuplicate(a, b, MATCH_RULES[resourceType]);
+
+describe('isLikelyDuplicate', () => {
+  describe('same resource', () => {
+    it('matches the same id from the same source', () => {
+      expect(duplicate('MedicationRequest', from('epic', { id: 'rx-1' }), from('epic', { id: 'rx-1' }))).toBe(true);
+    });
+
+    it('does not match on id alone across sources', () => {
+      expect(duplicate('MedicationRequest', from('epic', { id: '1' }), from('cerner', { id: '1' }))).toBe(false);
+    });
+  });
+
+  describe('shared identifier', () => {
+    const identifier = (system: string, value: string) => [{ system, value }];
+
+    it('matches a shared system and value even when nothing else agrees', () => {
+      const a = from('epic', lisinopril({ id: 'a', identifier: identifier('urn:oid:2.16.840.1.113883.3.42', 'ORD-8812') }));
+      const b = from('cerner', {
+        id: 'b',
+        identifier: identifier('urn:oid:2.16.840.1.113883.3.42', 'ORD-8812'),
+        medicationCodeableConcept: { text: 'Zestril' },
+        authoredOn: '2024-03-01',
+      });
+      expect(duplicate('MedicationRequest', a, b)).toBe(true);
+    });
+
+    it('does not match the same value under a different system', () => {
+      const a = from('epic', { id: 'a', identifier: identifier('urn:oid:1.2.3', 'ORD-8812') });
+      const b = from('cerner', { id: 'b', identifier: identifier('urn:oid:4.5.6', 'ORD-8812') });
+      expect(isLikelyDuplicate(a, b)).toBe(false);
+    });
+  });
+
+  describe('same code and date', () => {
+    it('matches the same RxNorm code authored within a day', () => {
+      const a = from('epic', lisinopril({ id: 'a' }));
+      const b = from('cerner', lisinopril({ id: 'b', authoredOn: '2024-02-02T09:00:00Z' }));
+      expect(duplicate('MedicationRequest', a, b)).toBe(true);
+    });
+
+    it('matches by name when one side is uncoded', () => {
+      const a = from('epic', lisinopril({ id: 'a' }));
+      const b = from('athena', lisinopril({ id: 'b', medicationCodeableConcept: { text: 'LISINOPRIL 10 MG TABLET' } }));
+      expect(duplicate('MedicationRequest', a, b)).toBe(true);
+    });
+
+    it('treats a month-apart onset as the same condition', () => {
+      const diabetes = (onsetDateTime: string) => ({
+        code: { coding: [{ system: SNOMED, code: '44054006', display: 'Diabetes mellitus type 2' }] },
+        onsetDateTime,
+      });
+      expect(duplicate('Condition', from('epic', { id: 'a', ...diabetes('2019-05-01') }), from('cerner', { id: 'b', ...diabetes('2019-05-20') }))).toBe(true);
+    });
+
+    it('matches allergies on code alone', () => {
+      const penicillin = { code: { coding: [{ system: RXNORM, code: '7980', display: 'Penicillin G' }] } };
+      const a = from('epic', { id: 'a', ...penicillin, recordedDate: '2010-01-01' });
+      const b = from('cerner', { id: 'b', ...penicillin, recordedDate: '2022-06-30' });
+      expect(duplicate('AllergyIntolerance', a, b)).toBe(true);
+    });
+  });
+
+  describe('performer', () => {
+    it('compares names loosely', () => {
+      const a = from('epic', lisinopril({ id: 'a' }));
+      const b = from('cerner', lisinopril({ id: 'b', requester: { display: 'DR PRIYA PATEL' } }));
+      expect(duplicate('MedicationRequest', a, b)).toBe(true);
+    });
+
+    it('matches when only one side names a performer', () => {
+      const a = from('epic', lisinopril({ id: 'a' }));
+      const b = from('cerner', lisinopril({ id: 'b', requester: undefined }));
+      expect(duplicate('MedicationRequest', a, b)).toBe(true);
+    });
+
+    it('keeps prescriptions from different prescribers apart', () => {
+      const a = from('epic', lisinopril({ id: 'a' }));
+      const b = from('cerner', lisinopril({ id: 'b', requester: { display: 'Dr. Samuel Okafor' } }));
+      expect(duplicate('MedicationRequest', a, b)).toBe(false);
+    });
+  });
+
+  describe('near misses', () => {
+    it('keeps a different strength apart', () => {
+      const a = from('epic', lisinopril({ id: 'a' }));
+      const b = from('cerner', lisinopril({
+        id: 'b',
+        medicationCodeableConcept: { coding: [{ system: RXNORM, code: '314077', display: 'lisinopril 20 MG Oral Tablet' }] },
+      }));
+      expect(duplicate('MedicationRequest', a, b)).toBe(false);
+    });
+
+    it('keeps a refill authored days later apart', () => {
+      const a = from('epic', lisinopril({ id: 'a' }));
+      const b = from('cerner', lisinopril({ id: 'b', authoredOn: '2024-02-03T15:00:00Z' }));
+      expect(duplicate('MedicationRequest', a, b)).toBe(false);
+    });
+
+    it('keeps repeat lab draws more than an hour apart', () => {
+      const a = from('epic', { id: 'a', ...glucose('2024-04-10T08:00:00Z') });
+      const b = from('cerner', { id: 'b', ...glucose('2024-04-10T10:00:00Z') });
+      expect(duplicate('Observation', a, b)).toBe(false);
+      expect(duplicate('Observation', a, { ...b, effectiveDateTime: '2024-04-10T08:45:00Z' })).toBe(true);
+    });
+
+    it('ignores codes outside the rule systems', () => {
+      const local = (code: string) => ({ code: { coding: [{ system: 'urn:oid:1.2.840.114350', code }], text: code === '1' ? 'Glucose' : 'Glucose, fasting' } });
+      const a = from('epic', { id: 'a', ...local('1'), effectiveDateTime: '2024-04-10T08:00:00Z' });
+      const b = from('epic', { id: 'b', ...local('2'), effectiveDateTime: '2024-04-10T08:00:00Z' });
+      expect(duplicate('Observation', a, b)).toBe(false);
+    });
+
+    it('keeps undated orders apart', () => {
+      const a = from('epic', lisinopril({ id: 'a', authoredOn: undefined }));
+      const b = from('epic', lisinopril({ id: 'b', authoredOn: undefined }));
+      expect(duplicate('MedicationRequest', a, b)).toBe(false);
+    });
+
+    it('still matches undated conditions on their code', () => {
+      const asthma = { code: { coding: [{ system: SNOMED, code: '195967001', display: 'Asthma' }] } };
+      expect(duplicate('Condition', from('epic', { id: 'a', ...asthma }), from('cerner', { id: 'b', ...asthma }))).toBe(true);
+    });
+
+    it('keeps a same-day dose change from one prescriber apart', () => {
+      const daily = (tablets: number) => [{
+        timing: { repeat: { frequency: 1, period: 1, periodUnit: 'd' } },
+        doseAndRate: [{ doseQuantity: { value: tablets, unit: 'tablet' } }],
+      }];
+      const a = from('epic', lisinopril({ id: 'a', dosageInstruction: daily(1) }));
+      const b = from('epic', lisinopril({ id: 'b', authoredOn: '2024-02-01T17:30:00Z', dosageInstruction: daily(2) }));
+      expect(duplicate('MedicationRequest', a, b)).toBe(false);
+      // The same dose in another EMR, with only sig text on one side, is still a copy
+      expect(duplicate('MedicationRequest', a, from('cerner', lisinopril({ id: 'c', dosageInstruction: daily(1) })))).toBe(true);
+      expect(duplicate('MedicationRequest', a, from('cerner', lisinopril({ id: 'd', dosageInstruction: [{ text: 'Take 1 tablet daily' }] })))).toBe(true);
+    });
+
+    it('only matches by id or identifier without a rule', () => {
+      const note = { status: 'current', date: '2024-01-01' };
+      expect(isLikelyDuplicate(from('epic', { id: 'a', ...note }), from('cerner', { id: 'b', ...note }))).toBe(false);
+    });
+  });
+});
+
+describe('reconcile', () => {
+  it('collapses copies and shows the most recently updated one', () => {
+    const epic = from('epic', lisinopril({ id: 'a', meta: { lastUpdated: '2024-02-01T16:00:00Z' } }));
+    const cerner = from('cerner', lisinopril({ id: 'b', meta: { lastUpdated: '2024-02-05T10:00:00Z' } }));
+    const other = from('epic', lisinopril({
+      id: 'c',
+      medicationCodeableConcept: { coding: [{ system: RXNORM, code: '197361', display: 'amlodipine 5 MG Oral Tablet' }] },
+    }));
+
+    const entries = reconcile([epic, other, cerner], 'MedicationRequest');
+    expect(entries).toHaveLength(2);
+    expect(entries[0].resource).toBe(cerner);
+    expect(entries[0].sources).toEqual([epic, cerner]);
+    expect(entries[1].sources).toEqual([other]);
+    expect(new Set(entries.map(entry => entry.key)).size).toBe(2);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Duplicate Reconciliation
+ *
+ * Finds resources that are likely the same thing - the same prescription
+ * reported by two EMRs, or an entry repeated across overlapping result
+ * pages - and collapses them into one display entry that keeps every
+ * copy for provenance.
+ *
+ * Two resources are duplicates when they:
+ * - are the same resource from the same source (same id), or
+ * - share a business identifier (system + value), or
+ * - pass the resource type's MatchRule: same code, dates within the
+ *   tolerance and the same performer and detail (e.g. the dose) where both
+ *   sides have one. Undated resources only match where the rule says so.
+ */
+
+import type { CodeableConcept, Dosage, Identifier } from 'fhir/r4';
+import { periodUnitOf, timingRepeat } from './dosage';
+import { getSource } from './merge-records';
+
+const RXNORM = 'http://www.nlm.nih.gov/research/umls/rxnorm';
+const LOINC = 'http://loinc.org';
+const SNOMED = 'http://snomed.info/sct';
+const CPT = 'http://www.ama-assn.org/go/cpt';
+const ACT_CODE = 'http://terminology.hl7.org/CodeSystem/v3-ActCode';
+const ICD10_CM = 'http://hl7.org/fhir/sid/icd-10-cm';
+const ICD10 = 'http://hl7.org/fhir/sid/icd-10';
+const UNII = 'http://fdasis.nlm.nih.gov';
+const CVX = 'http://hl7.org/fhir/sid/cvx';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface MatchRule {
+  /** Coding systems whose codes identify the same thing (RxNorm, LOINC...) */
+  codeSystems: string[];
+  getCode: (resource: any) => CodeableConcept | undefined;
+  getDate?: (resource: any) => string | undefined;
+  /** How far apart the two dates can be and still match */
+  dateToleranceHours?: number;
+  /** Whether two resources with no date can match - otherwise undated never matches */
+  undatedMatches?: boolean;
+  /** Compared by name - references differ between EMRs */
+  getPerformer?: (resource: any) => string | undefined;
+  /** Anything else that tells two same-day entries apart, e.g. the dose */
+  getDetail?: (resource: any) => string | undefined;
+}
+
+/**
+ * Amount and frequency of the first dosage, e.g. "2|1/1d" - left out when
+ * it isn't structured, since sig text is worded differently in every EMR
+ */
+function doseDetail(dosage: Dosage | undefined): string | undefined {
+  const dose = dosage?.doseAndRate?.[0]?.doseQuantity?.value;
+  const repeat = timingRepeat(dosage?.timing);
+  if (dose === undefined || !repeat) return undefined;
+  return `${dose}|${repeat.frequency ?? 1}/${repeat.period ?? 1}${periodUnitOf(repeat.periodUnit) ?? ''}`;
+}
+
+export const MATCH_RULES: Record<string, MatchRule> = {
+  MedicationRequest: {
+    codeSystems: [RXNORM],
+    getCode: resource => resource.medicationCodeableConcept,
+    getDate: resource => resource.authoredOn,
+    dateToleranceHours: 24,
+    getPerformer: resource => resource.requester?.display,
+    // A same-day dose change from one prescriber is a new order
+    getDetail: resource => doseDetail(resource.dosageInstruction?.[0]),
+  },
+  Encounter: {
+    codeSystems: [SNOMED, CPT, ACT_CODE],
+    getCode: resource => resource.type?.[0] || (resource.class && { coding: [resource.class] }),
+    getDate: resource => resource.period?.start,
+    dateToleranceHours: 12,
+    getPerformer: resource => resource.participant?.[0]?.individual?.display,
+  },
+  Observation: {
+    codeSystems: [LOINC],
+    getCode: resource => resource.code,
+    getDate: resource => resource.effectiveDateTime || resource.effectivePeriod?.start,
+    dateToleranceHours: 1,
+    getPerformer: resource => resource.performer?.[0]?.display,
+  },
+  Condition: {
+    codeSystems: [SNOMED, ICD10_CM, ICD10],
+    getCode: resource => resource.code,
+    // Systems record onset loosely - a month apart is still the same problem
+    getDate: resource => resource.onsetDateTime || resource.onsetPeriod?.start,
+    dateToleranceHours: 24 * 31,
+    // Problem lists often leave onset out - the code says enough
+    undatedMatches: true,
+  },
+  AllergyIntolerance: {
+    codeSystems: [RXNORM, SNOMED, UNII],
+    getCode: resource => resource.code,
+  },
+  Procedure: {
+    codeSystems: [SNOMED, CPT],
+    getCode: resource => resource.code,
+    getDate: resource => resource.performedDateTime || resource.performedPeriod?.start,
+    dateToleranceHours: 24,
+    getPerformer: resource => resource.performer?.[0]?.actor?.display,
+  },
+  DiagnosticReport: {
+    codeSystems: [LOINC],
+    getCode: resource => resource.code,
+    getDate: resource => resource.effectiveDateTime || resource.effectivePeriod?.start,
+    dateToleranceHours: 1,
+  },
+  Immunization: {
+    codeSystems: [CVX],
+    getCode: resource => resource.vaccineCode,
+    getDate: resource => resource.occurrenceDateTime,
+    dateToleranceHours: 24,
+    getPerformer: resource => resource.performer?.[0]?.actor?.display,
+  },
+};
+
+export interface ReconciledEntry<T> {
+  /** Stable React key for the entry */
+  key: string;
+  /** The copy to display - the most recently updated one */
+  resource: T;
+  /** Every copy that was collapsed into this entry, including `resource` */
+  sources: T[];
+}
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const sourceKey = (resource: any) => `${getSource(resource)?.code ?? ''}/${resource.id ?? ''}`;
+
+function sharesIdentifier(a: any, b: any): boolean {
+  const keys = new Set((a.identifier as Identifier[] | undefined || [])
+    .filter(identifier => identifier.value)
+    .map(identifier => `${identifier.system ?? ''}|${identifier.value}`));
+  return (b.identifier as Identifier[] | undefined || [])
+    .some(identifier => identifier.value && keys.has(`${identifier.system ?? ''}|${identifier.value}`));
+}
+
+function sameCode(a: CodeableConcept | undefined, b: CodeableConcept | undefined, systems: string[]): boolean {
+  if (!a || !b) return false;
+
+  const codes = (concept: CodeableConcept) => (concept.coding || [])
+    .filter(coding => coding.code && coding.system && systems.includes(coding.system))
+    .map(coding => `${coding.system}|${coding.code}`);
+  const codesA = codes(a);
+  const codesB = codes(b);
+  if (codesA.length > 0 && codesB.length > 0) {
+    return codesA.some(code => codesB.includes(code));
+  }
+
+  // Uncoded on at least one side - fall back to the name
+  const text = (concept: CodeableConcept) => concept.text || concept.coding?.[0]?.display;
+  const textA = text(a);
+  const textB = text(b);
+  return !!textA && !!textB && normalize(textA) === normalize(textB);
+}
+
+function datesMatch(a: string | undefined, b: string | undefined, rule: MatchRule): boolean {
+  if (!a || !b) return !a && !b && !!rule.undatedMatches;
+  const timeA = new Date(a).getTime();
+  const timeB = new Date(b).getTime();
+  if (Number.isNaN(timeA) || Number.isNaN(timeB)) return a === b;
+  return Math.abs(timeA - timeB) <= (rule.dateToleranceHours ?? 0) * HOUR_MS;
+}
+
+// Names and details only have to agree when both sides have one
+const agrees = (a: string | undefined, b: string | undefined) => !a || !b || normalize(a) === normalize(b);
+
+export function isLikelyDuplicate(a: any, b: any, rule?: MatchRule): boolean {
+  if (a.id && sourceKey(a) === sourceKey(b)) return true;
+  if (sharesIdentifier(a, b)) return true;
+  if (!rule) return false;
+
+  if (!sameCode(rule.getCode(a), rule.getCode(b), rule.codeSystems)) return false;
+  if (rule.getDate && !datesMatch(rule.getDate(a), rule.getDate(b), rule)) return false;
+
+  return agrees(rule.getPerformer?.(a), rule.getPerformer?.(b)) && agrees(rule.getDetail?.(a), rule.getDetail?.(b));
+}
+
+const lastUpdated = (resource: any) => new Date(resource.meta?.lastUpdated || 0).getTime() || 0;
+
+/**
+ * Group `resources` into display entries, keeping their original order.
+ * `rules` overrides the defaults per resource type.
+ */
+export function reconcile<T>(
+  resources: T[],
+  resourceType: string,
+  rules: Record<string, MatchRule> = MATCH_RULES
+): ReconciledEntry<T>[] {
+  const rule = rules[resourceType];
+  const groups: T[][] = [];
+
+  for (const resource of resources) {
+    const group = groups.find(candidates => candidates.some(candidate => isLikelyDuplicate(candidate, resource, rule)));
+    if (group) {
+      group.push(resource);
+    } else {
+      groups.push([resource]);
+    }
+  }
+
+  return groups.map((group, index) => {
+    const resource = group.reduce((latest, candidate) => (lastUpdated(candidate) > lastUpdated(latest) ? candidate : latest));
+    return { key: `${sourceKey(resource)}#${index}`, resource, sources: group };
+  });
+}
@@ -0,0 +1,66 @@
+import type { Quantity } from 'fhir/r4';
+import { checkReferenceRange } from './reference-ranges';
+
+const UCUM = 'http://unitsofmeasure.org';
+
+const fahrenheit = (value: number): Quantity => ({ value, unit: '[degF]', system: UCUM, code: '[degF]' });
+
+describe('checkReferenceRange', () => {
+  it('reads a bound in its own unit rather than the value code', () => {
+    const check = checkReferenceRange({
+      valueQuantity: fahrenheit(98.6),
+      referenceRange: [{ low: { value: 36.1, unit: 'Cel' }, high: { value: 37.2, unit: 'Cel' } }],
+    });
+    expect(check.status).toBe('normal');
+    expect(check.range).toMatchObject({ low: 36.1, high: 37.2, source: 'observation' });
+  });
+
+  it('reads a bound with a code but no unit in that code', () => {
+    const check = checkReferenceRange({
+      valueQuantity: fahrenheit(98.6),
+      referenceRange: [{ high: { value: 37.2, system: UCUM, code: 'Cel' } }],
+    });
+    expect(check.status).toBe('normal');
+  });
+
+  it('takes a unitless bound to be in the value unit', () => {
+    const check = checkReferenceRange({
+      valueQuantity: fahrenheit(101.2),
+      referenceRange: [{ low: { value: 97 }, high: { value: 99.5 } }],
+    });
+    expect(check.status).toBe('high');
+    expect(check.range?.high).toBeCloseTo(37.5, 1);
+  });
+
+  it('ignores a range in an incompatible unit', () => {
+    const check = checkReferenceRange({
+      valueQuantity: { value: 5.4, unit: 'mmol/L', system: UCUM, code: 'mmol/L' },
+      referenceRange: [{ low: { value: 70, unit: 'mg/dL' }, high: { value: 99, unit: 'mg/dL' } }],
+    });
+    expect(check.range).toBeNull();
+    expect(check.status).toBe('unknown');
+  });
+
+  it('compares mmol/L with an mg/dL range for a known analyte', () => {
+    const check = checkReferenceRange({
+      code: { coding: [{ system: 'http://loinc.org', code: '2345-7' }] },
+      valueQuantity: { value: 5.4, unit: 'mmol/L', system: UCUM, code: 'mmol/L' },
+      referenceRange: [{ low: { value: 70, unit: 'mg/dL' }, high: { value: 99, unit: 'mg/dL' } }],
+    });
+    expect(check.status).toBe('normal');
+    expect(check.range).toMatchObject({ low: 70, high: 99, unit: 'mg/dL' });
+  });
+
+  it('reads a µmol/L creatinine against the mg/dL default for the patient', () => {
+    const check = checkReferenceRange(
+      {
+        code: { coding: [{ system: 'http://loinc.org', code: '2160-0' }] },
+        valueQuantity: { value: 150, unit: 'µmol/L' },
+      },
+      { birthDate: '1970-01-01', gender: 'male' },
+      { today: new Date('2024-06-01') }
+    );
+    expect(check.range).toMatchObject({ low: 0.74, high: 1.35, unit: 'mg/dL', source: 'demographic' });
+    expect(check.status).toBe('high');
+  });
+});
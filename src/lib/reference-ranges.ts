@@ -0,0 +1,251 @@
+/**
+ * Reference Range Resolution
+ *
+ * Which normal range a result is judged against, in order of preference: the
+ * range the EMR sent on the Observation, an age- or sex-specific default for
+ * the patient, then the general table in vitals/data/referenceRanges. The
+ * source comes back with the range so the UI can say where it came from.
+ * Values and ranges are compared in canonical UCUM units (see ./units), so
+ * an mmol/L glucose is read against an mg/dL range.
+ */
+
+import type { CodeableConcept, ObservationReferenceRange, Quantity } from 'fhir/r4';
+import { demographicRanges, referenceRanges } from '@/components/vitals/data/referenceRanges';
+import { canonicalUnit, displayQuantity, displayUnit, molarAnalyte, normalizeQuantity, type UnitSystem } from './units';
+
+const LOINC = 'http://loinc.org';
+
+/**
+ * - `observation`: the range the EMR sent with the result
+ * - `demographic`: a default for the patient's age and sex
+ * - `guideline`: the general adult table
+ */
+export type RangeSource = 'observation' | 'demographic' | 'guideline';
+
+export const RANGE_SOURCE_LABELS: Record<RangeSource, string> = {
+  observation: 'Range from lab',
+  demographic: 'For your age and sex',
+  guideline: 'General guideline',
+};
+
+export type RangeStatus = 'low' | 'normal' | 'high' | 'unknown';
+
+/**
+ * Bounds are in the canonical unit for the dimension
+ */
+export interface ResolvedRange {
+  low?: number;
+  high?: number;
+  unit?: string;
+  /** Free-text range, when the EMR sent one */
+  text?: string;
+  source: RangeSource;
+}
+
+export interface RangeCheck {
+  status: RangeStatus;
+  range: ResolvedRange | null;
+  /** The status came from the EMR's interpretation rather than the range */
+  interpreted: boolean;
+}
+
+export interface PatientDemographics {
+  birthDate?: string;
+  gender?: string;
+}
+
+/**
+ * An Observation or one of its components
+ */
+export interface MeasuredValue {
+  code?: CodeableConcept;
+  valueQuantity?: Quantity;
+  referenceRange?: ObservationReferenceRange[];
+  interpretation?: CodeableConcept[];
+}
+
+interface ResolveOptions {
+  /** Table entry to fall back on when the code isn't LOINC, e.g. "Heart Rate" */
+  vitalName?: string;
+  today?: Date;
+}
+
+// °F and °C readings both compare with a °C range; mg/dL only does with
+// mmol/L for an analyte we know the molar mass of
+function unitsCompatible(valueUnit?: string, rangeUnit?: string, analyte?: string): boolean {
+  if (!valueUnit || !rangeUnit) return true;
+  return canonicalUnit(valueUnit, analyte) === canonicalUnit(rangeUnit, analyte);
+}
+
+// A bound from the EMR, in canonical units. Only a bound with neither unit
+// nor code is taken to be in the value's - a bound's own unit is never read
+// against the value's code.
+function canonicalBound(bound: Quantity | undefined, valueQuantity?: Quantity, analyte?: string): Quantity | undefined {
+  if (bound?.value === undefined) return undefined;
+  if (bound.unit || bound.code) return normalizeQuantity(bound, analyte);
+  const quantity = { value: bound.value, unit: valueQuantity?.unit, system: valueQuantity?.system, code: valueQuantity?.code };
+  return normalizeQuantity(quantity, analyte);
+}
+
+// "bpm" -> "/min", "°F" -> "°C", "mmol/L" -> "mg/dL" for glucose
+const canonicalDisplayUnit = (unit?: string, analyte?: string) => unit && displayUnit(canonicalUnit(unit, analyte), unit);
+
+const loincCodes = (measured: MeasuredValue) =>
+  (measured.code?.coding || []).filter(coding => coding.system === LOINC && coding.code).map(coding => coding.code!);
+
+function ageInYears(birthDate: string, today: Date): number | undefined {
+  const birth = new Date(birthDate);
+  if (isNaN(birth.getTime())) return undefined;
+  return (today.getTime() - birth.getTime()) / (365.25 * 24 * 60 * 60 * 1000);
+}
+
+// Range.age is usually in years ("a"), occasionally months or weeks for infants
+function quantityInYears(quantity?: Quantity): number | undefined {
+  if (quantity?.value === undefined) return undefined;
+  switch (quantity.code || quantity.unit) {
+    case 'mo': return quantity.value / 12;
+    case 'wk': return quantity.value / 52;
+    case 'd': return quantity.value / 365.25;
+    default: return quantity.value;
+  }
+}
+
+function appliesToPatient(range: ObservationReferenceRange, age?: number, gender?: string): boolean {
+  if (range.age && age !== undefined) {
+    const low = quantityInYears(range.age.low);
+    const high = quantityInYears(range.age.high);
+    if ((low !== undefined && age < low) || (high !== undefined && age > high)) return false;
+  }
+  const sex = range.appliesTo?.flatMap(concept => concept.coding || []).find(coding => /^(male|female|M|F)$/i.test(coding.code || ''));
+  if (sex && gender) return sex.code!.toLowerCase()[0] === gender.toLowerCase()[0];
+  return true;
+}
+
+// Treatment or therapeutic ranges aren't what a result is flagged against
+const isNormalRange = (range: ObservationReferenceRange) =>
+  !range.type || range.type.coding?.some(coding => coding.code === 'normal') || /normal/i.test(range.type.text || '');
+
+function observationRange(measured: MeasuredValue, age?: number, gender?: string): ResolvedRange | null {
+  const usable = (measured.referenceRange || [])
+    .filter(range => range.low?.value !== undefined || range.high?.value !== undefined || range.text)
+    .filter(isNormalRange);
+  const range = usable.find(candidate => appliesToPatient(candidate, age, gender)) || usable.find(candidate => !candidate.age && !candidate.appliesTo);
+  if (!range) return null;
+  const analyte = molarAnalyte(loincCodes(measured));
+  const low = canonicalBound(range.low, measured.valueQuantity, analyte);
+  const high = canonicalBound(range.high, measured.valueQuantity, analyte);
+  if (!unitsCompatible(measured.valueQuantity?.unit, low?.unit || high?.unit, analyte)) return null;
+  return {
+    low: low?.value,
+    high: high?.value,
+    unit: low?.unit || high?.unit || canonicalDisplayUnit(measured.valueQuantity?.unit, analyte),
+    text: range.text,
+    source: 'observation',
+  };
+}
+
+function demographicRange(codes: string[], unit: string | undefined, age?: number, gender?: string): ResolvedRange | null {
+  if (age === undefined) return null;
+  const match = demographicRanges.find(entry =>
+    entry.loinc.some(code => codes.includes(code))
+    && (entry.minAge === undefined || age >= entry.minAge)
+    && (entry.maxAge === undefined || age < entry.maxAge)
+    && (!entry.sex || entry.sex === gender)
+    && unitsCompatible(unit, entry.unit, molarAnalyte(codes))
+  );
+  if (!match) return null;
+  return { low: match.low, high: match.high, unit: canonicalDisplayUnit(match.unit, molarAnalyte(codes)), source: 'demographic' };
+}
+
+interface TableRange {
+  low?: number;
+  high?: number;
+  loinc?: string[];
+}
+
+function guidelineRange(codes: string[], unit: string | undefined, vitalName?: string): ResolvedRange | null {
+  for (const [name, entry] of Object.entries(referenceRanges)) {
+    const candidates: TableRange[] = 'systolic' in entry ? [entry.systolic, entry.diastolic] : [entry as TableRange];
+    const range = candidates.find(candidate => candidate.loinc?.some(code => codes.includes(code)))
+      || (name === vitalName && candidates.length === 1 ? candidates[0] : undefined);
+    if (!range || (range.low === undefined && range.high === undefined)) continue;
+    if (!unitsCompatible(unit, entry.unit, molarAnalyte(codes))) return null;
+    return { low: range.low, high: range.high, unit: canonicalDisplayUnit(entry.unit, molarAnalyte(codes)), source: 'guideline' };
+  }
+  return null;
+}
+
+/**
+ * The range a value should be judged against, or null when there's none we
+ * can trust for its unit
+ */
+export function resolveReferenceRange(
+  measured: MeasuredValue,
+  patient?: PatientDemographics,
+  { vitalName, today = new Date() }: ResolveOptions = {}
+): ResolvedRange | null {
+  const age = patient?.birthDate ? ageInYears(patient.birthDate, today) : undefined;
+  const gender = patient?.gender;
+  const codes = loincCodes(measured);
+  const unit = measured.valueQuantity?.unit;
+
+  return observationRange(measured, age, gender)
+    || demographicRange(codes, unit, age, gender)
+    || guidelineRange(codes, unit, vitalName);
+}
+
+// HL7 v3 ObservationInterpretation codes that say which way a value is off
+function interpretationStatus(measured: MeasuredValue): RangeStatus | null {
+  const codes = (measured.interpretation || []).flatMap(concept => concept.coding || []).map(coding => coding.code);
+  if (codes.some(code => code && ['H', 'HH', 'HU', '>'].includes(code))) return 'high';
+  if (codes.some(code => code && ['L', 'LL', 'LU', '<'].includes(code))) return 'low';
+  if (codes.includes('N')) return 'normal';
+  return null;
+}
+
+/**
+ * Status of a value already in the range's canonical unit
+ */
+export function rangeStatus(value: number | undefined, range: ResolvedRange | null): RangeStatus {
+  if (value === undefined || isNaN(value) || !range) return 'unknown';
+  if (range.low !== undefined && value < range.low) return 'low';
+  if (range.high !== undefined && value > range.high) return 'high';
+  return range.low === undefined && range.high === undefined ? 'unknown' : 'normal';
+}
+
+/**
+ * Status for a value, trusting the EMR's own interpretation first and the
+ * resolved range otherwise
+ */
+export function checkReferenceRange(
+  measured: MeasuredValue,
+  patient?: PatientDemographics,
+  options?: ResolveOptions
+): RangeCheck {
+  const range = resolveReferenceRange(measured, patient, options);
+  const interpreted = interpretationStatus(measured);
+  if (interpreted) return { status: interpreted, range, interpreted: true };
+  const value = measured.valueQuantity
+    ? normalizeQuantity(measured.valueQuantity, molarAnalyte(loincCodes(measured))).value
+    : undefined;
+  return { status: rangeStatus(value, range), range, interpreted: false };
+}
+
+/**
+ * e.g. "60 - 100 /min", "97 - 100.4 °F", or the EMR's own text
+ */
+export function rangeText(
+  range: ResolvedRange | null,
+  { withUnit = true, system = 'metric' }: { withUnit?: boolean; system?: UnitSystem } = {}
+): string {
+  if (!range) return '';
+  if (range.text) return range.text;
+  const low = displayQuantity(range.low === undefined ? undefined : { value: range.low, unit: range.unit }, system);
+  const high = displayQuantity(range.high === undefined ? undefined : { value: range.high, unit: range.unit }, system);
+  const shownUnit = low.value !== undefined ? low.unit : high.unit;
+  const unit = withUnit && shownUnit ? ` ${shownUnit}` : '';
+  if (low.value !== undefined && high.value !== undefined) return `${low.value} - ${high.value}${unit}`;
+  if (low.value !== undefined) return `>= ${low.value}${unit}`;
+  if (high.value !== undefined) return `<= ${high.value}${unit}`;
+  return '';
+}
@@ -0,0 +1,73 @@
+/**
+ * HTML Sanitizer
+ *
+ * Allowlist sanitizer for clinical documents the EMR hands us as HTML (or
+ * that we build from C-CDA). Keeps structure and formatting; drops scripts,
+ * embeds, forms, styles, event handlers and anything that loads remote
+ * content. Browser only - it relies on DOMParser.
+ *
+ * Sanitized output is still rendered in a sandboxed iframe; this is the
+ * first layer, not the only one.
+ */
+
+// Removed with everything inside them
+const DROP_WITH_CONTENT = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'form', 'input', 'button',
+  'select', 'textarea', 'link', 'meta', 'base', 'svg', 'math', 'template', 'noscript', 'audio', 'video', 'canvas',
+]);
+
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'b', 'blockquote', 'br', 'caption', 'cite', 'code', 'col', 'colgroup', 'dd', 'del', 'div', 'dl', 'dt',
+  'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'ins', 'li', 'ol', 'p', 'pre', 'q', 's', 'small', 'span',
+  'strong', 'sub', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul',
+]);
+
+const ALLOWED_ATTRIBUTES = new Set(['alt', 'title', 'colspan', 'rowspan', 'scope', 'headers', 'href', 'src']);
+
+const SAFE_LINK = /^(https?:|mailto:|#)/i;
+// Inline images only - a remote src would let the document phone home
+const SAFE_IMAGE = /^data:image\/(png|gif|jpe?g|webp);base64,/i;
+
+function cleanElement(element: Element): void {
+  Array.from(element.children).forEach(child => {
+    const tag = child.tagName.toLowerCase();
+    if (DROP_WITH_CONTENT.has(tag)) {
+      child.remove();
+      return;
+    }
+
+    cleanElement(child);
+
+    if (!ALLOWED_TAGS.has(tag)) {
+      // Unknown wrapper (html, body, font, custom tags...) - keep what's inside
+      child.replaceWith(...Array.from(child.childNodes));
+      return;
+    }
+
+    Array.from(child.attributes).forEach(attribute => {
+      const name = attribute.name.toLowerCase();
+      const value = attribute.value.trim();
+      const allowed = ALLOWED_ATTRIBUTES.has(name)
+        && (name !== 'href' || (tag === 'a' && SAFE_LINK.test(value)))
+        && (name !== 'src' || (tag === 'img' && SAFE_IMAGE.test(value)));
+      if (!allowed) child.removeAttribute(attribute.name);
+    });
+
+    if (tag === 'a' && child.hasAttribute('href')) {
+      child.setAttribute('target', '_blank');
+      child.setAttribute('rel', 'noopener noreferrer');
+    }
+  });
+}
+
+export function sanitizeHtml(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  // Comments can hide conditional markup some renderers honour
+  const comments = doc.createTreeWalker(doc.body, NodeFilter.SHOW_COMMENT);
+  const toRemove: Node[] = [];
+  while (comments.nextNode()) toRemove.push(comments.currentNode);
+  toRemove.forEach(node => node.parentNode?.removeChild(node));
+
+  cleanElement(doc.body);
+  return doc.body.innerHTML;
+}
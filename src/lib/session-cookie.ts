@@ -0,0 +1,96 @@
+/**
+ * Encrypted Session Cookie (server only)
+ *
+ * Holds the EMR tokens for backend (confidential client) providers in an
+ * httpOnly cookie, encrypted with AES-256-GCM under SESSION_SECRET, so the
+ * browser never sees them. One cookie per provider, so several linked EMR
+ * accounts can each have a backend session.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+
+const SESSION_COOKIE_PREFIX = 'fhir_session_';
+// How long the cookie lives when a refresh token can keep the session going
+export const SESSION_MAX_AGE_SECONDS = 8 * 60 * 60;
+
+export interface BackendSession {
+  providerId: string;
+  accessToken: string;
+  refreshToken?: string;
+  idToken?: string;
+  /** Access token expiry (ms since epoch) */
+  expiresAt: number;
+  patientId?: string;
+  scope?: string;
+}
+
+function getKey(): Buffer {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error('SESSION_SECRET must be set to at least 32 characters');
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+export function encryptSession(session: BackendSession): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(session), 'utf-8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+}
+
+export function decryptSession(value: string): BackendSession | null {
+  try {
+    const data = Buffer.from(value, 'base64url');
+    const decipher = createDecipheriv('aes-256-gcm', getKey(), data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+    const decrypted = Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]);
+    return JSON.parse(decrypted.toString('utf-8'));
+  } catch {
+    // Tampered, truncated or encrypted under an old secret
+    return null;
+  }
+}
+
+export function sessionCookieName(providerId: string): string {
+  return SESSION_COOKIE_PREFIX + providerId;
+}
+
+export function readSession(request: NextRequest, providerId: string): BackendSession | null {
+  const cookie = request.cookies.get(sessionCookieName(providerId));
+  const session = cookie ? decryptSession(cookie.value) : null;
+  // The name is just a lookup key - trust only what's inside the encrypted value
+  return session?.providerId === providerId ? session : null;
+}
+
+/**
+ * Provider ids with a session cookie on this request
+ */
+export function sessionProviderIds(request: NextRequest): string[] {
+  return request.cookies.getAll()
+    .filter(cookie => cookie.name.startsWith(SESSION_COOKIE_PREFIX))
+    .map(cookie => cookie.name.slice(SESSION_COOKIE_PREFIX.length));
+}
+
+/**
+ * Cookie lifetime: the session window if we can refresh, else the access token's
+ */
+export function sessionMaxAge(session: BackendSession): number {
+  if (session.refreshToken) return SESSION_MAX_AGE_SECONDS;
+  return Math.max(0, Math.floor((session.expiresAt - Date.now()) / 1000));
+}
+
+export function writeSession(response: NextResponse, session: BackendSession): void {
+  response.cookies.set(sessionCookieName(session.providerId), encryptSession(session), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/api',
+    maxAge: sessionMaxAge(session),
+  });
+}
+
+export function clearSession(response: NextResponse, providerId: string): void {
+  response.cookies.set(sessionCookieName(providerId), '', { httpOnly: true, path: '/api', maxAge: 0 });
+}
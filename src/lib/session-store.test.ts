@@ -0,0 +1,96 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { MemorySessionBackend, SessionStore } from './session-store';
+
+// The SDK's token storage isn't used here and doesn't load under Jest
+jest.mock('@nirmiteeio/fhir-sdk', () => ({ LocalStorageTokenStorage: jest.fn(), parseJWT: jest.fn() }));
+
+const session = { providerId: 'epic', patientId: 'p1', expiresAt: null, scopes: [], fhirUser: null };
+
+describe('SessionStore selected provider', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('moves the legacy localStorage key into the backend', async () => {
+    localStorage.setItem('selected_provider_id', 'cerner');
+    const backend = new MemorySessionBackend();
+
+    const store = new SessionStore(backend);
+    await store.init();
+
+    expect(store.getSelectedProvider()).toBe('cerner');
+    expect(await backend.loadSelectedProvider()).toBe('cerner');
+    expect(localStorage.getItem('selected_provider_id')).toBeNull();
+  });
+
+  it('prefers what the backend already has', async () => {
+    localStorage.setItem('selected_provider_id', 'cerner');
+    const backend = new MemorySessionBackend();
+    await backend.saveSelectedProvider('athena');
+
+    const store = new SessionStore(backend);
+    await store.init();
+    expect(store.getSelectedProvider()).toBe('athena');
+  });
+
+  it('keeps the selected provider after sign-out', async () => {
+    const store = new SessionStore(new MemorySessionBackend());
+    await store.init();
+    await store.selectProvider('epic');
+    await store.set(session);
+    await store.clear();
+
+    expect(store.getSnapshot()).toBeNull();
+    expect(store.getSelectedProvider()).toBe('epic');
+  });
+});
+
+describe('SessionStore.refreshExclusively', () => {
+  const expiringAt = (expiresAt: number) => ({ ...session, expiresAt });
+
+  afterEach(() => {
+    Reflect.deleteProperty(navigator, 'locks');
+  });
+
+  it('refreshes once when tabs ask together', async () => {
+    // Grants the lock to one caller at a time, like the browser's
+    let queue: Promise<unknown> = Promise.resolve();
+    Object.defineProperty(navigator, 'locks', {
+      configurable: true,
+      value: {
+        request: (_name: string, callback: () => Promise<unknown>) => {
+          const granted = queue.then(callback);
+          queue = granted.catch(() => undefined);
+          return granted;
+        },
+      },
+    });
+    const store = new SessionStore(new MemorySessionBackend());
+    await store.set(expiringAt(Date.now() + 30 * 1000));
+    const refresh = jest.fn(async () => ({ expiresAt: Date.now() + 60 * 60 * 1000 }));
+
+    const neededUntil = Date.now() + 60 * 1000;
+    const results = await Promise.all([
+      store.refreshExclusively(neededUntil, refresh),
+      store.refreshExclusively(neededUntil, refresh),
+    ]);
+
+    expect(results).toEqual([true, true]);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips the refresh when the session already lasts long enough', async () => {
+    const store = new SessionStore(new MemorySessionBackend());
+    await store.set(expiringAt(Date.now() + 60 * 60 * 1000));
+    const refresh = jest.fn(async () => ({ expiresAt: Date.now() }));
+
+    expect(await store.refreshExclusively(Date.now() + 60 * 1000, refresh)).toBe(true);
+    expect(refresh).not.toHaveBeenCalled();
+  });
+
+  it('has nothing to refresh when signed out', async () => {
+    const store = new SessionStore(new MemorySessionBackend());
+    expect(await store.refreshExclusively(Date.now(), jest.fn())).toBe(false);
+  });
+});
@@ -0,0 +1,394 @@
+/**
+ * Portal Session Store
+ *
+ * One typed record of who is signed in: provider, patient, token expiry,
+ * granted scopes and fhirUser. Tokens themselves stay where the SDK keeps
+ * them (or in the server cookie for backend sessions) - this is what the
+ * app decides logged-in state from.
+ *
+ * A session can carry further EMR accounts the patient linked, each with
+ * its own tokens (see app/linked-accounts), so their records can be merged.
+ *
+ * Changes are broadcast to other tabs over BroadcastChannel. New tabs ask
+ * open ones for the current session, so per-tab backends (memory,
+ * sessionStorage) still work across tabs. Token refreshes take a Web Lock,
+ * so tabs coming up on expiry together refresh once.
+ *
+ * The store also remembers the EMR last chosen at login or launch, which
+ * outlives sign-out so the login screen can preselect it.
+ */
+
+import { LocalStorageTokenStorage, parseJWT } from '@nirmiteeio/fhir-sdk';
+import type { TokenStorage } from '@nirmiteeio/fhir-sdk';
+
+export interface SessionAccount {
+  providerId: string;
+  patientId: string | null;
+  /** Token (or backend session) expiry, ms since epoch */
+  expiresAt: number | null;
+  /** Scopes the EMR actually granted - may be fewer than requested */
+  scopes: string[];
+  /** e.g. "Patient/123" from the id_token */
+  fhirUser: string | null;
+}
+
+export interface PortalSession extends SessionAccount {
+  /** Other EMR accounts connected alongside the one signed in with */
+  linkedAccounts?: SessionAccount[];
+}
+
+export interface SessionBackend {
+  load(): Promise<PortalSession | null>;
+  save(session: PortalSession): Promise<void>;
+  /** Clears the session only - the selected provider stays */
+  clear(): Promise<void>;
+  loadSelectedProvider(): Promise<string | null>;
+  saveSelectedProvider(providerId: string): Promise<void>;
+}
+
+export type SessionBackendKind = 'memory' | 'sessionStorage' | 'indexedDB';
+
+type SessionMessage =
+  | { type: 'set'; session: PortalSession }
+  | { type: 'clear' }
+  | { type: 'sync-request' };
+
+const CHANNEL_NAME = 'fhir-portal-session';
+const STORAGE_KEY = 'portal_session';
+const PROVIDER_KEY = 'portal_selected_provider';
+// Where the selected provider lived before the store - moved over once
+const LEGACY_PROVIDER_KEY = 'selected_provider_id';
+// How long a new tab waits for an open one to answer a sync request
+const SYNC_TIMEOUT_MS = 150;
+// Web Lock held while refreshing, so only one tab spends the refresh token
+const REFRESH_LOCK_NAME = 'fhir-portal-session-refresh';
+
+export class MemorySessionBackend implements SessionBackend {
+  private session: PortalSession | null = null;
+  private providerId: string | null = null;
+
+  async load() {
+    return this.session;
+  }
+
+  async save(session: PortalSession) {
+    this.session = session;
+  }
+
+  async clear() {
+    this.session = null;
+  }
+
+  async loadSelectedProvider() {
+    return this.providerId;
+  }
+
+  async saveSelectedProvider(providerId: string) {
+    this.providerId = providerId;
+  }
+}
+
+export class SessionStorageBackend implements SessionBackend {
+  async load(): Promise<PortalSession | null> {
+    try {
+      return JSON.parse(sessionStorage.getItem(STORAGE_KEY) || 'null');
+    } catch {
+      return null;
+    }
+  }
+
+  async save(session: PortalSession) {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  }
+
+  async clear() {
+    sessionStorage.removeItem(STORAGE_KEY);
+  }
+
+  async loadSelectedProvider() {
+    return sessionStorage.getItem(PROVIDER_KEY);
+  }
+
+  async saveSelectedProvider(providerId: string) {
+    sessionStorage.setItem(PROVIDER_KEY, providerId);
+  }
+}
+
+const DB_NAME = 'fhir-portal';
+const DB_STORE = 'session';
+
+function idbRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDB, encrypted with AES-GCM under a non-extractable WebCrypto key
+ * kept in the same database. Keeps the session out of plain-text storage
+ * dumps; it is not a defence against script running on this origin.
+ */
+export class EncryptedIndexedDBBackend implements SessionBackend {
+  private db: Promise<IDBDatabase> | null = null;
+  private key: Promise<CryptoKey> | null = null;
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+      this.db = idbRequest(request);
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    return (await this.openDb()).transaction(DB_STORE, mode).objectStore(DB_STORE);
+  }
+
+  private getKey(): Promise<CryptoKey> {
+    if (!this.key) {
+      this.key = (async () => {
+        const existing = await idbRequest((await this.store('readonly')).get('key'));
+        if (existing) return existing as CryptoKey;
+
+        const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+        await idbRequest((await this.store('readwrite')).put(key, 'key'));
+        return key;
+      })();
+    }
+    return this.key;
+  }
+
+  async load(): Promise<PortalSession | null> {
+    try {
+      const record = await idbRequest((await this.store('readonly')).get('session'));
+      if (!record) return null;
+
+      const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: record.iv }, await this.getKey(), record.data);
+      return JSON.parse(new TextDecoder().decode(decrypted));
+    } catch (error) {
+      // Key lost or record corrupt - treat as signed out
+      console.error('Failed to read stored session:', error);
+      return null;
+    }
+  }
+
+  async save(session: PortalSession) {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      await this.getKey(),
+      new TextEncoder().encode(JSON.stringify(session))
+    );
+    await idbRequest((await this.store('readwrite')).put({ iv, data }, 'session'));
+  }
+
+  async clear() {
+    await idbRequest((await this.store('readwrite')).delete('session'));
+  }
+
+  // Just an EMR id - not worth encrypting
+  async loadSelectedProvider(): Promise<string | null> {
+    try {
+      return (await idbRequest((await this.store('readonly')).get('selectedProvider'))) ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  async saveSelectedProvider(providerId: string) {
+    await idbRequest((await this.store('readwrite')).put(providerId, 'selectedProvider'));
+  }
+}
+
+/**
+ * Backend from NEXT_PUBLIC_SESSION_BACKEND, else encrypted IndexedDB where the
+ * browser supports it, else sessionStorage
+ */
+export function createSessionBackend(
+  kind = process.env.NEXT_PUBLIC_SESSION_BACKEND as SessionBackendKind | undefined
+): SessionBackend {
+  const hasIndexedDB = typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && !!crypto.subtle;
+
+  switch (kind || (hasIndexedDB ? 'indexedDB' : 'sessionStorage')) {
+    case 'memory':
+      return new MemorySessionBackend();
+    case 'indexedDB':
+      if (hasIndexedDB) return new EncryptedIndexedDBBackend();
+      console.warn('IndexedDB/WebCrypto unavailable - session falls back to sessionStorage');
+      return new SessionStorageBackend();
+    default:
+      return new SessionStorageBackend();
+  }
+}
+
+export function isSessionActive(session: PortalSession | null): session is PortalSession {
+  return !!session && (session.expiresAt === null || Date.now() < session.expiresAt);
+}
+
+/**
+ * fhirUser claim from an id_token, if there is one
+ */
+export function fhirUserFromIdToken(idToken?: string | null): string | null {
+  if (!idToken) return null;
+  const claims = parseJWT(idToken);
+  return claims?.fhirUser || claims?.fhir_user || null;
+}
+
+export function parseScopes(scope?: string | null): string[] {
+  return scope ? scope.split(/\s+/).filter(Boolean) : [];
+}
+
+/**
+ * Build a session from what SMARTAuthClient stored after a callback or refresh.
+ * Returns null when the SDK holds no access token.
+ */
+export async function sessionFromSdkStorage(
+  providerId: string,
+  scope?: string | null,
+  storage: TokenStorage = new LocalStorageTokenStorage()
+): Promise<SessionAccount | null> {
+  if (!await storage.getAccessToken()) return null;
+
+  return {
+    providerId,
+    patientId: await storage.getPatientId(),
+    expiresAt: await storage.getTokenExpiry(),
+    scopes: parseScopes(scope),
+    fhirUser: fhirUserFromIdToken(await storage.getIdToken()),
+  };
+}
+
+export class SessionStore {
+  private session: PortalSession | null = null;
+  private selectedProvider: string | null = null;
+  private listeners = new Set<(session: PortalSession | null) => void>();
+  private channel: BroadcastChannel | null = null;
+
+  constructor(private backend: SessionBackend) {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<SessionMessage>) => this.handleMessage(event.data);
+    }
+  }
+
+  getSnapshot(): PortalSession | null {
+    return this.session;
+  }
+
+  subscribe(listener: (session: PortalSession | null) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * The EMR last chosen at login or launch
+   */
+  getSelectedProvider(): string | null {
+    return this.selectedProvider;
+  }
+
+  async selectProvider(providerId: string): Promise<void> {
+    this.selectedProvider = providerId;
+    await this.backend.saveSelectedProvider(providerId);
+  }
+
+  /**
+   * Load the stored session, or ask another open tab for theirs
+   */
+  async init(): Promise<PortalSession | null> {
+    this.selectedProvider = await this.backend.loadSelectedProvider() ?? await this.migrateLegacyProvider();
+
+    const stored = await this.backend.load();
+    if (stored) {
+      this.apply(stored);
+      return stored;
+    }
+    if (!this.channel) return null;
+
+    return new Promise(resolve => {
+      const unsubscribe = this.subscribe(session => {
+        clearTimeout(timeout);
+        unsubscribe();
+        resolve(session);
+      });
+      const timeout = setTimeout(() => {
+        unsubscribe();
+        resolve(this.session);
+      }, SYNC_TIMEOUT_MS);
+      this.post({ type: 'sync-request' });
+    });
+  }
+
+  async set(session: PortalSession): Promise<void> {
+    this.apply(session);
+    await this.backend.save(session);
+    this.post({ type: 'set', session });
+  }
+
+  async update(changes: Partial<PortalSession>): Promise<void> {
+    if (!this.session) return;
+    await this.set({ ...this.session, ...changes });
+  }
+
+  /**
+   * Run `refresh` and store what it returns, one tab at a time. A tab that
+   * waited on another's refresh sees the expiry it broadcast and skips its
+   * own unless the session still ends before `neededUntil`. Returns whether
+   * the session now lasts that long.
+   */
+  async refreshExclusively(neededUntil: number, refresh: () => Promise<Partial<PortalSession>>): Promise<boolean> {
+    const run = async () => {
+      if (!this.session) return false;
+      if (this.session.expiresAt === null || this.session.expiresAt <= neededUntil) {
+        await this.update(await refresh());
+      }
+      return true;
+    };
+    if (typeof navigator === 'undefined' || !navigator.locks) return run();
+    return navigator.locks.request(REFRESH_LOCK_NAME, run);
+  }
+
+  async clear(): Promise<void> {
+    this.apply(null);
+    await this.backend.clear();
+    this.post({ type: 'clear' });
+  }
+
+  private async migrateLegacyProvider(): Promise<string | null> {
+    if (typeof localStorage === 'undefined') return null;
+    const providerId = localStorage.getItem(LEGACY_PROVIDER_KEY);
+    localStorage.removeItem(LEGACY_PROVIDER_KEY);
+    if (providerId) await this.backend.saveSelectedProvider(providerId);
+    return providerId;
+  }
+
+  private apply(session: PortalSession | null) {
+    this.session = session;
+    this.listeners.forEach(listener => listener(session));
+  }
+
+  private post(message: SessionMessage) {
+    this.channel?.postMessage(message);
+  }
+
+  // Messages from other tabs: apply and persist locally, never re-broadcast
+  private async handleMessage(message: SessionMessage) {
+    switch (message.type) {
+      case 'set':
+        this.apply(message.session);
+        await this.backend.save(message.session);
+        break;
+      case 'clear':
+        this.apply(null);
+        await this.backend.clear();
+        break;
+      case 'sync-request':
+        if (this.session) this.post({ type: 'set', session: this.session });
+        break;
+    }
+  }
+}
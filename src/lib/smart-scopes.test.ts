@@ -0,0 +1,55 @@
+import { canReadResource, describeResourceAccess, scopesForResources } from './smart-scopes';
+
+const VITALS = 'Observation?category=vital-signs';
+const LABS = 'Observation?category=laboratory';
+
+describe('canReadResource', () => {
+  it('reads SMART v1 and v2 whole-type scopes', () => {
+    expect(canReadResource(['patient/Condition.read'], 'Condition')).toBe(true);
+    expect(canReadResource(['patient/Condition.rs'], 'Condition')).toBe(true);
+    expect(canReadResource(['patient/Condition.cud'], 'Condition')).toBe(false);
+    expect(canReadResource(['patient/*.read'], VITALS)).toBe(true);
+  });
+
+  it('lets a whole-type scope cover every category', () => {
+    expect(canReadResource(['patient/Observation.rs'], VITALS)).toBe(true);
+    expect(canReadResource(['patient/Observation.read'], LABS)).toBe(true);
+  });
+
+  it('keeps a category scope to its category', () => {
+    const granted = ['openid', 'patient/Observation.rs?category=laboratory'];
+    expect(canReadResource(granted, LABS)).toBe(true);
+    expect(canReadResource(granted, VITALS)).toBe(false);
+    expect(canReadResource(granted, 'Observation')).toBe(false);
+  });
+
+  it('reads system-qualified and comma-separated categories', () => {
+    const system = 'patient/Observation.rs?category=http://terminology.hl7.org/CodeSystem/observation-category|vital-signs';
+    expect(canReadResource([system], VITALS)).toBe(true);
+    expect(canReadResource([system], LABS)).toBe(false);
+    expect(canReadResource(['patient/Observation.rs?category=vital-signs,laboratory'], LABS)).toBe(true);
+  });
+});
+
+describe('scopesForResources', () => {
+  it('picks the configured scope that covers the category', () => {
+    const configured = ['patient/Observation.rs?category=vital-signs', 'patient/Observation.rs?category=laboratory'];
+    expect(scopesForResources(configured, [LABS])).toEqual(['patient/Observation.rs?category=laboratory']);
+  });
+
+  it('asks for the category in SMART v2', () => {
+    expect(scopesForResources(['patient/Condition.rs'], [VITALS, 'Procedure']))
+      .toEqual(['patient/Observation.rs?category=vital-signs', 'patient/Procedure.rs']);
+  });
+
+  it('asks for the whole type in SMART v1', () => {
+    expect(scopesForResources(['patient/Condition.read'], [VITALS])).toEqual(['patient/Observation.read']);
+  });
+});
+
+describe('describeResourceAccess', () => {
+  it('names the category', () => {
+    expect(describeResourceAccess(LABS)).toBe('Observation (laboratory)');
+    expect(describeResourceAccess('Procedure')).toBe('Procedure');
+  });
+});
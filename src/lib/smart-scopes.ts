@@ -0,0 +1,117 @@
+/**
+ * SMART Scope Helpers
+ *
+ * Works out what a granted scope string lets us read. Understands SMART v1
+ * (`patient/Observation.read`, `patient/*.read`) and v2
+ * (`patient/Observation.rs`, optionally with `?category=...`) scopes.
+ *
+ * What the portal needs is written the way a v2 scope narrows it: a resource
+ * type, or a type and category like `Observation?category=laboratory`. A
+ * category-restricted scope only covers that category, never the whole type.
+ */
+
+const RESOURCE_SCOPE = /^(patient|user|system)\/(\*|[A-Za-z]+)\.([a-z*]+)(?:\?(.*))?$/;
+
+interface ResourceScope {
+  context: string;
+  resourceType: string;
+  canRead: boolean;
+  /** v2 only - the scope covers just these categories */
+  categories?: string[];
+  /** v2 permissions (`rs`) rather than v1 (`read`) */
+  v2: boolean;
+}
+
+interface ResourceAccess {
+  resourceType: string;
+  category?: string;
+}
+
+// `category=laboratory`, `category=<system>|laboratory`, comma-separated for either of several
+function queryCategories(query: string | undefined): string[] | undefined {
+  const values = new URLSearchParams(query || '').getAll('category');
+  if (values.length === 0) return undefined;
+  return values.flatMap(value => value.split(',')).map(token => token.split('|').pop()!.trim()).filter(Boolean);
+}
+
+function parseResourceScope(scope: string): ResourceScope | null {
+  const match = scope.match(RESOURCE_SCOPE);
+  if (!match) return null;
+
+  const [, context, resourceType, permissions, query] = match;
+  const canRead = permissions === 'read' || permissions === '*' || (permissions !== 'write' && permissions.includes('r'));
+  const v2 = !['read', 'write', '*'].includes(permissions);
+  return { context, resourceType, canRead, categories: queryCategories(query), v2 };
+}
+
+function parseResourceAccess(access: string): ResourceAccess {
+  const [resourceType, query] = access.split('?');
+  return { resourceType, category: queryCategories(query)?.[0] };
+}
+
+function covers(scope: ResourceScope, { resourceType, category }: ResourceAccess, anyType = true): boolean {
+  if (!scope.canRead) return false;
+  if (scope.resourceType !== resourceType && !(anyType && scope.resourceType === '*')) return false;
+  return !scope.categories || (!!category && scope.categories.includes(category));
+}
+
+/**
+ * e.g. "Observation (laboratory)", for telling the user what's missing
+ */
+export function describeResourceAccess(access: string): string {
+  const { resourceType, category } = parseResourceAccess(access);
+  return category ? `${resourceType} (${category})` : resourceType;
+}
+
+/**
+ * Resource-level scopes (as opposed to openid, launch/patient, offline_access...)
+ */
+export function isResourceScope(scope: string): boolean {
+  return RESOURCE_SCOPE.test(scope);
+}
+
+/**
+ * Whether any granted scope allows reading `access` - a resource type,
+ * optionally with `?category=`
+ */
+export function canReadResource(grantedScopes: string[], access: string): boolean {
+  const wanted = parseResourceAccess(access);
+  return grantedScopes.some(scope => {
+    const parsed = parseResourceScope(scope);
+    return !!parsed && covers(parsed, wanted);
+  });
+}
+
+/**
+ * The scopes we'd ask for to read `accesses`: the matching ones from the
+ * provider's configured list, or else patient/X.read - patient/X.rs, with
+ * the category, when the provider's scopes are SMART v2
+ */
+export function scopesForResources(requestedScopes: string[], accesses: string[]): string[] {
+  const parsedScopes = requestedScopes.map(scope => ({ scope, parsed: parseResourceScope(scope) }));
+  const v2 = parsedScopes.some(({ parsed }) => parsed?.v2);
+  return accesses.map(access => {
+    const wanted = parseResourceAccess(access);
+    const configured = parsedScopes.find(({ parsed }) => !!parsed && covers(parsed, wanted, false));
+    if (configured) return configured.scope;
+    if (!v2) return `patient/${wanted.resourceType}.read`;
+    return `patient/${wanted.resourceType}.rs${wanted.category ? `?category=${wanted.category}` : ''}`;
+  });
+}
+
+/**
+ * Scopes to effectively treat as granted. Per RFC 6749 §5.1 an omitted
+ * `scope` in the token response means the request was granted as-is.
+ */
+export function effectiveScopes(grantedScopes: string[], requestedScopes: string[]): string[] {
+  return grantedScopes.length > 0 ? grantedScopes : requestedScopes;
+}
+
+/**
+ * Scope list for a re-authorization that adds `additional` to what was granted,
+ * keeping the non-resource scopes (openid, launch/patient, ...) from the config
+ */
+export function buildScopeRequest(requestedScopes: string[], grantedScopes: string[], additional: string[]): string[] {
+  const base = requestedScopes.filter(scope => !isResourceScope(scope));
+  return Array.from(new Set([...base, ...grantedScopes, ...additional]));
+}
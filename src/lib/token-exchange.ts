@@ -0,0 +1,225 @@
+/**
+ * Confidential Client Token Exchange (server only)
+ *
+ * Exchanges authorization codes and refresh tokens for EMRs registered as
+ * confidential clients. Client secrets and signing keys never leave the
+ * server - they're read from env per provider:
+ *
+ *   EMR_<ID>_CLIENT_SECRET   client_secret_basic / client_secret_post
+ *   EMR_<ID>_PRIVATE_KEY     private_key_jwt (PEM, RS384)
+ *   EMR_<ID>_KEY_ID          private_key_jwt (kid of the registered JWK)
+ *
+ * <ID> is the provider id upper-cased, hyphens as underscores (my-emr -> MY_EMR).
+ */
+
+import { createSign, randomUUID } from 'crypto';
+import { parseJWT } from '@nirmiteeio/fhir-sdk';
+import type { EMRConfig } from '@/app/emr-configs';
+import { discoverEMRConfigs } from '@/app/smart-discovery';
+import type { StoredEMRConfig } from '@/schemas/emrConfigSchema';
+import type { BackendSession } from './session-cookie';
+
+const CLIENT_ASSERTION_TYPE = 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+// How long a finished refresh is handed to requests still carrying the old cookie
+const ROTATED_REFRESH_GRACE_MS = 30 * 1000;
+
+interface TokenResponse {
+  access_token: string;
+  token_type?: string;
+  expires_in?: number;
+  refresh_token?: string;
+  id_token?: string;
+  scope?: string;
+  patient?: string;
+}
+
+export class TokenExchangeError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'TokenExchangeError';
+  }
+}
+
+/**
+ * Whether the server, not the browser, talks to this EMR's token endpoint
+ */
+export function isConfidentialClient(config: Pick<EMRConfig, 'tokenEndpointAuthMethod'>): boolean {
+  return Boolean(config.tokenEndpointAuthMethod && config.tokenEndpointAuthMethod !== 'none');
+}
+
+function envName(providerId: string, suffix: string): string {
+  return `EMR_${providerId.toUpperCase().replace(/-/g, '_')}_${suffix}`;
+}
+
+function requireEnv(providerId: string, suffix: string): string {
+  const name = envName(providerId, suffix);
+  const value = process.env[name];
+  if (!value) {
+    throw new TokenExchangeError(`${name} is not set`, 500);
+  }
+  // PEM keys are usually stored on one line with literal \n
+  return value.replace(/\\n/g, '\n');
+}
+
+/**
+ * Fill in a stored config's endpoints (same discovery as the browser)
+ */
+export async function resolveServerConfig(config: StoredEMRConfig): Promise<EMRConfig> {
+  const { tenants, ...input } = config;
+  const [resolved] = await discoverEMRConfigs([input]);
+  if (!resolved) {
+    throw new TokenExchangeError(`No token endpoint known for ${config.id}`, 502);
+  }
+  return resolved;
+}
+
+/**
+ * Signed JWT for private_key_jwt (SMART Backend Services profile)
+ */
+function buildClientAssertion(config: EMRConfig): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const now = Math.floor(Date.now() / 1000);
+
+  const header = { alg: 'RS384', typ: 'JWT', kid: requireEnv(config.id, 'KEY_ID') };
+  const claims = {
+    iss: config.clientId,
+    sub: config.clientId,
+    aud: config.tokenUrl,
+    exp: now + 300,
+    jti: randomUUID(),
+  };
+
+  const signingInput = `${encode(header)}.${encode(claims)}`;
+  const signature = createSign('RSA-SHA384').update(signingInput).sign(requireEnv(config.id, 'PRIVATE_KEY'));
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * POST to the token endpoint with this client's authentication
+ */
+async function requestTokens(config: EMRConfig, params: Record<string, string>): Promise<TokenResponse> {
+  const body = new URLSearchParams(params);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+
+  switch (config.tokenEndpointAuthMethod) {
+    case 'client_secret_basic': {
+      const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(requireEnv(config.id, 'CLIENT_SECRET'))}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+      break;
+    }
+    case 'client_secret_post':
+      body.set('client_id', config.clientId);
+      body.set('client_secret', requireEnv(config.id, 'CLIENT_SECRET'));
+      break;
+    case 'private_key_jwt':
+      body.set('client_id', config.clientId);
+      body.set('client_assertion_type', CLIENT_ASSERTION_TYPE);
+      body.set('client_assertion', buildClientAssertion(config));
+      break;
+    default:
+      body.set('client_id', config.clientId);
+  }
+
+  const response = await fetch(config.tokenUrl, { method: 'POST', headers, body, cache: 'no-store' });
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`❌ Token request to ${config.id} failed:`, response.status, errorText);
+    // The EMR rejected the grant - that's the caller's problem, not ours
+    throw new TokenExchangeError(`Token request failed (${response.status})`, response.status < 500 ? 401 : 502);
+  }
+  return response.json();
+}
+
+/**
+ * Same lookup as SMARTAuthClient.extractPatientId, driven by quirks.patientIdLocation
+ */
+function extractPatientId(config: EMRConfig, tokens: TokenResponse): string | undefined {
+  const location = config.quirks?.patientIdLocation || 'token.patient';
+  if (location === 'token.patient') return tokens.patient;
+  if (!location.startsWith('id_token.') || !tokens.id_token) return undefined;
+
+  const claims = parseJWT(tokens.id_token);
+  if (!claims) return undefined;
+
+  const claimPath = location.replace('id_token.', '');
+  if (claimPath === 'fhirUser') {
+    const fhirUser: string | undefined = claims.fhirUser || claims.fhir_user;
+    return fhirUser?.match(/Patient\/([^/]+)/)?.[1];
+  }
+  const value = claimPath.split('.').reduce<any>((current, part) => current?.[part], claims);
+  return value ? String(value) : undefined;
+}
+
+function toSession(config: EMRConfig, tokens: TokenResponse, previous?: BackendSession): BackendSession {
+  return {
+    providerId: config.id,
+    accessToken: tokens.access_token,
+    // Not every EMR rotates refresh tokens - keep the old one if none came back
+    refreshToken: tokens.refresh_token || previous?.refreshToken,
+    idToken: tokens.id_token || previous?.idToken,
+    expiresAt: Date.now() + (tokens.expires_in ?? 3600) * 1000,
+    patientId: extractPatientId(config, tokens) || previous?.patientId,
+    scope: tokens.scope || previous?.scope,
+  };
+}
+
+export async function exchangeCode(config: EMRConfig, code: string, codeVerifier?: string): Promise<BackendSession> {
+  const params: Record<string, string> = {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: config.redirectUri,
+  };
+  if (codeVerifier) params.code_verifier = codeVerifier;
+
+  return toSession(config, await requestTokens(config, params));
+}
+
+export async function refreshTokens(config: EMRConfig, session: BackendSession): Promise<BackendSession> {
+  if (!session.refreshToken) {
+    throw new TokenExchangeError('Session expired', 401);
+  }
+  const tokens = await requestTokens(config, {
+    grant_type: 'refresh_token',
+    refresh_token: session.refreshToken,
+  });
+  return toSession(config, tokens, session);
+}
+
+// Refreshes by the refresh token they spend. EMRs that rotate refresh tokens
+// accept each one once, and the dashboard's parallel requests all carry the
+// same cookie, so they share one refresh instead of racing each other.
+const refreshes = new Map<string, { session: Promise<BackendSession>; settledAt?: number }>();
+
+function forgetSettledRefreshes(now: number): void {
+  refreshes.forEach((entry, key) => {
+    if (entry.settledAt !== undefined && now - entry.settledAt >= ROTATED_REFRESH_GRACE_MS) {
+      refreshes.delete(key);
+    }
+  });
+}
+
+/**
+ * refreshTokens, but at most once per refresh token (per server process).
+ * Requests sent before the browser stored the new cookie get the same result.
+ */
+export function refreshSession(config: EMRConfig, session: BackendSession): Promise<BackendSession> {
+  if (!session.refreshToken) return refreshTokens(config, session);
+
+  forgetSettledRefreshes(Date.now());
+  const key = `${config.id}|${session.refreshToken}`;
+  const existing = refreshes.get(key);
+  if (existing) return existing.session;
+
+  const entry: { session: Promise<BackendSession>; settledAt?: number } = {
+    session: refreshTokens(config, session),
+  };
+  refreshes.set(key, entry);
+  entry.session.then(
+    () => { entry.settledAt = Date.now(); },
+    () => { refreshes.delete(key); }
+  );
+  return entry.session;
+}
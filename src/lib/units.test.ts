@@ -0,0 +1,148 @@
+import { UCUM_SYSTEM, canonicalUnit, convertValue, displayQuantity, formatQuantity, normalizeQuantity, ucumCode } from './units';
+
+const GLUCOSE = '2345-7';
+const CHOLESTEROL = '2093-3';
+const TRIGLYCERIDES = '2571-8';
+const CREATININE = '2160-0';
+const HEMOGLOBIN = '718-7';
+
+describe('convertValue', () => {
+  it.each([
+    ['[degF]', 'Cel', 98.6, 37],
+    ['[degF]', 'Cel', 32, 0],
+    ['K', 'Cel', 310.15, 37],
+    ['[lb_av]', 'kg', 154, 69.853],
+    ['[oz_av]', 'kg', 16, 0.454],
+    ['[in_i]', 'cm', 70, 177.8],
+    ['[ft_i]', 'cm', 6, 182.88],
+    ['kPa', 'mm[Hg]', 16, 120.01],
+  ])('converts %s to %s', (from, to, value, expected) => {
+    expect(convertValue(value, from, to)).toBeCloseTo(expected, 2);
+  });
+
+  it.each([
+    ['[degF]', 'Cel', 101.3],
+    ['[lb_av]', 'kg', 182.5],
+    ['[in_i]', 'cm', 64.25],
+  ])('round-trips %s through %s', (imperial, metric, value) => {
+    expect(convertValue(convertValue(value, imperial, metric)!, metric, imperial)).toBeCloseTo(value, 10);
+  });
+
+  it('refuses units that measure different things', () => {
+    expect(convertValue(70, '[in_i]', 'kg')).toBeUndefined();
+    expect(convertValue(70, 'furlong', 'cm')).toBeUndefined();
+  });
+
+  describe('mass and molar concentrations', () => {
+    it.each([
+      [GLUCOSE, 100, 5.55],
+      [CHOLESTEROL, 200, 5.17],
+      [TRIGLYCERIDES, 150, 1.69],
+    ])('converts mg/dL to mmol/L for %s', (analyte, mgPerDl, mmolPerL) => {
+      expect(convertValue(mgPerDl, 'mg/dL', 'mmol/L', analyte)).toBeCloseTo(mmolPerL, 2);
+      expect(convertValue(mmolPerL, 'mmol/L', 'mg/dL', analyte)).toBeCloseTo(mgPerDl, 0);
+    });
+
+    it('converts creatinine between mg/dL and µmol/L', () => {
+      expect(convertValue(1, 'mg/dL', 'umol/L', CREATININE)).toBeCloseTo(88.4, 1);
+      expect(convertValue(88.4, 'umol/L', 'mg/dL', CREATININE)).toBeCloseTo(1, 2);
+    });
+
+    it('round-trips through the analyte factor', () => {
+      const mmol = convertValue(126, 'mg/dL', 'mmol/L', GLUCOSE)!;
+      expect(convertValue(mmol, 'mmol/L', 'mg/dL', GLUCOSE)).toBeCloseTo(126, 10);
+    });
+
+    it('needs an analyte with a known molar mass', () => {
+      expect(convertValue(100, 'mg/dL', 'mmol/L')).toBeUndefined();
+      expect(convertValue(14, 'mg/dL', 'mmol/L', HEMOGLOBIN)).toBeUndefined();
+    });
+
+    it('converts within a kind without one', () => {
+      expect(convertValue(5, 'mmol/L', 'umol/L')).toBe(5000);
+      expect(convertValue(10, 'mg/L', 'mg/dL')).toBe(1);
+    });
+  });
+});
+
+describe('ucumCode', () => {
+  it('takes the UCUM code the EMR sent', () => {
+    expect(ucumCode({ system: UCUM_SYSTEM, code: '[degF]', unit: 'deg F' })).toBe('[degF]');
+  });
+
+  it('matches common spellings of the display unit', () => {
+    expect(ucumCode({ unit: '°F' })).toBe('[degF]');
+    expect(ucumCode({ unit: 'lbs' })).toBe('[lb_av]');
+    expect(ucumCode({ unit: 'mg/dl' })).toBe('mg/dL');
+    expect(ucumCode({ unit: 'µmol/L' })).toBe('umol/L');
+  });
+
+  it('reads the unit rather than a local code', () => {
+    expect(ucumCode({ system: 'http://emr.example/units', code: 'F1', unit: 'in' })).toBe('[in_i]');
+  });
+});
+
+describe('canonicalUnit', () => {
+  it('is the same for both temperature scales', () => {
+    expect(canonicalUnit('°F')).toBe('Cel');
+    expect(canonicalUnit('°C')).toBe('Cel');
+  });
+
+  it('puts mmol/L in mg/dL for a known analyte only', () => {
+    expect(canonicalUnit('mmol/L', GLUCOSE)).toBe('mg/dL');
+    expect(canonicalUnit('mmol/L')).toBe('mmol/L');
+  });
+
+  it('passes unknown units through', () => {
+    expect(canonicalUnit('cells/uL')).toBe('cells/uL');
+  });
+});
+
+describe('normalizeQuantity', () => {
+  it('converts to the canonical unit', () => {
+    const normalized = normalizeQuantity({ value: 98.6, unit: '°F' });
+    expect(normalized).toMatchObject({ unit: '°C', system: UCUM_SYSTEM, code: 'Cel' });
+    expect(normalized.value).toBeCloseTo(37, 5);
+  });
+
+  it('converts a molar concentration for its analyte', () => {
+    const normalized = normalizeQuantity({ value: 5.5, unit: 'mmol/L' }, GLUCOSE);
+    expect(normalized).toMatchObject({ unit: 'mg/dL', code: 'mg/dL' });
+    expect(normalized.value).toBeCloseTo(99.09, 2);
+  });
+
+  it('leaves unknown units alone', () => {
+    const quantity = { value: 4.2, unit: 'x10^9/L' };
+    expect(normalizeQuantity(quantity)).toBe(quantity);
+  });
+});
+
+describe('displayQuantity', () => {
+  it('shows metric values in imperial units', () => {
+    expect(displayQuantity({ value: 37, unit: 'Cel' }, 'imperial')).toEqual({ value: 98.6, unit: '°F' });
+    expect(displayQuantity({ value: 70, unit: 'kg' }, 'imperial')).toEqual({ value: 154.3, unit: 'lb' });
+    expect(displayQuantity({ value: 180, unit: 'cm' }, 'imperial')).toEqual({ value: 70.9, unit: 'in' });
+  });
+
+  it('shows imperial values in metric units', () => {
+    expect(displayQuantity({ value: 98.6, unit: '°F' }, 'metric')).toEqual({ value: 37, unit: '°C' });
+    expect(displayQuantity({ value: 154, unit: 'lb' }, 'metric')).toEqual({ value: 69.9, unit: 'kg' });
+  });
+
+  it("keeps a value already in the patient's system as written", () => {
+    expect(displayQuantity({ value: 500, unit: 'g' }, 'metric')).toEqual({ value: 500, unit: 'g' });
+    expect(displayQuantity({ value: 72, unit: 'bpm' }, 'imperial')).toEqual({ value: 72, unit: 'bpm' });
+  });
+
+  it('leaves lab concentrations in the unit the lab used', () => {
+    expect(displayQuantity({ value: 5.5, unit: 'mmol/L' }, 'imperial')).toEqual({ value: 5.5, unit: 'mmol/L' });
+  });
+});
+
+describe('formatQuantity', () => {
+  it('joins the value and unit', () => {
+    expect(formatQuantity({ value: 37, system: UCUM_SYSTEM, code: 'Cel', unit: 'Cel' }, 'imperial')).toBe('98.6 °F');
+    expect(formatQuantity({ value: 37, unit: 'Cel' }, 'metric')).toBe('37 °C');
+    expect(formatQuantity(undefined, 'metric')).toBe('');
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * UCUM Unit Conversion
+ *
+ * Normalizes a Quantity to one canonical UCUM unit per dimension before it's
+ * compared or charted, and converts canonical values to the metric or
+ * imperial unit the patient chose for display. The UCUM `code` is used when
+ * the EMR sent one; otherwise the display `unit` is matched against common
+ * spellings. Units we don't recognise pass through unchanged.
+ *
+ * Mass (mg/dL) and molar (mmol/L) concentrations only convert for a known
+ * analyte, since the factor is its molar mass - pass the LOINC code.
+ */
+
+import type { Quantity } from 'fhir/r4';
+
+export const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+interface UnitDefinition {
+  /** Canonical UCUM code for the dimension */
+  canonical: string;
+  toCanonical: (value: number) => number;
+  fromCanonical: (value: number) => number;
+}
+
+const linear = (canonical: string, factor: number): UnitDefinition => ({
+  canonical,
+  toCanonical: value => value * factor,
+  fromCanonical: value => value / factor,
+});
+
+// Canonical units are the metric ones the range table is written in
+const UNITS: Record<string, UnitDefinition> = {
+  'Cel': linear('Cel', 1),
+  '[degF]': { canonical: 'Cel', toCanonical: value => (value - 32) * 5 / 9, fromCanonical: value => value * 9 / 5 + 32 },
+  'K': { canonical: 'Cel', toCanonical: value => value - 273.15, fromCanonical: value => value + 273.15 },
+  'kg': linear('kg', 1),
+  'g': linear('kg', 0.001),
+  '[lb_av]': linear('kg', 0.45359237),
+  '[oz_av]': linear('kg', 0.028349523125),
+  'cm': linear('cm', 1),
+  'mm': linear('cm', 0.1),
+  'm': linear('cm', 100),
+  '[in_i]': linear('cm', 2.54),
+  '[ft_i]': linear('cm', 30.48),
+  'mm[Hg]': linear('mm[Hg]', 1),
+  'kPa': linear('mm[Hg]', 7.50061683),
+  '/min': linear('/min', 1),
+  '%': linear('%', 1),
+  'kg/m2': linear('kg/m2', 1),
+  'mg/dL': linear('mg/dL', 1),
+  'mg/L': linear('mg/dL', 0.1),
+  'mmol/L': linear('mmol/L', 1),
+  'umol/L': linear('mmol/L', 0.001),
+};
+
+// mg/dL in one mmol/L, by LOINC code
+const MG_DL_PER_MMOL_L: Record<string, number> = {
+  '2345-7': 18.016, // Glucose, serum
+  '2339-0': 18.016, // Glucose, blood
+  '2093-3': 38.67, // Cholesterol
+  '2085-9': 38.67, // HDL cholesterol
+  '13457-7': 38.67, // LDL cholesterol, calculated
+  '18262-6': 38.67, // LDL cholesterol, direct
+  '2571-8': 88.57, // Triglycerides
+  '2160-0': 11.312, // Creatinine
+  '3094-0': 2.801, // Urea nitrogen
+};
+
+// Display spellings EMRs send without a UCUM code
+const UNIT_ALIASES: Record<string, string> = {
+  '°c': 'Cel', 'c': 'Cel', 'cel': 'Cel', 'degc': 'Cel',
+  '°f': '[degF]', 'f': '[degF]', 'degf': '[degF]', '[degf]': '[degF]',
+  'kg': 'kg', 'kgs': 'kg', 'g': 'g',
+  'lb': '[lb_av]', 'lbs': '[lb_av]', '[lb_av]': '[lb_av]', 'oz': '[oz_av]', '[oz_av]': '[oz_av]',
+  'cm': 'cm', 'mm': 'mm', 'm': 'm', 'in': '[in_i]', '[in_i]': '[in_i]', 'ft': '[ft_i]', '[ft_i]': '[ft_i]',
+  'mmhg': 'mm[Hg]', 'mm[hg]': 'mm[Hg]', 'kpa': 'kPa',
+  'bpm': '/min', '/min': '/min', 'beats/min': '/min', '{beats}/min': '/min', 'breaths/min': '/min', '{breaths}/min': '/min',
+  '%': '%',
+  'kg/m2': 'kg/m2', 'kg/m²': 'kg/m2',
+  'mg/dl': 'mg/dL', 'mg/l': 'mg/L', 'mmol/l': 'mmol/L', 'umol/l': 'umol/L', 'µmol/l': 'umol/L', 'μmol/l': 'umol/L',
+};
+
+const DISPLAY_UNITS: Record<string, string> = {
+  'Cel': '°C',
+  '[degF]': '°F',
+  'kg': 'kg',
+  '[lb_av]': 'lb',
+  'cm': 'cm',
+  '[in_i]': 'in',
+  'mm[Hg]': 'mmHg',
+  '/min': '/min',
+  '%': '%',
+  'kg/m2': 'kg/m²',
+  'mg/dL': 'mg/dL',
+  'mmol/L': 'mmol/L',
+  'umol/L': 'µmol/L',
+};
+
+const IMPERIAL_UNITS: Record<string, string> = {
+  'Cel': '[degF]',
+  'kg': '[lb_av]',
+  'cm': '[in_i]',
+};
+
+const IMPERIAL_CODES = ['[degF]', '[lb_av]', '[oz_av]', '[in_i]', '[ft_i]'];
+
+/**
+ * The UCUM code for a quantity, from `system`/`code` or a known display unit
+ */
+export function ucumCode(quantity: Pick<Quantity, 'system' | 'code' | 'unit'>): string | undefined {
+  if (quantity.system === UCUM_SYSTEM && quantity.code && UNITS[quantity.code]) return quantity.code;
+  // Outside UCUM the code is local, so the display unit is the better guess
+  const spelled = (quantity.unit || quantity.code || '').trim().toLowerCase();
+  return UNIT_ALIASES[spelled] ?? (quantity.system === UCUM_SYSTEM ? quantity.code : undefined);
+}
+
+/**
+ * The first of an observation's LOINC codes that mg/dL and mmol/L convert for
+ */
+export function molarAnalyte(loincCodes: string[]): string | undefined {
+  return loincCodes.find(code => MG_DL_PER_MMOL_L[code] !== undefined);
+}
+
+// The canonical code for a unit definition, molar concentrations of a known
+// analyte going to mg/dL
+const canonicalFor = (definition: UnitDefinition, analyte?: string) =>
+  definition.canonical === 'mmol/L' && analyte && MG_DL_PER_MMOL_L[analyte] ? 'mg/dL' : definition.canonical;
+
+/**
+ * The canonical UCUM code a unit converts to - the same for °F and °C, and
+ * for mmol/L and mg/dL of a known analyte
+ */
+export function canonicalUnit(unit: string | undefined, analyte?: string): string | undefined {
+  if (!unit) return undefined;
+  const code = ucumCode({ unit });
+  return code && UNITS[code] ? canonicalFor(UNITS[code], analyte) : unit;
+}
+
+export function displayUnit(code: string | undefined, fallback = ''): string {
+  return (code && DISPLAY_UNITS[code]) || fallback;
+}
+
+/**
+ * Convert between two UCUM codes of the same dimension; undefined when
+ * either is unknown or they measure different things. Mass and molar
+ * concentrations convert when the analyte's LOINC code is given.
+ */
+export function convertValue(value: number, fromCode: string, toCode: string, analyte?: string): number | undefined {
+  if (fromCode === toCode) return value;
+  const from = UNITS[fromCode];
+  const to = UNITS[toCode];
+  if (!from || !to) return undefined;
+  if (from.canonical === to.canonical) return to.fromCanonical(from.toCanonical(value));
+
+  const mgPerMmol = analyte ? MG_DL_PER_MMOL_L[analyte] : undefined;
+  if (!mgPerMmol) return undefined;
+  if (from.canonical === 'mmol/L' && to.canonical === 'mg/dL') return to.fromCanonical(from.toCanonical(value) * mgPerMmol);
+  if (from.canonical === 'mg/dL' && to.canonical === 'mmol/L') return to.fromCanonical(from.toCanonical(value) / mgPerMmol);
+  return undefined;
+}
+
+/**
+ * The quantity in its dimension's canonical unit. Unknown units come back
+ * as they are.
+ */
+export function normalizeQuantity(quantity: Quantity, analyte?: string): Quantity {
+  const code = ucumCode(quantity);
+  if (quantity.value === undefined || !code || !UNITS[code]) return quantity;
+  const canonical = canonicalFor(UNITS[code], analyte);
+  return {
+    ...quantity,
+    value: convertValue(quantity.value, code, canonical, analyte)!,
+    unit: displayUnit(canonical, quantity.unit),
+    system: UCUM_SYSTEM,
+    code: canonical,
+  };
+}
+
+// Values as the EMR wrote them keep their precision; conversion noise
+// (36.111...) is cut to one decimal, two for small values
+const round = (value: number) => {
+  if (Math.abs(value - Number(value.toFixed(3))) < 1e-9) return value;
+  const places = Math.abs(value) < 10 ? 2 : 1;
+  return Math.round(value * 10 ** places) / 10 ** places;
+};
+
+/**
+ * A value and unit for display in the patient's preferred system. Only a
+ * value in the other system is converted, so "500 g" stays grams and "72 bpm"
+ * keeps the EMR's label.
+ */
+export function displayQuantity(quantity: Quantity | undefined, system: UnitSystem): { value?: number; unit: string } {
+  if (!quantity || quantity.value === undefined) return { value: undefined, unit: quantity?.unit || '' };
+  const code = ucumCode(quantity);
+  const definition = code ? UNITS[code] : undefined;
+  if (!code || !definition) return { value: quantity.value, unit: quantity.unit || '' };
+
+  const imperial = IMPERIAL_CODES.includes(code);
+  const target = system === 'imperial' && !imperial ? IMPERIAL_UNITS[definition.canonical]
+    : system === 'metric' && imperial ? definition.canonical
+    : undefined;
+  if (!target) {
+    // "Cel" as a display unit is a UCUM code leaking through
+    const label = quantity.unit && quantity.unit !== code ? quantity.unit : displayUnit(code, quantity.unit);
+    return { value: round(quantity.value), unit: label };
+  }
+  return { value: round(convertValue(quantity.value, code, target)!), unit: displayUnit(target) };
+}
+
+/**
+ * "98.6 °F" - empty string when there's no value
+ */
+export function formatQuantity(quantity: Quantity | undefined, system: UnitSystem): string {
+  const { value, unit } = displayQuantity(quantity, system);
+  if (value === undefined) return '';
+  return unit ? `${value} ${unit}` : String(value);
+}
@@ -0,0 +1,86 @@
+import type { Bundle, Observation } from 'fhir/r4';
+import { classifyVital, findVitalComponent, type VitalKind } from './vital-signs';
+import athenaBundle from './__fixtures__/vitals/athena.json';
+import cernerBundle from './__fixtures__/vitals/cerner.json';
+import epicBundle from './__fixtures__/vitals/epic.json';
+
+const observations = (bundle: unknown) =>
+  ((bundle as Bundle<Observation>).entry || []).map(entry => entry.resource as Observation);
+
+const kindsById = (bundle: unknown) =>
+  Object.fromEntries(observations(bundle).map(observation => [observation.id, classifyVital(observation.code)]));
+
+const bloodPressure = (bundle: unknown, id: string) => {
+  const panel = observations(bundle).find(observation => observation.id === id)!;
+  return {
+    systolic: findVitalComponent(panel, 'systolic')?.valueQuantity?.value,
+    diastolic: findVitalComponent(panel, 'diastolic')?.valueQuantity?.value,
+  };
+};
+
+describe('classifyVital', () => {
+  // LOINC alongside Epic flowsheet row ids, plus a row sent with no LOINC
+  it('classifies an Epic vitals bundle', () => {
+    expect(kindsById(epicBundle)).toEqual<Record<string, VitalKind>>({
+      'epic-bp': 'bloodPressure',
+      'epic-pulse': 'heartRate',
+      'epic-temp': 'temperature',
+      'epic-resp': 'respiratoryRate',
+      'epic-spo2': 'oxygenSaturation',
+      'epic-weight': 'weight',
+      'epic-height': 'height',
+      'epic-bmi': 'bmi',
+      'epic-pulse-ox-local': 'oxygenSaturation',
+    });
+  });
+
+  // Millennium codes first, LOINC second; blood pressure both as a panel and as separate readings
+  it('classifies a Cerner vitals bundle', () => {
+    expect(kindsById(cernerBundle)).toEqual<Record<string, VitalKind | undefined>>({
+      'cerner-bp': 'bloodPressure',
+      'cerner-systolic': 'systolic',
+      'cerner-diastolic': 'diastolic',
+      'cerner-hr': 'heartRate',
+      'cerner-temp': 'temperature',
+      'cerner-resp': 'respiratoryRate',
+      'cerner-spo2': 'oxygenSaturation',
+      'cerner-weight': 'weight',
+      'cerner-height': 'height',
+      'cerner-birth-weight': undefined,
+    });
+  });
+
+  // Local VITALS.* codes only, so everything rests on the display text
+  it('classifies an athenahealth vitals bundle', () => {
+    expect(kindsById(athenaBundle)).toEqual<Record<string, VitalKind>>({
+      'athena-bp': 'bloodPressure',
+      'athena-pulse': 'heartRate',
+      'athena-temp': 'temperature',
+      'athena-resp': 'respiratoryRate',
+      'athena-o2': 'oxygenSaturation',
+      'athena-pulse-ox': 'oxygenSaturation',
+      'athena-weight': 'weight',
+      'athena-height': 'height',
+      'athena-bmi': 'bmi',
+      'athena-head': 'headCircumference',
+    });
+  });
+
+  it('prefers LOINC over the display text', () => {
+    expect(classifyVital({ coding: [{ system: 'http://loinc.org', code: '8867-4' }], text: 'Pulse Ox' })).toBe('heartRate');
+  });
+
+  it('leaves unrelated observations alone', () => {
+    expect(classifyVital({ text: 'Temperament assessment' })).toBeUndefined();
+    expect(classifyVital({ text: 'Hemoglobin A1c' })).toBeUndefined();
+    expect(classifyVital(undefined)).toBeUndefined();
+  });
+});
+
+describe('findVitalComponent', () => {
+  it('reads systolic and diastolic from each vendor panel', () => {
+    expect(bloodPressure(epicBundle, 'epic-bp')).toEqual({ systolic: 128, diastolic: 82 });
+    expect(bloodPressure(cernerBundle, 'cerner-bp')).toEqual({ systolic: 134, diastolic: 86 });
+    expect(bloodPressure(athenaBundle, 'athena-bp')).toEqual({ systolic: 142, diastolic: 91 });
+  });
+});
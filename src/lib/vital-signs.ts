@@ -0,0 +1,90 @@
+/**
+ * Vital Sign Classification
+ *
+ * What kind of vital an Observation (or component) is, decided by LOINC code
+ * per the FHIR vital-signs profile. Display text is only a fallback for EMRs
+ * that send local codes - it varies by vendor and language, so it's matched
+ * loosely and only when no LOINC code is recognised.
+ */
+
+import type { CodeableConcept, Observation, ObservationComponent } from 'fhir/r4';
+
+const LOINC = 'http://loinc.org';
+
+export type VitalKind =
+  | 'vitalSignsPanel'
+  | 'bloodPressure'
+  | 'systolic'
+  | 'diastolic'
+  | 'heartRate'
+  | 'respiratoryRate'
+  | 'temperature'
+  | 'oxygenSaturation'
+  | 'weight'
+  | 'height'
+  | 'bmi'
+  | 'headCircumference';
+
+interface VitalDefinition {
+  /** Matches the referenceRanges table where there's an entry */
+  name: string;
+  loinc: string[];
+  /** Fallback for display text */
+  text: RegExp;
+}
+
+// Order matters for the text fallback - "systolic blood pressure" is
+// systolic, not the panel, and "body mass index" isn't a weight
+export const VITAL_SIGNS: Record<VitalKind, VitalDefinition> = {
+  vitalSignsPanel: { name: 'Vital Signs', loinc: ['85353-1'], text: /^vital signs/i },
+  systolic: { name: 'Systolic Blood Pressure', loinc: ['8480-6'], text: /systolic/i },
+  diastolic: { name: 'Diastolic Blood Pressure', loinc: ['8462-4'], text: /diastolic/i },
+  // 85354-9 is the profile's panel; 55284-4 and 35094-2 are older panels still sent by some EMRs
+  bloodPressure: { name: 'Blood Pressure', loinc: ['85354-9', '55284-4', '35094-2'], text: /blood pressure|\bbp\b/i },
+  heartRate: { name: 'Heart Rate', loinc: ['8867-4', '8889-8', '8893-0'], text: /heart rate|pulse(?! ox)/i },
+  respiratoryRate: { name: 'Respiratory Rate', loinc: ['9279-1'], text: /respirat/i },
+  temperature: { name: 'Body Temperature', loinc: ['8310-5', '8331-1', '8328-7', '8332-9', '8333-7'], text: /temperature|\btemp\b/i },
+  oxygenSaturation: { name: 'Oxygen Saturation', loinc: ['59408-5', '2708-6'], text: /oxygen saturation|spo2|o2 sat|pulse ox/i },
+  bmi: { name: 'BMI', loinc: ['39156-5'], text: /\bbmi\b|body mass index/i },
+  weight: { name: 'Weight', loinc: ['29463-7', '3141-9', '3142-7'], text: /^(?!.*birth).*weight/i },
+  height: { name: 'Height', loinc: ['8302-2', '8306-3', '8308-9'], text: /height|body length/i },
+  headCircumference: { name: 'Head Circumference', loinc: ['9843-4'], text: /head circ|occipital/i },
+};
+
+const KINDS = Object.keys(VITAL_SIGNS) as VitalKind[];
+
+export function vitalKindForCode(code: string | undefined): VitalKind | undefined {
+  return code ? KINDS.find(kind => VITAL_SIGNS[kind].loinc.includes(code)) : undefined;
+}
+
+/**
+ * The vital a code stands for - any LOINC coding wins over display text
+ */
+export function classifyVital(code: CodeableConcept | undefined): VitalKind | undefined {
+  if (!code) return undefined;
+  const codings = code.coding || [];
+
+  for (const coding of codings) {
+    if (coding.system !== LOINC) continue;
+    const kind = vitalKindForCode(coding.code);
+    if (kind) return kind;
+  }
+
+  const texts = [code.text, ...codings.map(coding => coding.display)].filter((text): text is string => !!text);
+  return KINDS.find(kind => texts.some(text => VITAL_SIGNS[kind].text.test(text)));
+}
+
+/**
+ * A panel's component of the given kind, e.g. the systolic reading of a
+ * blood pressure panel
+ */
+export function findVitalComponent(
+  observation: Pick<Observation, 'component'>,
+  kind: VitalKind
+): ObservationComponent | undefined {
+  return observation.component?.find(component => classifyVital(component.code) === kind);
+}
+
+export function vitalName(kind: VitalKind): string {
+  return VITAL_SIGNS[kind].name;
+}
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+const url = (field: string) => z.string().url(`${field} must be a valid URL`);
+
+const emrConfigSchema = z.object({
+    id: z.string().min(1, 'ID is required')
+                  .regex(/^[a-z0-9-]+$/, 'ID may only contain lowercase letters, digits and hyphens'),
+    name: z.string().min(1, 'Name is required'),
+    // Optional - filled in by SMART discovery when left out
+    authUrl: url('Auth URL').optional(),
+    tokenUrl: url('Token URL').optional(),
+    fhirBaseUrl: url('FHIR base URL'),
+    clientId: z.string().min(1, 'Client ID is required'),
+    redirectUri: url('Redirect URI'),
+    scopes: z.array(z.string().min(1)).min(1, 'At least one scope is required'),
+    oauth: z.object({
+      flow: z.enum(['authorization_code', 'client_credentials']),
+      pkce: z.boolean(),
+      responseType: z.string().optional(),
+    }),
+    // Anything but 'none' makes this a confidential client exchanged by the server
+    tokenEndpointAuthMethod: z.enum(['none', 'client_secret_basic', 'client_secret_post', 'private_key_jwt']).optional(),
+    capabilities: z.object({
+      supportedResources: z.array(z.string()).optional(),
+      supportsRefreshToken: z.boolean().optional(),
+      searchParams: z.record(z.array(z.string())).optional(),
+    }).optional(),
+    quirks: z.object({
+      customHeaders: z.record(z.string()).optional(),
+      patientIdLocation: z.string().optional(),
+      requiresDateFilter: z.record(z.boolean()).optional(),
+      acceptHeader: z.string().optional(),
+      supportsPagination: z.boolean().optional(),
+      notFoundStatusCodes: z.array(z.number().int().min(100).max(599)).optional(),
+      filterByResourceType: z.boolean().optional(),
+      tokenParsingStrategy: z.enum(['standard', 'jwt', 'custom']).optional(),
+      urlParams: z.record(z.string()).optional(),
+    }).optional(),
+  });
+
+// What the store holds: a config plus the tenant hostnames it's served to
+export const storedEMRConfigSchema = emrConfigSchema.extend({
+    tenants: z.array(z.string().min(1)).optional(),
+  });
+
+export type StoredEMRConfig = z.infer<typeof storedEMRConfigSchema>;
+
+export default emrConfigSchema;
@@ -0,0 +1,21 @@
+const path = require('path');
+
+// West of UTC, so an evening timestamp's UTC date isn't its local day -
+// code that mixes the two fails here rather than only for some users
+process.env.TZ = 'America/New_York';
+
+// Unit tests sit next to the module they cover (src/**/*.test.ts)
+/** @type {import('jest').Config} */
+module.exports = {
+  rootDir: path.resolve(__dirname, '../..'),
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/src/**/*.test.ts'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+  transform: {
+    '^.+\\.tsx?$': ['ts-jest', {
+      tsconfig: { jsx: 'react-jsx', module: 'commonjs', esModuleInterop: true, isolatedModules: true },
+    }],
+  },
+};
@@ -1,80 +1,39 @@
 import { Heart, Thermometer, Activity, Weight, Ruler, Droplet, Brain, TrendingUp, TrendingDown, Minus } from 'lucide-react';
-
-export const referenceRanges = {
-    'Blood Pressure': {
-      systolic: { low: 90, normal: 120, high: 140 },
-      diastolic: { low: 60, normal: 80, high: 90 },
-      unit: 'mmHg',
-      insights: {
-        low: 'Low blood pressure may cause dizziness or fainting. Consider increasing salt intake and staying hydrated.',
-        normal: 'Your blood pressure is within a healthy range. Maintain a balanced diet and regular exercise.',
-        high: 'High blood pressure increases risk of heart disease and stroke. Consider reducing salt intake and increasing physical activity.'
-      }
-    },
-    'Heart Rate': {
-      low: 60, normal: 80, high: 100,
-      unit: 'bpm',
-      insights: {
-        low: 'A low heart rate may indicate excellent cardiovascular fitness or an underlying condition. Consult your doctor if you experience symptoms.',
-        normal: 'Your heart rate is within a normal range. Regular aerobic exercise can help maintain a healthy heart rate.',
-        high: 'An elevated heart rate may indicate stress, physical exertion, or an underlying condition. Monitor your stress levels and consult your doctor if persistent.'
-      }
-    },
-    'Body Temperature': {
-      low: 35, normal: 37.2, high: 38,
-      unit: '°C',
-      insights: {
-        low: 'A low body temperature may indicate hypothermia. Warm up gradually and seek medical attention if symptoms persist.',
-        normal: 'Your body temperature is within a normal range. This is a good sign of overall health.',
-        high: 'An elevated temperature may indicate fever or infection. Rest, stay hydrated, and consult a doctor if it persists or is accompanied by other symptoms.'
-      }
-    },
-    'Respiratory Rate': {
-      low: 12, normal: 16, high: 20,
-      unit: 'breaths/min',
-      insights: {
-        low: 'A low respiratory rate may indicate respiratory depression. Practice deep breathing exercises and consult a doctor if accompanied by other symptoms.',
-        normal: 'Your respiratory rate is within a normal range. Regular exercise can help maintain healthy lung function.',
-        high: 'An elevated respiratory rate may indicate respiratory distress or anxiety. Practice calm breathing and seek medical attention if accompanied by difficulty breathing.'
-      }
-    },
-    'Oxygen Saturation': {
-      low: 95, normal: 98, high: 100,
-      unit: '%',
-      insights: {
-        low: 'Low oxygen saturation may indicate respiratory issues. Practice deep breathing exercises and consult a doctor if it persists.',
-        normal: 'Your oxygen saturation is within a healthy range. Regular cardiovascular exercise can help maintain good oxygen levels.',
-        high: 'Oxygen saturation is optimal. Continue with your current health practices.'
-      }
-    },
-    'Weight': {
-      unit: 'kg',
-      insights: {
-        trend: 'Monitor your weight trend. Sudden changes may indicate fluid retention or loss, or changes in diet and exercise habits.'
-      }
-    },
-    'BMI': {
-      low: 18.5, normal: 24.9, high: 29.9,
-      unit: 'kg/m²',
-      insights: {
-        low: 'A low BMI may indicate underweight. Consider consulting a nutritionist for a balanced diet plan.',
-        normal: 'Your BMI is within a healthy range. Maintain a balanced diet and regular exercise routine.',
-        high: 'An elevated BMI may indicate overweight or obesity. Consider increasing physical activity and consulting a nutritionist for dietary advice.'
-      }
-    },
+import { Observation } from 'fhir/r4';
+import { referenceRanges } from '@/components/vitals/data/referenceRanges';
+import {
+  RANGE_SOURCE_LABELS,
+  checkReferenceRange,
+  rangeText,
+  resolveReferenceRange,
+  type MeasuredValue,
+  type PatientDemographics,
+} from '@/lib/reference-ranges';
+import { displayQuantity, type UnitSystem } from '@/lib/units';
+import { VITAL_SIGNS, findVitalComponent, vitalKindForCode } from '@/lib/vital-signs';
+
+// A blood pressure component, or a bare value coded so the table can find it
+const bloodPressurePart = (observation: Observation | undefined, part: 'systolic' | 'diastolic', value: number): MeasuredValue => {
+  const component = observation && findVitalComponent(observation, part);
+  return {
+    ...component,
+    code: { coding: [{ system: 'http://loinc.org', code: VITAL_SIGNS[part].loinc[0] }] },
+    valueQuantity: component?.valueQuantity ?? { value },
   };
+};
 
 export const getVitalIcon = (code: string) => {
-  switch (code) {
-    case '8867-4': return <Heart className="h-6 w-6 text-red-500" />;
-    case '8310-5': return <Thermometer className="h-6 w-6 text-orange-500" />;
-    case '9279-1': return <Activity className="h-6 w-6 text-blue-500" />;
-    case '29463-7': return <Weight className="h-6 w-6 text-green-500" />;
-    case '8302-2': return <Ruler className="h-6 w-6 text-purple-500" />;
-    case '8480-6': 
-    case '8462-4': return <Droplet className="h-6 w-6 text-indigo-500" />;
-    case '2708-6': return <Droplet className="h-6 w-6 text-cyan-500" />;
-    case '39156-5': return <Brain className="h-6 w-6 text-pink-500" />;
+  switch (vitalKindForCode(code)) {
+    case 'heartRate': return <Heart className="h-6 w-6 text-red-500" />;
+    case 'temperature': return <Thermometer className="h-6 w-6 text-orange-500" />;
+    case 'respiratoryRate': return <Activity className="h-6 w-6 text-blue-500" />;
+    case 'weight': return <Weight className="h-6 w-6 text-green-500" />;
+    case 'height': return <Ruler className="h-6 w-6 text-purple-500" />;
+    case 'bloodPressure':
+    case 'systolic':
+    case 'diastolic': return <Droplet className="h-6 w-6 text-indigo-500" />;
+    case 'oxygenSaturation': return <Droplet className="h-6 w-6 text-cyan-500" />;
+    case 'bmi': return <Brain className="h-6 w-6 text-pink-500" />;
     default: return <Activity className="h-6 w-6 text-gray-500" />;
   }
 };
@@ -92,10 +51,8 @@ export const formatDate = (dateString: string) => {
   });
 };
 
-export const getVitalStatus = (vitalName, value) => {
-  const range = referenceRanges[vitalName];
-  if (!range) return 'unknown';
-
+// Prefers the Observation's own interpretation and range when it's passed in
+export const getVitalStatus = (vitalName, value, observation?: Observation, patient?: PatientDemographics) => {
   if (vitalName === 'Blood Pressure') {
     let systolic, diastolic;
     if (typeof value === 'string') {
@@ -107,17 +64,22 @@ export const getVitalStatus = (vitalName, value) => {
 
     if (isNaN(systolic) || isNaN(diastolic)) return 'unknown';
 
-    if (systolic < range.systolic.low || diastolic < range.diastolic.low) return 'low';
-    if (systolic > range.systolic.high || diastolic > range.diastolic.high) return 'high';
-    return 'normal';
+    const statuses = [
+      checkReferenceRange(bloodPressurePart(observation, 'systolic', systolic), patient).status,
+      checkReferenceRange(bloodPressurePart(observation, 'diastolic', diastolic), patient).status,
+    ];
+    if (statuses.includes('low')) return 'low';
+    if (statuses.includes('high')) return 'high';
+    return statuses.includes('unknown') ? 'unknown' : 'normal';
   }
 
   const numericValue = parseFloat(value);
   if (isNaN(numericValue)) return 'unknown';
-  
-  if (numericValue < range.low) return 'low';
-  if (numericValue > range.high) return 'high';
-  return 'normal';
+
+  // The Observation's own quantity carries its unit; a bare value is taken
+  // to be in the table's
+  const measured: MeasuredValue = observation?.valueQuantity ? observation : { ...observation, valueQuantity: { value: numericValue } };
+  return checkReferenceRange(measured, patient, { vitalName }).status;
 };
 
 export const getStatusColor = (status) => {
@@ -130,25 +92,31 @@ export const getStatusColor = (status) => {
 };
 
 
-  export const getReferenceRange = (vitalName) => {
-    const range = referenceRanges[vitalName];
-    if (!range) return 'N/A';
-    if (vitalName === 'Blood Pressure') {
-      return `${range.systolic.normal}/${range.diastolic.normal} ${range.unit}`;
-    }
-    return `${range.low} - ${range.high} ${range.unit}`;
-  };
+// e.g. "60 - 100 /min (General guideline)"
+export const getReferenceRange = (vitalName, observation?: Observation, patient?: PatientDemographics, system: UnitSystem = 'metric') => {
+  if (vitalName === 'Blood Pressure') {
+    const systolic = resolveReferenceRange(bloodPressurePart(observation, 'systolic', NaN), patient);
+    const diastolic = resolveReferenceRange(bloodPressurePart(observation, 'diastolic', NaN), patient);
+    if (!systolic || !diastolic) return 'N/A';
+    return `${rangeText(systolic, { withUnit: false, system })} / ${rangeText(diastolic, { system })} (${RANGE_SOURCE_LABELS[systolic.source]})`;
+  }
+  const range = resolveReferenceRange(observation || {}, patient, { vitalName });
+  if (!range) return 'N/A';
+  return `${rangeText(range, { system })} (${RANGE_SOURCE_LABELS[range.source]})`;
+};
 
 export const getInsight = (vitalName, status) => {
-  const range = referenceRanges[vitalName];
+  const range = (referenceRanges as Record<string, { insights: Record<string, string> }>)[vitalName];
   return range?.insights[status] || 'No specific insight available.';
 };
 
-export const renderVitalValue = (vital) => {
+// Entries from useVitalsData are in canonical units
+export const renderVitalValue = (vital, system: UnitSystem = 'metric') => {
   if (vital.vitalName === 'Blood Pressure') {
     return `${vital.systolic || 'N/A'}/${vital.diastolic || 'N/A'} ${vital.unit}`;
   } else {
-    return `${vital.value || 'N/A'} ${vital.unit}`;
+    const { value, unit } = displayQuantity({ value: vital.value, unit: vital.unit }, system);
+    return `${value || 'N/A'} ${unit}`;
   }
 };
 